@@ -1,3 +1,8 @@
+// S3-compatible photo storage serves presigned URLs from its own host
+const photoImageDomains = process.env.S3_ENDPOINT
+  ? [new URL(process.env.S3_ENDPOINT).hostname]
+  : [];
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   // Performance optimizations
@@ -7,7 +12,7 @@ const nextConfig = {
 
   // Image optimization
   images: {
-    domains: ["res.cloudinary.com"],
+    domains: ["res.cloudinary.com", ...photoImageDomains],
     formats: ["image/webp", "image/avif"],
     minimumCacheTTL: 31536000,
     dangerouslyAllowSVG: false,
@@ -38,6 +43,16 @@ const nextConfig = {
           },
         ],
       },
+      {
+        // Browsers must always check for a new service worker
+        source: "/sw.js",
+        headers: [
+          {
+            key: "Cache-Control",
+            value: "no-cache, no-store, must-revalidate",
+          },
+        ],
+      },
     ];
   },
 
@@ -52,6 +67,7 @@ const nextConfig = {
         "pg-native", // PostgreSQL native bindings
         "bcryptjs",
         "multer",
+        "sharp", // Native image processing for the local and S3 photo drivers
         // CRITICAL: Externalize client-only libraries completely
         { "react-toastify": "react-toastify" },
         { "react-masonry-css": "react-masonry-css" },
@@ -121,7 +137,7 @@ const nextConfig = {
     scrollRestoration: true,
     esmExternals: "loose",
     // UPDATED: Specify PostgreSQL server-only packages
-    serverComponentsExternalPackages: ["pg", "pg-native", "bcryptjs", "multer"],
+    serverComponentsExternalPackages: ["pg", "pg-native", "bcryptjs", "multer", "sharp"],
   },
 
   // 6. Transpile client-only packages properly
@@ -0,0 +1,169 @@
+// public/sw.js - Offline support: precached app shell and runtime caching of reads
+/**
+ * - Pages: network first, falling back to the last cached copy (then the home page)
+ * - /_next/static: cache first - file names are content hashed
+ * - Event, couple info and photo API reads: network first, cached copy offline
+ * - Photo thumbnails: cache first, capped at MAX_IMAGE_ENTRIES
+ *
+ * Writes are never handled here - useEvents queues them in IndexedDB and
+ * replays them when the connection is back.
+ *
+ * Web Push reminders ({ title, body, url, tag } from lib/webPush.ts) are shown
+ * as notifications; clicking one focuses an open tab or opens the url.
+ */
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `love-story-shell-${CACHE_VERSION}`;
+const STATIC_CACHE = `love-story-static-${CACHE_VERSION}`;
+const DATA_CACHE = `love-story-data-${CACHE_VERSION}`;
+const IMAGE_CACHE = `love-story-images-${CACHE_VERSION}`;
+const MAX_IMAGE_ENTRIES = 300;
+
+const APP_SHELL = [
+  '/',
+  '/events',
+  '/gallery',
+  '/manifest.json',
+  '/favicon.ico',
+  '/icon-192x192.png',
+  '/icon-512x512.png'
+];
+
+// API reads that stay available offline
+const CACHED_API_PATHS = [
+  /^\/api\/events(\/range|\/\d+)?$/,
+  /^\/api\/couple\/info$/,
+  /^\/api\/photos$/
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      // One missing page (e.g. a redirect to login) must not fail the install
+      .then((cache) => Promise.all(APP_SHELL.map((url) => cache.add(url).catch(() => undefined))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const current = [SHELL_CACHE, STATIC_CACHE, DATA_CACHE, IMAGE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('love-story-') && !current.includes(key))
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (url.hostname === 'res.cloudinary.com') {
+    event.respondWith(cacheFirst(request, IMAGE_CACHE, MAX_IMAGE_ENTRIES));
+    return;
+  }
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/'));
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request, STATIC_CACHE));
+  } else if (url.pathname === '/_next/image') {
+    event.respondWith(cacheFirst(request, IMAGE_CACHE, MAX_IMAGE_ENTRIES));
+  } else if (CACHED_API_PATHS.some((pattern) => pattern.test(url.pathname))) {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+  }
+});
+
+self.addEventListener('push', (event) => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch (error) {
+    message = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || 'Our Love Story', {
+      body: message.body || '',
+      icon: '/icon-192x192.png',
+      badge: '/icon-192x192.png',
+      tag: message.tag,
+      renotify: Boolean(message.tag),
+      data: { url: message.url || '/events' }
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const target = new URL(event.notification.data?.url || '/events', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => client.url.startsWith(self.location.origin));
+      if (open) {
+        // navigate() is only allowed on tabs this worker controls
+        return open.navigate(target)
+          .then((client) => (client || open).focus())
+          .catch(() => self.clients.openWindow(target));
+      }
+      return self.clients.openWindow(target);
+    })
+  );
+});
+
+// The browser rotated the subscription - register the new one with the server
+self.addEventListener('pushsubscriptionchange', (event) => {
+  const options = event.oldSubscription && event.oldSubscription.options;
+  if (!options) return;
+
+  event.waitUntil(
+    self.registration.pushManager.subscribe(options).then((subscription) => fetch('/api/push/subscription', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(subscription.toJSON())
+    }))
+  );
+});
+
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request) || (fallbackUrl && await cache.match(fallbackUrl));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request, cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  // Opaque cross-origin images report status 0 but are still usable
+  if (response.ok || response.type === 'opaque') {
+    await cache.put(request, response.clone());
+    if (maxEntries) trimCache(cache, maxEntries);
+  }
+  return response;
+}
+
+async function trimCache(cache, maxEntries) {
+  const keys = await cache.keys();
+  // Oldest entries first - Cache keeps insertion order
+  await Promise.all(keys.slice(0, Math.max(keys.length - maxEntries, 0)).map((key) => cache.delete(key)));
+}
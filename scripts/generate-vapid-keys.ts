@@ -0,0 +1,16 @@
+import { generateVapidKeys } from '../src/lib/webPush';
+
+/**
+ * VAPID key generator for Web Push
+ * Usage: npm run push:generate-keys, then copy the output into .env.local
+ *
+ * Generating new keys invalidates every existing push subscription -
+ * browsers have to subscribe again
+ */
+
+const { publicKey, privateKey } = generateVapidKeys();
+
+console.log('# Web Push (VAPID) keys');
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
+console.log('VAPID_SUBJECT=mailto:you@example.com');
@@ -0,0 +1,41 @@
+import { closeDatabaseConnection } from '../src/lib/database';
+import { getReminderDispatcher } from '../src/lib/reminderDispatcher';
+import { getWebhookDispatcher } from '../src/lib/webhooks';
+
+/**
+ * Standalone reminder worker
+ * Polls the event_reminders table and delivers due reminders until stopped,
+ * and retries outgoing webhooks that could not be delivered right away
+ * Usage: npm run reminders:worker (REMINDER_POLL_INTERVAL_MS overrides the 30s default,
+ * WEBHOOK_POLL_INTERVAL_MS the 15s default)
+ *
+ * Several workers may run side by side - reminders are leased per worker,
+ * so each one is delivered exactly once
+ */
+
+async function main() {
+  const intervalMs = parseInt(process.env.REMINDER_POLL_INTERVAL_MS || '30000', 10);
+  const webhookIntervalMs = parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || '15000', 10);
+  const dispatcher = getReminderDispatcher();
+  const webhookDispatcher = getWebhookDispatcher();
+
+  console.log(`⏰ Reminder worker ${dispatcher.workerId} started (polling every ${intervalMs}ms)`);
+  dispatcher.start(intervalMs);
+  webhookDispatcher.start(webhookIntervalMs);
+
+  const shutdown = async (signal: string) => {
+    console.log(`🛑 Received ${signal}, stopping reminder worker...`);
+    dispatcher.stop();
+    webhookDispatcher.stop();
+    await closeDatabaseConnection();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+}
+
+main().catch((error) => {
+  console.error('❌ Reminder worker failed to start:', error);
+  process.exit(1);
+});
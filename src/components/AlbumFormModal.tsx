@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-toastify';
+import {
+  ALBUM_DESCRIPTION_MAX_LENGTH,
+  ALBUM_TITLE_MAX_LENGTH,
+  type PhotoAlbum
+} from '../types/album';
+
+interface AlbumFormModalProps {
+  album: PhotoAlbum | null; // null creates a new album
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: (album: PhotoAlbum) => void;
+  onDeleted?: (albumId: number) => void;
+}
+
+/**
+ * Album Form Modal
+ * Creates an album or edits one - title, description and whether it is the
+ * album featured on the home page. Editing also offers deleting the album.
+ */
+export default function AlbumFormModal({ album, isOpen, onClose, onSaved, onDeleted }: AlbumFormModalProps) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [isFeatured, setIsFeatured] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setTitle(album?.title || '');
+      setDescription(album?.description || '');
+      setIsFeatured(album?.is_featured || false);
+    }
+  }, [album, isOpen]);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+    }
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || isLoading) return;
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(album ? `/api/albums/${album.id}` : '/api/albums', {
+        method: album ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: title.trim(),
+          description: description.trim() || null,
+          is_featured: isFeatured,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save album');
+      }
+
+      onSaved(data.album);
+      toast.success(album ? 'Album updated' : 'Album created 📚');
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save album');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!album || !window.confirm(`Delete the album "${album.title}"? Its photos stay in the gallery.`)) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/albums/${album.id}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) {
+        throw new Error('Failed to delete album');
+      }
+
+      onDeleted?.(album.id);
+      toast.success('Album deleted');
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete album');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">{album ? 'Edit Album' : 'New Album'}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close modal"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label htmlFor="album-title" className="block text-sm font-medium text-gray-700 mb-2">
+              Title
+            </label>
+            <input
+              id="album-title"
+              type="text"
+              required
+              value={title}
+              maxLength={ALBUM_TITLE_MAX_LENGTH}
+              onChange={(e) => setTitle(e.target.value)}
+              disabled={isLoading}
+              placeholder="Đà Lạt trip 2023"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label htmlFor="album-description" className="block text-sm font-medium text-gray-700 mb-2">
+              Description
+            </label>
+            <textarea
+              id="album-description"
+              value={description}
+              maxLength={ALBUM_DESCRIPTION_MAX_LENGTH}
+              onChange={(e) => setDescription(e.target.value)}
+              disabled={isLoading}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent resize-none"
+            />
+            <p className="text-xs text-gray-500 text-right mt-1">
+              {description.length}/{ALBUM_DESCRIPTION_MAX_LENGTH}
+            </p>
+          </div>
+
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={isFeatured}
+              onChange={(e) => setIsFeatured(e.target.checked)}
+              disabled={isLoading}
+              className="mt-1 h-4 w-4 text-pink-600 border-gray-300 rounded"
+            />
+            <span>
+              <span className="block text-sm font-medium text-gray-800">Feature on the home page</span>
+              <span className="block text-xs text-gray-500">Replaces the album featured there now</span>
+            </span>
+          </label>
+
+          <div className="flex items-center justify-between pt-4">
+            {album ? (
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={isLoading}
+                className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+              >
+                Delete album
+              </button>
+            ) : <span />}
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isLoading}
+                className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isLoading || !title.trim()}
+                className="px-6 py-2 bg-pink-500 text-white rounded-lg hover:bg-pink-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Saving...' : album ? 'Save Changes' : 'Create Album'}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import React from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import type { PhotoAlbum } from '../types/album';
+
+interface AlbumStripProps {
+  albums: PhotoAlbum[];
+  activeAlbumId?: number; // Unset while browsing all photos
+  onCreateAlbum?: () => void; // Shown to signed-in partners only
+}
+
+/**
+ * Album Strip
+ * Scrollable row of album cards above the gallery, with "All photos" first
+ */
+export default function AlbumStrip({ albums, activeAlbumId, onCreateAlbum }: AlbumStripProps) {
+  const cardClassName = (isActive: boolean) =>
+    `shrink-0 w-36 rounded-xl overflow-hidden border-2 transition-colors ${
+      isActive ? 'border-pink-500' : 'border-transparent hover:border-pink-200'
+    }`;
+
+  return (
+    <nav aria-label="Albums" className="mb-8 -mx-4 px-4 overflow-x-auto">
+      <ul className="flex gap-4 pb-2">
+        <li>
+          <Link href="/gallery" className={`block ${cardClassName(!activeAlbumId)}`}>
+            <div className="h-24 bg-gradient-to-br from-pink-100 to-purple-100 flex items-center justify-center text-3xl">
+              🖼️
+            </div>
+            <div className="p-2 bg-white">
+              <p className="text-sm font-semibold text-gray-800 truncate">All photos</p>
+            </div>
+          </Link>
+        </li>
+
+        {albums.map(album => (
+          <li key={album.id}>
+            <Link
+              href={`/gallery?album=${album.id}`}
+              className={`block ${cardClassName(album.id === activeAlbumId)}`}
+              aria-current={album.id === activeAlbumId ? 'page' : undefined}
+            >
+              <div className="relative h-24 bg-gray-100">
+                {album.cover ? (
+                  <Image
+                    src={album.cover.thumbnails?.small || album.cover.public_url}
+                    alt=""
+                    fill
+                    sizes="144px"
+                    className="object-cover"
+                  />
+                ) : (
+                  <div className="h-full flex items-center justify-center text-3xl text-gray-300">📷</div>
+                )}
+                {album.is_featured && (
+                  <span className="absolute top-1 left-1 text-xs bg-white/90 text-pink-600 rounded-full px-2 py-0.5">
+                    ★ Featured
+                  </span>
+                )}
+              </div>
+              <div className="p-2 bg-white">
+                <p className="text-sm font-semibold text-gray-800 truncate">{album.title}</p>
+                <p className="text-xs text-gray-500">
+                  {album.photo_count} {album.photo_count === 1 ? 'photo' : 'photos'}
+                </p>
+              </div>
+            </Link>
+          </li>
+        ))}
+
+        {onCreateAlbum && (
+          <li>
+            <button
+              onClick={onCreateAlbum}
+              className="w-36 h-full min-h-[8.5rem] rounded-xl border-2 border-dashed border-gray-300 text-gray-500 hover:border-pink-300 hover:text-pink-600 transition-colors text-sm font-medium"
+            >
+              + New album
+            </button>
+          </li>
+        )}
+      </ul>
+    </nav>
+  );
+}
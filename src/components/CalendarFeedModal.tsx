@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-toastify';
+import { formatDistanceToNow } from 'date-fns';
+
+interface CalendarFeedModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface FeedStatus {
+  active: boolean;
+  created_at?: string;
+  last_accessed_at?: string;
+}
+
+interface FeedUrls {
+  feed_url: string;
+  webcal_url: string;
+}
+
+/**
+ * Calendar Subscription Modal
+ * Lets the couple subscribe Google/Apple/Outlook calendars to the events feed
+ * - The secret URL is only shown right after it is generated
+ * - Regenerating invalidates every existing subscription
+ */
+export default function CalendarFeedModal({ isOpen, onClose }: CalendarFeedModalProps) {
+  const [status, setStatus] = useState<FeedStatus | null>(null);
+  const [urls, setUrls] = useState<FeedUrls | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/events/calendar-token');
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setStatus(await response.json());
+    } catch (error) {
+      console.error('Failed to load calendar feed status:', error);
+      toast.error('Could not load calendar subscription status');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setUrls(null);
+      return;
+    }
+
+    loadStatus();
+  }, [isOpen, loadStatus]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose, loadStatus]);
+
+  const handleGenerate = async () => {
+    if (isBusy) return;
+
+    if (status?.active && !window.confirm('Existing calendar subscriptions will stop updating. Continue?')) {
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const response = await fetch('/api/events/calendar-token', { method: 'POST' });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setUrls({ feed_url: data.feed_url, webcal_url: data.webcal_url });
+      setStatus({ active: true, created_at: new Date().toISOString() });
+      toast.success('Calendar link generated 📅');
+    } catch (error) {
+      console.error('Failed to generate calendar feed:', error);
+      toast.error('Failed to generate calendar link');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (isBusy || !window.confirm('Stop sharing events with subscribed calendars?')) return;
+
+    setIsBusy(true);
+    try {
+      const response = await fetch('/api/events/calendar-token', { method: 'DELETE' });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setUrls(null);
+      setStatus({ active: false });
+      toast.success('Calendar link revoked');
+    } catch (error) {
+      console.error('Failed to revoke calendar feed:', error);
+      toast.error('Failed to revoke calendar link');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCopy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success('Link copied to clipboard');
+    } catch {
+      toast.error('Copy failed - please copy the link manually');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl max-w-lg w-full p-6 space-y-5"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="calendar-feed-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 id="calendar-feed-title" className="text-xl font-semibold text-gray-800">
+            📅 Subscribe in your calendar
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close modal"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          Add this private link to Google Calendar, Apple Calendar or Outlook to see your
+          events there. Calendar apps refresh it periodically - anyone with the link can read your events.
+        </p>
+
+        {status && (
+          <div className="text-sm text-gray-500">
+            {status.active ? (
+              <>
+                <span className="text-green-600 font-medium">● Active</span>
+                {status.last_accessed_at && (
+                  <span> · last synced {formatDistanceToNow(new Date(status.last_accessed_at), { addSuffix: true })}</span>
+                )}
+              </>
+            ) : (
+              <span>No subscription link yet</span>
+            )}
+          </div>
+        )}
+
+        {urls && (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <input
+                readOnly
+                value={urls.feed_url}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-gray-50"
+                aria-label="Calendar feed URL"
+              />
+              <button
+                onClick={() => handleCopy(urls.feed_url)}
+                className="px-3 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+              >
+                Copy
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <a
+                href={urls.webcal_url}
+                className="px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 transition-colors text-sm font-medium"
+              >
+                Open in Apple Calendar / Outlook
+              </a>
+              <a
+                href={`https://calendar.google.com/calendar/r?cid=${encodeURIComponent(urls.webcal_url)}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors text-sm font-medium"
+              >
+                Add to Google Calendar
+              </a>
+            </div>
+            <p className="text-xs text-gray-500">
+              This link will not be shown again. Generate a new one if you lose it.
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2 border-t border-gray-100">
+          {status?.active && (
+            <button
+              onClick={handleRevoke}
+              disabled={isBusy}
+              className="px-4 py-2 text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors font-medium"
+            >
+              Revoke
+            </button>
+          )}
+          <button
+            onClick={handleGenerate}
+            disabled={isBusy}
+            className="px-4 py-2 bg-pink-500 text-white rounded-lg hover:bg-pink-600 disabled:opacity-50 transition-colors font-medium"
+          >
+            {isBusy ? 'Working...' : status?.active ? 'Regenerate link' : 'Generate link'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { toast } from 'react-toastify';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
 import { useDateCalculations } from './DateCalculations';
 import CountdownCard from './CountdownCard';
 
@@ -11,8 +12,14 @@ interface CoupleInfo {
   female_birthday: string;
 }
 
+interface NextMilestone {
+  title: string;
+  date: string;
+}
+
 interface CoupleInfoDisplayProps {
   coupleInfo: CoupleInfo;
+  nextMilestone?: NextMilestone | null;
   isEditable?: boolean;
   onUpdate?: (updatedInfo: CoupleInfo) => void;
 }
@@ -22,7 +29,7 @@ interface CoupleInfoDisplayProps {
  * Handles both display and editing modes with controlled state management
  * Performance: Debounced API calls prevent excessive server requests
  */
-export default function CoupleInfoDisplay({ coupleInfo, isEditable, onUpdate }: CoupleInfoDisplayProps) {
+export default function CoupleInfoDisplay({ coupleInfo, nextMilestone, isEditable, onUpdate }: CoupleInfoDisplayProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState(coupleInfo);
   const [isLoading, setIsLoading] = useState(false);
@@ -34,6 +41,12 @@ export default function CoupleInfoDisplay({ coupleInfo, isEditable, onUpdate }:
     coupleInfo.female_birthday
   );
 
+  // Next milestone date is a calendar day (yyyy-MM-dd) resolved on the server
+  const milestoneDaysUntil = useMemo(() => {
+    if (!nextMilestone) return null;
+    return Math.max(0, differenceInCalendarDays(parseISO(nextMilestone.date), new Date()));
+  }, [nextMilestone]);
+
   // Effect for birthday notifications - runs once per day maximum
   useEffect(() => {
     if (dateInfo.hasBirthdayToday) {
@@ -235,7 +248,7 @@ export default function CoupleInfoDisplay({ coupleInfo, isEditable, onUpdate }:
       </div>
 
       {/* Countdown cards grid with responsive layout */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className={`grid grid-cols-1 gap-6 ${nextMilestone ? 'md:grid-cols-2 lg:grid-cols-4' : 'md:grid-cols-3'}`}>
         <CountdownCard
           title="Days Together"
           count={dateInfo.daysInLove}
@@ -256,6 +269,15 @@ export default function CoupleInfoDisplay({ coupleInfo, isEditable, onUpdate }:
           suffix={`days until ${dateInfo.femaleBirthday.formattedDate}`}
           highlight={dateInfo.femaleBirthday.isToday || dateInfo.femaleBirthday.isTomorrow}
         />
+
+        {nextMilestone && milestoneDaysUntil !== null && (
+          <CountdownCard
+            title={nextMilestone.title}
+            count={milestoneDaysUntil}
+            suffix={`days until ${format(parseISO(nextMilestone.date), 'MMM d, yyyy')}`}
+            highlight={milestoneDaysUntil <= 1}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,282 @@
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { toast } from 'react-toastify';
+import {
+  addDays, addMonths, addWeeks, differenceInCalendarDays, eachDayOfInterval, endOfDay,
+  endOfMonth, endOfWeek, format, isSameMonth, isToday, parseISO, startOfMonth, startOfWeek
+} from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { EventDisplayUtils } from '../utils/eventUtils';
+import type { EnhancedEvent, EventOccurrence, EventRangeResponse } from '../types/event';
+
+type CalendarMode = 'month' | 'week';
+
+interface EventCalendarProps {
+  isEditable?: boolean;
+  refreshKey?: unknown; // Refetch whenever this changes (e.g. the caller's event list)
+  onSelectEvent?: (event: EnhancedEvent, occurrence: EventOccurrence) => void;
+  onReschedule?: (event: EnhancedEvent, occurrence: EventOccurrence, dayDelta: number) => Promise<boolean>;
+}
+
+interface CalendarEntry {
+  occurrence: EventOccurrence;
+  event: EnhancedEvent;
+  dayKey: string;
+}
+
+const MONTH_VIEW_LIMIT = 3;
+
+const PRIORITY_BORDERS: Record<EnhancedEvent['priority'], string> = {
+  high: 'border-l-red-500',
+  medium: 'border-l-yellow-400',
+  low: 'border-l-green-400'
+};
+
+/**
+ * Calendar day of an instant in the event's own timezone - all-day events
+ * must not slide to the neighbouring day for viewers in other timezones
+ */
+function getEventDayKey(date: string, timezone?: string): string {
+  return formatInTimeZone(new Date(date), timezone || 'UTC', 'yyyy-MM-dd');
+}
+
+/**
+ * Month/Week Calendar
+ * - Fetches only the visible range; recurring series arrive already expanded
+ * - Events are colored by category with a priority stripe
+ * - Drag an event onto another day to reschedule it (the caller decides how recurring events move)
+ */
+export default function EventCalendar({ isEditable = false, refreshKey, onSelectEvent, onReschedule }: EventCalendarProps) {
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [cursor, setCursor] = useState(() => new Date());
+  const [data, setData] = useState<EventRangeResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const draggedRef = useRef<CalendarEntry | null>(null);
+
+  const days = useMemo(() => {
+    const start = mode === 'month' ? startOfWeek(startOfMonth(cursor)) : startOfWeek(cursor);
+    const end = mode === 'month' ? endOfWeek(endOfMonth(cursor)) : endOfWeek(cursor);
+    return eachDayOfInterval({ start, end });
+  }, [mode, cursor]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const loadRange = async () => {
+      // Pad by a day so events in far-off timezones still land in edge cells
+      const params = new URLSearchParams({
+        start: addDays(days[0], -1).toISOString(),
+        end: addDays(endOfDay(days[days.length - 1]), 1).toISOString()
+      });
+
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/events/range?${params}`, { signal: controller.signal });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        setData(await response.json());
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') return;
+        console.error('Failed to load calendar range:', error);
+        toast.error('Failed to load calendar');
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+
+    loadRange();
+    return () => controller.abort();
+  }, [days, refreshKey, reloadCount]);
+
+  const entriesByDay = useMemo(() => {
+    const map = new Map<string, CalendarEntry[]>();
+    if (!data) return map;
+
+    const eventsById = new Map(data.events.map(event => [event.id, event]));
+    data.occurrences.forEach(occurrence => {
+      const event = eventsById.get(occurrence.event_id);
+      if (!event) return;
+
+      const dayKey = getEventDayKey(occurrence.date, event.timezone);
+      const entries = map.get(dayKey) || [];
+      entries.push({ occurrence, event, dayKey });
+      map.set(dayKey, entries);
+    });
+
+    // All-day events first, then by time
+    map.forEach(entries => entries.sort((a, b) =>
+      Number(b.event.is_all_day) - Number(a.event.is_all_day)
+      || new Date(a.occurrence.date).getTime() - new Date(b.occurrence.date).getTime()
+    ));
+    return map;
+  }, [data]);
+
+  const navigate = (direction: -1 | 1) => {
+    setCursor(prev => mode === 'month' ? addMonths(prev, direction) : addWeeks(prev, direction));
+  };
+
+  const canDrag = (event: EnhancedEvent) => isEditable && !!onReschedule && !event.is_virtual;
+
+  const handleDrop = useCallback(async (targetDayKey: string) => {
+    const dragged = draggedRef.current;
+    draggedRef.current = null;
+    setDropTarget(null);
+    if (!dragged || !onReschedule) return;
+
+    const dayDelta = differenceInCalendarDays(parseISO(targetDayKey), parseISO(dragged.dayKey));
+    if (dayDelta === 0) return;
+
+    if (await onReschedule(dragged.event, dragged.occurrence, dayDelta)) {
+      setReloadCount(count => count + 1);
+    }
+  }, [onReschedule]);
+
+  const renderEntry = (entry: CalendarEntry) => {
+    const { event, occurrence } = entry;
+    const category = EventDisplayUtils.getCategoryDisplay(event.category);
+    const draggable = canDrag(event);
+    const title = occurrence.title || event.title;
+    const location = occurrence.location || event.location;
+
+    return (
+      <button
+        key={occurrence.id}
+        type="button"
+        draggable={draggable}
+        onDragStart={(e) => {
+          draggedRef.current = entry;
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', occurrence.id);
+        }}
+        onDragEnd={() => {
+          draggedRef.current = null;
+          setDropTarget(null);
+        }}
+        onClick={() => onSelectEvent?.(event, occurrence)}
+        className={`w-full text-left truncate rounded px-1.5 py-0.5 text-xs border-l-4 ${PRIORITY_BORDERS[event.priority]} ${category.color} ${draggable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'}`}
+        title={`${title}${location ? ` · ${location}` : ''}`}
+      >
+        {!event.is_all_day && (
+          <span className="font-medium mr-1">{formatInTimeZone(new Date(occurrence.date), event.timezone || 'UTC', 'HH:mm')}</span>
+        )}
+        {category.icon} {title}
+        {event.is_recurring && (occurrence.is_exception ? ' ✎' : ' 🔄')}
+      </button>
+    );
+  };
+
+  const title = mode === 'month'
+    ? format(cursor, 'MMMM yyyy')
+    : `${format(days[0], 'MMM d')} - ${format(days[days.length - 1], 'MMM d, yyyy')}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            aria-label={mode === 'month' ? 'Previous month' : 'Previous week'}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <button
+            onClick={() => setCursor(new Date())}
+            className="px-3 py-1.5 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => navigate(1)}
+            className="p-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            aria-label={mode === 'month' ? 'Next month' : 'Next week'}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+          <h3 className="text-lg font-semibold text-gray-800 ml-2">{title}</h3>
+          {isLoading && <span className="text-sm text-gray-400">Loading...</span>}
+        </div>
+
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm font-medium">
+          {(['month', 'week'] as CalendarMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1.5 transition-colors ${mode === option ? 'bg-pink-500 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+              aria-pressed={mode === option}
+            >
+              {option === 'month' ? 'Month' : 'Week'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 border-t border-l border-gray-200 rounded-lg overflow-hidden" role="grid">
+        {days.slice(0, 7).map(day => (
+          <div key={`header-${day.getDay()}`} className="border-r border-b border-gray-200 bg-gray-50 px-2 py-1 text-xs font-semibold text-gray-500 uppercase">
+            {format(day, 'EEE')}
+          </div>
+        ))}
+
+        {days.map(day => {
+          const dayKey = format(day, 'yyyy-MM-dd');
+          const entries = entriesByDay.get(dayKey) || [];
+          const visibleEntries = mode === 'month' ? entries.slice(0, MONTH_VIEW_LIMIT) : entries;
+          const hiddenCount = entries.length - visibleEntries.length;
+          const outsideMonth = mode === 'month' && !isSameMonth(day, cursor);
+
+          return (
+            <div
+              key={dayKey}
+              role="gridcell"
+              aria-label={format(day, 'EEEE, MMMM d')}
+              onDragOver={(e) => {
+                if (!draggedRef.current) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                setDropTarget(dayKey);
+              }}
+              onDragLeave={() => setDropTarget(prev => (prev === dayKey ? null : prev))}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(dayKey);
+              }}
+              className={`border-r border-b border-gray-200 p-1 space-y-1 transition-colors ${
+                mode === 'month' ? 'min-h-[100px]' : 'min-h-[320px]'
+              } ${dropTarget === dayKey ? 'bg-pink-50' : outsideMonth ? 'bg-gray-50' : 'bg-white'}`}
+            >
+              <div className={`text-xs font-medium ${
+                isToday(day)
+                  ? 'inline-flex items-center justify-center w-6 h-6 rounded-full bg-pink-500 text-white'
+                  : outsideMonth ? 'text-gray-400' : 'text-gray-700'
+              }`}>
+                {format(day, 'd')}
+              </div>
+              {visibleEntries.map(renderEntry)}
+              {hiddenCount > 0 && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setCursor(day);
+                    setMode('week');
+                  }}
+                  className="text-xs text-pink-600 hover:underline"
+                >
+                  +{hiddenCount} more
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {isEditable && onReschedule && (
+        <p className="text-xs text-gray-500">Tip: drag an event to another day to reschedule it.</p>
+      )}
+    </div>
+  );
+}
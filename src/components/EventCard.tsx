@@ -5,6 +5,8 @@ import {
   EventDisplayUtils, 
   RecurringEventCalculator 
 } from '../utils/eventUtils';
+import { buildCalendar, getEventIcsFilename } from '../utils/icalendar';
+import { describeRecurrence } from '../utils/recurrenceRule';
 import type { EnhancedEvent } from '../types/event';
 
 interface EventCardProps {
@@ -12,6 +14,8 @@ interface EventCardProps {
   onEdit?: (event: EnhancedEvent) => void;
   onDelete?: (id: number) => void;
   onDuplicate?: (event: EnhancedEvent) => void;
+  onMaterialize?: (event: EnhancedEvent) => void;
+  onViewDetails?: (event: EnhancedEvent) => void;
   isEditable?: boolean;
   showDetails?: boolean;
   size?: 'compact' | 'normal' | 'expanded';
@@ -39,6 +43,8 @@ const EventCard = memo<EventCardProps>(({
   onEdit,
   onDelete,
   onDuplicate,
+  onMaterialize,
+  onViewDetails,
   isEditable = false,
   showDetails = true,
   size = 'normal',
@@ -170,6 +176,31 @@ const EventCard = memo<EventCardProps>(({
     onDuplicate?.(event);
   }, [onDuplicate, event]);
 
+  const handleMaterialize = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    onMaterialize?.(event);
+  }, [onMaterialize, event]);
+
+  const handleViewDetails = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    onViewDetails?.(event);
+  }, [onViewDetails, event]);
+
+  // Single-event .ics download - opens "Add to calendar" in most OS calendar apps
+  const handleAddToCalendar = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+
+    const blob = new Blob([buildCalendar([event])], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getEventIcsFilename(event);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }, [event]);
+
   const toggleExpanded = useCallback(() => {
     if (showDetails) {
       setIsExpanded(prev => !prev);
@@ -185,13 +216,13 @@ const EventCard = memo<EventCardProps>(({
         toggleExpanded();
         break;
       case 'e':
-        if (e.ctrlKey && isEditable) {
+        if (e.ctrlKey && isEditable && !event.is_virtual) {
           e.preventDefault();
           onEdit?.(event);
         }
         break;
       case 'Delete':
-        if (isEditable) {
+        if (isEditable && !event.is_virtual) {
           e.preventDefault();
           handleDelete(e as any);
         }
@@ -236,50 +267,79 @@ const EventCard = memo<EventCardProps>(({
         {isEditable && (showActions || isExpanded) && (
           <div className="flex items-center space-x-1 opacity-0 transition-opacity duration-200 group-hover:opacity-100">
             <button
-              onClick={handleEdit}
-              className="p-2 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-lg transition-colors"
-              aria-label={`Edit ${event.title}`}
-              title="Edit event"
+              onClick={handleAddToCalendar}
+              className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-50 rounded-lg transition-colors"
+              aria-label={`Add ${event.title} to calendar`}
+              title="Add to calendar (.ics)"
             >
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
-                      d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                      d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
               </svg>
             </button>
+
+            {event.is_virtual ? (
+              onMaterialize && (
+                <button
+                  onClick={handleMaterialize}
+                  className="p-2 text-pink-600 hover:text-pink-800 hover:bg-pink-50 rounded-lg transition-colors"
+                  aria-label={`Save ${event.title} as an event`}
+                  title="Save as event to edit or add photos"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                  </svg>
+                </button>
+              )
+            ) : (
+              <>
+                <button
+                  onClick={handleEdit}
+                  className="p-2 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-lg transition-colors"
+                  aria-label={`Edit ${event.title}`}
+                  title="Edit event"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
+                          d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                  </svg>
+                </button>
             
-            {onDuplicate && (
-              <button
-                onClick={handleDuplicate}
-                className="p-2 text-green-600 hover:text-green-800 hover:bg-green-50 rounded-lg transition-colors"
-                aria-label={`Duplicate ${event.title}`}
-                title="Duplicate event"
-              >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
-                        d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                </svg>
-              </button>
-            )}
+                {onDuplicate && (
+                  <button
+                    onClick={handleDuplicate}
+                    className="p-2 text-green-600 hover:text-green-800 hover:bg-green-50 rounded-lg transition-colors"
+                    aria-label={`Duplicate ${event.title}`}
+                    title="Duplicate event"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
+                            d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                    </svg>
+                  </button>
+                )}
             
-            <button
-              onClick={handleDelete}
-              disabled={isDeleting}
-              className="p-2 text-red-600 hover:text-red-800 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
-              aria-label={`Delete ${event.title}`}
-              title="Delete event"
-            >
-              {isDeleting ? (
-                <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-              ) : (
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
-                        d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                </svg>
-              )}
-            </button>
+                <button
+                  onClick={handleDelete}
+                  disabled={isDeleting}
+                  className="p-2 text-red-600 hover:text-red-800 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                  aria-label={`Delete ${event.title}`}
+                  title="Delete event"
+                >
+                  {isDeleting ? (
+                    <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                  ) : (
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
+                            d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  )}
+                </button>
+              </>
+            )}
           </div>
         )}
       </div>
@@ -359,9 +419,8 @@ const EventCard = memo<EventCardProps>(({
         <div className="mt-3 pt-3 border-t border-gray-200">
           <div className="flex items-center justify-between">
             <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
-              🔄 {event.recurring_config?.frequency
-                ? event.recurring_config.frequency.charAt(0).toUpperCase() + event.recurring_config.frequency.slice(1)
-                : ''} Event
+              🔄 {event.recurring_config ? describeRecurrence(event.recurring_config) : 'Recurring Event'}
+              {RecurringEventCalculator.isLunarRecurrence(event.recurring_config) && ' · 🌙 Lunar'}
             </span>
             
             {(isExpanded || size === 'expanded') && recurringInfo?.nextOccurrence && (
@@ -373,18 +432,41 @@ const EventCard = memo<EventCardProps>(({
         </div>
       )}
 
-      {/* Reminder indicator */}
-      {event.reminder_minutes && (isExpanded || size === 'expanded') && (
-        <div className="mt-2">
-          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-            🔔 Reminder: {event.reminder_minutes < 60 
-              ? `${event.reminder_minutes}m before`
-              : `${Math.floor(event.reminder_minutes / 60)}h before`
-            }
+      {/* Auto-generated milestone indicator */}
+      {event.is_virtual && (
+        <div className="mt-3 pt-3 border-t border-gray-200">
+          <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-pink-100 text-pink-800">
+            ✨ Auto milestone
           </span>
         </div>
       )}
 
+      {/* Reminder indicator - virtual milestones only have reminder_minutes */}
+      {(isExpanded || size === 'expanded') && (event.reminders?.length || event.reminder_minutes) ? (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {(event.reminders?.length
+            ? event.reminders.map(reminder => EventDisplayUtils.formatReminder(reminder))
+            : [EventDisplayUtils.formatLeadTime(event.reminder_minutes!)]
+          ).map(label => (
+            <span key={label} className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+              🔔 {label}
+            </span>
+          ))}
+        </div>
+      ) : null}
+
+      {/* Detail view - occurrences, related events and history */}
+      {onViewDetails && !event.is_virtual && (isExpanded || size === 'expanded') && (
+        <div className="mt-3">
+          <button
+            onClick={handleViewDetails}
+            className="text-sm text-pink-600 hover:text-pink-700 hover:underline font-medium"
+          >
+            View details →
+          </button>
+        </div>
+      )}
+
       {/* Expand/collapse indicator */}
       {showDetails && (
         <div className="mt-3 pt-2 border-t border-gray-100">
@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { EventDisplayUtils } from '../utils/eventUtils';
+import type { EventConflictResolution, EventFormData, EventUpdateConflict } from '../types/event';
+
+interface EventConflictModalProps {
+  conflict: EventUpdateConflict | null;
+  onResolve: (resolution: EventConflictResolution) => void;
+}
+
+type Side = 'mine' | 'theirs';
+
+const FIELD_LABELS: Record<keyof EventFormData, string> = {
+  title: 'Title',
+  date: 'Date',
+  description: 'Description',
+  is_recurring: 'Repeats',
+  recurring_config: 'Repeat pattern',
+  category: 'Category',
+  priority: 'Priority',
+  location: 'Location',
+  reminder_minutes: 'Reminder',
+  reminders: 'Reminders',
+  is_all_day: 'All day',
+  timezone: 'Timezone'
+};
+
+/**
+ * Merge Dialog for Concurrent Edits
+ * Shown when a save hits a newer version - clashing fields are picked one by
+ * one, everything else is merged automatically
+ */
+export default function EventConflictModal({ conflict, onResolve }: EventConflictModalProps) {
+  const [picks, setPicks] = useState<Partial<Record<keyof EventFormData, Side>>>({});
+
+  useEffect(() => {
+    setPicks({});
+  }, [conflict]);
+
+  if (!conflict) return null;
+
+  const { server, conflicts, merged, their_changes: theirChanges } = conflict;
+  const mergedFields = Object.keys(merged) as (keyof EventFormData)[];
+  const formatValue = (field: keyof EventFormData, value: unknown) => EventDisplayUtils.formatFieldValue(field, value, server);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div
+        className="bg-white rounded-xl max-w-lg w-full max-h-[90vh] overflow-y-auto p-6 space-y-5"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="event-conflict-title"
+      >
+        <div>
+          <h3 id="event-conflict-title" className="text-xl font-semibold text-gray-800">
+            🔀 Someone else edited &quot;{server.title}&quot;
+          </h3>
+          <p className="mt-1 text-sm text-gray-600">
+            Your partner saved changes while you were editing. Choose which version to keep
+            for the fields you both changed.
+          </p>
+        </div>
+
+        <ul className="space-y-3">
+          {conflicts.map(({ field, mine, theirs }) => {
+            const selected = picks[field] || 'mine';
+
+            return (
+              <li key={field}>
+                <p className="text-sm font-medium text-gray-700 mb-1">{FIELD_LABELS[field]}</p>
+                <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label={FIELD_LABELS[field]}>
+                  {([['mine', 'Yours', mine], ['theirs', 'Theirs', theirs]] as [Side, string, unknown][]).map(([side, label, value]) => (
+                    <button
+                      key={side}
+                      type="button"
+                      role="radio"
+                      aria-checked={selected === side}
+                      onClick={() => setPicks(prev => ({ ...prev, [field]: side }))}
+                      className={`text-left p-3 rounded-lg border-2 transition-colors ${
+                        selected === side ? 'border-pink-500 bg-pink-50' : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      <span className="block text-xs font-semibold text-gray-500 uppercase">{label}</span>
+                      <span className="block text-sm text-gray-800 break-words">{formatValue(field, value)}</span>
+                    </button>
+                  ))}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {(mergedFields.length > 0 || theirChanges.length > 0) && (
+          <div className="text-xs text-gray-500 space-y-1 bg-gray-50 rounded-lg p-3">
+            {mergedFields.length > 0 && (
+              <p>Your other changes are kept: {mergedFields.map(field => FIELD_LABELS[field]).join(', ')}</p>
+            )}
+            {theirChanges.length > 0 && (
+              <p>Their other changes are kept: {theirChanges.map(field => FIELD_LABELS[field]).join(', ')}</p>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-3 pt-4 border-t border-gray-200">
+          <button
+            onClick={() => onResolve({ action: 'cancel' })}
+            className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+          >
+            Keep editing
+          </button>
+          <button
+            onClick={() => onResolve({ action: 'discard' })}
+            className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+          >
+            Discard mine
+          </button>
+          <button
+            onClick={() => onResolve({ action: 'merge', picks })}
+            className="px-6 py-2 bg-pink-500 text-white rounded-lg hover:bg-pink-600 transition-colors font-medium"
+          >
+            Save merged
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
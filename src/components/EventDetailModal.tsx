@@ -0,0 +1,254 @@
+import React, { useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { parseISO } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { useEventDetail } from '../hooks/useEvents';
+import { EventDisplayUtils } from '../utils/eventUtils';
+import { describeRecurrence } from '../utils/recurrenceRule';
+import EventHistoryTimeline from './EventHistoryTimeline';
+import type { EnhancedEvent } from '../types/event';
+
+interface EventDetailModalProps {
+  eventId: number | null;
+  onClose: () => void;
+  onEdit?: (event: EnhancedEvent) => void;
+  onDelete?: (id: number) => void;
+  onSelectEvent?: (eventId: number) => void; // Opens a related event in place
+  onChanged?: () => void; // The event was modified from inside the modal (e.g. reverted)
+}
+
+const RELATED_WINDOW_MS = 30 * 24 * 60 * 60 * 1000; // Mirrors the server's "nearby" window
+
+/**
+ * Event Detail Modal
+ * Event overview, upcoming occurrences, related events and the audit trail
+ */
+export default function EventDetailModal({
+  eventId,
+  onClose,
+  onEdit,
+  onDelete,
+  onSelectEvent,
+  onChanged
+}: EventDetailModalProps) {
+  const { data: session } = useSession();
+  const {
+    event,
+    loading,
+    error,
+    occurrences,
+    relatedEvents,
+    history,
+    historyTotal,
+    hasMoreHistory,
+    historyContributors,
+    historyFilters,
+    setHistoryFilters,
+    loadMoreHistory,
+    revertToVersion
+  } = useEventDetail(eventId);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [eventId, onClose]);
+
+  if (!eventId) return null;
+
+  const timezone = event?.timezone || 'UTC';
+  const category = event ? EventDisplayUtils.getCategoryDisplay(event.category) : null;
+  const priority = event ? EventDisplayUtils.getPriorityDisplay(event.priority) : null;
+
+  const formatOccurrence = (date: string) => formatInTimeZone(
+    parseISO(date),
+    timezone,
+    event?.is_all_day ? 'EEE, MMM d, yyyy' : "EEE, MMM d, yyyy 'at' h:mm a"
+  );
+
+  // Why a related event was suggested - same rules as getRelatedEvents
+  const getRelationReasons = (related: EnhancedEvent): string[] => {
+    if (!event) return [];
+    const reasons: string[] = [];
+    if (event.location && related.location?.trim().toLowerCase() === event.location.trim().toLowerCase()) {
+      reasons.push('📍 Same place');
+    }
+    if (related.category === event.category) reasons.push('Same category');
+
+    const anchor = parseISO(occurrences[0]?.date || event.date).getTime();
+    if (Math.abs(new Date(related.date).getTime() - anchor) <= RELATED_WINDOW_MS) reasons.push('Around the same time');
+    return reasons;
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="event-detail-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 rounded-t-xl">
+          <div className="flex items-center justify-between">
+            <h3 id="event-detail-title" className="text-xl font-semibold text-gray-800 truncate pr-4">
+              {event ? `${category?.icon} ${event.title}` : 'Event details'}
+            </h3>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              aria-label="Close modal"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {loading && !event && (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-pink-500"></div>
+            </div>
+          )}
+
+          {error && !event && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{error}</div>
+          )}
+
+          {event && (
+            <>
+              {/* Overview */}
+              <section className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${category?.color}`}>
+                    {category?.icon} {category?.label}
+                  </span>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${priority?.color}`}>
+                    {priority?.icon} {priority?.label}
+                  </span>
+                  {event.is_recurring && event.recurring_config && (
+                    <span className="px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                      🔄 {describeRecurrence(event.recurring_config)}
+                    </span>
+                  )}
+                </div>
+
+                <p className="text-sm text-gray-700">
+                  <span className="font-medium">📅 </span>
+                  {EventDisplayUtils.formatEventDate(event)}
+                  {!event.is_all_day && <span className="text-gray-500"> ({timezone})</span>}
+                </p>
+                {event.location && (
+                  <p className="text-sm text-gray-700"><span className="font-medium">📍 </span>{event.location}</p>
+                )}
+                {event.reminders?.map(reminder => (
+                  <p key={`${reminder.minutes_before}-${reminder.delivery_method}`} className="text-sm text-gray-700">
+                    <span className="font-medium">🔔 </span>{EventDisplayUtils.formatReminder(reminder)}
+                  </p>
+                ))}
+                {event.description && (
+                  <p className="text-sm text-gray-600 whitespace-pre-line">{event.description}</p>
+                )}
+              </section>
+
+              {/* Upcoming occurrences */}
+              {event.is_recurring && (
+                <section>
+                  <h4 className="text-sm font-semibold text-gray-800 mb-2">Upcoming</h4>
+                  {occurrences.length > 0 ? (
+                    <ul className="space-y-1">
+                      {occurrences.map(occurrence => (
+                        <li key={occurrence.id} className="flex items-center justify-between text-sm text-gray-700 bg-gray-50 rounded-lg px-3 py-2">
+                          <span>{formatOccurrence(occurrence.date)}</span>
+                          {occurrence.is_exception && (
+                            <span className="text-xs text-purple-700">✎ {occurrence.title || 'Changed'}</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-gray-500">This series has no upcoming occurrences.</p>
+                  )}
+                </section>
+              )}
+
+              {/* Related events */}
+              {relatedEvents.length > 0 && (
+                <section>
+                  <h4 className="text-sm font-semibold text-gray-800 mb-2">Related events</h4>
+                  <ul className="space-y-2">
+                    {relatedEvents.map(related => (
+                      <li key={related.id}>
+                        <button
+                          type="button"
+                          onClick={() => onSelectEvent?.(related.id)}
+                          disabled={!onSelectEvent}
+                          className="w-full text-left px-3 py-2 border border-gray-200 rounded-lg hover:border-pink-300 hover:bg-pink-50 transition-colors disabled:hover:bg-white disabled:hover:border-gray-200"
+                        >
+                          <span className="block text-sm font-medium text-gray-800">
+                            {EventDisplayUtils.getCategoryDisplay(related.category).icon} {related.title}
+                          </span>
+                          <span className="block text-xs text-gray-500">
+                            {EventDisplayUtils.formatEventDate(related, { showTime: false, showRelative: false })}
+                            {getRelationReasons(related).length > 0 && ` · ${getRelationReasons(related).join(' · ')}`}
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              {/* Audit trail - members only */}
+              {session && (
+                <EventHistoryTimeline
+                  event={event}
+                  entries={history}
+                  total={historyTotal}
+                  hasMore={hasMoreHistory}
+                  contributors={historyContributors}
+                  filters={historyFilters}
+                  onFiltersChange={setHistoryFilters}
+                  onLoadMore={loadMoreHistory}
+                  onRevert={async (historyId) => {
+                    if ((await revertToVersion(historyId)).success) onChanged?.();
+                  }}
+                />
+              )}
+            </>
+          )}
+        </div>
+
+        {event && session && (onEdit || onDelete) && (
+          <div className="flex justify-end space-x-3 px-6 py-4 border-t border-gray-200">
+            {onDelete && (
+              <button
+                onClick={() => onDelete(event.id)}
+                className="px-4 py-2 text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors font-medium"
+              >
+                Delete
+              </button>
+            )}
+            {onEdit && (
+              <button
+                onClick={() => onEdit(event)}
+                className="px-6 py-2 bg-pink-500 text-white rounded-lg hover:bg-pink-600 transition-colors font-medium"
+              >
+                Edit
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { EventDisplayUtils } from '../utils/eventUtils';
+import type {
+  EnhancedEvent,
+  EventHistoryEntry,
+  EventHistoryFilters,
+  UseEventDetailReturn
+} from '../types/event';
+
+interface EventHistoryTimelineProps {
+  event: EnhancedEvent;
+  entries: EventHistoryEntry[];
+  total: number;
+  hasMore: boolean;
+  contributors: UseEventDetailReturn['historyContributors'];
+  filters: EventHistoryFilters;
+  onFiltersChange: (filters: EventHistoryFilters) => void;
+  onLoadMore: () => void;
+  onRevert?: (historyId: number) => Promise<unknown>;
+}
+
+const HISTORY_ACTIONS: Record<EventHistoryEntry['action'], { label: string; icon: string }> = {
+  created: { label: 'Created', icon: '✨' },
+  updated: { label: 'Updated', icon: '✏️' },
+  deleted: { label: 'Deleted', icon: '🗑️' },
+  restored: { label: 'Restored', icon: '♻️' }
+};
+
+const formatFieldName = (field: string) => field.replace(/_/g, ' ');
+
+/**
+ * Event History Timeline
+ * Field-level diff of every change with who made it, plus "revert to this version"
+ */
+export default function EventHistoryTimeline({
+  event,
+  entries,
+  total,
+  hasMore,
+  contributors,
+  filters,
+  onFiltersChange,
+  onLoadMore,
+  onRevert
+}: EventHistoryTimelineProps) {
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [revertingId, setRevertingId] = useState<number | null>(null);
+
+  const hasFilters = Boolean(filters.changed_by || filters.from || filters.to);
+
+  const handleRevert = async (entry: EventHistoryEntry) => {
+    if (!onRevert) return;
+    const when = new Date(entry.changed_at).toLocaleString();
+    if (!window.confirm(`Revert "${event.title}" to how it was on ${when}?\n\nThis is saved as a new change, so it can be undone too.`)) return;
+
+    setRevertingId(entry.id);
+    try {
+      await onRevert(entry.id);
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <section>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h4 className="text-sm font-semibold text-gray-800">
+          History {total > 0 && <span className="text-gray-400 font-normal">({total})</span>}
+        </h4>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <select
+            value={filters.changed_by || ''}
+            onChange={(e) => onFiltersChange({ ...filters, changed_by: e.target.value || undefined })}
+            className="px-2 py-1 border border-gray-300 rounded-lg"
+            aria-label="Changed by"
+          >
+            <option value="">Anyone</option>
+            {contributors.map(contributor => (
+              <option key={contributor.id} value={contributor.id}>{contributor.name}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={filters.from || ''}
+            onChange={(e) => onFiltersChange({ ...filters, from: e.target.value || undefined })}
+            className="px-2 py-1 border border-gray-300 rounded-lg"
+            aria-label="Changed from"
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="date"
+            value={filters.to || ''}
+            onChange={(e) => onFiltersChange({ ...filters, to: e.target.value || undefined })}
+            className="px-2 py-1 border border-gray-300 rounded-lg"
+            aria-label="Changed until"
+          />
+          {hasFilters && (
+            <button type="button" onClick={() => onFiltersChange({})} className="text-pink-600 hover:underline">
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {entries.length > 0 ? (
+        <ol className="space-y-2">
+          {entries.map((entry, index) => {
+            const action = HISTORY_ACTIONS[entry.action];
+            const isExpanded = expandedId === entry.id;
+            const hasDiff = entry.action === 'updated' && entry.changed_fields.length > 0;
+            // The newest entry is the current state - nothing to revert to
+            const canRevert = onRevert && (entry.action === 'created' || entry.action === 'updated')
+              && (hasFilters || index > 0);
+
+            return (
+              <li key={entry.id} className="text-sm border-l-2 border-pink-200 pl-3">
+                <div className="flex items-start justify-between gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    disabled={!hasDiff}
+                    aria-expanded={hasDiff ? isExpanded : undefined}
+                    className="text-left text-gray-700 disabled:cursor-default"
+                  >
+                    {action.icon} <span className="font-medium">{action.label}</span>
+                    {hasDiff && <> {entry.changed_fields.map(formatFieldName).join(', ')}</>}
+                    {hasDiff && <span className="text-gray-400"> {isExpanded ? '▴' : '▾'}</span>}
+                  </button>
+                  {canRevert && (
+                    <button
+                      type="button"
+                      onClick={() => handleRevert(entry)}
+                      disabled={revertingId !== null}
+                      className="shrink-0 text-xs text-pink-600 hover:underline disabled:opacity-50"
+                    >
+                      {revertingId === entry.id ? 'Reverting...' : 'Revert to this version'}
+                    </button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {entry.changed_by_name || 'Someone'} ·{' '}
+                  <time dateTime={entry.changed_at} title={new Date(entry.changed_at).toLocaleString()}>
+                    {formatDistanceToNow(parseISO(entry.changed_at), { addSuffix: true })}
+                  </time>
+                </p>
+
+                {isExpanded && hasDiff && (
+                  <dl className="mt-2 space-y-1 text-xs bg-gray-50 rounded-lg p-2">
+                    {entry.changed_fields.map(field => (
+                      <div key={field} className="grid grid-cols-[7rem_1fr] gap-2">
+                        <dt className="text-gray-500 capitalize">{formatFieldName(field)}</dt>
+                        <dd className="min-w-0 break-words">
+                          <span className="text-red-600 line-through">
+                            {EventDisplayUtils.formatFieldValue(field, entry.old_values?.[field], event)}
+                          </span>
+                          {' → '}
+                          <span className="text-green-700">
+                            {EventDisplayUtils.formatFieldValue(field, entry.new_values?.[field], event)}
+                          </span>
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      ) : (
+        <p className="text-sm text-gray-500">
+          {hasFilters ? 'No changes match these filters.' : 'No changes recorded yet.'}
+        </p>
+      )}
+
+      {hasMore && (
+        <button
+          type="button"
+          onClick={onLoadMore}
+          className="mt-3 text-sm text-pink-600 hover:underline"
+        >
+          Show older changes
+        </button>
+      )}
+    </section>
+  );
+}
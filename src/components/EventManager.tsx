@@ -1,14 +1,30 @@
 // components/EventManager.tsx - COMPLETELY FIXED enterprise-grade event management
 import React, { useState, useCallback, useMemo, useRef, useEffect, useReducer } from 'react';
 import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/router';
 import { toast } from 'react-toastify';
 import EventCard from './EventCard';
+import EventDetailModal from './EventDetailModal';
+import TrashModal from './TrashModal';
+import EventConflictModal from './EventConflictModal';
+import EventCalendar from './EventCalendar';
+import CalendarFeedModal from './CalendarFeedModal';
+import IcsImportModal from './IcsImportModal';
+import MilestoneSettingsModal from './MilestoneSettingsModal';
+import WebhooksModal from './WebhooksModal';
+import OccurrenceScopeModal from './OccurrenceScopeModal';
+import PushNotificationToggle from './PushNotificationToggle';
+import RecurrenceRuleFields from './RecurrenceRuleFields';
+import EventReminderFields from './EventReminderFields';
 import { useEvents } from '../hooks/useEvents';
-import { EventDisplayUtils } from '../utils/eventUtils';
+import { formatInTimeZone } from 'date-fns-tz';
+import { EventDisplayUtils, EventValidator, RecurringEventCalculator } from '../utils/eventUtils';
 import type {
   EnhancedEvent,
   EventFormData,
   EventFilters,
+  EventOccurrence,
+  OccurrenceEditScope,
   RecurringEventConfig
 } from '../types/event';
 
@@ -53,7 +69,7 @@ const createDefaultFormData = (initialData?: Partial<EventFormData>): EventFormD
   is_all_day: initialData?.is_all_day || false,
   timezone: initialData?.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
   location: initialData?.location || '',
-  reminder_minutes: initialData?.reminder_minutes || undefined,
+  reminders: initialData?.reminders || [],
   recurring_config: initialData?.recurring_config || undefined,
 });
 
@@ -239,6 +255,21 @@ const validateEventForm = (
           allErrors.recurring = 'End date must be after start date';
         }
       }
+
+      // Weekday, month and position rules share the server-side checks
+      const ruleError = EventValidator.validateEventData(data)
+        .find(validationError => validationError.field === 'recurring_config');
+      if (ruleError) {
+        allErrors.recurring = ruleError.message;
+      }
+    }
+  }
+
+  // Reminder validation
+  if (data.reminders) {
+    const reminderError = EventValidator.validateReminders(data.reminders);
+    if (reminderError) {
+      allErrors.reminders = reminderError;
     }
   }
 
@@ -285,6 +316,7 @@ function debounce<T extends (...args: any[]) => any>(
 
 export default function EventManager() {
   const { data: session } = useSession();
+  const router = useRouter();
 
   const {
     events,
@@ -296,7 +328,13 @@ export default function EventManager() {
     createEvent,
     updateEvent,
     deleteEvent,
+    restoreEvent,
+    updateOccurrence,
     refreshEvents,
+    conflict,
+    resolveConflict,
+    pendingSyncCount,
+    isOnline,
     upcomingEvents,
     todayEvents
   } = useEvents();
@@ -323,8 +361,26 @@ export default function EventManager() {
   const [uiState, setUiState] = useState({
     showForm: false,
     editingEvent: null as EnhancedEvent | null,
+    // Recurring occurrence picked in the calendar, waiting for a "which occurrences?" answer
+    occurrenceAction: null as {
+      event: EnhancedEvent;
+      occurrence: EventOccurrence;
+      action: 'edit' | 'move';
+      dayDelta?: number;
+    } | null,
+    // Set when the form edits one occurrence or the rest of a series instead of the event
+    editingOccurrence: null as {
+      occurrence: EventOccurrence;
+      scope: Exclude<OccurrenceEditScope, 'all'>;
+    } | null,
     selectedView: 'grid' as 'grid' | 'list' | 'calendar',
-    showFilters: false
+    showFilters: false,
+    showCalendarFeed: false,
+    showImport: false,
+    showMilestones: false,
+    showTrash: false,
+    showWebhooks: false,
+    detailEventId: null as number | null
   });
 
   const formRef = useRef<HTMLFormElement>(null);
@@ -399,8 +455,20 @@ export default function EventManager() {
       };
 
       let result;
-      if (uiState.editingEvent) {
-        result = await updateEvent(uiState.editingEvent.id, submissionData);
+      if (uiState.editingEvent && uiState.editingOccurrence) {
+        const { occurrence, scope } = uiState.editingOccurrence;
+        // A single occurrence can only override its date and descriptive fields
+        const changes = scope === 'this'
+          ? {
+              date: submissionData.date,
+              title: submissionData.title,
+              location: submissionData.location,
+              description: submissionData.description
+            }
+          : submissionData;
+        result = await updateOccurrence(uiState.editingEvent.id, occurrence.occurrence_index, { scope, changes });
+      } else if (uiState.editingEvent) {
+        result = await updateEvent(uiState.editingEvent.id, submissionData, { baseEvent: uiState.editingEvent });
       } else {
         result = await createEvent(submissionData);
       }
@@ -410,14 +478,18 @@ export default function EventManager() {
         setUiState(prev => ({
           ...prev,
           showForm: false,
-          editingEvent: null
+          editingEvent: null,
+          editingOccurrence: null
         }));
 
-        toast.success(
-          uiState.editingEvent
-            ? 'Event updated successfully!'
-            : 'Event created successfully!'
-        );
+        // Offline saves already told the user they will sync later
+        if (!result.queued) {
+          toast.success(
+            uiState.editingEvent
+              ? 'Event updated successfully!'
+              : 'Event created successfully!'
+          );
+        }
 
         refreshEvents();
       } else {
@@ -442,7 +514,7 @@ export default function EventManager() {
     } finally {
       dispatchForm({ type: 'SUBMIT_END' });
     }
-  }, [formState.data, uiState.editingEvent, createEvent, updateEvent, refreshEvents]);
+  }, [formState.data, uiState.editingEvent, uiState.editingOccurrence, createEvent, updateEvent, updateOccurrence, refreshEvents]);
   /**
    * FIXED: Edit event handler
    */
@@ -467,7 +539,7 @@ export default function EventManager() {
         category: event.category,
         priority: event.priority,
         location: event.location || '',
-        reminder_minutes: event.reminder_minutes,
+        reminders: event.reminders || [],
         is_all_day: event.is_all_day,
         timezone: event.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone
       }
@@ -476,6 +548,44 @@ export default function EventManager() {
     setUiState(prev => ({
       ...prev,
       editingEvent: event,
+      editingOccurrence: null,
+      showForm: true
+    }));
+  }, []);
+
+  /**
+   * Opens the form for one occurrence (or the rest of the series) prefilled
+   * with that occurrence's values, in the event's own timezone
+   */
+  const handleEditOccurrence = useCallback((
+    event: EnhancedEvent,
+    occurrence: EventOccurrence,
+    scope: Exclude<OccurrenceEditScope, 'all'>
+  ) => {
+    const timezone = event.timezone || 'UTC';
+
+    dispatchForm({
+      type: 'RESET_FORM',
+      initialData: {
+        title: occurrence.title || event.title,
+        date: formatInTimeZone(new Date(occurrence.date), timezone, event.is_all_day ? 'yyyy-MM-dd' : "yyyy-MM-dd'T'HH:mm"),
+        description: occurrence.description || event.description || '',
+        is_recurring: scope === 'following',
+        recurring_config: event.recurring_config,
+        category: event.category,
+        priority: event.priority,
+        location: occurrence.location || event.location || '',
+        reminders: event.reminders || [],
+        is_all_day: event.is_all_day,
+        timezone
+      }
+    });
+
+    setUiState(prev => ({
+      ...prev,
+      editingEvent: event,
+      editingOccurrence: { occurrence, scope },
+      occurrenceAction: null,
       showForm: true
     }));
   }, []);
@@ -488,13 +598,27 @@ export default function EventManager() {
       return;
     }
 
-    const confirmMessage = `Delete "${eventToDelete.title}"?\n\nThis action cannot be undone.`;
+    const confirmMessage = `Delete "${eventToDelete.title}"?\n\nYou can restore it from the trash later.`;
     if (!window.confirm(confirmMessage)) return;
 
     try {
       const result = await deleteEvent(eventId);
+      if (result.queued) return; // Undo needs the server - the trash has it once synced
       if (result.success) {
-        toast.success('Event deleted successfully');
+        toast.success(({ closeToast }) => (
+          <div className="flex items-center justify-between gap-3">
+            <span>Event deleted</span>
+            <button
+              onClick={async () => {
+                closeToast?.();
+                if ((await restoreEvent(eventId)).success) refreshEvents();
+              }}
+              className="px-2 py-1 text-sm font-semibold text-pink-600 hover:bg-pink-50 rounded"
+            >
+              Undo
+            </button>
+          </div>
+        ));
         refreshEvents();
       } else {
         toast.error(result.error || 'Failed to delete event');
@@ -503,7 +627,147 @@ export default function EventManager() {
       console.error('Delete error:', deleteError);
       toast.error('Network error while deleting event');
     }
-  }, [events, deleteEvent, refreshEvents]);
+  }, [events, deleteEvent, restoreEvent, refreshEvents]);
+
+  // Virtual milestones are read-only until saved as a regular event
+  const handleMaterializeMilestone = useCallback(async (event: EnhancedEvent) => {
+    if (!event.milestone_key) return;
+
+    try {
+      const response = await fetch('/api/milestones/materialize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: event.milestone_key })
+      });
+
+      if (response.ok) {
+        toast.success(`"${event.title}" saved as an event 💕`);
+        refreshEvents();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || 'Failed to save milestone');
+      }
+    } catch (materializeError) {
+      console.error('Materialize error:', materializeError);
+      toast.error('Network error while saving milestone');
+    }
+  }, [refreshEvents]);
+
+  // Calendar view: drag-to-reschedule goes through the same update path as the form
+  const handleRescheduleEvent = useCallback(async (event: EnhancedEvent, occurrence: EventOccurrence, dayDelta: number) => {
+    // Recurring events ask which occurrences to move first
+    if (event.is_recurring) {
+      setUiState(prev => ({ ...prev, occurrenceAction: { event, occurrence, action: 'move', dayDelta } }));
+      return false;
+    }
+
+    const result = await updateEvent(event.id, {
+      date: RecurringEventCalculator.shiftDate(event.date, event.timezone || 'UTC', dayDelta)
+    }, { baseEvent: event });
+    if (result.success) {
+      refreshEvents();
+    }
+    return result.success;
+  }, [updateEvent, refreshEvents]);
+
+  const handleSelectCalendarEvent = useCallback((event: EnhancedEvent, occurrence: EventOccurrence) => {
+    if (event.is_virtual) {
+      toast.info('Save this milestone as an event from the grid view to edit it');
+      return;
+    }
+    if (event.is_recurring) {
+      setUiState(prev => ({ ...prev, occurrenceAction: { event, occurrence, action: 'edit' } }));
+      return;
+    }
+    handleEditEvent(event);
+  }, [handleEditEvent]);
+
+  const handleViewDetails = useCallback((event: EnhancedEvent) => {
+    setUiState(prev => ({ ...prev, detailEventId: event.id }));
+  }, []);
+
+  const closeDetails = useCallback(() => {
+    setUiState(prev => ({ ...prev, detailEventId: null }));
+  }, []);
+
+  // Deep links from reminders (/events?highlight=id) open that event
+  useEffect(() => {
+    const highlightId = parseInt(String(router.query.highlight ?? ''), 10);
+    if (!router.isReady || isNaN(highlightId)) return;
+
+    setUiState(prev => ({ ...prev, detailEventId: highlightId }));
+    const query = { ...router.query };
+    delete query.highlight;
+    router.replace({ pathname: router.pathname, query }, undefined, { shallow: true });
+  }, [router]);
+
+  const closeOccurrenceAction = useCallback(() => {
+    setUiState(prev => ({ ...prev, occurrenceAction: null }));
+  }, []);
+
+  // Applies the scope picked in OccurrenceScopeModal to the pending edit or move
+  const handleOccurrenceScope = useCallback(async (scope: OccurrenceEditScope) => {
+    const pending = uiState.occurrenceAction;
+    if (!pending) return;
+
+    const { event, occurrence, action, dayDelta = 0 } = pending;
+    const timezone = event.timezone || 'UTC';
+    closeOccurrenceAction();
+
+    if (action === 'edit') {
+      if (scope === 'all') {
+        handleEditEvent(event);
+      } else {
+        handleEditOccurrence(event, occurrence, scope);
+      }
+      return;
+    }
+
+    let result;
+    if (scope === 'all') {
+      result = await updateEvent(
+        event.id,
+        { date: RecurringEventCalculator.shiftDate(event.date, timezone, dayDelta) },
+        { baseEvent: event }
+      );
+    } else {
+      // "This" moves the occurrence from where it is now; "following" moves the rest of the series from its slot
+      const from = scope === 'this' ? occurrence.date : (occurrence.original_date || occurrence.date);
+      result = await updateOccurrence(event.id, occurrence.occurrence_index, {
+        scope,
+        changes: { date: RecurringEventCalculator.shiftDate(from, timezone, dayDelta) }
+      });
+    }
+
+    if (result.success) {
+      toast.success('Event moved');
+      refreshEvents();
+    }
+  }, [uiState.occurrenceAction, closeOccurrenceAction, handleEditEvent, handleEditOccurrence, updateEvent, updateOccurrence, refreshEvents]);
+
+  const handleSkipOccurrence = useCallback(async () => {
+    const pending = uiState.occurrenceAction;
+    if (!pending) return;
+    closeOccurrenceAction();
+
+    const result = await updateOccurrence(pending.event.id, pending.occurrence.occurrence_index, { scope: 'this', cancelled: true });
+    if (result.success) {
+      toast.success('Occurrence skipped');
+      refreshEvents();
+    }
+  }, [uiState.occurrenceAction, closeOccurrenceAction, updateOccurrence, refreshEvents]);
+
+  const handleRestoreOccurrence = useCallback(async () => {
+    const pending = uiState.occurrenceAction;
+    if (!pending) return;
+    closeOccurrenceAction();
+
+    const result = await updateOccurrence(pending.event.id, pending.occurrence.occurrence_index, null);
+    if (result.success) {
+      toast.success('Occurrence restored');
+      refreshEvents();
+    }
+  }, [uiState.occurrenceAction, closeOccurrenceAction, updateOccurrence, refreshEvents]);
 
   // Search handler
   const handleSearchChange = useCallback((searchTerm: string) => {
@@ -634,6 +898,20 @@ export default function EventManager() {
                 <span>🔄 Recurring: {stats.recurring_events}</span>
               </div>
             )}
+            <div className="mt-3 inline-flex rounded-lg border border-gray-300 overflow-hidden text-sm font-medium">
+              {(['grid', 'calendar'] as const).map(view => (
+                <button
+                  key={view}
+                  onClick={() => setUiState(prev => ({ ...prev, selectedView: view }))}
+                  className={`px-3 py-1.5 transition-colors ${
+                    uiState.selectedView === view ? 'bg-pink-500 text-white' : 'text-gray-600 hover:bg-gray-50'
+                  }`}
+                  aria-pressed={uiState.selectedView === view}
+                >
+                  {view === 'grid' ? '▦ Grid' : '📆 Calendar'}
+                </button>
+              ))}
+            </div>
           </div>
 
           {session && (
@@ -645,10 +923,47 @@ export default function EventManager() {
                 {uiState.showFilters ? 'Hide Filters' : 'Show Filters'}
               </button>
 
+              <button
+                onClick={() => setUiState(prev => ({ ...prev, showImport: true }))}
+                className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+              >
+                Import
+              </button>
+
+              <button
+                onClick={() => setUiState(prev => ({ ...prev, showMilestones: true }))}
+                className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+              >
+                Milestones
+              </button>
+
+              <button
+                onClick={() => setUiState(prev => ({ ...prev, showTrash: true }))}
+                className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+              >
+                Trash
+              </button>
+
+              <button
+                onClick={() => setUiState(prev => ({ ...prev, showCalendarFeed: true }))}
+                className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+              >
+                Subscribe
+              </button>
+
+              <button
+                onClick={() => setUiState(prev => ({ ...prev, showWebhooks: true }))}
+                className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+              >
+                Webhooks
+              </button>
+
+              <PushNotificationToggle />
+
               <button
                 onClick={() => {
                   dispatchForm({ type: 'RESET_FORM' });
-                  setUiState(prev => ({ ...prev, showForm: true, editingEvent: null }));
+                  setUiState(prev => ({ ...prev, showForm: true, editingEvent: null, editingOccurrence: null }));
                 }}
                 className="px-6 py-2 bg-pink-500 text-white rounded-lg hover:bg-pink-600 transition-colors font-medium"
               >
@@ -747,6 +1062,8 @@ export default function EventManager() {
                 event={event}
                 onEdit={session ? handleEditEvent : undefined}
                 onDelete={session ? handleDeleteEvent : undefined}
+                onMaterialize={session ? handleMaterializeMilestone : undefined}
+                onViewDetails={handleViewDetails}
                 isEditable={!!session}
                 size="compact"
               />
@@ -755,50 +1072,76 @@ export default function EventManager() {
         </div>
       )}
 
-      {/* Events Grid */}
-      <div className="bg-white rounded-xl p-6 shadow-sm">
-        {filteredAndSortedEvents.length > 0 ? (
-          <div
-            ref={scrollContainerRef}
-            className={virtualScrollData.shouldVirtualize ? 'max-h-[600px] overflow-y-auto' : ''}
-          >
+      {/* Events Grid / Calendar */}
+      {uiState.selectedView === 'calendar' ? (
+        <div className="bg-white rounded-xl p-6 shadow-sm">
+          <EventCalendar
+            isEditable={!!session}
+            refreshKey={events}
+            onSelectEvent={session
+              ? handleSelectCalendarEvent
+              : (event) => !event.is_virtual && handleViewDetails(event)}
+            onReschedule={session ? handleRescheduleEvent : undefined}
+          />
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl p-6 shadow-sm">
+          {filteredAndSortedEvents.length > 0 ? (
             <div
-              className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"
-              style={virtualScrollData.shouldVirtualize ? { height: virtualScrollData.totalHeight } : undefined}
+              ref={scrollContainerRef}
+              className={virtualScrollData.shouldVirtualize ? 'max-h-[600px] overflow-y-auto' : ''}
             >
-              {virtualScrollData.virtualizedEvents.map(event => (
-                <EventCard
-                  key={event.id}
-                  event={event}
-                  onEdit={session ? handleEditEvent : undefined}
-                  onDelete={session ? handleDeleteEvent : undefined}
-                  isEditable={!!session}
-                  showDetails={true}
-                />
-              ))}
+              <div
+                className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"
+                style={virtualScrollData.shouldVirtualize ? { height: virtualScrollData.totalHeight } : undefined}
+              >
+                {virtualScrollData.virtualizedEvents.map(event => (
+                  <EventCard
+                    key={event.id}
+                    event={event}
+                    onEdit={session ? handleEditEvent : undefined}
+                    onDelete={session ? handleDeleteEvent : undefined}
+                    onMaterialize={session ? handleMaterializeMilestone : undefined}
+                    onViewDetails={handleViewDetails}
+                    isEditable={!!session}
+                    showDetails={true}
+                  />
+                ))}
+              </div>
             </div>
-          </div>
-        ) : (
-          <div className="text-center py-12">
-            <div className="text-6xl mb-4">📅</div>
-            <h3 className="text-xl font-medium text-gray-700 mb-2">
-              {filters.search_term || filters.category || filters.priority
-                ? 'No events match your filters'
-                : 'No events yet'
-              }
-            </h3>
-            <p className="text-gray-500 mb-6">
-              {filters.search_term || filters.category || filters.priority
-                ? 'Try adjusting your filters to see more events'
-                : 'Start creating beautiful memories by adding your first event'
-              }
-            </p>
-            {!session && (
-              <p className="text-sm text-gray-400">Sign in to create and manage events</p>
-            )}
-          </div>
-        )}
-      </div>
+          ) : (
+            <div className="text-center py-12">
+              <div className="text-6xl mb-4">📅</div>
+              <h3 className="text-xl font-medium text-gray-700 mb-2">
+                {filters.search_term || filters.category || filters.priority
+                  ? 'No events match your filters'
+                  : 'No events yet'
+                }
+              </h3>
+              <p className="text-gray-500 mb-6">
+                {filters.search_term || filters.category || filters.priority
+                  ? 'Try adjusting your filters to see more events'
+                  : 'Start creating beautiful memories by adding your first event'
+                }
+              </p>
+              {!session && (
+                <p className="text-sm text-gray-400">Sign in to create and manage events</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Offline status */}
+      {(!isOnline || pendingSyncCount > 0) && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 text-sm text-amber-800" role="status">
+          {isOnline
+            ? `🔄 Syncing ${pendingSyncCount} offline change${pendingSyncCount === 1 ? '' : 's'}...`
+            : `📴 You're offline - showing saved events.${pendingSyncCount > 0
+              ? ` ${pendingSyncCount} change${pendingSyncCount === 1 ? '' : 's'} will sync when you reconnect.`
+              : ''}`}
+        </div>
+      )}
 
       {/* Error Display */}
       {error && (
@@ -819,6 +1162,65 @@ export default function EventManager() {
         </div>
       )}
 
+      <CalendarFeedModal
+        isOpen={uiState.showCalendarFeed && !!session}
+        onClose={() => setUiState(prev => ({ ...prev, showCalendarFeed: false }))}
+      />
+
+      <WebhooksModal
+        isOpen={uiState.showWebhooks && !!session}
+        onClose={() => setUiState(prev => ({ ...prev, showWebhooks: false }))}
+      />
+
+      <IcsImportModal
+        isOpen={uiState.showImport && !!session}
+        onClose={() => setUiState(prev => ({ ...prev, showImport: false }))}
+        onImported={() => refreshEvents()}
+      />
+
+      <MilestoneSettingsModal
+        isOpen={uiState.showMilestones && !!session}
+        onClose={() => setUiState(prev => ({ ...prev, showMilestones: false }))}
+        onChanged={() => refreshEvents()}
+      />
+
+      <EventConflictModal conflict={conflict} onResolve={resolveConflict} />
+
+      <TrashModal
+        isOpen={uiState.showTrash && !!session}
+        onClose={() => setUiState(prev => ({ ...prev, showTrash: false }))}
+        onRestore={async (eventId) => {
+          const result = await restoreEvent(eventId);
+          if (result.success) refreshEvents();
+          return result;
+        }}
+      />
+
+      <EventDetailModal
+        eventId={uiState.detailEventId}
+        onClose={closeDetails}
+        onSelectEvent={(eventId) => setUiState(prev => ({ ...prev, detailEventId: eventId }))}
+        onChanged={() => refreshEvents()}
+        onEdit={session ? (event) => {
+          closeDetails();
+          handleEditEvent(event);
+        } : undefined}
+        onDelete={session ? (eventId) => {
+          closeDetails();
+          handleDeleteEvent(eventId);
+        } : undefined}
+      />
+
+      <OccurrenceScopeModal
+        event={session ? uiState.occurrenceAction?.event ?? null : null}
+        occurrence={uiState.occurrenceAction?.occurrence ?? null}
+        action={uiState.occurrenceAction?.action ?? 'edit'}
+        onChoose={handleOccurrenceScope}
+        onSkip={handleSkipOccurrence}
+        onRestore={handleRestoreOccurrence}
+        onClose={closeOccurrenceAction}
+      />
+
       {/* COMPLETELY FIXED: Event Creation/Edit Modal */}
       {uiState.showForm && session && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -826,11 +1228,13 @@ export default function EventManager() {
             <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 rounded-t-xl">
               <div className="flex items-center justify-between">
                 <h3 className="text-xl font-semibold text-gray-800">
-                  {uiState.editingEvent ? 'Edit Event' : 'Create New Event'}
+                  {uiState.editingOccurrence
+                    ? uiState.editingOccurrence.scope === 'this' ? 'Edit This Occurrence' : 'Edit This and Following'
+                    : uiState.editingEvent ? 'Edit Event' : 'Create New Event'}
                 </h3>
                 <button
                   onClick={() => {
-                    setUiState(prev => ({ ...prev, showForm: false, editingEvent: null }));
+                    setUiState(prev => ({ ...prev, showForm: false, editingEvent: null, editingOccurrence: null }));
                     dispatchForm({ type: 'RESET_FORM' });
                   }}
                   className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
@@ -923,8 +1327,8 @@ export default function EventManager() {
                 </div>
               </div>
 
-              {/* Category, Priority, and Reminder */}
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {/* Category and Priority */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-2">
                     Category
@@ -961,27 +1365,17 @@ export default function EventManager() {
                   </select>
                 </div>
 
-                <div>
-                  <label htmlFor="reminder" className="block text-sm font-medium text-gray-700 mb-2">
-                    Reminder
-                  </label>
-                  <select
-                    id="reminder"
-                    name="reminder"
-                    value={formState.data.reminder_minutes || ''}
-                    onChange={(e) => handleFieldChange('reminder_minutes', e.target.value ? parseInt(e.target.value) : undefined)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
-                  >
-                    <option value="">No reminder</option>
-                    <option value={15}>15 minutes before</option>
-                    <option value={30}>30 minutes before</option>
-                    <option value={60}>1 hour before</option>
-                    <option value={1440}>1 day before</option>
-                    <option value={10080}>1 week before</option>
-                  </select>
-                </div>
               </div>
 
+              {/* Reminders - not per occurrence, so hidden when editing a single one */}
+              {uiState.editingOccurrence?.scope !== 'this' && (
+                <EventReminderFields
+                  reminders={formState.data.reminders || []}
+                  onChange={(reminders) => handleFieldChange('reminders', reminders)}
+                  error={formState.validation.errors.reminders}
+                />
+              )}
+
               {/* Location */}
               <div>
                 <label htmlFor="location" className="block text-sm font-medium text-gray-700 mb-2">
@@ -1104,7 +1498,15 @@ export default function EventManager() {
                         value={formState.data.recurring_config?.frequency || 'yearly'}
                         onChange={(e) => updateRecurringConfig({
                           frequency: e.target.value as any,
-                          interval: formState.data.recurring_config?.interval || 1
+                          interval: formState.data.recurring_config?.interval || 1,
+                          // Weekday and month rules mean different things per frequency
+                          days_of_week: undefined,
+                          day_of_month: undefined,
+                          by_day: undefined,
+                          by_month: undefined,
+                          by_month_day: undefined,
+                          by_set_pos: undefined,
+                          ...((e.target.value === 'daily' || e.target.value === 'weekly') && { calendar_system: undefined })
                         })}
                         className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
                       >
@@ -1137,6 +1539,50 @@ export default function EventManager() {
                     </div>
                   </div>
 
+                  {(formState.data.recurring_config?.frequency === 'monthly' ||
+                    formState.data.recurring_config?.frequency === 'yearly') && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Calendar
+                      </label>
+                      <select
+                        value={formState.data.recurring_config?.calendar_system || 'solar'}
+                        onChange={(e) => updateRecurringConfig({
+                          calendar_system: e.target.value as RecurringEventConfig['calendar_system'],
+                          // Lunar dates cannot be combined with weekday or month rules
+                          ...(e.target.value === 'lunar' && {
+                            day_of_month: undefined,
+                            by_day: undefined,
+                            by_month: undefined,
+                            by_month_day: undefined,
+                            by_set_pos: undefined
+                          })
+                        })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                      >
+                        <option value="solar">Solar (Gregorian)</option>
+                        <option value="lunar">Lunar (Âm lịch)</option>
+                      </select>
+                      {formState.data.recurring_config?.calendar_system === 'lunar' && formState.data.date && (
+                        <p className="mt-1 text-xs text-gray-500">
+                          Repeats on {EventDisplayUtils.formatLunarDate(
+                            new Date(formState.data.date),
+                            formState.data.timezone
+                          )} each {formState.data.recurring_config.frequency === 'monthly' ? 'lunar month' : 'lunar year'}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {formState.data.recurring_config
+                    && !RecurringEventCalculator.isLunarRecurrence(formState.data.recurring_config) && (
+                    <RecurrenceRuleFields
+                      config={formState.data.recurring_config}
+                      startDate={formState.data.date}
+                      onChange={updateRecurringConfig}
+                    />
+                  )}
+
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -1202,7 +1648,7 @@ export default function EventManager() {
                 <button
                   type="button"
                   onClick={() => {
-                    setUiState(prev => ({ ...prev, showForm: false, editingEvent: null }));
+                    setUiState(prev => ({ ...prev, showForm: false, editingEvent: null, editingOccurrence: null }));
                     dispatchForm({ type: 'RESET_FORM' });
                   }}
                   className="px-6 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
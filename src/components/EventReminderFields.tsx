@@ -0,0 +1,114 @@
+import React from 'react';
+import { EventDisplayUtils, EventValidator } from '../utils/eventUtils';
+import type { EventReminderSetting } from '../types/event';
+
+interface EventReminderFieldsProps {
+  reminders: EventReminderSetting[];
+  onChange: (reminders: EventReminderSetting[]) => void;
+  error?: string;
+}
+
+const LEAD_TIME_OPTIONS = [0, 5, 15, 30, 60, 120, 1440, 2880, 10080];
+
+const DELIVERY_OPTIONS: { value: EventReminderSetting['delivery_method']; label: string }[] = [
+  { value: 'browser', label: 'In the app' },
+  { value: 'push', label: 'Push' },
+  { value: 'email', label: 'Email' }
+];
+
+const TYPE_OPTIONS: { value: EventReminderSetting['reminder_type']; label: string }[] = [
+  { value: 'standard', label: 'Standard' },
+  { value: 'urgent', label: 'Urgent' },
+  { value: 'gentle', label: 'Gentle' }
+];
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent';
+
+/**
+ * Reminder List Editor
+ * One row per reminder - how long before, which channel and how insistent.
+ * A new row picks the next lead time not in use yet
+ */
+export default function EventReminderFields({ reminders, onChange, error }: EventReminderFieldsProps) {
+  const updateReminder = (index: number, changes: Partial<EventReminderSetting>) => {
+    onChange(reminders.map((reminder, i) => (i === index ? { ...reminder, ...changes } : reminder)));
+  };
+
+  const addReminder = () => {
+    const usedLeadTimes = new Set(reminders.map(reminder => reminder.minutes_before));
+    const minutesBefore = [60, 1440, 10080, 15, 30, 120, 2880, 5, 0]
+      .find(minutes => !usedLeadTimes.has(minutes)) ?? 60;
+    onChange([...reminders, { minutes_before: minutesBefore, delivery_method: 'browser', reminder_type: 'standard' }]);
+  };
+
+  return (
+    <fieldset className="space-y-3">
+      <legend className="block text-sm font-medium text-gray-700 mb-2">Reminders</legend>
+
+      {reminders.length === 0 && (
+        <p className="text-sm text-gray-500">No reminders for this event.</p>
+      )}
+
+      {reminders.map((reminder, index) => {
+        const leadTimeOptions = LEAD_TIME_OPTIONS.includes(reminder.minutes_before)
+          ? LEAD_TIME_OPTIONS
+          : [...LEAD_TIME_OPTIONS, reminder.minutes_before].sort((a, b) => a - b);
+
+        return (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <select
+              aria-label={`Reminder ${index + 1} time`}
+              value={reminder.minutes_before}
+              onChange={(e) => updateReminder(index, { minutes_before: parseInt(e.target.value, 10) })}
+              className={inputClassName}
+            >
+              {leadTimeOptions.map(minutes => (
+                <option key={minutes} value={minutes}>{EventDisplayUtils.formatLeadTime(minutes)}</option>
+              ))}
+            </select>
+            <select
+              aria-label={`Reminder ${index + 1} channel`}
+              value={reminder.delivery_method}
+              onChange={(e) => updateReminder(index, { delivery_method: e.target.value as EventReminderSetting['delivery_method'] })}
+              className={inputClassName}
+            >
+              {DELIVERY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              aria-label={`Reminder ${index + 1} type`}
+              value={reminder.reminder_type}
+              onChange={(e) => updateReminder(index, { reminder_type: e.target.value as EventReminderSetting['reminder_type'] })}
+              className={inputClassName}
+            >
+              {TYPE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onChange(reminders.filter((_, i) => i !== index))}
+              className="px-2 py-1 text-sm text-gray-500 hover:text-red-600"
+              aria-label={`Remove reminder ${index + 1}`}
+            >
+              Remove
+            </button>
+          </div>
+        );
+      })}
+
+      {reminders.length < EventValidator.MAX_REMINDERS && (
+        <button
+          type="button"
+          onClick={addReminder}
+          className="text-sm text-pink-600 hover:text-pink-700 font-medium"
+        >
+          + Add reminder
+        </button>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </fieldset>
+  );
+}
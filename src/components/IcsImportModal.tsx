@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { toast } from 'react-toastify';
+import { formatInTimeZone } from 'date-fns-tz';
+import { EventDisplayUtils } from '../utils/eventUtils';
+import { describeRecurrence } from '../utils/recurrenceRule';
+import type { EventImportItem, EventImportResponse } from '../types/event';
+
+interface IcsImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (count: number) => void;
+}
+
+const MAX_FILE_SIZE = 2 * 1024 * 1024; // Matches the API body limit
+
+const STATUS_BADGES: Record<EventImportItem['status'], { label: string; color: string }> = {
+  ready: { label: 'Ready', color: 'bg-green-100 text-green-700' },
+  duplicate: { label: 'Duplicate', color: 'bg-yellow-100 text-yellow-700' },
+  invalid: { label: 'Invalid', color: 'bg-red-100 text-red-700' }
+};
+
+/**
+ * iCalendar Import Dialog
+ * 1. Pick an .ics export from Google/Apple/Outlook
+ * 2. Preview every VEVENT with validation, duplicate and unsupported-feature notes
+ * 3. Import the selected events in a single transaction
+ */
+export default function IcsImportModal({ isOpen, onClose, onImported }: IcsImportModalProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [icsText, setIcsText] = useState<string | null>(null);
+  const [items, setItems] = useState<EventImportItem[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setFileName(null);
+      setIcsText(null);
+      setItems([]);
+      setSelected(new Set());
+    }
+  }, [isOpen]);
+
+  const requestImport = async (body: Record<string, unknown>): Promise<EventImportResponse> => {
+    const response = await fetch('/api/events/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        ...body
+      })
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP ${response.status}`);
+    }
+    return data;
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (file.size > MAX_FILE_SIZE) {
+      toast.error('File is too large (max 2MB)');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const text = await file.text();
+      const result = await requestImport({ ics: text, dry_run: true });
+
+      setFileName(file.name);
+      setIcsText(text);
+      setItems(result.items);
+      setSelected(new Set(result.items.filter(item => item.status === 'ready').map(item => item.key)));
+
+      if (result.items.length === 0) {
+        toast.info('No events found in this file');
+      }
+    } catch (error) {
+      console.error('Failed to preview import:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read calendar file');
+    } finally {
+      setIsLoading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const toggleItem = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!icsText || selected.size === 0 || isLoading) return;
+
+    setIsLoading(true);
+    try {
+      const result = await requestImport({ ics: icsText, dry_run: false, keys: Array.from(selected) });
+      const count = result.created_ids?.length || 0;
+      toast.success(`Imported ${count} event${count === 1 ? '' : 's'} 🎉`);
+      onImported(count);
+      onClose();
+    } catch (error) {
+      console.error('Failed to import events:', error);
+      toast.error(error instanceof Error ? error.message : 'Import failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const readyCount = items.filter(item => item.status === 'ready').length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div
+        className="bg-white rounded-xl max-w-3xl w-full max-h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="ics-import-title"
+      >
+        <div className="border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h3 id="ics-import-title" className="text-xl font-semibold text-gray-800">
+            Import from calendar file
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close modal"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="flex items-center gap-3">
+            <label className="px-4 py-2 bg-pink-500 text-white rounded-lg hover:bg-pink-600 transition-colors font-medium cursor-pointer">
+              {fileName ? 'Choose another file' : 'Choose .ics file'}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={handleFileChange}
+                disabled={isLoading}
+                className="hidden"
+              />
+            </label>
+            {fileName && <span className="text-sm text-gray-600 truncate">{fileName}</span>}
+            {isLoading && <span className="text-sm text-gray-500">Processing...</span>}
+          </div>
+
+          {items.length > 0 && (
+            <>
+              <p className="text-sm text-gray-600">
+                {items.length} events found · {readyCount} ready · {selected.size} selected
+              </p>
+
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {items.map(item => {
+                  const badge = STATUS_BADGES[item.status];
+                  const category = EventDisplayUtils.getCategoryDisplay(item.data.category);
+
+                  return (
+                    <li key={item.key} className="p-3 flex items-start gap-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(item.key)}
+                        disabled={item.status !== 'ready'}
+                        onChange={() => toggleItem(item.key)}
+                        className="mt-1 h-4 w-4 text-pink-600 border-gray-300 rounded"
+                        aria-label={`Import ${item.data.title || 'untitled event'}`}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-medium text-gray-800 truncate">
+                            {category.icon} {item.data.title || '(untitled)'}
+                          </span>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${badge.color}`}>
+                            {badge.label}
+                          </span>
+                          {item.data.is_recurring && (
+                            <span className="text-xs text-gray-500">
+                              🔄 {item.data.recurring_config ? describeRecurrence(item.data.recurring_config) : 'Recurring'}
+                            </span>
+                          )}
+                        </div>
+                        {item.data.date && (
+                          <p className="text-sm text-gray-500">
+                            {formatInTimeZone(
+                              new Date(item.data.date),
+                              item.data.timezone,
+                              item.data.is_all_day ? 'MMMM d, yyyy' : 'MMMM d, yyyy \'at\' h:mm a'
+                            )}
+                          </p>
+                        )}
+                        {item.validation_errors.map(error => (
+                          <p key={`${error.field}-${error.message}`} className="text-xs text-red-600">
+                            {error.message}
+                          </p>
+                        ))}
+                        {item.unsupported.length > 0 && (
+                          <p className="text-xs text-amber-600">
+                            Not imported: {item.unsupported.join(', ')}
+                          </p>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+        </div>
+
+        <div className="border-t border-gray-200 px-6 py-4 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={selected.size === 0 || isLoading}
+            className="px-6 py-2 bg-pink-500 text-white rounded-lg hover:bg-pink-600 disabled:opacity-50 transition-colors font-medium"
+          >
+            Import {selected.size > 0 ? selected.size : ''} events
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
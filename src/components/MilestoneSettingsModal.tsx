@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-toastify';
+import type { MilestoneRule, MilestoneRuleId, MilestoneSetting } from '../utils/milestones';
+
+interface MilestoneSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const REMINDER_OPTIONS = [
+  { value: 0, label: 'No reminder' },
+  { value: 60, label: '1 hour before' },
+  { value: 1440, label: '1 day before' },
+  { value: 4320, label: '3 days before' },
+  { value: 10080, label: '1 week before' }
+];
+
+/**
+ * Milestone Settings Dialog
+ * Milestones are generated from the love start date - this only toggles
+ * which rules appear in listings and when their reminders fire
+ */
+export default function MilestoneSettingsModal({ isOpen, onClose, onChanged }: MilestoneSettingsModalProps) {
+  const [rules, setRules] = useState<MilestoneRule[]>([]);
+  const [settings, setSettings] = useState<MilestoneSetting[]>([]);
+  const [savingRule, setSavingRule] = useState<MilestoneRuleId | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadSettings = async () => {
+      try {
+        const response = await fetch('/api/milestones');
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data = await response.json();
+        setRules(data.rules);
+        setSettings(data.settings);
+      } catch (error) {
+        console.error('Failed to load milestone settings:', error);
+        toast.error('Could not load milestone settings');
+      }
+    };
+
+    loadSettings();
+  }, [isOpen]);
+
+  const updateRule = async (ruleId: MilestoneRuleId, updates: Partial<Omit<MilestoneSetting, 'rule_id'>>) => {
+    setSavingRule(ruleId);
+    try {
+      const response = await fetch('/api/milestones', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rule_id: ruleId, ...updates })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      setSettings(data.settings);
+      onChanged();
+    } catch (error) {
+      console.error('Failed to update milestone rule:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update milestone');
+    } finally {
+      setSavingRule(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl max-w-lg w-full p-6 space-y-5"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="milestone-settings-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 id="milestone-settings-title" className="text-xl font-semibold text-gray-800">
+            ✨ Milestones
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close modal"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          Milestones are counted from the day your love story started and appear automatically
+          in your events. Save one as an event to edit it or attach photos.
+        </p>
+
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {rules.map(rule => {
+            const setting = settings.find(item => item.rule_id === rule.id);
+            if (!setting) return null;
+
+            return (
+              <li key={rule.id} className="p-3 flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={setting.enabled}
+                  disabled={savingRule === rule.id}
+                  onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                  className="h-4 w-4 text-pink-600 border-gray-300 rounded"
+                  aria-label={`Show ${rule.label}`}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-800">{rule.label}</p>
+                  <p className="text-xs text-gray-500">{rule.description}</p>
+                </div>
+                <select
+                  value={setting.reminder_minutes}
+                  disabled={!setting.enabled || savingRule === rule.id}
+                  onChange={(e) => updateRule(rule.id, { reminder_minutes: parseInt(e.target.value, 10) })}
+                  className="px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+                  aria-label={`${rule.label} reminder`}
+                >
+                  {REMINDER_OPTIONS.some(option => option.value === setting.reminder_minutes) ? null : (
+                    <option value={setting.reminder_minutes}>{setting.reminder_minutes} min before</option>
+                  )}
+                  {REMINDER_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex justify-end pt-2 border-t border-gray-100">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
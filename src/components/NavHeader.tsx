@@ -2,6 +2,7 @@ import { Session } from "next-auth";
 import Link from "next/link";
 import { useState, useEffect } from "react";
 import LogoutModal from "./LogoutModal";
+import NotificationBell from "./NotificationBell";
 
 interface NavHeaderProps {
   session?: Session | null;
@@ -144,6 +145,32 @@ export default function NavHeader({ session }: NavHeaderProps) {
             </a>
           </Link>
 
+          {session && (
+            <Link
+              href="/settings"
+              passHref
+              replace
+              legacyBehavior
+            >
+              <a
+                className={`relative px-3 py-2 rounded-lg font-medium transition-all duration-200 ${isActive('/settings')
+                    ? 'text-pink-700 bg-pink-50 shadow-sm'
+                    : 'text-gray-600 hover:text-pink-700 hover:bg-pink-25'
+                  }`}
+                aria-current={isActive('/settings') ? 'page' : undefined}
+                onClick={(e) => {
+                  e.preventDefault();
+                  window.location.href = '/settings';
+                }}
+              >
+                Settings
+                {isMounted && isActive('/settings') && (
+                  <span className="absolute -bottom-1 left-1/2 transform -translate-x-1/2 w-1 h-1 bg-pink-500 rounded-full" />
+                )}
+              </a>
+            </Link>
+          )}
+
           {/* Events link - uncomment when ready */}
 
           {/* <Link
@@ -175,6 +202,8 @@ export default function NavHeader({ session }: NavHeaderProps) {
         <div className="flex items-center space-x-4">
           {session ? (
             <>
+              <NotificationBell />
+
               {/* Welcome message with improved typography */}
               <span className="text-sm text-gray-600 font-medium hidden sm:inline-block">
                 Welcome, <span className="text-pink-600">{session.user?.name}</span>
@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { toast } from 'react-toastify';
+import { formatDistanceToNow } from 'date-fns';
+import { useNotifications } from '../hooks/useNotifications';
+import type { InAppNotification, NotificationType } from '../types/notification';
+
+const TYPE_ICONS: Record<NotificationType, string> = {
+  reminder: '⏰',
+  upcoming: '🎉',
+  update: '📝',
+  cancelled: '❌'
+};
+
+/**
+ * Notification Bell
+ * Unread count in the header and a dropdown inbox; notifications arriving
+ * while the page is open also pop up as a toast
+ */
+export default function NotificationBell() {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const openNotification = useCallback((notification: InAppNotification) => {
+    setIsOpen(false);
+    if (notification.url) {
+      window.location.href = notification.url;
+    }
+  }, []);
+
+  const { notifications, unread_count, isLoading, markRead, markAllRead, dismiss } = useNotifications(
+    (notification) => {
+      toast.info(`${TYPE_ICONS[notification.type]} ${notification.title}`, {
+        toastId: `notification-${notification.id}`,
+        onClick: () => {
+          markRead(notification.id);
+          openNotification(notification);
+        }
+      });
+    }
+  );
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="relative p-2 text-gray-600 hover:text-pink-700 hover:bg-pink-50 rounded-lg transition-colors"
+        aria-label={unread_count > 0 ? `Notifications, ${unread_count} unread` : 'Notifications'}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+          />
+        </svg>
+        {unread_count > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 flex items-center justify-center text-[10px] font-semibold text-white bg-pink-500 rounded-full">
+            {unread_count > 99 ? '99+' : unread_count}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white rounded-xl shadow-lg border border-gray-100 z-40">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <h3 className="font-semibold text-gray-800">Notifications</h3>
+            {unread_count > 0 && (
+              <button
+                onClick={() => markAllRead()}
+                className="text-xs text-pink-600 hover:text-pink-700 font-medium"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {!isLoading && notifications.length === 0 && (
+              <li className="px-4 py-6 text-sm text-gray-500 text-center">You&apos;re all caught up 💕</li>
+            )}
+            {notifications.map(notification => (
+              <li
+                key={notification.id}
+                className={`flex gap-3 px-4 py-3 ${notification.read_at ? '' : 'bg-pink-50/60'}`}
+              >
+                <button
+                  onClick={() => {
+                    markRead(notification.id);
+                    openNotification(notification);
+                  }}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <p className={`text-sm text-gray-800 ${notification.read_at ? '' : 'font-semibold'}`}>
+                    {TYPE_ICONS[notification.type]} {notification.title}
+                  </p>
+                  <p className="text-xs text-gray-600 line-clamp-2">{notification.message}</p>
+                  <p className="text-xs text-gray-400 mt-0.5">
+                    {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                  </p>
+                </button>
+                <div className="flex flex-col items-end gap-1 shrink-0">
+                  <button
+                    onClick={() => markRead(notification.id, !notification.read_at)}
+                    className="text-xs text-gray-500 hover:text-pink-600"
+                  >
+                    {notification.read_at ? 'Mark unread' : 'Mark read'}
+                  </button>
+                  <button
+                    onClick={() => dismiss(notification.id)}
+                    className="text-xs text-gray-400 hover:text-red-600"
+                    aria-label={`Dismiss ${notification.title}`}
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-toastify';
+import { NotificationPreferencesManager, type NotificationPreferences } from '../lib/eventNotifications';
+
+interface NotificationSettingsProps {
+  userId: string;
+}
+
+type PreferenceDraft = Omit<NotificationPreferences, 'user_id' | 'updated_at'>;
+
+const CHANNEL_OPTIONS: { field: 'browser_enabled' | 'email_enabled' | 'push_enabled'; label: string; description: string }[] = [
+  { field: 'browser_enabled', label: 'In the app', description: 'In the notification center, with a pop-up while Love Story is open' },
+  { field: 'push_enabled', label: 'Push', description: 'On devices where push is turned on, even when the app is closed' },
+  { field: 'email_enabled', label: 'Email', description: 'Sent to the address you sign in with' }
+];
+
+const REMINDER_TIME_OPTIONS = [
+  { value: 5, label: '5 minutes' },
+  { value: 15, label: '15 minutes' },
+  { value: 30, label: '30 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 180, label: '3 hours' },
+  { value: 1440, label: '1 day' },
+  { value: 4320, label: '3 days' },
+  { value: 10080, label: '1 week' }
+];
+
+const TIMEZONE_OPTIONS = [
+  { value: 'Asia/Ho_Chi_Minh', label: 'Ho Chi Minh City (GMT+7)' },
+  { value: 'UTC', label: 'UTC' },
+  { value: 'America/New_York', label: 'New York (EST/EDT)' },
+  { value: 'Europe/London', label: 'London (GMT/BST)' },
+  { value: 'Asia/Tokyo', label: 'Tokyo (JST)' }
+];
+
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '08:00' };
+
+function formatLeadTime(minutes: number): string {
+  const option = REMINDER_TIME_OPTIONS.find(item => item.value === minutes);
+  if (option) return option.label;
+  if (minutes % 1440 === 0) return `${minutes / 1440} days`;
+  if (minutes % 60 === 0) return `${minutes / 60} hours`;
+  return `${minutes} minutes`;
+}
+
+function toDraft(preferences: NotificationPreferences): PreferenceDraft {
+  const { user_id: _userId, updated_at: _updatedAt, ...draft } = preferences;
+  return draft;
+}
+
+/**
+ * Notification Settings
+ * Edits the signed-in partner's server-side preferences - which channels
+ * reminders may use, the extra reminders sent before every event and the
+ * quiet hours during which reminders wait
+ */
+export default function NotificationSettings({ userId }: NotificationSettingsProps) {
+  const [draft, setDraft] = useState<PreferenceDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [browserTimezone, setBrowserTimezone] = useState('');
+
+  useEffect(() => {
+    setBrowserTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+
+    NotificationPreferencesManager.loadPreferences(userId)
+      .then(preferences => setDraft(toDraft(preferences)))
+      .catch(error => {
+        console.error('Failed to load notification preferences:', error);
+        toast.error('Could not load your notification settings');
+      });
+  }, [userId]);
+
+  if (!draft) {
+    return (
+      <div className="bg-white/80 rounded-xl p-6 shadow-sm text-gray-500" role="status">
+        Loading notification settings...
+      </div>
+    );
+  }
+
+  const updateDraft = (changes: Partial<PreferenceDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const toggleReminderTime = (minutes: number) => {
+    updateDraft({
+      reminder_times: draft.reminder_times.includes(minutes)
+        ? draft.reminder_times.filter(time => time !== minutes)
+        : [...draft.reminder_times, minutes].sort((a, b) => a - b)
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSaving) return;
+
+    setIsSaving(true);
+    try {
+      const saved = await NotificationPreferencesManager.savePreferences(userId, draft);
+      setDraft(toDraft(saved));
+      toast.success('Notification settings saved 🔔');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save notification settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const reminderTimeOptions = [
+    ...REMINDER_TIME_OPTIONS.map(option => option.value),
+    ...draft.reminder_times.filter(time => !REMINDER_TIME_OPTIONS.some(option => option.value === time))
+  ].sort((a, b) => a - b);
+
+  const timezoneOptions = [
+    ...TIMEZONE_OPTIONS,
+    ...[browserTimezone, draft.timezone]
+      .filter((zone, index, zones) => zone && zones.indexOf(zone) === index && !TIMEZONE_OPTIONS.some(option => option.value === zone))
+      .map(zone => ({ value: zone, label: zone }))
+  ];
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white/80 rounded-xl p-6 shadow-sm space-y-8">
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold text-gray-800">Channels</h2>
+        <p className="text-sm text-gray-600">Reminders only reach you through the channels you allow here.</p>
+        {CHANNEL_OPTIONS.map(option => (
+          <label key={option.field} className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={draft[option.field]}
+              onChange={(e) => updateDraft({ [option.field]: e.target.checked })}
+              className="mt-1 h-4 w-4 text-pink-600 border-gray-300 rounded"
+            />
+            <span>
+              <span className="block font-medium text-gray-800">{option.label}</span>
+              <span className="block text-xs text-gray-500">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold text-gray-800">Remind me before every event</h2>
+        <p className="text-sm text-gray-600">
+          Sent on top of the reminder set on each event, through the first channel you allow.
+        </p>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {reminderTimeOptions.map(minutes => (
+            <label key={minutes} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.reminder_times.includes(minutes)}
+                disabled={
+                  !draft.reminder_times.includes(minutes) &&
+                  draft.reminder_times.length >= NotificationPreferencesManager.MAX_REMINDER_TIMES
+                }
+                onChange={() => toggleReminderTime(minutes)}
+                className="h-4 w-4 text-pink-600 border-gray-300 rounded"
+              />
+              {formatLeadTime(minutes)}
+            </label>
+          ))}
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold text-gray-800">Quiet hours</h2>
+        <label className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            checked={!!draft.quiet_hours}
+            onChange={(e) => updateDraft({ quiet_hours: e.target.checked ? DEFAULT_QUIET_HOURS : null })}
+            className="h-4 w-4 text-pink-600 border-gray-300 rounded"
+          />
+          <span className="text-sm text-gray-700">
+            Hold reminders during these hours and send them when they end
+          </span>
+        </label>
+        {draft.quiet_hours && (
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              From
+              <input
+                type="time"
+                required
+                value={draft.quiet_hours.start}
+                onChange={(e) => updateDraft({ quiet_hours: { ...draft.quiet_hours!, start: e.target.value } })}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              until
+              <input
+                type="time"
+                required
+                value={draft.quiet_hours.end}
+                onChange={(e) => updateDraft({ quiet_hours: { ...draft.quiet_hours!, end: e.target.value } })}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              />
+            </label>
+          </div>
+        )}
+        <div>
+          <label htmlFor="notification-timezone" className="block text-sm font-medium text-gray-700 mb-2">
+            Your timezone
+          </label>
+          <select
+            id="notification-timezone"
+            value={draft.timezone}
+            onChange={(e) => updateDraft({ timezone: e.target.value })}
+            className="w-full sm:w-auto px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+          >
+            {timezoneOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </section>
+
+      <div className="flex justify-end pt-4 border-t border-gray-100">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-6 py-2 bg-pink-500 text-white rounded-lg hover:bg-pink-600 disabled:opacity-50 transition-colors font-medium"
+        >
+          {isSaving ? 'Saving...' : 'Save settings'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useEffect } from 'react';
+import { formatInTimeZone } from 'date-fns-tz';
+import type { EnhancedEvent, EventOccurrence, OccurrenceEditScope } from '../types/event';
+
+interface OccurrenceScopeModalProps {
+  event: EnhancedEvent | null;
+  occurrence: EventOccurrence | null;
+  action: 'edit' | 'move';
+  onChoose: (scope: OccurrenceEditScope) => void;
+  onSkip?: () => void;
+  onRestore?: () => void;
+  onClose: () => void;
+}
+
+const SCOPE_OPTIONS: Array<{ scope: OccurrenceEditScope; label: string; hint: string }> = [
+  { scope: 'this', label: 'This occurrence', hint: 'Only this date changes' },
+  { scope: 'following', label: 'This and following', hint: 'Starts a new series from this date' },
+  { scope: 'all', label: 'All occurrences', hint: 'Changes the whole series' }
+];
+
+/**
+ * "Which occurrences?" Dialog
+ * Shown before editing or moving an occurrence of a recurring event
+ */
+export default function OccurrenceScopeModal({
+  event,
+  occurrence,
+  action,
+  onChoose,
+  onSkip,
+  onRestore,
+  onClose
+}: OccurrenceScopeModalProps) {
+  useEffect(() => {
+    if (!event) return;
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [event, onClose]);
+
+  if (!event || !occurrence) return null;
+
+  // The first occurrence has nothing before it, so "following" is the whole series
+  const options = occurrence.occurrence_index === 0
+    ? SCOPE_OPTIONS.filter(option => option.scope !== 'following')
+    : SCOPE_OPTIONS;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl max-w-md w-full p-6 space-y-4"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="occurrence-scope-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <h3 id="occurrence-scope-title" className="text-xl font-semibold text-gray-800">
+            {action === 'move' ? 'Move recurring event' : 'Edit recurring event'}
+          </h3>
+          <p className="text-sm text-gray-600 mt-1">
+            {occurrence.title || event.title} ·{' '}
+            {formatInTimeZone(new Date(occurrence.date), event.timezone || 'UTC', 'EEEE, MMMM d, yyyy')}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {options.map(option => (
+            <button
+              key={option.scope}
+              onClick={() => onChoose(option.scope)}
+              className="w-full text-left px-4 py-3 border border-gray-200 rounded-lg hover:border-pink-300 hover:bg-pink-50 transition-colors"
+            >
+              <span className="block font-medium text-gray-800">{option.label}</span>
+              <span className="block text-xs text-gray-500">{option.hint}</span>
+            </button>
+          ))}
+        </div>
+
+        {action === 'edit' && (onSkip || (onRestore && occurrence.is_exception)) && (
+          <div className="flex flex-wrap gap-2 pt-2 border-t border-gray-100">
+            {onSkip && (
+              <button
+                onClick={onSkip}
+                className="px-4 py-2 text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors text-sm font-medium"
+              >
+                Skip this occurrence
+              </button>
+            )}
+            {onRestore && occurrence.is_exception && (
+              <button
+                onClick={onRestore}
+                className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+              >
+                Restore original
+              </button>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { toast } from 'react-toastify';
+import PhotoLabelInput from './PhotoLabelInput';
 
 interface Photo {
   id: number;
@@ -8,6 +9,8 @@ interface Photo {
   title?: string;
   description?: string;
   upload_date: string;
+  tags?: string[];
+  people?: string[];
 }
 
 interface PhotoEditModalProps {
@@ -21,6 +24,7 @@ interface PhotoEditModalProps {
  * Modal component để chỉnh sửa thông tin ảnh
  * Features:
  * - Real-time validation
+ * - Tags and people with autocomplete
  * - Character count display
  * - Auto-focus on title field
  * - Escape key to close
@@ -30,6 +34,8 @@ interface PhotoEditModalProps {
 export default function PhotoEditModal({ photo, isOpen, onClose, onUpdate }: PhotoEditModalProps) {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [people, setPeople] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [errors, setErrors] = useState<{ title?: string; description?: string }>({});
 
@@ -38,6 +44,8 @@ export default function PhotoEditModal({ photo, isOpen, onClose, onUpdate }: Pho
     if (photo) {
       setTitle(photo.title || '');
       setDescription(photo.description || '');
+      setTags(photo.tags || []);
+      setPeople(photo.people || []);
       setErrors({});
     }
   }, [photo]);
@@ -97,6 +105,8 @@ export default function PhotoEditModal({ photo, isOpen, onClose, onUpdate }: Pho
         body: JSON.stringify({
           title: title.trim() || undefined,
           description: description.trim() || undefined,
+          tags,
+          people,
         }),
       });
 
@@ -217,6 +227,36 @@ export default function PhotoEditModal({ photo, isOpen, onClose, onUpdate }: Pho
             </div>
           </div>
 
+          {/* Tags field */}
+          <div>
+            <label htmlFor="photo-tags" className="block text-sm font-medium text-gray-700 mb-2">
+              Tags
+            </label>
+            <PhotoLabelInput
+              id="photo-tags"
+              kind="tag"
+              labels={tags}
+              onChange={setTags}
+              disabled={isLoading}
+              placeholder="beach, anniversary..."
+            />
+          </div>
+
+          {/* People field */}
+          <div>
+            <label htmlFor="photo-people" className="block text-sm font-medium text-gray-700 mb-2">
+              Who&apos;s in it
+            </label>
+            <PhotoLabelInput
+              id="photo-people"
+              kind="person"
+              labels={people}
+              onChange={setPeople}
+              disabled={isLoading}
+              placeholder="Add a name..."
+            />
+          </div>
+
           {/* Action buttons */}
           <div className="flex justify-end space-x-3 pt-4">
             <button
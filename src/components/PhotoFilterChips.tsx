@@ -0,0 +1,132 @@
+import React from 'react';
+import Link from 'next/link';
+import type { PhotoFacets, PhotoSearchFilters } from '../types/photoSearch';
+
+// The filters picked from chips - search text and the album are set elsewhere
+export type PhotoFacetFilters = Pick<PhotoSearchFilters, 'tags' | 'people' | 'year'>;
+
+interface PhotoFilterChipsProps {
+  facets: PhotoFacets;
+  filters: PhotoFacetFilters;
+  onChange: (filters: PhotoFacetFilters) => void;
+  albumHref?: (albumId: number) => string; // All-photos view only - album chips open the album
+}
+
+const toggle = (list: string[] = [], value: string) =>
+  list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+/**
+ * Photo Filter Chips
+ * The filters in effect (each removable) and tag, people, year and album
+ * counts among the photos shown, each a chip that narrows the gallery further
+ */
+export default function PhotoFilterChips({ facets, filters, onChange, albumHref }: PhotoFilterChipsProps) {
+  const tags = filters.tags ?? [];
+  const people = filters.people ?? [];
+  const hasFilters = tags.length > 0 || people.length > 0 || filters.year !== undefined;
+
+  const chipClassName = (isActive: boolean) =>
+    `inline-flex items-center gap-1 rounded-full px-3 py-1 text-sm transition-colors ${
+      isActive ? 'bg-pink-500 text-white' : 'bg-white border border-gray-200 text-gray-700 hover:border-pink-300'
+    }`;
+
+  const rows = [
+    {
+      label: 'Tags',
+      chips: facets.tags.map(facet => ({
+        key: `tag-${facet.value}`,
+        text: `#${facet.value}`,
+        count: facet.count,
+        isActive: tags.includes(facet.value),
+        onClick: () => onChange({ ...filters, tags: toggle(tags, facet.value) }),
+      })),
+    },
+    {
+      label: 'People',
+      chips: facets.people.map(facet => ({
+        key: `person-${facet.value}`,
+        text: facet.value,
+        count: facet.count,
+        isActive: people.includes(facet.value),
+        onClick: () => onChange({ ...filters, people: toggle(people, facet.value) }),
+      })),
+    },
+    {
+      label: 'Years',
+      chips: facets.years.map(facet => ({
+        key: `year-${facet.value}`,
+        text: String(facet.value),
+        count: facet.count,
+        isActive: filters.year === facet.value,
+        onClick: () => onChange({ ...filters, year: filters.year === facet.value ? undefined : facet.value }),
+      })),
+    },
+  ].filter(row => row.chips.length > 0);
+
+  if (rows.length === 0 && !hasFilters && (!albumHref || facets.albums.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="mb-8 space-y-3" aria-label="Photo filters">
+      {hasFilters && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-gray-600">Filtered by</span>
+          {tags.map(tag => (
+            <button key={`active-tag-${tag}`} onClick={() => onChange({ ...filters, tags: toggle(tags, tag) })} className={chipClassName(true)}>
+              #{tag} <span aria-hidden="true">×</span>
+              <span className="sr-only">(remove)</span>
+            </button>
+          ))}
+          {people.map(person => (
+            <button key={`active-person-${person}`} onClick={() => onChange({ ...filters, people: toggle(people, person) })} className={chipClassName(true)}>
+              {person} <span aria-hidden="true">×</span>
+              <span className="sr-only">(remove)</span>
+            </button>
+          ))}
+          {filters.year !== undefined && (
+            <button onClick={() => onChange({ ...filters, year: undefined })} className={chipClassName(true)}>
+              {filters.year} <span aria-hidden="true">×</span>
+              <span className="sr-only">(remove)</span>
+            </button>
+          )}
+          <button
+            onClick={() => onChange({ tags: [], people: [], year: undefined })}
+            className="text-sm text-gray-500 hover:text-gray-700 underline"
+          >
+            Clear filters
+          </button>
+        </div>
+      )}
+
+      {rows.map(row => (
+        <div key={row.label} className="flex flex-wrap items-center gap-2">
+          <span className="w-16 shrink-0 text-sm font-medium text-gray-600">{row.label}</span>
+          {row.chips.map(chip => (
+            <button
+              key={chip.key}
+              onClick={chip.onClick}
+              aria-pressed={chip.isActive}
+              className={chipClassName(chip.isActive)}
+            >
+              {chip.text}
+              <span className={chip.isActive ? 'text-pink-100' : 'text-gray-400'}>{chip.count}</span>
+            </button>
+          ))}
+        </div>
+      ))}
+
+      {albumHref && facets.albums.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-16 shrink-0 text-sm font-medium text-gray-600">Albums</span>
+          {facets.albums.map(album => (
+            <Link key={album.id} href={albumHref(album.id)} className={chipClassName(false)}>
+              {album.title}
+              <span className="text-gray-400">{album.count}</span>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
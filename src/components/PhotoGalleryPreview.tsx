@@ -1,6 +1,8 @@
 import React, { useState, memo, useEffect, useRef, useMemo } from 'react';
 import Image from 'next/image';
-import { format, parseISO } from 'date-fns';
+import Link from 'next/link';
+import { formatPhotoDate } from '../utils/photoDates';
+import type { PhotoAlbum } from '../types/album';
 
 interface Photo {
   id: number;
@@ -8,6 +10,8 @@ interface Photo {
   title?: string;
   description?: string;
   upload_date: string;
+  taken_at?: string;
+  taken_at_offset?: string;
   thumbnails?: {
     small: string;
     medium: string;
@@ -18,16 +22,19 @@ interface Photo {
 interface PhotoGalleryPreviewProps {
   photos: Photo[];
   maxPhotos?: number;
+  album?: Pick<PhotoAlbum, 'id' | 'title' | 'photo_count'>; // Photos are from this album, in album order
 }
 
 /**
  * Photo gallery preview component with performance optimizations
  * Uses Next.js Image component for automatic optimization and lazy loading
  * Implements responsive image sizes to reduce bandwidth on mobile devices
+ * When featuring an album, the last tile links to the rest of it
  */
-const PhotoGalleryPreview = memo<PhotoGalleryPreviewProps>(({ photos, maxPhotos = 6 }) => {
+const PhotoGalleryPreview = memo<PhotoGalleryPreviewProps>(({ photos, maxPhotos = 6, album }) => {
   const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null);
   const displayPhotos = photos.slice(0, maxPhotos);
+  const remainingInAlbum = album ? album.photo_count - displayPhotos.length : 0;
 
   const [imageDimensions, setImageDimensions] = useState({ width: 800, height: 600 });
 
@@ -54,6 +61,16 @@ const PhotoGalleryPreview = memo<PhotoGalleryPreviewProps>(({ photos, maxPhotos
             className="relative aspect-square group cursor-pointer overflow-hidden rounded-lg bg-gray-100"
             onClick={() => setSelectedPhoto(photo)}
           >
+            {album && remainingInAlbum > 0 && index === displayPhotos.length - 1 && (
+              <Link
+                href={`/gallery?album=${album.id}`}
+                onClick={(e) => e.stopPropagation()}
+                className="absolute inset-0 z-10 flex flex-col items-center justify-center bg-black/50 text-white hover:bg-black/60 transition-colors"
+              >
+                <span className="text-2xl font-bold">+{remainingInAlbum}</span>
+                <span className="text-sm">more in {album.title}</span>
+              </Link>
+            )}
             {/* Next.js Image with performance optimizations */}
             <Image
               src={photo.thumbnails?.medium || photo.public_url}
@@ -73,7 +90,7 @@ const PhotoGalleryPreview = memo<PhotoGalleryPreviewProps>(({ photos, maxPhotos
                   {photo.title || 'Untitled'}
                 </p>
                 <p className="text-xs opacity-80">
-                  {format(parseISO(photo.upload_date), 'MMM d, yyyy')}
+                  {formatPhotoDate(photo, 'MMM d, yyyy')}
                 </p>
               </div>
             </div>
@@ -118,7 +135,7 @@ const PhotoGalleryPreview = memo<PhotoGalleryPreviewProps>(({ photos, maxPhotos
                     <p className="text-gray-400">{selectedPhoto.description}</p>
                   )}
                   <p className="text-sm text-gray-400 mt-2">
-                    {format(parseISO(selectedPhoto.upload_date), 'MMMM d, yyyy • h:mm a')}
+                    {formatPhotoDate(selectedPhoto, 'MMMM d, yyyy • h:mm a')}
                   </p>
                 </div>
               )}
@@ -0,0 +1,172 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { normalizeLabel } from '../lib/photoSearch';
+import {
+  PHOTO_LABEL_MAX_LENGTH,
+  PHOTO_LABELS_MAX_COUNT,
+  type FacetCount,
+  type PhotoLabelKind
+} from '../types/photoSearch';
+
+interface PhotoLabelInputProps {
+  id: string;
+  kind: PhotoLabelKind;
+  labels: string[];
+  onChange: (labels: string[]) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+const SUGGESTION_DELAY_MS = 200;
+
+/**
+ * Photo Label Input
+ * Tags or people as removable chips. Enter or a comma adds what was typed;
+ * labels already used on other photos are suggested while typing.
+ */
+export default function PhotoLabelInput({ id, kind, labels, onChange, disabled, placeholder }: PhotoLabelInputProps) {
+  const [draft, setDraft] = useState('');
+  const [suggestions, setSuggestions] = useState<FacetCount[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isFocused, setIsFocused] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Suggestions for the word being typed, without labels already added
+  useEffect(() => {
+    if (!isFocused) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ kind, q: draft.trim() });
+        const response = await fetch(`/api/photos/labels?${params}`, { signal: controller.signal });
+        if (!response.ok) return;
+        const data: { labels: FacetCount[] } = await response.json();
+        const present = new Set(labels.map(label => label.toLowerCase()));
+        setSuggestions(data.labels.filter(label => !present.has(label.value.toLowerCase())));
+        setActiveIndex(-1);
+      } catch (error) {
+        if ((error as Error).name !== 'AbortError') {
+          console.error('Failed to load label suggestions:', error);
+        }
+      }
+    }, SUGGESTION_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [draft, kind, labels, isFocused]);
+
+  const addLabel = (value: string) => {
+    const label = normalizeLabel(value, kind);
+    setDraft('');
+    if (
+      !label ||
+      label.length > PHOTO_LABEL_MAX_LENGTH ||
+      labels.length >= PHOTO_LABELS_MAX_COUNT ||
+      labels.some(existing => existing.toLowerCase() === label.toLowerCase())
+    ) {
+      return;
+    }
+    onChange([...labels, label]);
+  };
+
+  const removeLabel = (label: string) => {
+    onChange(labels.filter(existing => existing !== label));
+    inputRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault(); // Enter would otherwise submit the surrounding form
+      addLabel(activeIndex >= 0 ? suggestions[activeIndex].value : draft);
+    } else if (e.key === 'Backspace' && !draft && labels.length > 0) {
+      onChange(labels.slice(0, -1));
+    } else if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex(index => (index <= 0 ? suggestions.length : index) - 1);
+    }
+  };
+
+  const chipClassName = kind === 'tag' ? 'bg-pink-100 text-pink-700' : 'bg-purple-100 text-purple-700';
+  const listId = `${id}-suggestions`;
+  const showSuggestions = isFocused && suggestions.length > 0;
+
+  return (
+    <div className="relative">
+      <div
+        className="flex flex-wrap items-center gap-2 w-full px-3 py-2 border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-pink-500 focus-within:border-transparent bg-white"
+        onClick={() => inputRef.current?.focus()}
+      >
+        {labels.map(label => (
+          <span key={label} className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-sm ${chipClassName}`}>
+            {kind === 'tag' ? `#${label}` : label}
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                removeLabel(label);
+              }}
+              disabled={disabled}
+              className="opacity-60 hover:opacity-100"
+              aria-label={`Remove ${label}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          ref={inputRef}
+          id={id}
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (draft.trim()) addLabel(draft); // Keep what was typed without pressing Enter
+          }}
+          disabled={disabled || labels.length >= PHOTO_LABELS_MAX_COUNT}
+          placeholder={labels.length === 0 ? placeholder : undefined}
+          maxLength={PHOTO_LABEL_MAX_LENGTH}
+          role="combobox"
+          aria-expanded={showSuggestions}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          className="flex-1 min-w-[8rem] outline-none text-sm bg-transparent"
+        />
+      </div>
+
+      {showSuggestions && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-48 overflow-y-auto"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.value}
+              role="option"
+              aria-selected={index === activeIndex}
+              // mousedown keeps the input from blurring before the pick lands
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addLabel(suggestion.value);
+              }}
+              className={`flex justify-between px-3 py-2 text-sm cursor-pointer ${
+                index === activeIndex ? 'bg-pink-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <span>{kind === 'tag' ? `#${suggestion.value}` : suggestion.value}</span>
+              <span className="text-gray-400">{suggestion.count}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
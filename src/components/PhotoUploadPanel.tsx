@@ -0,0 +1,335 @@
+import React, { useState, useCallback } from 'react';
+import { toast } from 'react-toastify';
+import PhotoLabelInput from './PhotoLabelInput';
+import { usePhotoUploadQueue, type PhotoUploadItem } from '../hooks/usePhotoUploadQueue';
+import { PHOTO_UPLOAD_MAX_FILE_SIZE, PHOTO_UPLOAD_MIME_TYPES } from '../types/photoUpload';
+import type { PhotoAlbum } from '../types/album';
+
+interface PhotoUploadPanelProps {
+  albums: PhotoAlbum[];
+  albumId?: number; // Album page being viewed - its uploads land there by default
+  onUploaded: () => void;
+}
+
+const STATUS_LABELS: Record<PhotoUploadItem['status'], string> = {
+  queued: 'Waiting',
+  uploading: 'Uploading',
+  processing: 'Saving',
+  uploaded: 'Uploaded',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+function formatFileSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function readDirectoryEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+/**
+ * Every file under a dropped file or folder - readEntries hands a folder's
+ * entries over in chunks, so it is called until it comes back empty
+ */
+async function collectEntryFiles(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file(file => resolve([file]), reject));
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  let entries = await readDirectoryEntries(reader);
+  while (entries.length > 0) {
+    for (const child of entries) {
+      files.push(...await collectEntryFiles(child));
+    }
+    entries = await readDirectoryEntries(reader);
+  }
+  return files;
+}
+
+/**
+ * Photo Upload Panel
+ * Drop zone for photos and whole folders with settings shared by the batch
+ * (title, description, album, tags, keeping GPS off the stored files) and a
+ * queue showing each file's progress, with retry and cancel.
+ */
+export default function PhotoUploadPanel({ albums, albumId, onUploaded }: PhotoUploadPanelProps) {
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [targetAlbumId, setTargetAlbumId] = useState<number | undefined>(albumId);
+  const [stripLocation, setStripLocation] = useState(true);
+
+  const { items, isUploading, enqueue, reject, retry, retryFailed, cancel, clearFinished } = usePhotoUploadQueue(
+    ({ uploaded, failed }) => {
+      if (uploaded > 0) {
+        toast.success(`Successfully uploaded ${uploaded} photo(s)!`);
+        onUploaded();
+      }
+      if (failed > 0) {
+        toast.error(`${failed} photo(s) could not be uploaded - see the upload list`);
+      }
+    }
+  );
+
+  // Folders bring along whatever else is in them, so other file types are
+  // skipped with a single note; photos over the size limit are listed as failed
+  const addFiles = useCallback((files: File[]) => {
+    const photos = files.filter(file => PHOTO_UPLOAD_MIME_TYPES.includes(file.type));
+    const skipped = files.length - photos.length;
+    if (skipped > 0) {
+      toast.info(`Skipped ${skipped} file(s) that are not JPEG, PNG or WebP images`);
+    }
+
+    const accepted: File[] = [];
+    for (const file of photos) {
+      if (file.size > PHOTO_UPLOAD_MAX_FILE_SIZE) {
+        reject(file, 'Too large (max 10MB)');
+      } else {
+        accepted.push(file);
+      }
+    }
+    if (accepted.length === 0) return;
+
+    enqueue(accepted, {
+      title: title.trim() || undefined,
+      description: description.trim() || undefined,
+      album_id: targetAlbumId,
+      tags: tags.length > 0 ? tags : undefined,
+      strip_location: stripLocation,
+    });
+  }, [title, description, targetAlbumId, tags, stripLocation, enqueue, reject]);
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(true);
+  }, []);
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+  }, []);
+
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+
+    // Entries have to be taken before the first await - the browser empties
+    // the drop's item list once the event handler returns
+    const entries = Array.from(e.dataTransfer.items)
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+
+    if (entries.length === 0) {
+      addFiles(Array.from(e.dataTransfer.files));
+      return;
+    }
+
+    try {
+      const files = (await Promise.all(entries.map(collectEntryFiles))).flat();
+      addFiles(files);
+    } catch (error) {
+      console.error('Failed to read dropped folder:', error);
+      toast.error('Could not read the dropped folder');
+    }
+  }, [addFiles]);
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      addFiles(Array.from(e.target.files));
+    }
+    e.target.value = ''; // Choosing the same files again should queue them again
+  };
+
+  const uploadedCount = items.filter(item => item.status === 'uploaded').length;
+  const hasRetryable = items.some(item => item.status === 'failed' && item.retryable);
+  const hasFinished = items.some(item => !['queued', 'uploading', 'processing'].includes(item.status));
+
+  return (
+    <div className="mb-8">
+      <div
+        className={`border-2 border-dashed rounded-xl p-8 text-center transition-colors ${isDragOver
+          ? 'border-pink-400 bg-pink-50'
+          : 'border-gray-300 hover:border-pink-300 hover:bg-pink-25'
+          }`}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        <div className="flex flex-col items-center space-y-4">
+          <svg className="h-16 w-16 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+          </svg>
+          <div>
+            <p className="text-lg font-medium text-gray-700">Drop photos or folders here or click to upload</p>
+            <p className="text-sm text-gray-500">Supports JPEG, PNG, WebP up to 10MB each</p>
+          </div>
+
+          <div className="grid gap-3 w-full max-w-2xl sm:grid-cols-2 text-left">
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Title for every photo (optional)"
+              aria-label="Batch title"
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            />
+            <select
+              value={targetAlbumId ?? ''}
+              onChange={(e) => setTargetAlbumId(e.target.value ? Number(e.target.value) : undefined)}
+              aria-label="Album for this batch"
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            >
+              <option value="">No album</option>
+              {albums.map(album => (
+                <option key={album.id} value={album.id}>{album.title}</option>
+              ))}
+            </select>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description for every photo (optional)"
+              aria-label="Batch description"
+              rows={2}
+              className="sm:col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent resize-none"
+            />
+            <div className="sm:col-span-2">
+              <PhotoLabelInput
+                id="photo-upload-tags"
+                kind="tag"
+                labels={tags}
+                onChange={setTags}
+                placeholder="Tags for every photo (optional)"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={stripLocation}
+              onChange={(e) => setStripLocation(e.target.checked)}
+              className="h-4 w-4 text-pink-600 border-gray-300 rounded"
+            />
+            Remove GPS location from the stored files
+          </label>
+
+          <input
+            type="file"
+            multiple
+            accept={PHOTO_UPLOAD_MIME_TYPES.join(',')}
+            onChange={handleFileInput}
+            className="hidden"
+            id="photo-upload"
+          />
+          <input
+            type="file"
+            multiple
+            onChange={handleFileInput}
+            className="hidden"
+            id="photo-folder-upload"
+            ref={(input) => input?.setAttribute('webkitdirectory', '')} // Not in React's typings
+          />
+          <div className="flex flex-wrap justify-center gap-3">
+            <label
+              htmlFor="photo-upload"
+              className="bg-pink-500 text-white px-6 py-2 rounded-lg hover:bg-pink-600 transition-colors cursor-pointer font-medium"
+            >
+              Choose Photos
+            </label>
+            <label
+              htmlFor="photo-folder-upload"
+              className="border border-pink-300 text-pink-600 px-6 py-2 rounded-lg hover:bg-pink-50 transition-colors cursor-pointer font-medium"
+            >
+              Choose Folder
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {/* Upload queue */}
+      {items.length > 0 && (
+        <div className="mt-4 bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <p className="text-sm font-medium text-gray-700">
+              {isUploading ? 'Uploading' : 'Uploaded'} {uploadedCount} of {items.length} photo(s)
+            </p>
+            <div className="flex gap-4 text-sm">
+              {hasRetryable && (
+                <button onClick={retryFailed} className="text-pink-600 hover:text-pink-700 font-medium">
+                  Retry failed
+                </button>
+              )}
+              {hasFinished && (
+                <button onClick={clearFinished} className="text-gray-500 hover:text-gray-700">
+                  Clear finished
+                </button>
+              )}
+            </div>
+          </div>
+
+          <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100">
+            {items.map(item => (
+              <li key={item.id} className="px-4 py-2 flex items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2 text-sm">
+                    <span className="truncate text-gray-800" title={item.file.name}>{item.file.name}</span>
+                    <span className="shrink-0 text-xs text-gray-500">{formatFileSize(item.file.size)}</span>
+                  </div>
+                  <div
+                    className="mt-1 h-1.5 bg-gray-100 rounded-full overflow-hidden"
+                    role="progressbar"
+                    aria-label={`${item.file.name} upload progress`}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-valuenow={Math.round(item.progress * 100)}
+                  >
+                    <div
+                      className={`h-full transition-all ${
+                        item.status === 'failed' ? 'bg-red-400' : item.status === 'uploaded' ? 'bg-green-500' : 'bg-pink-500'
+                      } ${item.status === 'processing' ? 'animate-pulse' : ''}`}
+                      style={{ width: `${Math.round((item.status === 'failed' ? 1 : item.progress) * 100)}%` }}
+                    />
+                  </div>
+                  {item.error && <p className="mt-1 text-xs text-red-600">{item.error}</p>}
+                </div>
+
+                <span
+                  className={`shrink-0 w-20 text-xs text-right ${
+                    item.status === 'failed' ? 'text-red-600' : item.status === 'uploaded' ? 'text-green-600' : 'text-gray-500'
+                  }`}
+                >
+                  {item.status === 'uploading' ? `${Math.round(item.progress * 100)}%` : STATUS_LABELS[item.status]}
+                </span>
+
+                <div className="shrink-0 w-14 text-right">
+                  {(item.status === 'queued' || item.status === 'uploading') && (
+                    <button
+                      onClick={() => cancel(item.id)}
+                      className="text-xs text-gray-500 hover:text-red-600"
+                      aria-label={`Cancel ${item.file.name}`}
+                    >
+                      Cancel
+                    </button>
+                  )}
+                  {(item.status === 'failed' || item.status === 'cancelled') && item.retryable && (
+                    <button
+                      onClick={() => retry(item.id)}
+                      className="text-xs text-pink-600 hover:text-pink-700 font-medium"
+                      aria-label={`Retry ${item.file.name}`}
+                    >
+                      Retry
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
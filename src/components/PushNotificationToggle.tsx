@@ -0,0 +1,69 @@
+import React, { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { toast } from 'react-toastify';
+import { NotificationPreferencesManager, PushNotificationManager } from '../lib/eventNotifications';
+
+/**
+ * Push Reminder Toggle
+ * Subscribes or unsubscribes this device from Web Push reminders
+ */
+export default function PushNotificationToggle() {
+  const { data: session } = useSession();
+  const [isSupported, setIsSupported] = useState(false);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!PushNotificationManager.isSupported()) return;
+    setIsSupported(true);
+    PushNotificationManager.getSubscription()
+      .then(subscription => setIsSubscribed(!!subscription))
+      .catch(() => setIsSubscribed(false));
+  }, []);
+
+  if (!isSupported || !session?.user?.id) return null;
+
+  // Keep the server-side push_enabled preference in step with this device
+  const savePreference = async (enabled: boolean) => {
+    try {
+      await NotificationPreferencesManager.savePreferences(session.user.id, { push_enabled: enabled });
+    } catch (error) {
+      console.error('Failed to save push preference:', error);
+    }
+  };
+
+  const handleToggle = async () => {
+    setIsBusy(true);
+    try {
+      if (isSubscribed) {
+        await PushNotificationManager.unsubscribe();
+        setIsSubscribed(false);
+        await savePreference(false);
+        toast.info('Push reminders turned off on this device');
+      } else if (await PushNotificationManager.subscribe()) {
+        setIsSubscribed(true);
+        await savePreference(true);
+        toast.success('Push reminders turned on for this device 🔔');
+      } else {
+        toast.warning('Allow notifications in your browser settings to get push reminders');
+      }
+    } catch (error) {
+      console.error('Push subscription error:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not change push reminders');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleToggle}
+      disabled={isBusy}
+      aria-pressed={isSubscribed}
+      title={isSubscribed ? 'Stop push reminders on this device' : 'Get reminders on this device even when the app is closed'}
+      className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium disabled:opacity-50"
+    >
+      {isSubscribed ? '🔔 Push on' : '🔕 Push off'}
+    </button>
+  );
+}
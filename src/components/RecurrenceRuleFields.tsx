@@ -0,0 +1,246 @@
+import React from 'react';
+import { isValid, parseISO } from 'date-fns';
+import { MONTH_NAMES, WEEKDAY_NAMES, describeRecurrence, getSkipMode } from '../utils/recurrenceRule';
+import type { RecurringEventConfig } from '../types/event';
+
+interface RecurrenceRuleFieldsProps {
+  config: RecurringEventConfig;
+  startDate: string; // Form value - wall-clock date in the event's timezone
+  onChange: (updates: Partial<RecurringEventConfig>) => void;
+}
+
+type MonthlyPattern = 'date' | 'month_day' | 'weekday' | 'set_pos';
+
+const ORDINAL_OPTIONS = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: 5, label: 'Fifth' },
+  { value: -2, label: 'Second to last' },
+  { value: -1, label: 'Last' }
+];
+
+// Clears every BY* part so a new pattern starts from a clean rule
+const EMPTY_PATTERN: Partial<RecurringEventConfig> = {
+  days_of_week: undefined,
+  day_of_month: undefined,
+  by_day: undefined,
+  by_month: undefined,
+  by_month_day: undefined,
+  by_set_pos: undefined
+};
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent';
+
+function getPattern(config: RecurringEventConfig): MonthlyPattern {
+  if (config.by_set_pos?.length) return 'set_pos';
+  if (config.by_day?.some(day => day.ordinal)) return 'weekday';
+  if (config.by_month_day?.length || config.day_of_month) return 'month_day';
+  return 'date';
+}
+
+/**
+ * Recurrence Pattern Editor
+ * Weekday, day-of-month, "n-th weekday" and position rules for solar recurrences
+ */
+export default function RecurrenceRuleFields({ config, startDate, onChange }: RecurrenceRuleFieldsProps) {
+  const start = parseISO(startDate);
+  const startDay = isValid(start) ? start.getDate() : 1;
+  const startWeekday = isValid(start) ? start.getDay() : 0;
+  const startMonth = isValid(start) ? start.getMonth() + 1 : 1;
+
+  const pattern = getPattern(config);
+  const selectedWeekdays = config.by_day?.map(day => day.weekday) ?? config.days_of_week ?? [];
+  const monthDay = config.by_month_day?.[0] ?? config.day_of_month ?? startDay;
+  const ordinalDay = config.by_day?.find(day => day.ordinal);
+  const isYearly = config.frequency === 'yearly';
+
+  const toggleWeekday = (weekday: number) => {
+    const next = selectedWeekdays.includes(weekday)
+      ? selectedWeekdays.filter(day => day !== weekday)
+      : [...selectedWeekdays, weekday].sort((a, b) => a - b);
+    onChange({ days_of_week: undefined, by_day: next.length ? next.map(day => ({ weekday: day })) : undefined });
+  };
+
+  const changePattern = (next: MonthlyPattern) => {
+    const byMonth = isYearly ? { by_month: config.by_month || [startMonth] } : {};
+
+    switch (next) {
+      case 'date':
+        onChange(EMPTY_PATTERN);
+        break;
+      case 'month_day':
+        onChange({ ...EMPTY_PATTERN, ...byMonth, by_month_day: [startDay] });
+        break;
+      case 'weekday': {
+        const ordinal = Math.ceil(startDay / 7);
+        onChange({ ...EMPTY_PATTERN, ...byMonth, by_day: [{ weekday: startWeekday, ordinal: ordinal > 4 ? -1 : ordinal }] });
+        break;
+      }
+      case 'set_pos':
+        onChange({ ...EMPTY_PATTERN, ...byMonth, by_day: [1, 2, 3, 4, 5].map(weekday => ({ weekday })), by_set_pos: [-1] });
+        break;
+    }
+  };
+
+  const weekdayToggles = (
+    <div className="flex flex-wrap gap-1">
+      {WEEKDAY_NAMES.map((name, weekday) => (
+        <button
+          key={name}
+          type="button"
+          onClick={() => toggleWeekday(weekday)}
+          aria-pressed={selectedWeekdays.includes(weekday)}
+          className={`w-10 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+            selectedWeekdays.includes(weekday)
+              ? 'bg-pink-500 text-white border-pink-500'
+              : 'text-gray-600 border-gray-300 hover:bg-gray-50'
+          }`}
+        >
+          {name.slice(0, 2)}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {config.frequency === 'weekly' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">On days</label>
+            {weekdayToggles}
+            {selectedWeekdays.length === 0 && (
+              <p className="mt-1 text-xs text-gray-500">Defaults to the start day ({WEEKDAY_NAMES[startWeekday]})</p>
+            )}
+          </div>
+          {config.interval > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Weeks start on</label>
+              <select
+                value={config.week_start ?? 1}
+                onChange={(e) => onChange({ week_start: parseInt(e.target.value, 10) })}
+                className={`w-full ${inputClassName}`}
+              >
+                <option value={1}>Monday</option>
+                <option value={0}>Sunday</option>
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
+      {(config.frequency === 'monthly' || isYearly) && (
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Repeat on</label>
+            <select
+              value={pattern}
+              onChange={(e) => changePattern(e.target.value as MonthlyPattern)}
+              className={`w-full ${inputClassName}`}
+            >
+              <option value="date">The same date as the first event</option>
+              <option value="month_day">A day of the month</option>
+              <option value="weekday">A weekday position (e.g. second Saturday)</option>
+              <option value="set_pos">The n-th of several weekdays (e.g. last weekday)</option>
+            </select>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {pattern === 'month_day' && (
+              <select
+                value={monthDay}
+                onChange={(e) => onChange({ day_of_month: undefined, by_month_day: [parseInt(e.target.value, 10)] })}
+                className={inputClassName}
+                aria-label="Day of month"
+              >
+                {Array.from({ length: 31 }, (_, index) => index + 1).map(day => (
+                  <option key={day} value={day}>Day {day}</option>
+                ))}
+                <option value={-1}>Last day</option>
+              </select>
+            )}
+
+            {pattern === 'weekday' && ordinalDay && (
+              <>
+                <select
+                  value={ordinalDay.ordinal}
+                  onChange={(e) => onChange({ by_day: [{ weekday: ordinalDay.weekday, ordinal: parseInt(e.target.value, 10) }] })}
+                  className={inputClassName}
+                  aria-label="Which weekday of the month"
+                >
+                  {ORDINAL_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={ordinalDay.weekday}
+                  onChange={(e) => onChange({ by_day: [{ weekday: parseInt(e.target.value, 10), ordinal: ordinalDay.ordinal }] })}
+                  className={inputClassName}
+                  aria-label="Weekday"
+                >
+                  {WEEKDAY_NAMES.map((name, weekday) => (
+                    <option key={name} value={weekday}>{name}</option>
+                  ))}
+                </select>
+              </>
+            )}
+
+            {pattern === 'set_pos' && (
+              <>
+                <select
+                  value={config.by_set_pos?.[0] ?? -1}
+                  onChange={(e) => onChange({ by_set_pos: [parseInt(e.target.value, 10)] })}
+                  className={inputClassName}
+                  aria-label="Which match"
+                >
+                  {ORDINAL_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <span className="text-sm text-gray-600">of</span>
+                {weekdayToggles}
+              </>
+            )}
+
+            {isYearly && pattern !== 'date' && (
+              <>
+                <span className="text-sm text-gray-600">in</span>
+                <select
+                  value={config.by_month?.[0] ?? startMonth}
+                  onChange={(e) => onChange({ by_month: [parseInt(e.target.value, 10)] })}
+                  className={inputClassName}
+                  aria-label="Month"
+                >
+                  {MONTH_NAMES.map((name, index) => (
+                    <option key={name} value={index + 1}>{name}</option>
+                  ))}
+                </select>
+              </>
+            )}
+          </div>
+
+          {(pattern === 'date' || pattern === 'month_day') && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                When the {isYearly ? 'year' : 'month'} has no such day (e.g. Feb 29)
+              </label>
+              <select
+                value={getSkipMode(config)}
+                onChange={(e) => onChange({ skip: e.target.value as RecurringEventConfig['skip'] })}
+                className={`w-full ${inputClassName}`}
+              >
+                <option value="backward">Use the day before (e.g. Feb 28)</option>
+                <option value="forward">Use the day after (e.g. Mar 1)</option>
+                <option value="omit">Skip that {isYearly ? 'year' : 'month'}</option>
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-purple-700">Repeats: {describeRecurrence(config)}</p>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-toastify';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { EventDisplayUtils } from '../utils/eventUtils';
+import type { EventOperationResult, EventTrashResponse, TrashedEvent } from '../types/event';
+
+interface TrashModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRestore: (id: number) => Promise<EventOperationResult>;
+}
+
+/**
+ * Trash Dialog
+ * Deleted events stay here until the retention period runs out, then
+ * database maintenance removes them for good
+ */
+export default function TrashModal({ isOpen, onClose, onRestore }: TrashModalProps) {
+  const [events, setEvents] = useState<TrashedEvent[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadTrash = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch('/api/events/trash');
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data: EventTrashResponse = await response.json();
+        setEvents(data.events);
+        setRetentionDays(data.retention_days);
+      } catch (error) {
+        console.error('Failed to load trash:', error);
+        toast.error('Could not load deleted events');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTrash();
+  }, [isOpen]);
+
+  const handleRestore = async (id: number) => {
+    setRestoringId(id);
+    try {
+      const result = await onRestore(id);
+      if (result.success) {
+        setEvents(prev => prev.filter(event => event.id !== id));
+      }
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl max-w-lg w-full p-6 space-y-5"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="trash-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 id="trash-title" className="text-xl font-semibold text-gray-800">
+            🗑️ Trash
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close modal"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {retentionDays !== null && (
+          <p className="text-sm text-gray-600">
+            Deleted events can be restored for {retentionDays} days before they are removed permanently.
+          </p>
+        )}
+
+        {isLoading && events.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-pink-500"></div>
+          </div>
+        ) : events.length > 0 ? (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg max-h-[50vh] overflow-y-auto">
+            {events.map(event => (
+              <li key={event.id} className="p-3 flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-800 truncate">
+                    {EventDisplayUtils.getCategoryDisplay(event.category).icon} {event.title}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {EventDisplayUtils.formatEventDate(event, { showTime: false, showRelative: false })}
+                    {' · '}deleted {formatDistanceToNow(parseISO(event.deleted_at), { addSuffix: true })}
+                    {' · '}purged {formatDistanceToNow(parseISO(event.purge_at), { addSuffix: true })}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRestore(event.id)}
+                  disabled={restoringId !== null}
+                  className="px-3 py-1.5 text-sm text-pink-600 border border-pink-200 rounded-lg hover:bg-pink-50 transition-colors font-medium disabled:opacity-50"
+                >
+                  {restoringId === event.id ? 'Restoring...' : 'Restore'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 text-center py-6">The trash is empty.</p>
+        )}
+
+        <div className="flex justify-end pt-2 border-t border-gray-100">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,405 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-toastify';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_EVENT_TYPES,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookEventType
+} from '../types/webhook';
+
+interface WebhooksModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700'
+};
+
+const EMPTY_FORM = { url: '', description: '', events: [...WEBHOOK_EVENT_TYPES] as WebhookEventType[] };
+
+/**
+ * Webhooks Modal
+ * Manage outgoing webhooks for home automation and chat bots
+ * - The signing secret is only shown right after it is created or rotated
+ * - Each webhook has a delivery log where any delivery can be sent again
+ */
+export default function WebhooksModal({ isOpen, onClose }: WebhooksModalProps) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [revealedSecret, setRevealedSecret] = useState<{ webhookId: number; secret: string } | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadWebhooks = useCallback(async () => {
+    try {
+      const response = await fetch('/api/webhooks');
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setWebhooks(data.webhooks);
+    } catch (error) {
+      console.error('Failed to load webhooks:', error);
+      toast.error('Could not load webhooks');
+    }
+  }, []);
+
+  const loadDeliveries = useCallback(async (webhookId: number) => {
+    try {
+      const response = await fetch(`/api/webhooks/${webhookId}/deliveries`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setDeliveries(data.deliveries);
+    } catch (error) {
+      console.error('Failed to load webhook deliveries:', error);
+      toast.error('Could not load the delivery log');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setRevealedSecret(null);
+      setSelectedId(null);
+      setForm(EMPTY_FORM);
+      return;
+    }
+
+    loadWebhooks();
+  }, [isOpen, loadWebhooks]);
+
+  useEffect(() => {
+    if (selectedId === null) {
+      setDeliveries([]);
+      return;
+    }
+
+    loadDeliveries(selectedId);
+  }, [selectedId, loadDeliveries]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  const request = async (url: string, init: RequestInit) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP ${response.status}`);
+    }
+    return data;
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isBusy) return;
+
+    setIsBusy(true);
+    try {
+      const data = await request('/api/webhooks', { method: 'POST', body: JSON.stringify(form) });
+      setRevealedSecret({ webhookId: data.webhook.id, secret: data.secret });
+      setForm(EMPTY_FORM);
+      await loadWebhooks();
+      toast.success('Webhook added 🪝');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add webhook');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUpdate = async (webhook: Webhook, changes: Record<string, unknown>) => {
+    if (isBusy) return;
+
+    setIsBusy(true);
+    try {
+      const data = await request(`/api/webhooks/${webhook.id}`, { method: 'PUT', body: JSON.stringify(changes) });
+      if (data.secret) {
+        setRevealedSecret({ webhookId: webhook.id, secret: data.secret });
+        toast.success('New signing secret generated');
+      }
+      await loadWebhooks();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update webhook');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRotate = (webhook: Webhook) => {
+    if (window.confirm('The current secret stops working immediately. Generate a new one?')) {
+      handleUpdate(webhook, { rotate_secret: true });
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (isBusy || !window.confirm(`Remove the webhook to ${webhook.url}?`)) return;
+
+    setIsBusy(true);
+    try {
+      await request(`/api/webhooks/${webhook.id}`, { method: 'DELETE' });
+      if (selectedId === webhook.id) setSelectedId(null);
+      await loadWebhooks();
+      toast.success('Webhook removed');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove webhook');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    if (isBusy) return;
+
+    setIsBusy(true);
+    try {
+      await request(`/api/webhooks/${delivery.webhook_id}/deliveries`, {
+        method: 'POST',
+        body: JSON.stringify({ delivery_id: delivery.id })
+      });
+      toast.info('Redelivery queued');
+      // Give the immediate attempt a moment before refreshing the log
+      setTimeout(() => loadDeliveries(delivery.webhook_id), 1500);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to redeliver');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCopy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success('Secret copied to clipboard');
+    } catch {
+      toast.error('Copy failed - please copy the secret manually');
+    }
+  };
+
+  const toggleFormEvent = (type: WebhookEventType) => {
+    setForm(prev => ({
+      ...prev,
+      events: prev.events.includes(type) ? prev.events.filter(event => event !== type) : [...prev.events, type]
+    }));
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto p-6 space-y-5"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="webhooks-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 id="webhooks-title" className="text-xl font-semibold text-gray-800">
+            🪝 Webhooks
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close modal"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          We POST a JSON payload to these URLs when something happens. Each request is signed with
+          HMAC-SHA256 in the <code className="text-xs bg-gray-100 px-1 rounded">X-LoveStory-Signature</code> header
+          over <code className="text-xs bg-gray-100 px-1 rounded">timestamp.body</code>; failed deliveries are retried with backoff.
+        </p>
+
+        {revealedSecret && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg space-y-2">
+            <p className="text-sm text-yellow-800 font-medium">
+              Signing secret - copy it now, it will not be shown again
+            </p>
+            <div className="flex gap-2">
+              <input
+                readOnly
+                value={revealedSecret.secret}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white font-mono"
+                aria-label="Webhook signing secret"
+              />
+              <button
+                onClick={() => handleCopy(revealedSecret.secret)}
+                className="px-3 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+              >
+                Copy
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {webhooks.length === 0 && (
+            <p className="text-sm text-gray-500">No webhooks yet.</p>
+          )}
+          {webhooks.map(webhook => (
+            <div key={webhook.id} className="border border-gray-200 rounded-lg p-3 space-y-2">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800 truncate" title={webhook.url}>{webhook.url}</p>
+                  {webhook.description && <p className="text-sm text-gray-500">{webhook.description}</p>}
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {webhook.events.map(type => (
+                      <span key={type} className="text-xs px-2 py-0.5 bg-pink-50 text-pink-700 rounded-full">
+                        {WEBHOOK_EVENT_LABELS[type] || type}
+                      </span>
+                    ))}
+                  </div>
+                  {webhook.last_delivery_status && webhook.last_delivery_at && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Last delivery {webhook.last_delivery_status} ·{' '}
+                      {formatDistanceToNow(new Date(webhook.last_delivery_at), { addSuffix: true })}
+                    </p>
+                  )}
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-600 shrink-0">
+                  <input
+                    type="checkbox"
+                    checked={webhook.is_active}
+                    disabled={isBusy}
+                    onChange={(e) => handleUpdate(webhook, { is_active: e.target.checked })}
+                    className="rounded border-gray-300 text-pink-500 focus:ring-pink-500"
+                  />
+                  Active
+                </label>
+              </div>
+
+              <div className="flex flex-wrap gap-2 text-sm">
+                <button
+                  onClick={() => setSelectedId(selectedId === webhook.id ? null : webhook.id)}
+                  className="px-3 py-1 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                  aria-expanded={selectedId === webhook.id}
+                >
+                  {selectedId === webhook.id ? 'Hide deliveries' : 'Deliveries'}
+                </button>
+                <button
+                  onClick={() => handleRotate(webhook)}
+                  disabled={isBusy}
+                  className="px-3 py-1 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  Rotate secret
+                </button>
+                <button
+                  onClick={() => handleDelete(webhook)}
+                  disabled={isBusy}
+                  className="px-3 py-1 text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+                >
+                  Remove
+                </button>
+              </div>
+
+              {selectedId === webhook.id && (
+                <div className="border-t border-gray-100 pt-2">
+                  {deliveries.length === 0 ? (
+                    <p className="text-sm text-gray-500">Nothing delivered yet.</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-100">
+                      {deliveries.map(delivery => (
+                        <li key={delivery.id} className="py-2 flex items-start justify-between gap-3 text-sm">
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2">
+                              <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[delivery.status]}`}>
+                                {delivery.status}
+                              </span>
+                              <span className="font-medium text-gray-700">{delivery.event_type}</span>
+                              {delivery.redelivery_of && <span className="text-xs text-gray-400">redelivery</span>}
+                            </div>
+                            <p className="text-xs text-gray-500 mt-0.5">
+                              {formatDistanceToNow(new Date(delivery.created_at), { addSuffix: true })}
+                              {' · '}{delivery.attempt_count} attempt{delivery.attempt_count === 1 ? '' : 's'}
+                              {delivery.response_status ? ` · HTTP ${delivery.response_status}` : ''}
+                              {delivery.duration_ms !== undefined && delivery.duration_ms !== null ? ` · ${delivery.duration_ms} ms` : ''}
+                            </p>
+                            {delivery.last_error && (
+                              <p className="text-xs text-red-600 truncate" title={delivery.last_error}>{delivery.last_error}</p>
+                            )}
+                          </div>
+                          <button
+                            onClick={() => handleRedeliver(delivery)}
+                            disabled={isBusy || delivery.status === 'pending'}
+                            className="px-3 py-1 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors shrink-0"
+                          >
+                            Redeliver
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleCreate} className="space-y-3 pt-4 border-t border-gray-100">
+          <h4 className="font-medium text-gray-800">Add a webhook</h4>
+          <input
+            type="url"
+            required
+            placeholder="https://example.com/hooks/love-story"
+            value={form.url}
+            onChange={(e) => setForm(prev => ({ ...prev, url: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            aria-label="Webhook URL"
+          />
+          <input
+            type="text"
+            maxLength={200}
+            placeholder="Description (optional)"
+            value={form.description}
+            onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            aria-label="Webhook description"
+          />
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {WEBHOOK_EVENT_TYPES.map(type => (
+              <label key={type} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.events.includes(type)}
+                  onChange={() => toggleFormEvent(type)}
+                  className="rounded border-gray-300 text-pink-500 focus:ring-pink-500"
+                />
+                {WEBHOOK_EVENT_LABELS[type]}
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isBusy || form.events.length === 0}
+              className="px-4 py-2 bg-pink-500 text-white rounded-lg hover:bg-pink-600 disabled:opacity-50 transition-colors font-medium"
+            >
+              {isBusy ? 'Working...' : 'Add webhook'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
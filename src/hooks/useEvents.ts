@@ -1,14 +1,26 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useSession } from 'next-auth/react';
 import { toast } from 'react-toastify';
-import { EventFilterUtils, EventValidator } from '../utils/eventUtils';
+import { EventFilterUtils, EventMergeUtils, EventValidator } from '../utils/eventUtils';
+import { OfflineMutationQueue, applyQueuedMutations, isNetworkError } from '../utils/offlineQueue';
+import { useRealtimeChanges } from './useRealtime';
 import type { 
   EnhancedEvent, 
   EventFormData, 
   EventFilters, 
   EventStats,
   UseEventsReturn,
-  EventOperationResult 
+  EventOperationResult,
+  OccurrenceChange,
+  EventDetailResponse,
+  EventConflictResolution,
+  EventConflictResponse,
+  EventUpdateConflict,
+  EventHistoryEntry,
+  EventHistoryFilters,
+  EventHistoryResponse,
+  QueuedEventMutation,
+  UseEventDetailReturn
 } from '../types/event';
 
 /**
@@ -131,11 +143,17 @@ export function useEvents(initialFilters: Partial<EventFilters> = {}): UseEvents
     show_recurring: true,
     ...initialFilters
   });
+  const [conflict, setConflict] = useState<EventUpdateConflict | null>(null);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [isOnline, setIsOnline] = useState(true);
   
   // Refs for managing async operations and preventing memory leaks
   const abortControllerRef = useRef<AbortController | null>(null);
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const realtimeTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const replayingRef = useRef(false);
   const mountedRef = useRef(true);
+  const conflictResolverRef = useRef<((resolution: EventConflictResolution) => void) | null>(null);
   
   // Cleanup on unmount to prevent memory leaks
   useEffect(() => {
@@ -148,6 +166,9 @@ export function useEvents(initialFilters: Partial<EventFilters> = {}): UseEvents
       if (debounceTimerRef.current) {
         clearTimeout(debounceTimerRef.current);
       }
+      if (realtimeTimerRef.current) {
+        clearTimeout(realtimeTimerRef.current);
+      }
     };
   }, []);
   
@@ -166,8 +187,9 @@ export function useEvents(initialFilters: Partial<EventFilters> = {}): UseEvents
     if (useCache) {
       const cachedData = EventCache.get<{ events: EnhancedEvent[]; stats: EventStats }>(cacheKey);
       if (cachedData) {
+        const queue = await OfflineMutationQueue.getAll().catch(() => []);
         if (mountedRef.current) {
-          setEvents(cachedData.events);
+          setEvents(applyQueuedMutations(cachedData.events, queue));
           setStats(cachedData.stats);
           setLoading(false);
         }
@@ -203,9 +225,12 @@ export function useEvents(initialFilters: Partial<EventFilters> = {}): UseEvents
       
       const data = await response.json();
       
+      // Changes still waiting to be synced stay visible on top of the server data
+      const queue = await OfflineMutationQueue.getAll().catch(() => []);
+      
       // Only update state if component is still mounted
       if (mountedRef.current && !signal.aborted) {
-        setEvents(data.events || []);
+        setEvents(applyQueuedMutations(data.events || [], queue));
         setStats(data.stats || null);
         
         // Cache successful response
@@ -258,6 +283,19 @@ export function useEvents(initialFilters: Partial<EventFilters> = {}): UseEvents
     }, 300); // 300ms debounce delay
   }, [filters, fetchEvents]);
   
+  /**
+   * Store a change made without a connection - the optimistic state stays
+   * and the change is replayed by replayOfflineMutations once back online
+   */
+  const queueOfflineMutation = useCallback(async (
+    mutation: Parameters<typeof OfflineMutationQueue.enqueue>[0]
+  ): Promise<void> => {
+    await OfflineMutationQueue.enqueue(mutation);
+    EventCache.invalidate('events-');
+    setPendingSyncCount(await OfflineMutationQueue.count());
+    toast.info('📴 Saved offline - it will sync when you are back online');
+  }, []);
+  
   /**
    * Optimistic event creation with rollback on failure
    * Provides immediate UI feedback while maintaining data consistency
@@ -325,6 +363,15 @@ export function useEvents(initialFilters: Partial<EventFilters> = {}): UseEvents
       };
       
     } catch (createError) {
+      if (OfflineMutationQueue.canQueue(createError)) {
+        await queueOfflineMutation({ type: 'create', event_id: tempId, data: eventData });
+        return {
+          success: true,
+          data: optimisticEvent,
+          queued: true
+        };
+      }
+      
       // Rollback optimistic update on failure
       setEvents(originalEvents);
       
@@ -339,15 +386,101 @@ export function useEvents(initialFilters: Partial<EventFilters> = {}): UseEvents
         error: errorMessage
       };
     }
-  }, [session, events]);
+  }, [session, events, queueOfflineMutation]);
   
   /**
-   * Event update with optimistic updates and rollback
-   * Maintains data consistency while providing responsive UI
+   * Answer for the pending merge dialog - resumes the waiting updateEvent
+   */
+  const resolveConflict = useCallback((resolution: EventConflictResolution) => {
+    const resolve = conflictResolverRef.current;
+    conflictResolverRef.current = null;
+    setConflict(null);
+    resolve?.(resolution);
+  }, []);
+  
+  /**
+   * Conditional PUT against the version the edit started from. When a partner
+   * saved in between, non-clashing changes are merged and the user picks a
+   * side for the rest (see EventConflictModal) before the write is retried
+   */
+  const sendEventUpdate = useCallback(async (
+    id: number,
+    eventData: Partial<EventFormData>,
+    baseEvent?: EnhancedEvent
+  ): Promise<{ outcome: 'updated' | 'merged' | 'discarded' | 'cancelled' | 'not_found'; event?: EnhancedEvent }> => {
+    let base = baseEvent;
+    let payload = eventData;
+    
+    for (;;) {
+      const response = await fetch(`/api/events/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(base?.version ? { 'If-Match': `"${base.version}"` } : {}),
+        },
+        body: JSON.stringify(payload),
+      });
+      
+      if (response.status === 409) {
+        const { current }: EventConflictResponse = await response.json();
+        const merge = EventMergeUtils.merge(base, payload, current);
+        
+        // Only a real clash needs the user - otherwise reapply my side on top of theirs
+        let resolution: EventConflictResolution = { action: 'merge', picks: {} };
+        if (merge.conflicts.length > 0) {
+          resolution = await new Promise<EventConflictResolution>(resolve => {
+            conflictResolverRef.current = resolve;
+            setConflict({ event_id: id, mine: payload, server: current, ...merge });
+          });
+        }
+        
+        if (resolution.action === 'cancel') {
+          return { outcome: 'cancelled', event: current };
+        }
+        
+        if (resolution.action === 'discard') {
+          return { outcome: 'discarded', event: current };
+        }
+        
+        const picks = resolution.picks;
+        payload = {
+          ...merge.merged,
+          ...Object.fromEntries(
+            merge.conflicts
+              .filter(({ field }) => picks[field] !== 'theirs')
+              .map(({ field, mine }) => [field, mine])
+          )
+        };
+        base = current;
+        
+        if (Object.keys(payload).length === 0) {
+          return { outcome: 'merged', event: current };
+        }
+        continue;
+      }
+      
+      if (response.status === 404) {
+        return { outcome: 'not_found' };
+      }
+      
+      if (!response.ok) {
+        throw new Error('Failed to update event');
+      }
+      
+      const result = await response.json();
+      return { outcome: base === baseEvent ? 'updated' : 'merged', event: result.event };
+    }
+  }, []);
+  
+  /**
+   * Event update with optimistic updates and version checking
+   * Offline (or for events that only exist in the offline queue) the change is
+   * queued with its base version, so the replay gets the same conflict handling
    */
   const updateEvent = useCallback(async (
     id: number, 
-    eventData: Partial<EventFormData>
+    eventData: Partial<EventFormData>,
+    options: { baseEvent?: EnhancedEvent } = {}
   ): Promise<EventOperationResult> => {
     if (!session) {
       return {
@@ -356,61 +489,80 @@ export function useEvents(initialFilters: Partial<EventFilters> = {}): UseEvents
       };
     }
     
-    // Find existing event for rollback purposes
+    // Find existing event for rollback purposes - events outside the loaded
+    // page (e.g. rescheduled from the calendar view) skip the optimistic update
     const existingEvent = events.find(e => e.id === id);
-    if (!existingEvent) {
-      return {
-        success: false,
-        error: 'Event not found'
-      };
-    }
-    
-    // Optimistic update
-    const updatedEvent = { 
+    const optimisticEvent = existingEvent && { 
       ...existingEvent, 
       ...eventData, 
       updated_at: new Date().toISOString() 
     };
     
-    setEvents(prev => prev.map(event => 
-      event.id === id ? updatedEvent : event
-    ));
+    // Optimistic update
+    if (optimisticEvent) {
+      setEvents(prev => prev.map(event => 
+        event.id === id ? optimisticEvent : event
+      ));
+    }
+    
+    const replaceEvent = (event: EnhancedEvent) => {
+      setEvents(prev => prev.map(item => (item.id === id ? event : item)));
+    };
+    
+    const baseEvent = options.baseEvent || existingEvent;
     
     try {
-      const response = await fetch(`/api/events/${id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(eventData),
-      });
+      // Negative ids were created offline and are not on the server yet
+      if (id < 0) {
+        throw new TypeError('Event is waiting to be synced');
+      }
       
-      if (!response.ok) {
+      const { outcome, event } = await sendEventUpdate(id, eventData, baseEvent);
+      
+      if (outcome === 'not_found') {
         throw new Error('Failed to update event');
       }
       
-      const result = await response.json();
+      if (event) replaceEvent(event);
       
-      // Update with server response
-      setEvents(prev => prev.map(event => 
-        event.id === id ? result.event : event
-      ));
+      if (outcome === 'cancelled') {
+        return {
+          success: false,
+          error: 'Update cancelled - the event was changed by someone else'
+        };
+      }
       
       // Invalidate cache
       EventCache.invalidate('events-');
+      EventCache.invalidate(`event-detail-${id}`);
       
-      toast.success('Event updated successfully!');
+      if (outcome === 'discarded') {
+        toast.info('Kept the latest saved version');
+      } else {
+        toast.success(outcome === 'updated'
+          ? 'Event updated successfully!'
+          : 'Event updated and merged with the latest changes!');
+      }
       
       return {
         success: true,
-        data: result.event
+        data: event
       };
       
     } catch (updateError) {
+      if (OfflineMutationQueue.canQueue(updateError)) {
+        await queueOfflineMutation({ type: 'update', event_id: id, data: eventData, base: baseEvent });
+        return {
+          success: true,
+          data: optimisticEvent,
+          queued: true
+        };
+      }
+      
       // Rollback on failure
-      setEvents(prev => prev.map(event => 
-        event.id === id ? existingEvent : event
-      ));
+      if (existingEvent) {
+        replaceEvent(existingEvent);
+      }
       
       const errorMessage = updateError instanceof Error 
         ? updateError.message 
@@ -423,7 +575,7 @@ export function useEvents(initialFilters: Partial<EventFilters> = {}): UseEvents
         error: errorMessage
       };
     }
-  }, [session, events]);
+  }, [session, events, sendEventUpdate, queueOfflineMutation]);
   
   /**
    * Event deletion with confirmation and optimistic updates
@@ -451,6 +603,11 @@ export function useEvents(initialFilters: Partial<EventFilters> = {}): UseEvents
     setEvents(prev => prev.filter(event => event.id !== id));
     
     try {
+      // Negative ids were created offline - dropping them from the queue is enough
+      if (id < 0) {
+        throw new TypeError('Event is waiting to be synced');
+      }
+      
       const response = await fetch(`/api/events/${id}`, {
         method: 'DELETE',
       });
@@ -461,14 +618,27 @@ export function useEvents(initialFilters: Partial<EventFilters> = {}): UseEvents
       
       // Invalidate cache
       EventCache.invalidate('events-');
+      EventCache.invalidate(`event-detail-${id}`);
       
-      toast.success('Event deleted successfully!');
-      
+      // Success toast (with Undo) is left to the caller
       return {
         success: true
       };
       
     } catch (deleteError) {
+      if (OfflineMutationQueue.canQueue(deleteError)) {
+        await queueOfflineMutation({
+          type: 'delete',
+          event_id: id,
+          base_version: eventToDelete.version,
+          title: eventToDelete.title
+        });
+        return {
+          success: true,
+          queued: true
+        };
+      }
+      
       // Rollback on failure
       setEvents(originalEvents);
       
@@ -483,7 +653,115 @@ export function useEvents(initialFilters: Partial<EventFilters> = {}): UseEvents
         error: errorMessage
       };
     }
-  }, [session, events]);
+  }, [session, events, queueOfflineMutation]);
+  
+  /**
+   * Bring a soft-deleted event back from the trash
+   */
+  const restoreEvent = useCallback(async (id: number): Promise<EventOperationResult> => {
+    if (!session) {
+      return {
+        success: false,
+        error: 'Authentication required'
+      };
+    }
+    
+    try {
+      const response = await fetch(`/api/events/${id}/restore`, {
+        method: 'POST',
+      });
+      
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to restore event');
+      }
+      
+      setEvents(prev => [...prev.filter(event => event.id !== id), result.event]);
+      EventCache.invalidate('events-');
+      EventCache.invalidate(`event-detail-${id}`);
+      
+      toast.success('Event restored!');
+      
+      return {
+        success: true,
+        data: result.event
+      };
+      
+    } catch (restoreError) {
+      const errorMessage = restoreError instanceof Error 
+        ? restoreError.message 
+        : 'Failed to restore event';
+      
+      toast.error(errorMessage);
+      
+      return {
+        success: false,
+        error: errorMessage
+      };
+    }
+  }, [session]);
+  
+  /**
+   * Occurrence-level change for recurring events
+   * 'this' stores an exception, 'following' splits the series at the occurrence;
+   * passing null restores the occurrence to the series defaults
+   */
+  const updateOccurrence = useCallback(async (
+    eventId: number,
+    occurrenceIndex: number,
+    change: OccurrenceChange | null
+  ): Promise<EventOperationResult> => {
+    if (!session) {
+      return {
+        success: false,
+        error: 'Authentication required'
+      };
+    }
+    
+    try {
+      const response = change
+        ? await fetch(`/api/events/${eventId}/occurrences`, {
+            method: 'PUT',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ occurrence_index: occurrenceIndex, ...change }),
+          })
+        : await fetch(`/api/events/${eventId}/occurrences?occurrence_index=${occurrenceIndex}`, {
+            method: 'DELETE',
+          });
+      
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update occurrence');
+      }
+      
+      setEvents(prev => prev.map(event => 
+        event.id === eventId && result.event ? result.event : event
+      ));
+      
+      // Invalidate cache
+      EventCache.invalidate('events-');
+      EventCache.invalidate(`event-detail-${eventId}`);
+      
+      return {
+        success: true,
+        data: result.event
+      };
+      
+    } catch (updateError) {
+      const errorMessage = updateError instanceof Error 
+        ? updateError.message 
+        : 'Failed to update occurrence';
+      
+      toast.error(errorMessage);
+      
+      return {
+        success: false,
+        error: errorMessage
+      };
+    }
+  }, [session]);
   
   /**
    * Manual refresh function for user-initiated updates
@@ -498,6 +776,124 @@ export function useEvents(initialFilters: Partial<EventFilters> = {}): UseEvents
     fetchEvents();
   }, [fetchEvents]);
   
+  /**
+   * Send the changes queued while offline, oldest first. Updates and deletes
+   * are conditional on the version they were made against: updates go through
+   * the usual merge, deletes of events the partner changed meanwhile are dropped
+   */
+  const replayOfflineMutations = useCallback(async (): Promise<void> => {
+    if (replayingRef.current || !session || !OfflineMutationQueue.isSupported()) return;
+    replayingRef.current = true;
+    
+    let synced = 0;
+    try {
+      const queue = await OfflineMutationQueue.getAll();
+      
+      for (const mutation of queue) {
+        try {
+          await sendQueuedMutation(mutation);
+        } catch (replayError) {
+          // Still no connection - keep this and everything after it for the next attempt
+          if (isNetworkError(replayError)) break;
+          console.error('Offline change could not be synced:', replayError);
+        }
+        
+        await OfflineMutationQueue.remove(mutation.id!);
+        synced++;
+      }
+    } catch (queueError) {
+      console.error('Offline queue error:', queueError);
+    } finally {
+      replayingRef.current = false;
+      const remaining = await OfflineMutationQueue.count().catch(() => 0);
+      if (mountedRef.current) setPendingSyncCount(remaining);
+    }
+    
+    if (synced > 0) {
+      EventCache.invalidate('events-');
+      EventCache.invalidate('event-detail-');
+      toast.success(`Synced ${synced} offline change${synced === 1 ? '' : 's'}`);
+      await fetchEvents(filters, false);
+    }
+    
+    async function sendQueuedMutation(mutation: QueuedEventMutation): Promise<void> {
+      switch (mutation.type) {
+        case 'create': {
+          const response = await fetch('/api/events', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(mutation.data),
+          });
+          if (response.status >= 500) {
+            throw new TypeError('Server unavailable'); // Retried like a lost connection
+          }
+          if (!response.ok) {
+            toast.error(`"${mutation.data.title}" could not be saved`);
+          }
+          return;
+        }
+        
+        case 'update': {
+          const { outcome } = await sendEventUpdate(mutation.event_id, mutation.data, mutation.base);
+          if (outcome === 'not_found') {
+            toast.warning(`"${mutation.base?.title || 'An event'}" was deleted, so your offline edit was dropped`);
+          }
+          return;
+        }
+        
+        case 'delete': {
+          const response = await fetch(`/api/events/${mutation.event_id}`, {
+            method: 'DELETE',
+            headers: mutation.base_version ? { 'If-Match': `"${mutation.base_version}"` } : {},
+          });
+          if (response.status >= 500) {
+            throw new TypeError('Server unavailable');
+          }
+          if (response.status === 409) {
+            toast.warning(`"${mutation.title}" was changed by your partner while you were offline, so it was kept`);
+          }
+          return;
+        }
+      }
+    }
+  }, [session, fetchEvents, filters, sendEventUpdate]);
+  
+  // Track connectivity and replay queued changes whenever the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      replayOfflineMutations();
+    };
+    const handleOffline = () => setIsOnline(false);
+    
+    setIsOnline(navigator.onLine);
+    if (navigator.onLine) replayOfflineMutations();
+    
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [replayOfflineMutations]);
+  
+  // Live updates - changes from the partner (or another tab) reload the list.
+  // Couple info drives the virtual milestones, so it reloads the list too
+  useRealtimeChanges(['event', 'couple_info'], (change) => {
+    EventCache.invalidate('events-');
+    EventCache.invalidate(change?.entity === 'event' ? `event-detail-${change.id}` : 'event-detail-');
+    
+    // Bursts (e.g. an import) collapse into a single reload
+    if (realtimeTimerRef.current) {
+      clearTimeout(realtimeTimerRef.current);
+    }
+    realtimeTimerRef.current = setTimeout(() => {
+      fetchEvents(filters, false);
+    }, 300);
+  });
+  
   /**
    * Memoized computed values to prevent unnecessary recalculations
    * Critical for performance when dealing with large event lists
@@ -538,20 +934,32 @@ export function useEvents(initialFilters: Partial<EventFilters> = {}): UseEvents
     createEvent,
     updateEvent,
     deleteEvent,
+    restoreEvent,
+    updateOccurrence,
     refreshEvents,
+    conflict,
+    resolveConflict,
+    pendingSyncCount,
+    isOnline,
     ...computedValues
   };
 }
 
 /**
  * Individual Event Detail Hook
- * Optimized for single event operations with caching
+ * Event with its upcoming occurrences, related events and paginated audit trail
  */
-export function useEventDetail(eventId: number | null) {
-  const [event, setEvent] = useState<EnhancedEvent | null>(null);
+export function useEventDetail(eventId: number | null): UseEventDetailReturn {
+  const { data: session } = useSession();
+  const [detail, setDetail] = useState<EventDetailResponse | null>(null);
+  const [history, setHistory] = useState<EventHistoryEntry[]>([]);
+  const [historyPage, setHistoryPage] = useState<Omit<EventHistoryResponse, 'entries'> | null>(null);
+  const [historyFilters, setHistoryFilters] = useState<EventHistoryFilters>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
+  const cacheKey = `event-detail-${eventId}`;
+  
   const fetchEvent = useCallback(async () => {
     if (!eventId) return;
     
@@ -559,42 +967,242 @@ export function useEventDetail(eventId: number | null) {
     setError(null);
     
     try {
-      const cacheKey = `event-${eventId}`;
-      const cached = EventCache.get<EnhancedEvent>(cacheKey);
+      const cached = EventCache.get<EventDetailResponse>(cacheKey);
       
       if (cached) {
-        setEvent(cached);
+        setDetail(cached);
         setLoading(false);
         return;
       }
       
-      const response = await fetch(`/api/events/${eventId}`);
+      // History is paged and filtered separately below
+      const response = await fetch(`/api/events/${eventId}?history=0`);
       
       if (!response.ok) {
-        throw new Error('Failed to fetch event');
+        throw new Error(response.status === 404 ? 'Event not found' : 'Failed to fetch event');
       }
       
-      const eventData = await response.json();
-      setEvent(eventData);
+      const detailData: EventDetailResponse = await response.json();
+      setDetail(detailData);
       
       // Cache the result
-      EventCache.set(cacheKey, eventData);
+      EventCache.set(cacheKey, detailData);
       
     } catch (fetchError) {
       setError(fetchError instanceof Error ? fetchError.message : 'Unknown error');
     } finally {
       setLoading(false);
     }
-  }, [eventId]);
+  }, [eventId, cacheKey]);
+  
+  /**
+   * Audit trail page - members only; page 1 replaces the list, later pages append
+   */
+  const fetchHistory = useCallback(async (page: number) => {
+    if (!eventId || !session) return;
+    
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      Object.entries(historyFilters).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+      
+      const response = await fetch(`/api/events/${eventId}/history?${params}`);
+      
+      if (!response.ok) {
+        throw new Error('Failed to load history');
+      }
+      
+      const { entries, ...pageInfo }: EventHistoryResponse = await response.json();
+      setHistory(prev => (page === 1 ? entries : [...prev, ...entries]));
+      setHistoryPage(pageInfo);
+    } catch (historyError) {
+      toast.error(historyError instanceof Error ? historyError.message : 'Failed to load history');
+    }
+  }, [eventId, session, historyFilters]);
   
   useEffect(() => {
     fetchEvent();
   }, [fetchEvent]);
   
+  useEffect(() => {
+    setHistory([]);
+    setHistoryPage(null);
+    fetchHistory(1);
+  }, [fetchHistory]);
+  
+  const refresh = useCallback(async () => {
+    EventCache.invalidate(`event-detail-${eventId}`);
+    await Promise.all([fetchEvent(), fetchHistory(1)]);
+  }, [eventId, fetchEvent, fetchHistory]);
+  
+  // Keep the open event in sync with changes saved elsewhere
+  useRealtimeChanges(['event'], (change) => {
+    if (eventId && (!change || change.id === eventId)) {
+      refresh();
+    }
+  });
+  
+  const loadMoreHistory = useCallback(async () => {
+    if (historyPage?.has_next_page) {
+      await fetchHistory(historyPage.page + 1);
+    }
+  }, [historyPage, fetchHistory]);
+  
+  /**
+   * Roll the event back to how it looked right after a history entry
+   */
+  const revertToVersion = useCallback(async (historyId: number): Promise<EventOperationResult> => {
+    if (!session || !eventId) {
+      return {
+        success: false,
+        error: 'Authentication required'
+      };
+    }
+    
+    try {
+      const response = await fetch(`/api/events/${eventId}/revert`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ history_id: historyId }),
+      });
+      
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to revert event');
+      }
+      
+      EventCache.invalidate('events-');
+      await refresh();
+      
+      toast.success(result.changed_fields?.length ? 'Event reverted!' : 'Event already matches this version');
+      
+      return {
+        success: true,
+        data: result.event
+      };
+      
+    } catch (revertError) {
+      const errorMessage = revertError instanceof Error 
+        ? revertError.message 
+        : 'Failed to revert event';
+      
+      toast.error(errorMessage);
+      
+      return {
+        success: false,
+        error: errorMessage
+      };
+    }
+  }, [session, eventId, refresh]);
+  
+  const updateEvent = useCallback(async (data: Partial<EventFormData>): Promise<EventOperationResult> => {
+    if (!session || !eventId) {
+      return {
+        success: false,
+        error: 'Authentication required'
+      };
+    }
+    
+    try {
+      const version = detail?.event.version;
+      const response = await fetch(`/api/events/${eventId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(version ? { 'If-Match': `"${version}"` } : {}),
+        },
+        body: JSON.stringify(data),
+      });
+      
+      const result = await response.json().catch(() => ({}));
+      if (response.status === 409) {
+        // Show what the partner saved; the caller can reapply its change on top
+        await refresh();
+        throw new Error(result.error || 'This event was changed by someone else');
+      }
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update event');
+      }
+      
+      EventCache.invalidate('events-');
+      await refresh();
+      
+      return {
+        success: true,
+        data: result.event
+      };
+      
+    } catch (updateError) {
+      const errorMessage = updateError instanceof Error 
+        ? updateError.message 
+        : 'Failed to update event';
+      
+      toast.error(errorMessage);
+      
+      return {
+        success: false,
+        error: errorMessage
+      };
+    }
+  }, [session, eventId, detail, refresh]);
+  
+  const deleteEvent = useCallback(async (): Promise<EventOperationResult> => {
+    if (!session || !eventId) {
+      return {
+        success: false,
+        error: 'Authentication required'
+      };
+    }
+    
+    try {
+      const response = await fetch(`/api/events/${eventId}`, {
+        method: 'DELETE',
+      });
+      
+      if (!response.ok) {
+        throw new Error('Failed to delete event');
+      }
+      
+      EventCache.invalidate('events-');
+      EventCache.invalidate(`event-detail-${eventId}`);
+      
+      return {
+        success: true
+      };
+      
+    } catch (deleteError) {
+      const errorMessage = deleteError instanceof Error 
+        ? deleteError.message 
+        : 'Failed to delete event';
+      
+      toast.error(errorMessage);
+      
+      return {
+        success: false,
+        error: errorMessage
+      };
+    }
+  }, [session, eventId]);
+  
   return {
-    event,
+    event: detail?.event || null,
     loading,
     error,
-    refresh: fetchEvent
+    occurrences: detail?.upcoming_occurrences || [],
+    relatedEvents: detail?.related_events || [],
+    history,
+    historyTotal: historyPage?.total_count || 0,
+    hasMoreHistory: Boolean(historyPage?.has_next_page),
+    historyContributors: historyPage?.contributors || [],
+    historyFilters,
+    updateEvent,
+    deleteEvent,
+    revertToVersion,
+    setHistoryFilters,
+    loadMoreHistory,
+    refresh
   };
-}
\ No newline at end of file
+}
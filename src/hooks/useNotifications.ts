@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useRealtimeChanges } from './useRealtime';
+import type { InAppNotification, NotificationInbox } from '../types/notification';
+
+const INBOX_LIMIT = 20;
+
+export interface UseNotificationsReturn extends NotificationInbox {
+  isLoading: boolean;
+  markRead: (id: number, read?: boolean) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  dismiss: (id: number) => Promise<void>;
+  reload: () => Promise<NotificationInbox | null>;
+}
+
+/**
+ * Notification Center Hook
+ * The signed-in user's inbox, kept in sync with their other devices through
+ * the realtime stream. onNotification fires for each notification that
+ * arrives while the page is open.
+ */
+export function useNotifications(onNotification?: (notification: InAppNotification) => void): UseNotificationsReturn {
+  const [inbox, setInbox] = useState<NotificationInbox>({ notifications: [], unread_count: 0 });
+  const [isLoading, setIsLoading] = useState(true);
+  const onNotificationRef = useRef(onNotification);
+  onNotificationRef.current = onNotification;
+
+  const reload = useCallback(async (): Promise<NotificationInbox | null> => {
+    try {
+      const response = await fetch(`/api/notifications?limit=${INBOX_LIMIT}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data: NotificationInbox = await response.json();
+      setInbox(data);
+      return data;
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  useRealtimeChanges(['notification'], async (change) => {
+    const latest = await reload();
+    if (change?.action !== 'created' || !latest) return;
+
+    const created = latest.notifications.find(notification => notification.id === change.id);
+    if (created && !created.read_at) {
+      onNotificationRef.current?.(created);
+    }
+  });
+
+  // Optimistic update; the server's answer (or a reload on failure) settles the count
+  const markRead = useCallback(async (id: number, read: boolean = true) => {
+    setInbox(prev => {
+      const target = prev.notifications.find(notification => notification.id === id);
+      if (!target || !!target.read_at === read) return prev;
+      return {
+        notifications: prev.notifications.map(notification => (
+          notification.id === id
+            ? { ...notification, read_at: read ? new Date().toISOString() : undefined }
+            : notification
+        )),
+        unread_count: Math.max(0, prev.unread_count + (read ? -1 : 1))
+      };
+    });
+
+    try {
+      const response = await fetch(`/api/notifications/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ read })
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setInbox(prev => ({ ...prev, unread_count: data.unread_count }));
+    } catch (error) {
+      console.error('Failed to update notification:', error);
+      await reload();
+    }
+  }, [reload]);
+
+  const markAllRead = useCallback(async () => {
+    const now = new Date().toISOString();
+    setInbox(prev => ({
+      notifications: prev.notifications.map(notification => ({ ...notification, read_at: notification.read_at || now })),
+      unread_count: 0
+    }));
+
+    try {
+      const response = await fetch('/api/notifications/read', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+      await reload();
+    }
+  }, [reload]);
+
+  const dismiss = useCallback(async (id: number) => {
+    setInbox(prev => {
+      const target = prev.notifications.find(notification => notification.id === id);
+      return {
+        notifications: prev.notifications.filter(notification => notification.id !== id),
+        unread_count: target && !target.read_at ? Math.max(0, prev.unread_count - 1) : prev.unread_count
+      };
+    });
+
+    try {
+      const response = await fetch(`/api/notifications/${id}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) throw new Error(`HTTP ${response.status}`);
+    } catch (error) {
+      console.error('Failed to dismiss notification:', error);
+      await reload();
+    }
+  }, [reload]);
+
+  return { ...inbox, isLoading, markRead, markAllRead, dismiss, reload };
+}
@@ -0,0 +1,257 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { PhotoBatchResponse, PhotoUploadOptions } from '../types/photoUpload';
+import { PHOTO_BATCH_MAX_FILES } from '../types/photoUpload';
+
+// Files go up in batch requests of at most this many bytes, one request at a time
+const BATCH_MAX_BYTES = 25 * 1024 * 1024;
+
+export type PhotoUploadStatus = 'queued' | 'uploading' | 'processing' | 'uploaded' | 'failed' | 'cancelled';
+
+export interface PhotoUploadItem {
+  id: number;
+  file: File;
+  options: PhotoUploadOptions; // Batch settings as they were when the file was queued
+  status: PhotoUploadStatus;
+  progress: number; // 0-1 of the file's bytes sent
+  error?: string;
+  retryable: boolean;
+}
+
+export interface UsePhotoUploadQueueReturn {
+  items: PhotoUploadItem[];
+  isUploading: boolean;
+  enqueue: (files: File[], options: PhotoUploadOptions) => void;
+  reject: (file: File, error: string) => void; // List a file that was never sent, e.g. too large
+  retry: (id: number) => void;
+  retryFailed: () => void;
+  cancel: (id: number) => void;
+  clearFinished: () => void;
+}
+
+interface ActiveBatch {
+  ids: number[];
+  xhr: XMLHttpRequest;
+  sent: boolean; // Every byte is out and the server is storing the photos
+}
+
+const isPending = (item: PhotoUploadItem) =>
+  item.status === 'queued' || item.status === 'uploading' || item.status === 'processing';
+
+/**
+ * Photo Upload Queue Hook
+ * Sends queued files to /api/photos/batch - files queued with the same
+ * settings share a request - and tracks each file on its own: progress from
+ * the bytes of the request sent so far, the server's per-file result, retry
+ * and cancel. onSettled fires once the queue runs dry with the number of
+ * photos uploaded and failed since the last time.
+ */
+export function usePhotoUploadQueue(
+  onSettled?: (summary: { uploaded: number; failed: number }) => void
+): UsePhotoUploadQueueReturn {
+  const [items, setItems] = useState<PhotoUploadItem[]>([]);
+  const activeRef = useRef<ActiveBatch | null>(null);
+  const nextIdRef = useRef(1);
+  const reportedRef = useRef(new Set<number>()); // Finished files onSettled has counted
+  const onSettledRef = useRef(onSettled);
+  onSettledRef.current = onSettled;
+
+  const updateItems = useCallback((ids: number[], update: (item: PhotoUploadItem) => PhotoUploadItem) => {
+    setItems(prev => prev.map(item => (ids.includes(item.id) ? update(item) : item)));
+  }, []);
+
+  const finishBatch = useCallback((ids: number[], update: (item: PhotoUploadItem, index: number) => PhotoUploadItem) => {
+    activeRef.current = null;
+    setItems(prev => prev.map(item => {
+      const index = ids.indexOf(item.id);
+      return index === -1 || item.status === 'cancelled' ? item : update(item, index);
+    }));
+  }, []);
+
+  const sendBatch = useCallback((batch: PhotoUploadItem[]) => {
+    const ids = batch.map(item => item.id);
+    const { options } = batch[0];
+
+    const formData = new FormData();
+    if (options.title) formData.append('title', options.title);
+    if (options.description) formData.append('description', options.description);
+    if (options.album_id) formData.append('album_id', String(options.album_id));
+    if (options.tags?.length) formData.append('tags', JSON.stringify(options.tags));
+    if (options.strip_location) formData.append('strip_location', 'true');
+    batch.forEach(item => formData.append('photos', item.file));
+
+    const xhr = new XMLHttpRequest();
+    const active: ActiveBatch = { ids, xhr, sent: false };
+    activeRef.current = active;
+    updateItems(ids, item => ({ ...item, status: 'uploading', progress: 0, error: undefined }));
+
+    // The files are sent in order, so each one's share of the bytes sent so
+    // far is its progress (the multipart boundaries are close enough to noise)
+    xhr.upload.onprogress = (event) => {
+      let offset = 0;
+      const progress = new Map(batch.map(item => {
+        const sent = Math.min(Math.max(event.loaded - offset, 0), item.file.size);
+        offset += item.file.size;
+        return [item.id, item.file.size > 0 ? sent / item.file.size : 1];
+      }));
+      updateItems(ids, item => ({ ...item, progress: progress.get(item.id) ?? item.progress }));
+    };
+
+    // All bytes are out - the server is storing the photos now
+    xhr.upload.onload = () => {
+      active.sent = true;
+      updateItems(ids, item => (item.status === 'uploading' ? { ...item, status: 'processing', progress: 1 } : item));
+    };
+
+    xhr.onload = () => {
+      let data: Partial<PhotoBatchResponse> & { error?: string } = {};
+      try {
+        data = JSON.parse(xhr.responseText);
+      } catch {
+        // Not JSON - reported from the status below
+      }
+
+      if ((xhr.status === 201 || xhr.status === 207) && data.results) {
+        const results = data.results;
+        finishBatch(ids, (item, index) => {
+          const result = results[index];
+          if (result?.status === 'uploaded') {
+            return { ...item, status: 'uploaded', progress: 1 };
+          }
+          return {
+            ...item,
+            status: 'failed',
+            error: result?.error || 'Upload failed',
+            // A file of the wrong type or size, or one whose location cannot be removed, fails the same way every time
+            retryable: !['INVALID_FILE_TYPE', 'FILE_TOO_LARGE', 'LOCATION_STRIP_FAILED'].includes(result?.code ?? ''),
+          };
+        });
+        return;
+      }
+
+      const error = data.error || `Upload failed (HTTP ${xhr.status})`;
+      finishBatch(ids, item => ({ ...item, status: 'failed', error, retryable: xhr.status !== 401 }));
+    };
+
+    xhr.onerror = () => {
+      finishBatch(ids, item => ({ ...item, status: 'failed', error: 'Network error - check your connection', retryable: true }));
+    };
+
+    // Aborted by cancel(), which has already settled every file of the batch
+    xhr.onabort = () => {
+      if (activeRef.current === active) activeRef.current = null;
+    };
+
+    xhr.open('POST', '/api/photos/batch');
+    xhr.send(formData);
+  }, [updateItems, finishBatch]);
+
+  // Start the next batch whenever the line is free: the first queued file plus
+  // the queued files after it with the same settings, within the size limits
+  useEffect(() => {
+    if (activeRef.current) return;
+
+    const first = items.find(item => item.status === 'queued');
+    if (!first) {
+      if (items.some(isPending)) return;
+
+      const finished = items.filter(item =>
+        (item.status === 'uploaded' || item.status === 'failed') && !reportedRef.current.has(item.id)
+      );
+      if (finished.length > 0) {
+        finished.forEach(item => reportedRef.current.add(item.id));
+        const uploaded = finished.filter(item => item.status === 'uploaded').length;
+        onSettledRef.current?.({ uploaded, failed: finished.length - uploaded });
+      }
+      return;
+    }
+
+    const optionsKey = JSON.stringify(first.options);
+    const batch: PhotoUploadItem[] = [];
+    let bytes = 0;
+    for (const item of items) {
+      if (item.status !== 'queued' || JSON.stringify(item.options) !== optionsKey) continue;
+      if (batch.length > 0 && (batch.length >= PHOTO_BATCH_MAX_FILES || bytes + item.file.size > BATCH_MAX_BYTES)) break;
+      batch.push(item);
+      bytes += item.file.size;
+    }
+
+    sendBatch(batch);
+  }, [items, sendBatch]);
+
+  // Nothing left running when the page goes away
+  useEffect(() => {
+    const active = activeRef;
+    return () => active.current?.xhr.abort();
+  }, []);
+
+  const enqueue = useCallback((files: File[], options: PhotoUploadOptions) => {
+    const queued = files.map((file): PhotoUploadItem => ({
+      id: nextIdRef.current++,
+      file,
+      options,
+      status: 'queued',
+      progress: 0,
+      retryable: true,
+    }));
+    setItems(prev => [...prev, ...queued]);
+  }, []);
+
+  const reject = useCallback((file: File, error: string) => {
+    const id = nextIdRef.current++;
+    setItems(prev => [...prev, { id, file, options: { strip_location: false }, status: 'failed', progress: 0, error, retryable: false }]);
+  }, []);
+
+  const retry = useCallback((id: number) => {
+    reportedRef.current.delete(id);
+    setItems(prev => prev.map(item => (
+      item.id === id && item.retryable && (item.status === 'failed' || item.status === 'cancelled')
+        ? { ...item, status: 'queued', progress: 0, error: undefined }
+        : item
+    )));
+  }, []);
+
+  const retryFailed = useCallback(() => {
+    setItems(prev => prev.map(item => {
+      if (item.status !== 'failed' || !item.retryable) return item;
+      reportedRef.current.delete(item.id);
+      return { ...item, status: 'queued', progress: 0, error: undefined };
+    }));
+  }, []);
+
+  // A queued file is dropped from the line; a file on its way aborts its
+  // request and the rest of that batch goes back in the queue. Once the
+  // server has the bytes ("processing") it is too late to cancel.
+  const cancel = useCallback((id: number) => {
+    const active = activeRef.current;
+    if (active?.ids.includes(id)) {
+      if (active.sent) return;
+      activeRef.current = null;
+      active.xhr.abort();
+      setItems(prev => prev.map(item => {
+        if (item.id === id) return { ...item, status: 'cancelled', progress: 0 };
+        if (active.ids.includes(item.id)) return { ...item, status: 'queued', progress: 0 };
+        return item;
+      }));
+      return;
+    }
+
+    setItems(prev => prev.map(item => (
+      item.id === id && item.status === 'queued' ? { ...item, status: 'cancelled' } : item
+    )));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(isPending));
+  }, []);
+
+  return {
+    items,
+    isUploading: items.some(isPending),
+    enqueue,
+    reject,
+    retry,
+    retryFailed,
+    cancel,
+    clearFinished,
+  };
+}
@@ -0,0 +1,84 @@
+import { useEffect, useRef } from 'react';
+import type { RealtimeChange, RealtimeChangeHandler, RealtimeEntity } from '../types/realtime';
+
+/**
+ * Shared Realtime Connection
+ * One EventSource per tab, opened by the first subscriber and closed with the last
+ */
+class RealtimeConnection {
+  private static source: EventSource | null = null;
+  private static handlers = new Set<RealtimeChangeHandler>();
+  private static hasConnected = false;
+
+  static subscribe(handler: RealtimeChangeHandler): () => void {
+    this.handlers.add(handler);
+    if (!this.source) this.open();
+
+    return () => {
+      this.handlers.delete(handler);
+      if (this.handlers.size === 0) this.close();
+    };
+  }
+
+  private static open(): void {
+    const source = new EventSource('/api/realtime');
+    this.source = source;
+
+    source.addEventListener('open', () => {
+      // EventSource retries on its own - after a dropped stream, catch up on what was missed
+      if (this.hasConnected) this.emit(null);
+      this.hasConnected = true;
+    });
+
+    source.addEventListener('change', (event) => {
+      try {
+        this.emit(JSON.parse((event as MessageEvent).data) as RealtimeChange);
+      } catch (error) {
+        console.error('Invalid realtime change:', error);
+      }
+    });
+
+    source.addEventListener('resync', () => this.emit(null));
+
+    // A refused stream (signed out) is not retried - the next subscriber opens a new one
+    source.addEventListener('error', () => {
+      if (source.readyState === EventSource.CLOSED && this.source === source) {
+        this.source = null;
+        this.hasConnected = false;
+      }
+    });
+  }
+
+  private static close(): void {
+    this.source?.close();
+    this.source = null;
+    this.hasConnected = false;
+  }
+
+  private static emit(change: RealtimeChange | null): void {
+    for (const handler of this.handlers) {
+      handler(change);
+    }
+  }
+}
+
+/**
+ * Realtime Changes Hook
+ * Calls onChange for changes to the given entities made by anyone - this tab,
+ * the partner or another device - and with null when the view should resync
+ */
+export function useRealtimeChanges(entities: RealtimeEntity[], onChange: RealtimeChangeHandler): void {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const entityKey = entities.join(',');
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || typeof EventSource === 'undefined') return;
+
+    const watched = new Set(entityKey.split(','));
+    return RealtimeConnection.subscribe((change) => {
+      if (!change || watched.has(change.entity)) onChangeRef.current(change);
+    });
+  }, [entityKey]);
+}
@@ -0,0 +1,71 @@
+// lib/albums.ts - Photo album input validation and browser-ready album payloads
+import { withPhotoUrls } from './photoStorage';
+import {
+  ALBUM_DESCRIPTION_MAX_LENGTH,
+  ALBUM_MAX_PHOTOS_PER_REQUEST,
+  ALBUM_TITLE_MAX_LENGTH,
+  type PhotoAlbum,
+  type PhotoAlbumInput
+} from '../types/album';
+
+/**
+ * Validate a create (partial = false) or update body
+ */
+export function validateAlbumInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): { value?: PhotoAlbumInput; error?: string } {
+  const value: PhotoAlbumInput = {};
+
+  if (!partial || body.title !== undefined) {
+    const title = typeof body.title === 'string' ? body.title.trim() : '';
+    if (!title || title.length > ALBUM_TITLE_MAX_LENGTH) {
+      return { error: `title is required and at most ${ALBUM_TITLE_MAX_LENGTH} characters` };
+    }
+    value.title = title;
+  }
+
+  if (body.description !== undefined) {
+    if (body.description !== null && (typeof body.description !== 'string' || body.description.length > ALBUM_DESCRIPTION_MAX_LENGTH)) {
+      return { error: `description must be text of at most ${ALBUM_DESCRIPTION_MAX_LENGTH} characters` };
+    }
+    value.description = typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null;
+  }
+
+  if (body.cover_photo_id !== undefined) {
+    if (body.cover_photo_id !== null && !Number.isInteger(body.cover_photo_id)) {
+      return { error: 'cover_photo_id must be a photo number or null' };
+    }
+    value.cover_photo_id = body.cover_photo_id as number | null;
+  }
+
+  if (body.is_featured !== undefined) {
+    if (typeof body.is_featured !== 'boolean') {
+      return { error: 'is_featured must be a boolean' };
+    }
+    value.is_featured = body.is_featured;
+  }
+
+  return { value };
+}
+
+/**
+ * Validate a list of photo ids - duplicates are kept so reordering can reject them
+ */
+export function validatePhotoIds(value: unknown): { photoIds?: number[]; error?: string } {
+  if (
+    !Array.isArray(value) ||
+    value.length > ALBUM_MAX_PHOTOS_PER_REQUEST ||
+    !value.every((id) => Number.isInteger(id) && id > 0)
+  ) {
+    return { error: `photo_ids must be a list of at most ${ALBUM_MAX_PHOTOS_PER_REQUEST} photo numbers` };
+  }
+  return { photoIds: value as number[] };
+}
+
+/**
+ * Album with cover URLs the browser can load
+ */
+export function withAlbumCoverUrls(album: PhotoAlbum): PhotoAlbum {
+  return album.cover ? { ...album, cover: withPhotoUrls(album.cover) } : album;
+}
@@ -1,6 +1,8 @@
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from './auth';
 import type { NextRequest } from 'next/server';
+import type { NextApiRequest } from 'next';
+import { timingSafeEqual } from 'crypto';
 
 /**
  * Server-side session retrieval utility
@@ -41,6 +43,23 @@ export function requireAuth() {
   };
 }
 
+/**
+ * Shared-secret check for cron triggers (reminder dispatch, weekly digest)
+ * Expects Authorization: Bearer <REMINDER_DISPATCH_SECRET>
+ */
+export function hasValidDispatchSecret(req: NextApiRequest): boolean {
+  const secret = process.env.REMINDER_DISPATCH_SECRET;
+  const header = req.headers.authorization;
+
+  if (!secret || !header?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const provided = Buffer.from(header.slice('Bearer '.length));
+  const expected = Buffer.from(secret);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
 /**
  * Rate limiting utility for authentication endpoints
  * Prevents brute force attacks with sliding window algorithm
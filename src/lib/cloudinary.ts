@@ -126,3 +126,14 @@ export async function deleteFromCloudinary(
     };
   }
 }
+
+/**
+ * Delivery URL for an uploaded image, optionally through one of the
+ * THUMBNAIL_CONFIGS transformations
+ */
+export function getCloudinaryUrl(
+  cloudinaryId: string,
+  transformation?: (typeof THUMBNAIL_CONFIGS)[keyof typeof THUMBNAIL_CONFIGS]
+): string {
+  return cloudinary.url(cloudinaryId, { secure: true, ...transformation });
+}
@@ -1,6 +1,33 @@
 // lib/database.ts - Enhanced PostgreSQL database with comprehensive event management
 import { Pool, PoolClient } from 'pg';
 import bcrypt from "bcryptjs";
+import {
+  MilestoneGenerator,
+  DEFAULT_MILESTONE_TIMEZONE,
+  type MilestoneRuleId,
+  type MilestoneSetting,
+} from "../utils/milestones";
+import { EventFilterUtils, EventMergeUtils, RecurringEventCalculator } from "../utils/eventUtils";
+import { isWebPushConfigured } from "./webPush";
+import { NotificationPreferencesManager, type NotificationPreferences } from "./eventNotifications";
+import type { InAppNotification, InAppNotificationInput, NotificationInbox } from "../types/notification";
+import type {
+  Webhook,
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookInput,
+  WebhookWithSecret,
+} from "../types/webhook";
+import type { AlbumChangeResult, PhotoAlbum, PhotoAlbumInput } from "../types/album";
+import {
+  PHOTO_FACET_LIMIT,
+  type PhotoFacets,
+  type PhotoLabelInput,
+  type PhotoLabelKind,
+  type FacetCount,
+  type PhotoSearchFilters,
+} from "../types/photoSearch";
+import { toPrefixTsQuery } from "./photoSearch";
 
 /**
  * Core Interfaces - Backward Compatible with Extensions
@@ -36,11 +63,34 @@ export interface EnhancedEvent extends Event {
   category: "anniversary" | "birthday" | "date" | "milestone" | "other";
   priority: "low" | "medium" | "high";
   recurring_config?: RecurringEventConfig;
-  reminder_minutes?: number;
+  reminder_minutes?: number; // Shortest lead time in reminders
+  reminders: EventReminderSetting[];
   created_by?: string;
   updated_by?: string;
   version: number;
   deleted_at?: string;
+  external_uid?: string;
+  milestone_key?: string;
+  is_virtual?: boolean;
+  exceptions?: EventOccurrenceException[];
+}
+
+// Cancellation or override of one occurrence of a recurring event
+export interface EventOccurrenceException {
+  occurrence_index: number;
+  original_date: string;
+  is_cancelled: boolean;
+  date?: string;
+  title?: string;
+  location?: string;
+  description?: string;
+}
+
+// One of an event's reminders - see syncEventReminders for how it becomes event_reminders rows
+export interface EventReminderSetting {
+  minutes_before: number;
+  delivery_method: EventReminder["delivery_method"];
+  reminder_type: EventReminder["reminder_type"];
 }
 
 export interface RecurringEventConfig {
@@ -50,8 +100,40 @@ export interface RecurringEventConfig {
   max_occurrences?: number;
   days_of_week?: number[];
   day_of_month?: number;
+  by_day?: Array<{ weekday: number; ordinal?: number }>;
+  by_month?: number[];
+  by_month_day?: number[];
+  by_set_pos?: number[];
+  week_start?: number;
+  skip?: "omit" | "backward" | "forward";
+  calendar_system?: "solar" | "lunar";
+}
+
+// One row of the event_history audit trail
+export interface EventHistoryEntry {
+  id: number;
+  event_id: number;
+  action: "created" | "updated" | "deleted" | "restored";
+  changed_fields: string[];
+  old_values?: Record<string, unknown>;
+  new_values?: Record<string, unknown>;
+  changed_by?: string;
+  changed_by_name?: string;
+  changed_at: string;
+}
+
+export interface EventHistoryFilters {
+  changed_by?: string; // User id
+  from?: Date;
+  to?: Date;
 }
 
+// Result of reapplying a historical snapshot of an event
+export type EventRevertResult =
+  | { status: "reverted"; changed_fields: string[] }
+  | { status: "unchanged" }
+  | { status: "not_found" };
+
 export interface EventFilters {
   category?: EnhancedEvent["category"];
   priority?: EnhancedEvent["priority"];
@@ -62,6 +144,25 @@ export interface EventFilters {
   show_past?: boolean;
 }
 
+// Payload accepted by createEnhancedEvent / createEnhancedEventsBatch
+export interface EnhancedEventInput {
+  title: string;
+  date: string;
+  description?: string;
+  is_recurring: boolean;
+  recurring_config?: RecurringEventConfig;
+  category: EnhancedEvent["category"];
+  priority: EnhancedEvent["priority"];
+  timezone?: string;
+  is_all_day?: boolean;
+  location?: string;
+  reminder_minutes?: number; // Older clients - becomes a single reminder when reminders is not given
+  reminders?: EventReminderSetting[];
+  external_uid?: string;
+  milestone_key?: string;
+  exceptions?: EventOccurrenceException[];
+}
+
 export interface EventStats {
   total_events: number;
   upcoming_events: number;
@@ -81,14 +182,143 @@ export interface User {
 
 export interface Photo {
   id: number;
-  cloudinary_id: string;
+  cloudinary_id: string; // Storage key within storage_provider (the column predates other drivers)
+  storage_provider: 'cloudinary' | 'local' | 's3';
   public_url: string;
   title?: string;
   description?: string;
   upload_date: string;
+  // From the image's EXIF data at upload - unset when the image had none
+  taken_at?: string;
+  taken_at_offset?: string; // "+07:00" when the camera recorded its timezone
+  width?: number;
+  height?: number;
+  orientation?: number;
+  camera_make?: string;
+  camera_model?: string;
+  latitude?: number;
+  longitude?: number;
+  tags: string[]; // Free-form keywords, lowercase
+  people: string[]; // Who's in the photo
+  created_at: string;
+}
+
+// Soft-deleted event as listed in the trash
+export interface TrashedEvent extends EnhancedEvent {
+  deleted_at: string;
+  purge_at: string; // When performMaintenance removes it for good
+}
+
+export type EventRestoreResult = "restored" | "not_found" | "conflict";
+
+// "conflict" - the caller's expected version is no longer current
+export type EventUpdateResult = "updated" | "not_found" | "conflict";
+
+export type EventDeleteResult = "deleted" | "not_found" | "conflict";
+
+// Row in event_reminders - drained server-side by the reminder dispatcher
+export interface EventReminder {
+  id: number;
+  event_id: number;
+  reminder_time: string;
+  reminder_type: "standard" | "urgent" | "gentle";
+  status: "pending" | "sent" | "failed" | "cancelled";
+  delivery_method: "browser" | "email" | "push";
+  retry_count: number;
+  last_attempt?: string;
+  next_attempt_at?: string;
+  last_error?: string;
+  locked_by?: string;
+  locked_until?: string;
+  delivered_to: number[]; // Users already reached while others were in quiet hours
+  minutes_before?: number; // Lead time of the event reminder this row was created for
+  occurrence_date?: string; // Start of the occurrence it reminds about
+  created_at: string;
+}
+
+const REMINDER_DELIVERY_METHODS: EventReminder["delivery_method"][] = ["browser", "email", "push"];
+
+/**
+ * Channel new reminders are sent through - REMINDER_DELIVERY_METHOD overrides
+ * the default of Web Push when VAPID keys are configured, browser otherwise
+ */
+export function getDefaultReminderDelivery(): EventReminder["delivery_method"] {
+  const configured = process.env.REMINDER_DELIVERY_METHOD as EventReminder["delivery_method"] | undefined;
+  if (configured && REMINDER_DELIVERY_METHODS.includes(configured)) {
+    return configured;
+  }
+  return isWebPushConfigured() ? "push" : "browser";
+}
+
+// Reminder claimed by a dispatcher worker, joined with its parent event
+export interface ClaimedReminder extends EventReminder {
+  event: EnhancedEvent;
+}
+
+// Browser push subscription of one device (see lib/webPush.ts)
+export interface PushSubscriptionRecord {
+  id: number;
+  user_id: number;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  user_agent?: string;
+  expires_at?: string;
+  created_at: string;
+  last_used_at?: string;
+}
+
+// Delivery leased by the webhook dispatcher, joined with its endpoint
+export interface ClaimedWebhookDelivery extends WebhookDelivery {
+  url: string;
+  secret: string;
+}
+
+export interface WebhookAttemptOutcome {
+  responseStatus?: number;
+  responseBody?: string;
+  durationMs: number;
+  error?: string;
+}
+
+// Partner who receives email reminders and the weekly digest
+export type NotificationRecipient = Pick<User, "id" | "email" | "name">;
+
+// Recipient with their stored (or default) notification preferences
+export interface RecipientPreferences extends NotificationRecipient {
+  preferences: NotificationPreferences;
+}
+
+// Per-user secret for the read-only iCalendar subscription feed (only the hash is stored)
+export interface CalendarFeedToken {
+  id: number;
+  user_id: number;
+  token_hash: string;
   created_at: string;
+  last_accessed_at?: string;
+}
+
+// Row change published on the app_changes channel by the notify_app_change trigger
+export interface DataChange {
+  entity: "event" | "photo" | "couple_info" | "notification" | "album";
+  action: "created" | "updated" | "deleted" | "restored";
+  id: number;
+  changed_by: string | null;
+  user_id?: number | null; // Owner of a notification - other users never see its changes
 }
 
+// Receives null when changes may have been missed (listener reconnected)
+export type DataChangeListener = (change: DataChange | null) => void;
+
+// Event columns a history revert may restore
+const REVERTIBLE_EVENT_FIELDS = [
+  "title", "date", "description", "is_recurring", "recurring_config", "category",
+  "priority", "timezone", "is_all_day", "location", "reminder_minutes", "reminders",
+];
+
+// Event columns that decide where each occurrence of a series falls
+const SERIES_PATTERN_FIELDS = ["date", "recurring_config", "is_recurring", "timezone", "is_all_day"];
+
 /**
  * Runtime Environment Detection - Enhanced Security
  * Prevents client-side execution with comprehensive checks
@@ -171,11 +401,27 @@ class DatabaseManager {
     { data: any; timestamp: number; ttl: number }
   >();
   private readonly DEFAULT_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+  private readonly MILESTONE_HORIZON_DAYS = 365; // How far ahead virtual milestones are listed
+  private readonly RELATED_EVENT_WINDOW_DAYS = 30; // "Nearby" distance for related events
+  private readonly TRASH_RETENTION_DAYS = Math.max(
+    1,
+    parseInt(process.env.TRASH_RETENTION_DAYS || "30", 10) || 30
+  ); // Soft-deleted events are purged for good after this many days
+  private readonly DEFAULT_REMINDER_DELIVERY = getDefaultReminderDelivery(); // Channel new reminders are sent through
+  private readonly WEBHOOK_DELIVERY_RETENTION_DAYS = 30; // Finished deliveries stay in the log this long
+  private readonly NOTIFICATION_RETENTION_DAYS = 90; // Inbox entries are removed after this long
   private performanceMetrics = new Map<
     string,
     { count: number; totalTime: number; avgTime: number }
   >();
 
+  // LISTEN/NOTIFY fan-out - one dedicated connection per instance
+  private readonly CHANGE_CHANNEL = "app_changes";
+  private readonly CHANGE_RECONNECT_DELAY_MS = 5000;
+  private changeClient: PoolClient | null = null;
+  private changeReconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private changeListeners = new Set<DataChangeListener>();
+
   constructor() {
     if (!isServerEnvironment()) {
       throw new Error("Database can only be initialized on server");
@@ -206,6 +452,12 @@ class DatabaseManager {
       
       // Schedule periodic maintenance
       this.scheduleMaintenanceTasks();
+
+      // Follow changes made by other instances
+      this.startChangeListener().catch((error) => {
+        console.error("Failed to start change listener:", error);
+        this.scheduleChangeListenerReconnect();
+      });
       
       console.log('✅ PostgreSQL database initialized successfully');
     } catch (error) {
@@ -448,6 +700,565 @@ class DatabaseManager {
           ON CONFLICT (version) DO NOTHING;
         `,
       },
+      {
+        version: 3,
+        description: "Reminder dispatcher leasing and retry columns",
+        sql: `
+          -- Lease columns let several dispatcher instances drain the table without double delivery
+          ALTER TABLE event_reminders ADD COLUMN IF NOT EXISTS locked_by VARCHAR(100);
+          ALTER TABLE event_reminders ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+          ALTER TABLE event_reminders ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE;
+          ALTER TABLE event_reminders ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+          CREATE INDEX IF NOT EXISTS idx_event_reminders_due
+            ON event_reminders(reminder_time, next_attempt_at) WHERE status = 'pending';
+
+          INSERT INTO schema_migrations (version, description)
+          VALUES (3, 'Reminder dispatcher leasing and retry columns')
+          ON CONFLICT (version) DO NOTHING;
+        `,
+      },
+      {
+        version: 4,
+        description: "iCalendar subscription feed tokens",
+        sql: `
+          -- One active feed token per user; rotating replaces the hash in place
+          CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+            id SERIAL PRIMARY KEY,
+            user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+            token_hash CHAR(64) NOT NULL,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            last_accessed_at TIMESTAMP WITH TIME ZONE
+          );
+
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feed_tokens_hash
+            ON calendar_feed_tokens(token_hash);
+
+          INSERT INTO schema_migrations (version, description)
+          VALUES (4, 'iCalendar subscription feed tokens')
+          ON CONFLICT (version) DO NOTHING;
+        `,
+      },
+      {
+        version: 5,
+        description: "External UID for imported events",
+        sql: `
+          -- iCalendar UID of imported events, used to detect re-imports
+          ALTER TABLE events ADD COLUMN IF NOT EXISTS external_uid VARCHAR(255);
+
+          CREATE INDEX IF NOT EXISTS idx_events_external_uid
+            ON events(external_uid) WHERE deleted_at IS NULL AND external_uid IS NOT NULL;
+
+          INSERT INTO schema_migrations (version, description)
+          VALUES (5, 'External UID for imported events')
+          ON CONFLICT (version) DO NOTHING;
+        `,
+      },
+      {
+        version: 6,
+        description: "Relationship milestone rules and materialization",
+        sql: `
+          -- Per-rule switches; rules without a row use the generator defaults
+          CREATE TABLE IF NOT EXISTS milestone_rules (
+            rule_id VARCHAR(50) PRIMARY KEY,
+            enabled BOOLEAN NOT NULL DEFAULT TRUE,
+            reminder_minutes INTEGER,
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+          );
+
+          -- Virtual milestones have no event row, so their reminders are tracked separately
+          CREATE TABLE IF NOT EXISTS milestone_reminders (
+            milestone_key VARCHAR(50) PRIMARY KEY,
+            reminder_time TIMESTAMP WITH TIME ZONE NOT NULL,
+            status VARCHAR(20) DEFAULT 'pending'
+              CHECK (status IN ('pending', 'sent', 'failed')),
+            delivered_at TIMESTAMP WITH TIME ZONE,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+          );
+
+          -- A materialized milestone replaces its virtual counterpart
+          ALTER TABLE events ADD COLUMN IF NOT EXISTS milestone_key VARCHAR(50);
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_events_milestone_key
+            ON events(milestone_key) WHERE deleted_at IS NULL AND milestone_key IS NOT NULL;
+
+          INSERT INTO schema_migrations (version, description)
+          VALUES (6, 'Relationship milestone rules and materialization')
+          ON CONFLICT (version) DO NOTHING;
+        `,
+      },
+      {
+        version: 7,
+        description: "Per-occurrence exceptions for recurring events",
+        sql: `
+          -- One row per cancelled or overridden occurrence, keyed by its index in the series
+          CREATE TABLE IF NOT EXISTS event_exceptions (
+            id SERIAL PRIMARY KEY,
+            event_id INTEGER NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+            occurrence_index INTEGER NOT NULL CHECK (occurrence_index >= 0),
+            original_date TIMESTAMP WITH TIME ZONE NOT NULL,
+            is_cancelled BOOLEAN NOT NULL DEFAULT FALSE,
+            override_date TIMESTAMP WITH TIME ZONE,
+            title VARCHAR(100),
+            location VARCHAR(200),
+            description TEXT,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            UNIQUE (event_id, occurrence_index)
+          );
+
+          INSERT INTO schema_migrations (version, description)
+          VALUES (7, 'Per-occurrence exceptions for recurring events')
+          ON CONFLICT (version) DO NOTHING;
+        `,
+      },
+      {
+        version: 8,
+        description: "Change notifications for realtime sync",
+        sql: `
+          -- Publishes every row change on the app_changes channel so each
+          -- instance can fan it out to its connected clients
+          CREATE OR REPLACE FUNCTION notify_app_change()
+          RETURNS TRIGGER AS $$
+          DECLARE
+            row_data RECORD;
+            change_action TEXT;
+            changed_by TEXT := NULL;
+          BEGIN
+            IF TG_OP = 'DELETE' THEN
+              row_data := OLD;
+              change_action := 'deleted';
+            ELSE
+              row_data := NEW;
+              change_action := CASE WHEN TG_OP = 'INSERT' THEN 'created' ELSE 'updated' END;
+            END IF;
+
+            IF TG_ARGV[0] = 'event' THEN
+              changed_by := COALESCE(row_data.updated_by, row_data.created_by);
+              IF TG_OP = 'UPDATE' THEN
+                IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+                  change_action := 'deleted';
+                ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+                  change_action := 'restored';
+                ELSIF NEW.deleted_at IS NOT NULL THEN
+                  RETURN NULL; -- Changes inside the trash are invisible to clients
+                END IF;
+              ELSIF TG_OP = 'DELETE' THEN
+                IF OLD.deleted_at IS NOT NULL THEN
+                  RETURN NULL; -- Purging the trash, already reported as deleted
+                END IF;
+              END IF;
+            END IF;
+
+            PERFORM pg_notify('app_changes', json_build_object(
+              'entity', TG_ARGV[0],
+              'action', change_action,
+              'id', row_data.id,
+              'changed_by', changed_by
+            )::text);
+            RETURN NULL;
+          END;
+          $$ LANGUAGE plpgsql;
+
+          DROP TRIGGER IF EXISTS notify_events_change ON events;
+          CREATE TRIGGER notify_events_change
+            AFTER INSERT OR UPDATE OR DELETE ON events
+            FOR EACH ROW EXECUTE FUNCTION notify_app_change('event');
+
+          DROP TRIGGER IF EXISTS notify_photos_change ON photos;
+          CREATE TRIGGER notify_photos_change
+            AFTER INSERT OR UPDATE OR DELETE ON photos
+            FOR EACH ROW EXECUTE FUNCTION notify_app_change('photo');
+
+          DROP TRIGGER IF EXISTS notify_couple_info_change ON couple_info;
+          CREATE TRIGGER notify_couple_info_change
+            AFTER INSERT OR UPDATE OR DELETE ON couple_info
+            FOR EACH ROW EXECUTE FUNCTION notify_app_change('couple_info');
+
+          INSERT INTO schema_migrations (version, description)
+          VALUES (8, 'Change notifications for realtime sync')
+          ON CONFLICT (version) DO NOTHING;
+        `,
+      },
+      {
+        version: 9,
+        description: "Web Push subscriptions",
+        sql: `
+          -- One row per browser/device; the endpoint identifies the subscription
+          CREATE TABLE IF NOT EXISTS push_subscriptions (
+            id SERIAL PRIMARY KEY,
+            user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            endpoint TEXT NOT NULL UNIQUE,
+            p256dh VARCHAR(200) NOT NULL,
+            auth VARCHAR(100) NOT NULL,
+            user_agent VARCHAR(500),
+            expires_at TIMESTAMP WITH TIME ZONE,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            last_used_at TIMESTAMP WITH TIME ZONE
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON push_subscriptions(user_id);
+
+          INSERT INTO schema_migrations (version, description)
+          VALUES (9, 'Web Push subscriptions')
+          ON CONFLICT (version) DO NOTHING;
+        `,
+      },
+      {
+        version: 10,
+        description: "Weekly email digest log",
+        sql: `
+          -- One row per digest week; the primary key makes sending at-most-once across workers
+          CREATE TABLE IF NOT EXISTS email_digests (
+            period_start DATE PRIMARY KEY,
+            status VARCHAR(20) NOT NULL DEFAULT 'pending'
+              CHECK (status IN ('pending', 'sent', 'failed')),
+            recipient_count INTEGER NOT NULL DEFAULT 0,
+            last_error TEXT,
+            attempted_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            sent_at TIMESTAMP WITH TIME ZONE
+          );
+
+          INSERT INTO schema_migrations (version, description)
+          VALUES (10, 'Weekly email digest log')
+          ON CONFLICT (version) DO NOTHING;
+        `,
+      },
+      {
+        version: 11,
+        description: "Outgoing webhooks and delivery log",
+        sql: `
+          CREATE TABLE IF NOT EXISTS webhooks (
+            id SERIAL PRIMARY KEY,
+            url TEXT NOT NULL,
+            description VARCHAR(200),
+            secret VARCHAR(100) NOT NULL, -- HMAC-SHA256 signing key, needed in plain text to sign
+            events TEXT[] NOT NULL DEFAULT '{}',
+            is_active BOOLEAN NOT NULL DEFAULT TRUE,
+            created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+          );
+
+          -- One row per (webhook, event) - retried in place, redelivered as a new row
+          CREATE TABLE IF NOT EXISTS webhook_deliveries (
+            id SERIAL PRIMARY KEY,
+            delivery_id UUID NOT NULL DEFAULT uuid_generate_v4() UNIQUE,
+            webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+            event_type VARCHAR(50) NOT NULL,
+            data JSONB NOT NULL,
+            status VARCHAR(20) NOT NULL DEFAULT 'pending'
+              CHECK (status IN ('pending', 'succeeded', 'failed')),
+            attempt_count INTEGER NOT NULL DEFAULT 0,
+            next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            locked_by VARCHAR(100),
+            locked_until TIMESTAMP WITH TIME ZONE,
+            response_status INTEGER,
+            response_body TEXT,
+            last_error TEXT,
+            duration_ms INTEGER,
+            redelivery_of INTEGER REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            delivered_at TIMESTAMP WITH TIME ZONE
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+            ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+          CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook
+            ON webhook_deliveries(webhook_id, created_at DESC);
+
+          DROP TRIGGER IF EXISTS update_webhooks_updated_at ON webhooks;
+          CREATE TRIGGER update_webhooks_updated_at
+            BEFORE UPDATE ON webhooks
+            FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+          INSERT INTO schema_migrations (version, description)
+          VALUES (11, 'Outgoing webhooks and delivery log')
+          ON CONFLICT (version) DO NOTHING;
+        `,
+      },
+      {
+        version: 12,
+        description: "Per-user notification preferences and quiet hours",
+        sql: `
+          -- Users without a row get NotificationPreferencesManager's defaults
+          CREATE TABLE IF NOT EXISTS notification_preferences (
+            user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+            browser_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+            email_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+            push_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+            reminder_times INTEGER[] NOT NULL DEFAULT '{15,60,1440}',
+            quiet_hours_start CHAR(5), -- HH:mm in timezone; both NULL = no quiet hours
+            quiet_hours_end CHAR(5),
+            timezone VARCHAR(50) NOT NULL,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+          );
+
+          DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON notification_preferences;
+          CREATE TRIGGER update_notification_preferences_updated_at
+            BEFORE UPDATE ON notification_preferences
+            FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+          -- A reminder deferred for a partner in quiet hours must not reach the other one twice
+          ALTER TABLE event_reminders ADD COLUMN IF NOT EXISTS delivered_to INTEGER[] NOT NULL DEFAULT '{}';
+
+          -- Reminders from each user's reminder_times have no event_reminders row;
+          -- the primary key makes delivery at-most-once per occurrence
+          CREATE TABLE IF NOT EXISTS preference_reminders (
+            event_id INTEGER NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+            user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            minutes_before INTEGER NOT NULL,
+            occurrence_date TIMESTAMP WITH TIME ZONE NOT NULL,
+            status VARCHAR(20) NOT NULL DEFAULT 'pending'
+              CHECK (status IN ('pending', 'sent', 'failed')),
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            delivered_at TIMESTAMP WITH TIME ZONE,
+            PRIMARY KEY (event_id, user_id, minutes_before, occurrence_date)
+          );
+
+          INSERT INTO schema_migrations (version, description)
+          VALUES (12, 'Per-user notification preferences and quiet hours')
+          ON CONFLICT (version) DO NOTHING;
+        `,
+      },
+      {
+        version: 13,
+        description: "In-app notification inbox",
+        sql: `
+          CREATE TABLE IF NOT EXISTS notifications (
+            id SERIAL PRIMARY KEY,
+            user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            type VARCHAR(20) NOT NULL
+              CHECK (type IN ('reminder', 'update', 'cancelled', 'upcoming')),
+            title VARCHAR(200) NOT NULL,
+            message TEXT NOT NULL,
+            url VARCHAR(500),
+            event_id INTEGER REFERENCES events(id) ON DELETE CASCADE,
+            read_at TIMESTAMP WITH TIME ZONE,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_notifications_user
+            ON notifications(user_id, created_at DESC);
+          CREATE INDEX IF NOT EXISTS idx_notifications_unread
+            ON notifications(user_id) WHERE read_at IS NULL;
+
+          -- Same as v8, plus the owner of notification rows so the realtime
+          -- stream only sends them to that partner
+          CREATE OR REPLACE FUNCTION notify_app_change()
+          RETURNS TRIGGER AS $$
+          DECLARE
+            row_data RECORD;
+            change_action TEXT;
+            changed_by TEXT := NULL;
+            owner_id INTEGER := NULL;
+          BEGIN
+            IF TG_OP = 'DELETE' THEN
+              row_data := OLD;
+              change_action := 'deleted';
+            ELSE
+              row_data := NEW;
+              change_action := CASE WHEN TG_OP = 'INSERT' THEN 'created' ELSE 'updated' END;
+            END IF;
+
+            IF TG_ARGV[0] = 'event' THEN
+              changed_by := COALESCE(row_data.updated_by, row_data.created_by);
+              IF TG_OP = 'UPDATE' THEN
+                IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+                  change_action := 'deleted';
+                ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+                  change_action := 'restored';
+                ELSIF NEW.deleted_at IS NOT NULL THEN
+                  RETURN NULL; -- Changes inside the trash are invisible to clients
+                END IF;
+              ELSIF TG_OP = 'DELETE' THEN
+                IF OLD.deleted_at IS NOT NULL THEN
+                  RETURN NULL; -- Purging the trash, already reported as deleted
+                END IF;
+              END IF;
+            ELSIF TG_ARGV[0] = 'notification' THEN
+              owner_id := row_data.user_id;
+            END IF;
+
+            PERFORM pg_notify('app_changes', json_build_object(
+              'entity', TG_ARGV[0],
+              'action', change_action,
+              'id', row_data.id,
+              'changed_by', changed_by,
+              'user_id', owner_id
+            )::text);
+            RETURN NULL;
+          END;
+          $$ LANGUAGE plpgsql;
+
+          DROP TRIGGER IF EXISTS notify_notifications_change ON notifications;
+          CREATE TRIGGER notify_notifications_change
+            AFTER INSERT OR UPDATE OR DELETE ON notifications
+            FOR EACH ROW EXECUTE FUNCTION notify_app_change('notification');
+
+          INSERT INTO schema_migrations (version, description)
+          VALUES (13, 'In-app notification inbox')
+          ON CONFLICT (version) DO NOTHING;
+        `,
+      },
+      {
+        version: 14,
+        description: "Multiple reminders per event",
+        sql: `
+          -- [{ minutes_before, delivery_method, reminder_type }]; reminder_minutes
+          -- keeps the shortest lead time for older clients
+          ALTER TABLE events ADD COLUMN IF NOT EXISTS reminders JSONB NOT NULL DEFAULT '[]';
+
+          -- Which reminder and which occurrence a row belongs to, so rows can be
+          -- recomputed when the event changes without sending one twice
+          ALTER TABLE event_reminders ADD COLUMN IF NOT EXISTS minutes_before INTEGER;
+          ALTER TABLE event_reminders ADD COLUMN IF NOT EXISTS occurrence_date TIMESTAMP WITH TIME ZONE;
+
+          UPDATE event_reminders r
+          SET minutes_before = e.reminder_minutes,
+              occurrence_date = r.reminder_time + make_interval(mins => e.reminder_minutes)
+          FROM events e
+          WHERE e.id = r.event_id AND r.minutes_before IS NULL AND e.reminder_minutes IS NOT NULL;
+
+          -- The single reminder keeps the channel its row was created with
+          UPDATE events e
+          SET reminders = jsonb_build_array(jsonb_build_object(
+            'minutes_before', e.reminder_minutes,
+            'delivery_method', COALESCE(
+              (SELECT r.delivery_method FROM event_reminders r
+               WHERE r.event_id = e.id ORDER BY r.created_at DESC LIMIT 1),
+              'browser'
+            ),
+            'reminder_type', 'standard'
+          ))
+          WHERE e.reminder_minutes > 0 AND e.reminders = '[]'::jsonb;
+
+          CREATE INDEX IF NOT EXISTS idx_event_reminders_event_status
+            ON event_reminders(event_id, status);
+
+          INSERT INTO schema_migrations (version, description)
+          VALUES (14, 'Multiple reminders per event')
+          ON CONFLICT (version) DO NOTHING;
+        `,
+      },
+      {
+        version: 15,
+        description: "Pluggable photo storage",
+        sql: `
+          -- Which driver holds the files; cloudinary_id is that driver's key
+          ALTER TABLE photos ADD COLUMN IF NOT EXISTS storage_provider VARCHAR(20) NOT NULL DEFAULT 'cloudinary';
+
+          INSERT INTO schema_migrations (version, description)
+          VALUES (15, 'Pluggable photo storage')
+          ON CONFLICT (version) DO NOTHING;
+        `,
+      },
+      {
+        version: 16,
+        description: "Photo albums",
+        sql: `
+          CREATE TABLE IF NOT EXISTS photo_albums (
+            id SERIAL PRIMARY KEY,
+            title VARCHAR(100) NOT NULL,
+            description TEXT,
+            cover_photo_id INTEGER REFERENCES photos(id) ON DELETE SET NULL,
+            is_featured BOOLEAN NOT NULL DEFAULT FALSE,
+            created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+          );
+
+          -- A photo can sit in many albums; position is the manual order
+          CREATE TABLE IF NOT EXISTS photo_album_items (
+            album_id INTEGER NOT NULL REFERENCES photo_albums(id) ON DELETE CASCADE,
+            photo_id INTEGER NOT NULL REFERENCES photos(id) ON DELETE CASCADE,
+            position INTEGER NOT NULL,
+            added_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (album_id, photo_id)
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_photo_album_items_order ON photo_album_items(album_id, position);
+          CREATE INDEX IF NOT EXISTS idx_photo_album_items_photo ON photo_album_items(photo_id);
+
+          -- Only one album is featured on the home page
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_photo_albums_featured
+            ON photo_albums(is_featured) WHERE is_featured;
+
+          -- Membership changes touch the album row, so this one trigger covers them
+          DROP TRIGGER IF EXISTS notify_photo_albums_change ON photo_albums;
+          CREATE TRIGGER notify_photo_albums_change
+            AFTER INSERT OR UPDATE OR DELETE ON photo_albums
+            FOR EACH ROW EXECUTE FUNCTION notify_app_change('album');
+
+          INSERT INTO schema_migrations (version, description)
+          VALUES (16, 'Photo albums')
+          ON CONFLICT (version) DO NOTHING;
+        `,
+      },
+      {
+        version: 17,
+        description: "Photo EXIF metadata",
+        sql: `
+          -- Read from the image at upload; taken_at is an instant, taken_at_offset
+          -- the camera's timezone when it recorded one
+          ALTER TABLE photos ADD COLUMN IF NOT EXISTS taken_at TIMESTAMP WITH TIME ZONE;
+          ALTER TABLE photos ADD COLUMN IF NOT EXISTS taken_at_offset VARCHAR(6);
+          ALTER TABLE photos ADD COLUMN IF NOT EXISTS width INTEGER;
+          ALTER TABLE photos ADD COLUMN IF NOT EXISTS height INTEGER;
+          ALTER TABLE photos ADD COLUMN IF NOT EXISTS orientation SMALLINT;
+          ALTER TABLE photos ADD COLUMN IF NOT EXISTS camera_make VARCHAR(100);
+          ALTER TABLE photos ADD COLUMN IF NOT EXISTS camera_model VARCHAR(100);
+          ALTER TABLE photos ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION;
+          ALTER TABLE photos ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION;
+
+          -- The gallery orders by when a photo was taken, falling back to its upload
+          CREATE INDEX IF NOT EXISTS idx_photos_taken_at ON photos ((COALESCE(taken_at, upload_date)));
+
+          INSERT INTO schema_migrations (version, description)
+          VALUES (17, 'Photo EXIF metadata')
+          ON CONFLICT (version) DO NOTHING;
+        `,
+      },
+      {
+        version: 18,
+        description: "Photo tags, people and full-text search",
+        sql: `
+          ALTER TABLE photos ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+          ALTER TABLE photos ADD COLUMN IF NOT EXISTS people TEXT[] NOT NULL DEFAULT '{}';
+          ALTER TABLE photos ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+          -- Unlike events.search_vector this cannot be a generated column (joining
+          -- the label arrays is not immutable), so a trigger keeps it current.
+          -- The 'simple' configuration leaves names and Vietnamese words unstemmed;
+          -- searches match word prefixes instead.
+          CREATE OR REPLACE FUNCTION photos_search_vector_update()
+          RETURNS TRIGGER AS $$
+          BEGIN
+            NEW.search_vector :=
+              setweight(to_tsvector('simple', COALESCE(NEW.title, '')), 'A') ||
+              setweight(to_tsvector('simple', array_to_string(NEW.tags || NEW.people, ' ')), 'B') ||
+              setweight(to_tsvector('simple', COALESCE(NEW.description, '')), 'C');
+            RETURN NEW;
+          END;
+          $$ LANGUAGE plpgsql;
+
+          DROP TRIGGER IF EXISTS photos_search_vector_trigger ON photos;
+          CREATE TRIGGER photos_search_vector_trigger
+            BEFORE INSERT OR UPDATE OF title, description, tags, people ON photos
+            FOR EACH ROW EXECUTE FUNCTION photos_search_vector_update();
+
+          -- Fill in the vector for existing photos
+          UPDATE photos SET tags = tags;
+
+          CREATE INDEX IF NOT EXISTS idx_photos_search_vector ON photos USING gin(search_vector);
+          CREATE INDEX IF NOT EXISTS idx_photos_tags ON photos USING gin(tags);
+          CREATE INDEX IF NOT EXISTS idx_photos_people ON photos USING gin(people);
+
+          INSERT INTO schema_migrations (version, description)
+          VALUES (18, 'Photo tags, people and full-text search')
+          ON CONFLICT (version) DO NOTHING;
+        `,
+      },
     ];
 
     for (const migration of migrations) {
@@ -758,7 +1569,7 @@ class DatabaseManager {
       const result = await this.executeQuery<any>(query, params, "getFilteredEvents");
 
       // Parse and transform results
-      const parsedResults: EnhancedEvent[] = result.rows.map(this.parseEventFromDB);
+      const parsedResults = await this.attachExceptions(result.rows.map(this.parseEventFromDB));
 
       // Cache successful results
       this.setCachedResult(cacheKey, parsedResults);
@@ -770,6 +1581,27 @@ class DatabaseManager {
     }
   }
 
+  /**
+   * Get Single Event by ID (Async)
+   * Returns undefined for missing or soft-deleted events
+   */
+  async getEventById(id: number): Promise<EnhancedEvent | undefined> {
+    try {
+      const result = await this.executeQuery<any>(
+        "SELECT * FROM events WHERE id = $1 AND deleted_at IS NULL",
+        [id],
+        "getEventById"
+      );
+      if (!result.rows[0]) return undefined;
+
+      const [event] = await this.attachExceptions([this.parseEventFromDB(result.rows[0])]);
+      return event;
+    } catch (error) {
+      console.error("Database read error:", error);
+      return undefined;
+    }
+  }
+
   /**
    * Get Count of Filtered Events for Pagination (Async)
    * Optimized count query without fetching actual data
@@ -850,6 +1682,169 @@ class DatabaseManager {
     }
   }
 
+  /**
+   * Get Events Visible in a Date Range (Async)
+   * Returns single events inside the range plus every recurring series that
+   * started before the range ends - callers expand occurrences themselves
+   */
+  async getEventsInRange(rangeStart: Date, rangeEnd: Date): Promise<EnhancedEvent[]> {
+    const cacheKey = `events_range_${rangeStart.toISOString()}_${rangeEnd.toISOString()}`;
+
+    const cached = this.getCachedResult<EnhancedEvent[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const result = await this.executeQuery<any>(
+        `SELECT * FROM events
+         WHERE deleted_at IS NULL
+           AND date <= $2
+           AND (is_recurring = TRUE OR date >= $1)
+         ORDER BY date ASC`,
+        [rangeStart.toISOString(), rangeEnd.toISOString()],
+        "getEventsInRange"
+      );
+
+      const events = await this.attachExceptions(result.rows.map(this.parseEventFromDB));
+      this.setCachedResult(cacheKey, events);
+      return events;
+    } catch (error) {
+      console.error("Error fetching events in range:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get Related Events (Async)
+   * Ranks other events by shared location (strongest), same category and a
+   * date within RELATED_EVENT_WINDOW_DAYS of `anchorDate`
+   */
+  async getRelatedEvents(event: EnhancedEvent, anchorDate: Date, limit: number = 6): Promise<EnhancedEvent[]> {
+    try {
+      const result = await this.executeQuery<any>(
+        `SELECT * FROM (
+           SELECT *,
+             (CASE WHEN category = $2 THEN 1 ELSE 0 END)
+             + (CASE WHEN $3::text <> '' AND LOWER(TRIM(location)) = LOWER(TRIM($3::text)) THEN 2 ELSE 0 END)
+             + (CASE WHEN date BETWEEN $4::timestamptz - make_interval(days => $5)
+                                   AND $4::timestamptz + make_interval(days => $5) THEN 1 ELSE 0 END)
+             AS relevance
+           FROM events
+           WHERE deleted_at IS NULL AND id <> $1
+         ) related
+         WHERE relevance > 0
+         ORDER BY relevance DESC, ABS(EXTRACT(EPOCH FROM (date - $4::timestamptz))) ASC
+         LIMIT $6`,
+        [
+          event.id,
+          event.category,
+          event.location?.trim() || "",
+          anchorDate.toISOString(),
+          this.RELATED_EVENT_WINDOW_DAYS,
+          limit,
+        ],
+        "getRelatedEvents"
+      );
+
+      return this.attachExceptions(
+        result.rows.map(({ relevance, ...row }) => this.parseEventFromDB(row))
+      );
+    } catch (error) {
+      console.error("Error fetching related events:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get Event Audit Trail (Async)
+   * Newest first, with the display name of whoever made each change
+   */
+  async getEventHistory(
+    eventId: number,
+    limit: number = 10,
+    offset: number = 0,
+    filters: EventHistoryFilters = {}
+  ): Promise<{ entries: EventHistoryEntry[]; total: number }> {
+    try {
+      const conditions = ["h.event_id = $1"];
+      const params: any[] = [eventId];
+
+      if (filters.changed_by) {
+        params.push(filters.changed_by);
+        conditions.push(`h.changed_by = $${params.length}`);
+      }
+      if (filters.from) {
+        params.push(filters.from.toISOString());
+        conditions.push(`h.changed_at >= $${params.length}`);
+      }
+      if (filters.to) {
+        params.push(filters.to.toISOString());
+        conditions.push(`h.changed_at <= $${params.length}`);
+      }
+
+      const whereClause = conditions.join(" AND ");
+      const [entriesResult, countResult] = await Promise.all([
+        this.executeQuery<any>(
+          `SELECT h.*, u.name AS changed_by_name
+           FROM event_history h
+           LEFT JOIN users u ON u.id::text = h.changed_by
+           WHERE ${whereClause}
+           ORDER BY h.changed_at DESC, h.id DESC
+           LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+          [...params, limit, offset],
+          "getEventHistory"
+        ),
+        this.executeQuery<{ count: string }>(
+          `SELECT COUNT(*) as count FROM event_history h WHERE ${whereClause}`,
+          params,
+          "getEventHistoryCount"
+        ),
+      ]);
+
+      return {
+        entries: entriesResult.rows.map((row) => ({
+          id: row.id,
+          event_id: row.event_id,
+          action: row.action,
+          changed_fields: row.changed_fields || [],
+          old_values: row.old_values || undefined,
+          new_values: row.new_values || undefined,
+          changed_by: row.changed_by || undefined,
+          changed_by_name: row.changed_by_name || undefined,
+          changed_at: new Date(row.changed_at).toISOString(),
+        })),
+        total: parseInt(countResult.rows[0]?.count || "0", 10),
+      };
+    } catch (error) {
+      console.error("Error fetching event history:", error);
+      return { entries: [], total: 0 };
+    }
+  }
+
+  /**
+   * Get Everyone Who Changed an Event (Async)
+   * Feeds the "changed by" filter of the history timeline
+   */
+  async getEventHistoryContributors(eventId: number): Promise<{ id: string; name: string }[]> {
+    try {
+      const result = await this.executeQuery<{ id: string; name: string | null }>(
+        `SELECT DISTINCT h.changed_by AS id, u.name
+         FROM event_history h
+         LEFT JOIN users u ON u.id::text = h.changed_by
+         WHERE h.event_id = $1 AND h.changed_by IS NOT NULL
+         ORDER BY u.name`,
+        [eventId],
+        "getEventHistoryContributors"
+      );
+
+      return result.rows.map((row) => ({ id: row.id, name: row.name || `User ${row.id}` }));
+    } catch (error) {
+      console.error("Error fetching event history contributors:", error);
+      return [];
+    }
+  }
+
   /**
    * Get Total Events Count (Async)
    */
@@ -1057,13 +2052,31 @@ class DatabaseManager {
         "getNextEvent"
       );
 
+      // Virtual milestones count like stored events but never hit the table
+      const now = new Date();
+      const milestones = await this.getVirtualMilestones(
+        new Date(0),
+        new Date(now.getTime() + this.MILESTONE_HORIZON_DAYS * 24 * 60 * 60 * 1000)
+      );
+      const upcomingMilestones = milestones.filter((event) => new Date(event.date) >= now);
+      const milestonesThisMonth = milestones.filter((event) => {
+        const date = new Date(event.date);
+        return date.getFullYear() === now.getFullYear() && date.getMonth() === now.getMonth();
+      });
+
+      const storedNextEvent = nextEventResult.rows[0] ? this.parseEventFromDB(nextEventResult.rows[0]) : undefined;
+      const nextMilestone = upcomingMilestones[0];
+
       const result: EventStats = {
-        total_events: parseInt(stats.total_events, 10),
-        upcoming_events: parseInt(stats.upcoming_events, 10),
-        past_events: parseInt(stats.past_events, 10),
+        total_events: parseInt(stats.total_events, 10) + milestones.length,
+        upcoming_events: parseInt(stats.upcoming_events, 10) + upcomingMilestones.length,
+        past_events: parseInt(stats.past_events, 10) + milestones.length - upcomingMilestones.length,
         recurring_events: parseInt(stats.recurring_events, 10),
-        events_this_month: parseInt(stats.events_this_month, 10),
-        next_event: nextEventResult.rows[0] ? this.parseEventFromDB(nextEventResult.rows[0]) : undefined,
+        events_this_month: parseInt(stats.events_this_month, 10) + milestonesThisMonth.length,
+        next_event:
+          nextMilestone && (!storedNextEvent || new Date(nextMilestone.date) < new Date(storedNextEvent.date))
+            ? nextMilestone
+            : storedNextEvent,
       };
 
       this.setCachedResult(cacheKey, result, 60 * 1000);
@@ -1100,19 +2113,7 @@ class DatabaseManager {
    * Create Enhanced Event with PostgreSQL Transaction (Async)
    */
   async createEnhancedEvent(
-    eventData: {
-      title: string;
-      date: string;
-      description?: string;
-      is_recurring: boolean;
-      recurring_config?: RecurringEventConfig;
-      category: EnhancedEvent["category"];
-      priority: EnhancedEvent["priority"];
-      timezone?: string;
-      is_all_day?: boolean;
-      location?: string;
-      reminder_minutes?: number;
-    },
+    eventData: EnhancedEventInput,
     userId?: string
   ): Promise<number | null> {
     const client = await this.pool.connect();
@@ -1121,55 +2122,7 @@ class DatabaseManager {
       // Begin transaction
       await client.query('BEGIN');
 
-      // Insert main event record
-      const insertQuery = `
-        INSERT INTO events (
-          title, description, date, timezone, is_all_day, location,
-          category, priority, is_recurring, recurring_config,
-          reminder_minutes, created_by, updated_by
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
-        RETURNING id
-      `;
-
-      const values = [
-        eventData.title,
-        eventData.description || null,
-        eventData.date,
-        eventData.timezone || "UTC",
-        eventData.is_all_day || false,
-        eventData.location || null,
-        eventData.category,
-        eventData.priority,
-        eventData.is_recurring,
-        eventData.recurring_config ? JSON.stringify(eventData.recurring_config) : null,
-        eventData.reminder_minutes || null,
-        userId,
-        userId
-      ];
-
-      const result = await client.query(insertQuery, values);
-      const eventId = result.rows[0].id;
-
-      // Create audit trail entry
-      await client.query(
-        `INSERT INTO event_history (event_id, action, new_values, changed_by)
-         VALUES ($1, 'created', $2, $3)`,
-        [eventId, JSON.stringify(eventData), userId]
-      );
-
-      // Schedule reminder if needed
-      if (eventData.reminder_minutes) {
-        const eventDate = new Date(eventData.date);
-        const reminderTime = new Date(
-          eventDate.getTime() - eventData.reminder_minutes * 60 * 1000
-        );
-
-        await client.query(
-          `INSERT INTO event_reminders (event_id, reminder_time)
-           VALUES ($1, $2)`,
-          [eventId, reminderTime.toISOString()]
-        );
-      }
+      const eventId = await this.insertEnhancedEvent(client, eventData, userId);
 
       // Commit transaction
       await client.query('COMMIT');
@@ -1188,20 +2141,316 @@ class DatabaseManager {
     }
   }
 
+  /**
+   * Create Several Events Atomically (Async)
+   * All-or-nothing - used by iCalendar import so a failed row never leaves a partial import
+   */
+  async createEnhancedEventsBatch(
+    events: EnhancedEventInput[],
+    userId?: string
+  ): Promise<number[] | null> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const eventIds: number[] = [];
+      for (const eventData of events) {
+        eventIds.push(await this.insertEnhancedEvent(client, eventData, userId));
+      }
+
+      await client.query('COMMIT');
+      this.invalidateCache("events");
+
+      return eventIds;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error("Error creating event batch:", error);
+      return null;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Insert Event Row with Audit Trail and Reminders
+   * Runs inside the caller's transaction
+   */
+  private async insertEnhancedEvent(
+    client: PoolClient,
+    eventData: EnhancedEventInput,
+    userId?: string
+  ): Promise<number> {
+    const reminders = eventData.reminders
+      ? this.normalizeReminders(eventData.reminders)
+      : this.normalizeReminders(eventData.reminder_minutes ? [{
+          minutes_before: eventData.reminder_minutes,
+          delivery_method: this.DEFAULT_REMINDER_DELIVERY,
+          reminder_type: "standard",
+        }] : []);
+
+    // Insert main event record
+    const insertQuery = `
+      INSERT INTO events (
+        title, description, date, timezone, is_all_day, location,
+        category, priority, is_recurring, recurring_config,
+        reminder_minutes, reminders, created_by, updated_by, external_uid, milestone_key
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+      RETURNING id
+    `;
+
+    const values = [
+      eventData.title,
+      eventData.description || null,
+      eventData.date,
+      eventData.timezone || "UTC",
+      eventData.is_all_day || false,
+      eventData.location || null,
+      eventData.category,
+      eventData.priority,
+      eventData.is_recurring,
+      eventData.recurring_config ? JSON.stringify(eventData.recurring_config) : null,
+      this.getShortestLeadTime(reminders),
+      JSON.stringify(reminders),
+      userId,
+      userId,
+      eventData.external_uid || null,
+      eventData.milestone_key || null
+    ];
+
+    const result = await client.query(insertQuery, values);
+    const eventId = result.rows[0].id;
+
+    for (const exception of eventData.exceptions || []) {
+      await this.writeEventException(client, eventId, exception);
+    }
+
+    // Create audit trail entry
+    await client.query(
+      `INSERT INTO event_history (event_id, action, new_values, changed_by)
+       VALUES ($1, 'created', $2, $3)`,
+      [eventId, JSON.stringify(eventData), userId]
+    );
+
+    await this.syncEventReminders(client, eventId);
+
+    return eventId;
+  }
+
+  /**
+   * Canonical form of a reminder list - drops malformed entries and
+   * duplicates, earliest reminder first
+   */
+  private normalizeReminders(value: unknown): EventReminderSetting[] {
+    if (!Array.isArray(value)) return [];
+
+    const reminders = new Map<string, EventReminderSetting>();
+    value.forEach((reminder) => {
+      if (
+        !reminder ||
+        !Number.isInteger(reminder.minutes_before) ||
+        reminder.minutes_before < 0 ||
+        !REMINDER_DELIVERY_METHODS.includes(reminder.delivery_method)
+      ) {
+        return;
+      }
+
+      reminders.set(`${reminder.minutes_before}:${reminder.delivery_method}`, {
+        minutes_before: reminder.minutes_before,
+        delivery_method: reminder.delivery_method,
+        reminder_type: ["urgent", "gentle"].includes(reminder.reminder_type) ? reminder.reminder_type : "standard",
+      });
+    });
+
+    return Array.from(reminders.values()).sort(
+      (a, b) => b.minutes_before - a.minutes_before || a.delivery_method.localeCompare(b.delivery_method)
+    );
+  }
+
+  private getShortestLeadTime(reminders: EventReminderSetting[]): number | null {
+    return reminders.length > 0 ? Math.min(...reminders.map((reminder) => reminder.minutes_before)) : null;
+  }
+
+  /**
+   * Keeps reminders and reminder_minutes in step for an update. A bare
+   * reminder_minutes (older clients) replaces the reminder with the
+   * shortest lead time, keeping its channel
+   */
+  private resolveReminderChanges(
+    currentEvent: any,
+    eventData: Record<string, unknown>
+  ): Record<string, unknown> {
+    if (eventData.reminders !== undefined) {
+      const reminders = this.normalizeReminders(eventData.reminders);
+      return { ...eventData, reminders, reminder_minutes: this.getShortestLeadTime(reminders) };
+    }
+    if (eventData.reminder_minutes === undefined) {
+      return eventData;
+    }
+
+    const current = this.normalizeReminders(currentEvent.reminders);
+    const shortest = this.getShortestLeadTime(current);
+    const replaced = current.filter((reminder) => reminder.minutes_before === shortest);
+    const minutes = eventData.reminder_minutes as number | null;
+    const reminders = this.normalizeReminders([
+      ...current.filter((reminder) => reminder.minutes_before !== shortest),
+      ...(minutes
+        ? (replaced.length > 0
+            ? replaced
+            : [{ delivery_method: this.DEFAULT_REMINDER_DELIVERY, reminder_type: "standard" }]
+          ).map((reminder) => ({ ...reminder, minutes_before: minutes }))
+        : []),
+    ]);
+
+    return { ...eventData, reminders, reminder_minutes: this.getShortestLeadTime(reminders) };
+  }
+
+  /**
+   * Recompute an Event's Pending Reminder Rows (inside an open transaction)
+   * Each reminder gets one row for the first occurrence it can still fire
+   * for, so a recurring event's reminders move on to the next occurrence once
+   * they have gone out. Upcoming rows that no longer match are removed, rows
+   * already due are only removed with their reminder (they may be waiting out
+   * quiet hours or a retry), and rows sent or failed are never recreated
+   */
+  private async syncEventReminders(client: PoolClient, eventId: number): Promise<void> {
+    const result = await client.query(
+      "SELECT * FROM events WHERE id = $1 AND deleted_at IS NULL FOR UPDATE",
+      [eventId]
+    );
+    if (result.rows.length === 0) return;
+
+    const exceptionResult = await client.query(
+      "SELECT * FROM event_exceptions WHERE event_id = $1 ORDER BY occurrence_index ASC",
+      [eventId]
+    );
+    const stored = this.parseEventFromDB(result.rows[0]);
+    // node-postgres hands back Date objects - the calculator works on ISO strings
+    const event: EnhancedEvent = {
+      ...stored,
+      date: new Date(stored.date).toISOString(),
+      exceptions: exceptionResult.rows.map((row) => this.parseExceptionFromDB(row)),
+    };
+
+    const now = Date.now();
+    const reminders = this.normalizeReminders(event.reminders);
+    const scheduled = reminders.flatMap((reminder) => {
+      const leadMs = reminder.minutes_before * 60 * 1000;
+      const occurrence = RecurringEventCalculator.getNextOccurrence(event, new Date(now + leadMs));
+      return occurrence
+        ? [{
+            ...reminder,
+            occurrence_date: occurrence.toISOString(),
+            reminder_time: new Date(occurrence.getTime() - leadMs).toISOString(),
+          }]
+        : [];
+    });
+    const scheduledRows = `jsonb_to_recordset($2::jsonb) AS s(
+      minutes_before INTEGER, delivery_method TEXT, reminder_type TEXT,
+      occurrence_date TIMESTAMPTZ, reminder_time TIMESTAMPTZ
+    )`;
+    const sameReminder = `s.minutes_before = r.minutes_before AND s.delivery_method = r.delivery_method
+      AND s.reminder_type = r.reminder_type AND s.occurrence_date = r.occurrence_date`;
+
+    await client.query(
+      `DELETE FROM event_reminders r
+       WHERE r.event_id = $1 AND r.status = 'pending'
+         AND NOT EXISTS (SELECT 1 FROM ${scheduledRows} WHERE ${sameReminder})
+         AND (
+           r.reminder_time > CURRENT_TIMESTAMP
+           OR NOT EXISTS (
+             SELECT 1 FROM jsonb_to_recordset($3::jsonb) AS c(
+               minutes_before INTEGER, delivery_method TEXT, reminder_type TEXT
+             )
+             WHERE c.minutes_before = r.minutes_before AND c.delivery_method = r.delivery_method
+               AND c.reminder_type = r.reminder_type
+           )
+         )`,
+      [eventId, JSON.stringify(scheduled), JSON.stringify(reminders)]
+    );
+
+    await client.query(
+      `INSERT INTO event_reminders (
+        event_id, reminder_time, reminder_type, delivery_method, minutes_before, occurrence_date
+      )
+      SELECT $1::int, s.reminder_time, s.reminder_type, s.delivery_method, s.minutes_before, s.occurrence_date
+      FROM ${scheduledRows}
+      WHERE NOT EXISTS (
+        SELECT 1 FROM event_reminders r WHERE r.event_id = $1 AND ${sameReminder}
+      )`,
+      [eventId, JSON.stringify(scheduled)]
+    );
+  }
+
+  /**
+   * Find Existing Events Matching Import Candidates (Async)
+   * Matches by external UID, by this app's own exported UID, or by
+   * case-insensitive title on the same calendar day
+   */
+  async findDuplicateEvents(
+    candidates: Array<{ key: string; uid?: string; title: string; date: string }>
+  ): Promise<Map<string, number>> {
+    const duplicates = new Map<string, number>();
+    if (candidates.length === 0) return duplicates;
+
+    try {
+      const uids = candidates.map(c => c.uid).filter((uid): uid is string => !!uid);
+      const ownIds = uids
+        .map(uid => uid.match(/^event-(\d+)@couple-love-story$/)?.[1])
+        .filter((id): id is string => !!id)
+        .map(id => parseInt(id, 10));
+      const titles = candidates.map(c => c.title.trim().toLowerCase());
+
+      const result = await this.executeQuery<{
+        id: number; title: string; date: Date; timezone: string; external_uid: string | null;
+      }>(
+        `SELECT id, title, date, timezone, external_uid FROM events
+         WHERE deleted_at IS NULL
+           AND (external_uid = ANY($1) OR id = ANY($2) OR LOWER(title) = ANY($3))`,
+        [uids, ownIds, titles],
+        "findDuplicateEvents"
+      );
+
+      const sameDay = (a: Date, b: Date, timezone: string) => (
+        a.toLocaleDateString('en-CA', { timeZone: timezone }) === b.toLocaleDateString('en-CA', { timeZone: timezone })
+      );
+
+      candidates.forEach(candidate => {
+        const candidateDate = new Date(candidate.date);
+        const match = result.rows.find(row => (
+          (candidate.uid && row.external_uid === candidate.uid)
+          || (candidate.uid && candidate.uid === `event-${row.id}@couple-love-story`)
+          || (row.title.trim().toLowerCase() === candidate.title.trim().toLowerCase()
+              && !isNaN(candidateDate.getTime())
+              && sameDay(new Date(row.date), candidateDate, row.timezone || "UTC"))
+        ));
+
+        if (match) duplicates.set(candidate.key, match.id);
+      });
+    } catch (error) {
+      console.error("Error checking duplicate events:", error);
+    }
+
+    return duplicates;
+  }
+
   /**
    * Update Event (Legacy Method - Now Async)
    */
   async updateEvent(id: number, event: Partial<Event>): Promise<boolean> {
-    return this.updateEnhancedEvent(id, {
+    const result = await this.updateEnhancedEvent(id, {
       title: event.title,
       date: event.date,
       description: event.description,
       is_recurring: event.is_recurring,
     });
+    return result === "updated";
   }
 
   /**
    * Update Enhanced Event with PostgreSQL Transaction (Async)
+   * With `expectedVersion` the write only happens if nobody else changed the
+   * event since that version (optimistic concurrency)
    */
   async updateEnhancedEvent(
     eventId: number,
@@ -1217,117 +2466,240 @@ class DatabaseManager {
       is_all_day: boolean;
       location: string;
       reminder_minutes: number;
+      reminders: EventReminderSetting[];
     }>,
-    userId?: string
-  ): Promise<boolean> {
+    userId?: string,
+    expectedVersion?: number
+  ): Promise<EventUpdateResult> {
     const client = await this.pool.connect();
 
     try {
       await client.query('BEGIN');
 
-      // Get current event for change detection
+      // Get current event for change detection - locked so the version check holds until COMMIT
       const currentResult = await client.query(
-        "SELECT * FROM events WHERE id = $1 AND deleted_at IS NULL",
+        "SELECT * FROM events WHERE id = $1 AND deleted_at IS NULL FOR UPDATE",
         [eventId]
       );
 
       if (currentResult.rows.length === 0) {
         await client.query('ROLLBACK');
-        return false;
+        return "not_found";
       }
 
-      const currentEvent = currentResult.rows[0];
-
-      // Track changes for audit trail
-      const changes: Record<string, { old: any; new: any }> = {};
-      const changedFields: string[] = [];
+      if (expectedVersion !== undefined && (currentResult.rows[0].version || 1) !== expectedVersion) {
+        await client.query('ROLLBACK');
+        return "conflict";
+      }
 
-      // Build update query dynamically
-      const updateFields: string[] = [];
-      const updateValues: any[] = [];
-      let paramCount = 1;
+      const changedFields = await this.writeEventUpdate(client, currentResult.rows[0], eventData, userId);
 
-      Object.entries(eventData).forEach(([key, value]) => {
-        if (value !== undefined && currentEvent[key] !== value) {
-          changes[key] = { old: currentEvent[key], new: value };
-          changedFields.push(key);
-
-          if (key === "recurring_config") {
-            updateFields.push(`${key} = $${paramCount}`);
-            updateValues.push(value ? JSON.stringify(value) : null);
-          } else {
-            updateFields.push(`${key} = $${paramCount}`);
-            updateValues.push(value);
-          }
-          paramCount++;
-        }
-      });
+      if (changedFields === null) {
+        await client.query('ROLLBACK');
+        return "not_found";
+      }
 
-      if (updateFields.length === 0) {
+      if (changedFields.length === 0) {
         await client.query('ROLLBACK');
-        return true; // No changes
+        return "updated"; // No changes
       }
 
-      // Add metadata fields
-      updateFields.push(`updated_by = $${paramCount}`);
-      updateValues.push(userId);
-      paramCount++;
-      
-      updateFields.push(`version = version + 1`);
-      updateValues.push(eventId);
-
-      // Update main event record
-      const updateQuery = `
-        UPDATE events 
-        SET ${updateFields.join(", ")}, updated_at = CURRENT_TIMESTAMP
-        WHERE id = $${paramCount} AND deleted_at IS NULL
-      `;
+      await client.query('COMMIT');
+      this.invalidateCache("events");
+      return "updated";
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error("Error updating enhanced event:", error);
+      return "not_found";
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Write Field Changes and Their Audit Row (inside an open transaction)
+   * Returns the changed fields - empty when nothing differs, null when the
+   * event is gone
+   */
+  private async writeEventUpdate(
+    client: PoolClient,
+    currentEvent: any,
+    eventData: Record<string, unknown>,
+    userId?: string
+  ): Promise<string[] | null> {
+    // Track changes for audit trail
+    const changes: Record<string, { old: any; new: any }> = {};
+    const changedFields: string[] = [];
+
+    // Build update query dynamically
+    const updateFields: string[] = [];
+    const updateValues: any[] = [];
+    let paramCount = 1;
+
+    Object.entries(this.resolveReminderChanges(currentEvent, eventData)).forEach(([key, value]) => {
+      if (value !== undefined && !this.isSameFieldValue(key, currentEvent[key], value)) {
+        changes[key] = { old: currentEvent[key], new: value };
+        changedFields.push(key);
+
+        if (key === "recurring_config" || key === "reminders") {
+          updateFields.push(`${key} = $${paramCount}`);
+          updateValues.push(value ? JSON.stringify(value) : null);
+        } else {
+          updateFields.push(`${key} = $${paramCount}`);
+          updateValues.push(value);
+        }
+        paramCount++;
+      }
+    });
 
-      const updateResult = await client.query(updateQuery, updateValues);
+    if (updateFields.length === 0) {
+      return [];
+    }
+
+    // Add metadata fields
+    updateFields.push(`updated_by = $${paramCount}`);
+    updateValues.push(userId);
+    paramCount++;
+    
+    updateFields.push(`version = version + 1`);
+    updateValues.push(currentEvent.id);
+
+    // Update main event record
+    const updateQuery = `
+      UPDATE events 
+      SET ${updateFields.join(", ")}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $${paramCount} AND deleted_at IS NULL
+    `;
+
+    const updateResult = await client.query(updateQuery, updateValues);
+
+    if (updateResult.rowCount === 0) {
+      return null;
+    }
+
+    if (changedFields.some((field) => SERIES_PATTERN_FIELDS.includes(field))) {
+      await this.rekeyEventExceptions(client, currentEvent.id);
+    }
+
+    await this.syncEventReminders(client, currentEvent.id);
+
+    // Create audit trail entry
+    await client.query(
+      `INSERT INTO event_history (
+        event_id, action, changed_fields, old_values, new_values, changed_by
+      ) VALUES ($1, 'updated', $2, $3, $4, $5)`,
+      [
+        currentEvent.id,
+        JSON.stringify(changedFields),
+        JSON.stringify(
+          Object.fromEntries(
+            Object.entries(changes).map(([k, v]) => [k, v.old])
+          )
+        ),
+        JSON.stringify(
+          Object.fromEntries(
+            Object.entries(changes).map(([k, v]) => [k, v.new])
+          )
+        ),
+        userId
+      ]
+    );
+
+    return changedFields;
+  }
+
+  /**
+   * Revert Event to a Point in Its History (Async)
+   * Rebuilds the event as it stood right after `historyId` by undoing every
+   * later update, then writes the difference as a new versioned update.
+   * Occurrence exceptions are not part of the snapshot
+   */
+  async revertEventToHistory(
+    eventId: number,
+    historyId: number,
+    userId?: string
+  ): Promise<EventRevertResult> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
 
-      if (updateResult.rowCount === 0) {
+      const currentResult = await client.query(
+        "SELECT * FROM events WHERE id = $1 AND deleted_at IS NULL FOR UPDATE",
+        [eventId]
+      );
+      const targetResult = await client.query(
+        "SELECT id, changed_at FROM event_history WHERE id = $1 AND event_id = $2",
+        [historyId, eventId]
+      );
+
+      if (currentResult.rows.length === 0 || targetResult.rows.length === 0) {
         await client.query('ROLLBACK');
-        return false;
+        return { status: "not_found" };
       }
 
-      // Create audit trail entry
-      await client.query(
-        `INSERT INTO event_history (
-          event_id, action, changed_fields, old_values, new_values, changed_by
-        ) VALUES ($1, 'updated', $2, $3, $4, $5)`,
-        [
-          eventId,
-          JSON.stringify(changedFields),
-          JSON.stringify(
-            Object.fromEntries(
-              Object.entries(changes).map(([k, v]) => [k, v.old])
-            )
-          ),
-          JSON.stringify(
-            Object.fromEntries(
-              Object.entries(changes).map(([k, v]) => [k, v.new])
-            )
-          ),
-          userId
-        ]
+      const currentEvent = currentResult.rows[0];
+      const target = targetResult.rows[0];
+
+      // Newest first, so each old value peels back one more change
+      const laterResult = await client.query(
+        `SELECT old_values FROM event_history
+         WHERE event_id = $1 AND action = 'updated'
+           AND (changed_at, id) > ($2, $3)
+         ORDER BY changed_at DESC, id DESC`,
+        [eventId, target.changed_at, target.id]
+      );
+
+      const snapshot: Record<string, unknown> = Object.fromEntries(
+        REVERTIBLE_EVENT_FIELDS.map((field) => [field, currentEvent[field]])
       );
+      laterResult.rows.forEach(({ old_values }) => {
+        Object.entries(old_values || {}).forEach(([field, value]) => {
+          if (field in snapshot) snapshot[field] = value;
+        });
+      });
+
+      const changes = Object.fromEntries(
+        Object.entries(snapshot).filter(
+          ([field, value]) => !this.isSameFieldValue(field, currentEvent[field], value)
+        )
+      );
+
+      const changedFields = await this.writeEventUpdate(client, currentEvent, changes, userId);
+
+      if (!changedFields || changedFields.length === 0) {
+        await client.query('ROLLBACK');
+        return changedFields ? { status: "unchanged" } : { status: "not_found" };
+      }
 
       await client.query('COMMIT');
       this.invalidateCache("events");
-      return true;
+      return { status: "reverted", changed_fields: changedFields };
     } catch (error) {
       await client.query('ROLLBACK');
-      console.error("Error updating enhanced event:", error);
-      return false;
+      console.error("Error reverting event:", error);
+      throw error;
     } finally {
       client.release();
     }
   }
 
+  /**
+   * Compare a column value with an incoming or JSON-serialized history value
+   * (Date vs ISO string, JSONB key order, NULL vs empty string)
+   */
+  private isSameFieldValue(field: string, current: unknown, snapshot: unknown): boolean {
+    if (field === "reminders") {
+      return JSON.stringify(this.normalizeReminders(current)) === JSON.stringify(this.normalizeReminders(snapshot));
+    }
+    return EventMergeUtils.isSameValue(field, current, snapshot);
+  }
+
   /**
    * Delete Event with PostgreSQL Transaction (Async)
+   * With expectedVersion the delete only applies if nobody changed the event since
    */
-  async deleteEvent(id: number, userId?: string): Promise<boolean> {
+  async deleteEvent(id: number, userId?: string, expectedVersion?: number): Promise<EventDeleteResult> {
     const client = await this.pool.connect();
 
     try {
@@ -1335,17 +2707,22 @@ class DatabaseManager {
 
       // Get event data for audit trail
       const eventResult = await client.query(
-        "SELECT * FROM events WHERE id = $1 AND deleted_at IS NULL",
+        "SELECT * FROM events WHERE id = $1 AND deleted_at IS NULL FOR UPDATE",
         [id]
       );
 
       if (eventResult.rows.length === 0) {
         await client.query('ROLLBACK');
-        return false;
+        return "not_found";
       }
 
       const event = eventResult.rows[0];
 
+      if (expectedVersion !== undefined && (event.version || 1) !== expectedVersion) {
+        await client.query('ROLLBACK');
+        return "conflict";
+      }
+
       // Soft delete the event
       const deleteResult = await client.query(
         `UPDATE events 
@@ -1356,7 +2733,7 @@ class DatabaseManager {
 
       if (deleteResult.rowCount === 0) {
         await client.query('ROLLBACK');
-        return false;
+        return "not_found";
       }
 
       // Create audit trail entry
@@ -1376,31 +2753,1798 @@ class DatabaseManager {
 
       await client.query('COMMIT');
       this.invalidateCache("events");
-      return true;
+      return "deleted";
     } catch (error) {
       await client.query('ROLLBACK');
       console.error("Error deleting event:", error);
-      return false;
+      return "not_found";
     } finally {
       client.release();
     }
   }
 
   // ========================================
-  // USER METHODS (Now Async)
+  // TRASH METHODS (Soft-deleted events)
   // ========================================
 
-  async getUserByEmail(email: string): Promise<User | undefined> {
+  getTrashRetentionDays(): number {
+    return this.TRASH_RETENTION_DAYS;
+  }
+
+  /**
+   * Get Soft-Deleted Events (Async)
+   * Most recently deleted first, with the time each one will be purged
+   */
+  async getDeletedEvents(limit: number = 50, offset: number = 0): Promise<TrashedEvent[]> {
     try {
-      const result = await this.executeQuery<User>(
-        "SELECT * FROM users WHERE email = $1",
-        [email],
-        "getUserByEmail"
+      const result = await this.executeQuery<any>(
+        `SELECT *, deleted_at + make_interval(days => $1) AS purge_at
+         FROM events
+         WHERE deleted_at IS NOT NULL
+         ORDER BY deleted_at DESC
+         LIMIT $2 OFFSET $3`,
+        [this.TRASH_RETENTION_DAYS, limit, offset],
+        "getDeletedEvents"
       );
-      return result.rows[0];
+
+      return result.rows.map((row) => this.parseEventFromDB(row) as TrashedEvent);
+    } catch (error) {
+      console.error("Error fetching deleted events:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Restore Soft-Deleted Event with PostgreSQL Transaction (Async)
+   * Reinstates reminders cancelled by the delete that have not yet come due.
+   * Fails with "conflict" when an active event has since taken the same
+   * imported UID or milestone
+   */
+  async restoreEvent(id: number, userId?: string): Promise<EventRestoreResult> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const eventResult = await client.query(
+        "SELECT * FROM events WHERE id = $1 AND deleted_at IS NOT NULL FOR UPDATE",
+        [id]
+      );
+
+      if (eventResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return "not_found";
+      }
+
+      const event = eventResult.rows[0];
+
+      const conflictResult = await client.query(
+        `SELECT 1 FROM events
+         WHERE deleted_at IS NULL AND id <> $1
+           AND ((external_uid IS NOT NULL AND external_uid = $2)
+             OR (milestone_key IS NOT NULL AND milestone_key = $3))
+         LIMIT 1`,
+        [id, event.external_uid, event.milestone_key]
+      );
+
+      if (conflictResult.rows.length > 0) {
+        await client.query('ROLLBACK');
+        return "conflict";
+      }
+
+      const restoreResult = await client.query(
+        `UPDATE events
+         SET deleted_at = NULL, updated_by = $1, updated_at = CURRENT_TIMESTAMP, version = version + 1
+         WHERE id = $2
+         RETURNING *`,
+        [userId, id]
+      );
+
+      await client.query(
+        `INSERT INTO event_history (event_id, action, old_values, new_values, changed_by)
+         VALUES ($1, 'restored', $2, $3, $4)`,
+        [
+          id,
+          JSON.stringify({ deleted_at: event.deleted_at }),
+          JSON.stringify(restoreResult.rows[0]),
+          userId
+        ]
+      );
+
+      // Only deletion cancels reminders - bring back the ones still ahead
+      await client.query(
+        `UPDATE event_reminders
+         SET status = 'pending', retry_count = 0, next_attempt_at = NULL, delivered_to = '{}',
+             last_error = NULL, locked_by = NULL, locked_until = NULL
+         WHERE event_id = $1 AND status = 'cancelled' AND reminder_time > CURRENT_TIMESTAMP`,
+        [id]
+      );
+      await this.syncEventReminders(client, id);
+
+      await client.query('COMMIT');
+      this.invalidateCache("events");
+      return "restored";
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error("Error restoring event:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Permanently Delete Expired Trash (Async)
+   * Reminders, exceptions and history go with the event via ON DELETE CASCADE
+   */
+  async purgeDeletedEvents(): Promise<number> {
+    try {
+      const result = await this.executeQuery(
+        `DELETE FROM events
+         WHERE deleted_at IS NOT NULL
+           AND deleted_at < CURRENT_TIMESTAMP - make_interval(days => $1)`,
+        [this.TRASH_RETENTION_DAYS],
+        "purgeDeletedEvents"
+      );
+
+      return result.rowCount;
+    } catch (error) {
+      console.error("Error purging deleted events:", error);
+      return 0;
+    }
+  }
+
+  // ========================================
+  // OCCURRENCE EXCEPTION METHODS (Recurring event overrides)
+  // ========================================
+
+  /**
+   * Attach stored exceptions to the recurring events of a result set
+   */
+  private async attachExceptions(events: EnhancedEvent[]): Promise<EnhancedEvent[]> {
+    const recurringIds = events.filter((event) => event.is_recurring).map((event) => event.id);
+    if (recurringIds.length === 0) return events;
+
+    const result = await this.executeQuery<any>(
+      `SELECT * FROM event_exceptions
+       WHERE event_id = ANY($1::int[])
+       ORDER BY occurrence_index ASC`,
+      [recurringIds],
+      "getEventExceptions"
+    );
+
+    const exceptionsByEvent = new Map<number, EventOccurrenceException[]>();
+    result.rows.forEach((row) => {
+      const exceptions = exceptionsByEvent.get(row.event_id) || [];
+      exceptions.push(this.parseExceptionFromDB(row));
+      exceptionsByEvent.set(row.event_id, exceptions);
+    });
+
+    return events.map((event) =>
+      exceptionsByEvent.has(event.id) ? { ...event, exceptions: exceptionsByEvent.get(event.id) } : event
+    );
+  }
+
+  private parseExceptionFromDB(row: any): EventOccurrenceException {
+    return {
+      occurrence_index: row.occurrence_index,
+      original_date: new Date(row.original_date).toISOString(),
+      is_cancelled: Boolean(row.is_cancelled),
+      date: row.override_date ? new Date(row.override_date).toISOString() : undefined,
+      title: row.title ?? undefined,
+      location: row.location ?? undefined,
+      description: row.description ?? undefined,
+    };
+  }
+
+  private async writeEventException(
+    client: PoolClient,
+    eventId: number,
+    exception: EventOccurrenceException
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO event_exceptions (
+        event_id, occurrence_index, original_date, is_cancelled,
+        override_date, title, location, description
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (event_id, occurrence_index) DO UPDATE
+      SET original_date = EXCLUDED.original_date,
+          is_cancelled = EXCLUDED.is_cancelled,
+          override_date = EXCLUDED.override_date,
+          title = EXCLUDED.title,
+          location = EXCLUDED.location,
+          description = EXCLUDED.description,
+          updated_at = CURRENT_TIMESTAMP`,
+      [
+        eventId,
+        exception.occurrence_index,
+        exception.original_date,
+        exception.is_cancelled,
+        exception.is_cancelled ? null : exception.date || null,
+        exception.is_cancelled ? null : exception.title || null,
+        exception.is_cancelled ? null : exception.location || null,
+        exception.is_cancelled ? null : exception.description || null,
+      ]
+    );
+  }
+
+  /**
+   * Re-key Exceptions After the Series Pattern Changed (inside an open transaction)
+   * Each exception follows the occurrence that still starts at its original
+   * date; exceptions whose occurrence is no longer in the series are dropped.
+   * All rows are taken out first so shifted indexes never collide.
+   */
+  private async rekeyEventExceptions(client: PoolClient, eventId: number): Promise<void> {
+    const removed = await client.query(
+      "DELETE FROM event_exceptions WHERE event_id = $1 RETURNING *",
+      [eventId]
+    );
+    if (removed.rows.length === 0) return;
+
+    const result = await client.query("SELECT * FROM events WHERE id = $1", [eventId]);
+    if (result.rows.length === 0) return;
+
+    const stored = this.parseEventFromDB(result.rows[0]);
+    const event = { ...stored, date: new Date(stored.date).toISOString() };
+
+    for (const row of removed.rows) {
+      const exception = this.parseExceptionFromDB(row);
+      const occurrenceIndex = RecurringEventCalculator.findOccurrenceIndex(event, new Date(exception.original_date));
+      if (occurrenceIndex !== null) {
+        await this.writeEventException(client, eventId, { ...exception, occurrence_index: occurrenceIndex });
+      }
+    }
+  }
+
+  /**
+   * Locks a recurring event and resolves where an occurrence falls in the
+   * unmodified series - null when the event or the occurrence does not exist
+   */
+  private async lockOccurrence(
+    client: PoolClient,
+    eventId: number,
+    occurrenceIndex: number
+  ): Promise<{ event: EnhancedEvent; originalDate: Date } | null> {
+    const result = await client.query(
+      "SELECT * FROM events WHERE id = $1 AND deleted_at IS NULL FOR UPDATE",
+      [eventId]
+    );
+    if (result.rows.length === 0 || !result.rows[0].is_recurring) return null;
+
+    const event = this.parseEventFromDB(result.rows[0]);
+    const originalDate = RecurringEventCalculator.getOccurrenceDate(
+      { ...event, date: new Date(event.date).toISOString() },
+      occurrenceIndex
+    );
+
+    return originalDate ? { event, originalDate } : null;
+  }
+
+  private async recordExceptionChange(
+    client: PoolClient,
+    eventId: number,
+    oldValue: unknown,
+    newValue: unknown,
+    userId?: string
+  ): Promise<void> {
+    // Version bump so calendar subscribers pick up the change (SEQUENCE)
+    await client.query(
+      `UPDATE events
+       SET version = version + 1, updated_by = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [eventId, userId]
+    );
+
+    await client.query(
+      `INSERT INTO event_history (
+        event_id, action, changed_fields, old_values, new_values, changed_by
+      ) VALUES ($1, 'updated', $2, $3, $4, $5)`,
+      [
+        eventId,
+        JSON.stringify(["exceptions"]),
+        JSON.stringify({ exceptions: oldValue ?? null }),
+        JSON.stringify({ exceptions: newValue ?? null }),
+        userId,
+      ]
+    );
+  }
+
+  /**
+   * Cancel or Override a Single Occurrence (Async)
+   */
+  async saveEventException(
+    eventId: number,
+    exception: Omit<EventOccurrenceException, "original_date">,
+    userId?: string
+  ): Promise<boolean> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const locked = await this.lockOccurrence(client, eventId, exception.occurrence_index);
+      if (!locked) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      const previous = await client.query(
+        "SELECT * FROM event_exceptions WHERE event_id = $1 AND occurrence_index = $2",
+        [eventId, exception.occurrence_index]
+      );
+
+      const saved: EventOccurrenceException = {
+        ...exception,
+        original_date: locked.originalDate.toISOString(),
+      };
+      await this.writeEventException(client, eventId, saved);
+      await this.recordExceptionChange(client, eventId, previous.rows[0], saved, userId);
+      await this.syncEventReminders(client, eventId);
+
+      await client.query('COMMIT');
+      this.invalidateCache("events");
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error("Error saving event exception:", error);
+      return false;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Restore an Occurrence to the Series Defaults (Async)
+   */
+  async deleteEventException(eventId: number, occurrenceIndex: number, userId?: string): Promise<boolean> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        "DELETE FROM event_exceptions WHERE event_id = $1 AND occurrence_index = $2 RETURNING *",
+        [eventId, occurrenceIndex]
+      );
+
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      await this.recordExceptionChange(client, eventId, result.rows[0], null, userId);
+      await this.syncEventReminders(client, eventId);
+
+      await client.query('COMMIT');
+      this.invalidateCache("events");
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error("Error deleting event exception:", error);
+      return false;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Ends a series just before the given occurrence
+   * Exceptions from that occurrence onwards no longer belong to the series
+   */
+  private async truncateSeries(
+    client: PoolClient,
+    event: EnhancedEvent,
+    occurrenceIndex: number,
+    originalDate: Date,
+    userId?: string
+  ): Promise<void> {
+    const oldConfig = event.recurring_config!;
+    const newConfig: RecurringEventConfig = {
+      ...oldConfig,
+      end_date: new Date(originalDate.getTime() - 1000).toISOString(),
+      ...(oldConfig.max_occurrences && { max_occurrences: occurrenceIndex }),
+    };
+
+    await client.query(
+      `UPDATE events
+       SET recurring_config = $2, version = version + 1, updated_by = $3, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [event.id, JSON.stringify(newConfig), userId]
+    );
+
+    await client.query(
+      `INSERT INTO event_history (
+        event_id, action, changed_fields, old_values, new_values, changed_by
+      ) VALUES ($1, 'updated', $2, $3, $4, $5)`,
+      [
+        event.id,
+        JSON.stringify(["recurring_config"]),
+        JSON.stringify({ recurring_config: oldConfig }),
+        JSON.stringify({ recurring_config: newConfig }),
+        userId,
+      ]
+    );
+  }
+
+  /**
+   * Cancel This and Following Occurrences (Async)
+   */
+  async endRecurringEvent(eventId: number, occurrenceIndex: number, userId?: string): Promise<boolean> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const locked = occurrenceIndex > 0 ? await this.lockOccurrence(client, eventId, occurrenceIndex) : null;
+      if (!locked) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      await this.truncateSeries(client, locked.event, occurrenceIndex, locked.originalDate, userId);
+      await client.query(
+        "DELETE FROM event_exceptions WHERE event_id = $1 AND occurrence_index >= $2",
+        [eventId, occurrenceIndex]
+      );
+      await this.syncEventReminders(client, eventId);
+
+      await client.query('COMMIT');
+      this.invalidateCache("events");
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error("Error ending recurring event:", error);
+      return false;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Edit This and Following Occurrences (Async)
+   * Ends the original series before the occurrence and starts a new series
+   * there with the changes applied. Returns the new event's id.
+   */
+  async splitRecurringEvent(
+    eventId: number,
+    occurrenceIndex: number,
+    updates: Partial<EnhancedEventInput>,
+    userId?: string
+  ): Promise<number | null> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const locked = occurrenceIndex > 0 ? await this.lockOccurrence(client, eventId, occurrenceIndex) : null;
+      if (!locked) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const { event, originalDate } = locked;
+      const oldConfig = event.recurring_config!;
+      const remainingOccurrences = oldConfig.max_occurrences
+        ? oldConfig.max_occurrences - occurrenceIndex
+        : undefined;
+
+      await this.truncateSeries(client, event, occurrenceIndex, originalDate, userId);
+
+      const newEventId = await this.insertEnhancedEvent(
+        client,
+        {
+          title: event.title,
+          description: event.description,
+          location: event.location,
+          category: event.category,
+          priority: event.priority,
+          timezone: event.timezone,
+          is_all_day: event.is_all_day,
+          reminder_minutes: event.reminder_minutes ?? undefined,
+          // A bare reminder_minutes from an older client replaces the list
+          ...(updates.reminder_minutes === undefined && { reminders: event.reminders }),
+          is_recurring: true,
+          ...updates,
+          date: updates.date || originalDate.toISOString(),
+          recurring_config: {
+            ...oldConfig,
+            ...updates.recurring_config,
+            ...(remainingOccurrences && { max_occurrences: remainingOccurrences }),
+          },
+        },
+        userId
+      );
+
+      // Later exceptions keep their meaning only while the pattern is unchanged
+      if (updates.date || updates.recurring_config) {
+        await client.query(
+          "DELETE FROM event_exceptions WHERE event_id = $1 AND occurrence_index >= $2",
+          [eventId, occurrenceIndex]
+        );
+      } else {
+        await client.query(
+          `UPDATE event_exceptions
+           SET event_id = $3, occurrence_index = occurrence_index - $2, updated_at = CURRENT_TIMESTAMP
+           WHERE event_id = $1 AND occurrence_index >= $2`,
+          [eventId, occurrenceIndex, newEventId]
+        );
+      }
+
+      // Both series' reminders now follow the split (and the moved exceptions)
+      await this.syncEventReminders(client, eventId);
+      await this.syncEventReminders(client, newEventId);
+
+      await client.query('COMMIT');
+      this.invalidateCache("events");
+      return newEventId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error("Error splitting recurring event:", error);
+      return null;
+    } finally {
+      client.release();
+    }
+  }
+
+  // ========================================
+  // REMINDER METHODS (Server-side dispatch)
+  // ========================================
+
+  /**
+   * Claim Due Reminders with Row-Level Leasing (Async)
+   * FOR UPDATE SKIP LOCKED plus a lease column guarantees that concurrent
+   * dispatcher instances never receive the same reminder
+   */
+  async claimDueReminders(
+    workerId: string,
+    limit: number = 25,
+    leaseSeconds: number = 300
+  ): Promise<ClaimedReminder[]> {
+    try {
+      const result = await this.executeQuery<any>(
+        `WITH due AS (
+           SELECT r.id
+           FROM event_reminders r
+           JOIN events e ON e.id = r.event_id AND e.deleted_at IS NULL
+           WHERE r.status = 'pending'
+             AND r.reminder_time <= CURRENT_TIMESTAMP
+             AND (r.next_attempt_at IS NULL OR r.next_attempt_at <= CURRENT_TIMESTAMP)
+             AND (r.locked_until IS NULL OR r.locked_until < CURRENT_TIMESTAMP)
+           ORDER BY r.reminder_time ASC
+           LIMIT $1
+           FOR UPDATE OF r SKIP LOCKED
+         ), claimed AS (
+           UPDATE event_reminders r
+           SET locked_by = $2,
+               locked_until = CURRENT_TIMESTAMP + make_interval(secs => $3)
+           FROM due
+           WHERE r.id = due.id
+           RETURNING r.*
+         )
+         SELECT claimed.*, to_jsonb(e.*) AS event
+         FROM claimed
+         JOIN events e ON e.id = claimed.event_id
+         ORDER BY claimed.reminder_time ASC`,
+        [limit, workerId, leaseSeconds],
+        "claimDueReminders"
+      );
+
+      // Recurring reminders describe the occurrence they were scheduled for
+      return result.rows.map((row) => ({
+        ...row,
+        event: {
+          ...this.parseEventFromDB(row.event),
+          ...(row.occurrence_date && { date: new Date(row.occurrence_date).toISOString() }),
+        },
+      }));
+    } catch (error) {
+      console.error("Error claiming due reminders:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Mark Reminder as Sent (Async)
+   * Only succeeds while the caller still holds the lease
+   */
+  async markReminderSent(reminderId: number, workerId: string): Promise<boolean> {
+    try {
+      const result = await this.executeQuery(
+        `UPDATE event_reminders
+         SET status = 'sent', last_attempt = CURRENT_TIMESTAMP, last_error = NULL,
+             locked_by = NULL, locked_until = NULL
+         WHERE id = $1 AND locked_by = $2 AND status = 'pending'`,
+        [reminderId, workerId],
+        "markReminderSent"
+      );
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error("Error marking reminder as sent:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Record Failed Delivery Attempt (Async)
+   * Schedules a retry after retryDelayMs, or marks the reminder failed
+   * once maxRetries attempts have been used up
+   */
+  async markReminderAttemptFailed(
+    reminderId: number,
+    workerId: string,
+    errorMessage: string,
+    maxRetries: number,
+    retryDelayMs: number
+  ): Promise<EventReminder["status"] | null> {
+    try {
+      const result = await this.executeQuery<{ status: EventReminder["status"] }>(
+        `UPDATE event_reminders
+         SET retry_count = retry_count + 1,
+             last_attempt = CURRENT_TIMESTAMP,
+             last_error = $3,
+             status = CASE WHEN retry_count + 1 >= $4 THEN 'failed' ELSE 'pending' END,
+             next_attempt_at = CASE WHEN retry_count + 1 >= $4 THEN NULL
+                                    ELSE CURRENT_TIMESTAMP + make_interval(secs => $5) END,
+             locked_by = NULL, locked_until = NULL
+         WHERE id = $1 AND locked_by = $2 AND status = 'pending'
+         RETURNING status`,
+        [reminderId, workerId, errorMessage.slice(0, 1000), maxRetries, retryDelayMs / 1000],
+        "markReminderAttemptFailed"
+      );
+      return result.rows[0]?.status || null;
+    } catch (error) {
+      console.error("Error recording failed reminder attempt:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Defer Reminder Past Quiet Hours (Async)
+   * Partners reached so far are kept in delivered_to and the rest get the
+   * reminder at `until` - unlike a failure, this does not use up a retry
+   */
+  async deferReminder(
+    reminderId: number,
+    workerId: string,
+    until: Date,
+    deliveredTo: number[]
+  ): Promise<boolean> {
+    try {
+      const result = await this.executeQuery(
+        `UPDATE event_reminders
+         SET next_attempt_at = $3, delivered_to = $4, last_attempt = CURRENT_TIMESTAMP,
+             locked_by = NULL, locked_until = NULL
+         WHERE id = $1 AND locked_by = $2 AND status = 'pending'`,
+        [reminderId, workerId, until.toISOString(), deliveredTo],
+        "deferReminder"
+      );
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error("Error deferring reminder:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Schedule an Event's Next Reminders (Async)
+   * Called once a reminder of a recurring event has gone out, so the same
+   * reminder is set up for the following occurrence
+   */
+  async refreshEventReminders(eventId: number): Promise<boolean> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await this.syncEventReminders(client, eventId);
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error("Error refreshing event reminders:", error);
+      return false;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Catch Up Recurring Reminders (Async)
+   * Re-syncs recurring events that have fewer pending rows than reminders -
+   * series whose reminders were missed or that predate reminder lists.
+   * Series past their end date are left alone
+   */
+  async refreshRecurringReminders(limit: number = 50): Promise<number> {
+    try {
+      const result = await this.executeQuery<{ id: number }>(
+        `SELECT e.id
+         FROM events e
+         WHERE e.deleted_at IS NULL
+           AND e.is_recurring = TRUE
+           AND jsonb_array_length(e.reminders) > (
+             SELECT COUNT(*) FROM event_reminders r
+             WHERE r.event_id = e.id AND r.status = 'pending'
+           )
+           AND (
+             e.recurring_config->>'end_date' IS NULL
+             OR e.recurring_config->>'end_date' >= to_char(CURRENT_TIMESTAMP AT TIME ZONE 'UTC', 'YYYY-MM-DD')
+           )
+         ORDER BY e.id
+         LIMIT $1`,
+        [limit],
+        "getRecurringEventsMissingReminders"
+      );
+
+      let refreshed = 0;
+      for (const { id } of result.rows) {
+        if (await this.refreshEventReminders(id)) refreshed++;
+      }
+      return refreshed;
+    } catch (error) {
+      console.error("Error refreshing recurring reminders:", error);
+      return 0;
+    }
+  }
+
+  // ========================================
+  // CALENDAR FEED METHODS (iCalendar subscriptions)
+  // ========================================
+
+  async getCalendarFeedToken(userId: number): Promise<CalendarFeedToken | undefined> {
+    try {
+      const result = await this.executeQuery<CalendarFeedToken>(
+        "SELECT * FROM calendar_feed_tokens WHERE user_id = $1",
+        [userId],
+        "getCalendarFeedToken"
+      );
+      return result.rows[0];
+    } catch (error) {
+      console.error("Database read error:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Rotate Calendar Feed Token (Async)
+   * Replaces any previous token, which immediately stops working
+   */
+  async rotateCalendarFeedToken(userId: number, tokenHash: string): Promise<boolean> {
+    try {
+      const result = await this.executeQuery(
+        `INSERT INTO calendar_feed_tokens (user_id, token_hash)
+         VALUES ($1, $2)
+         ON CONFLICT (user_id) DO UPDATE
+         SET token_hash = EXCLUDED.token_hash,
+             created_at = CURRENT_TIMESTAMP,
+             last_accessed_at = NULL`,
+        [userId, tokenHash],
+        "rotateCalendarFeedToken"
+      );
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error("Error rotating calendar feed token:", error);
+      return false;
+    }
+  }
+
+  async revokeCalendarFeedToken(userId: number): Promise<boolean> {
+    try {
+      const result = await this.executeQuery(
+        "DELETE FROM calendar_feed_tokens WHERE user_id = $1",
+        [userId],
+        "revokeCalendarFeedToken"
+      );
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error("Error revoking calendar feed token:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Resolve Feed Token (Async)
+   * Looks up a token by its hash and records the access time
+   */
+  async touchCalendarFeedToken(tokenHash: string): Promise<CalendarFeedToken | undefined> {
+    try {
+      const result = await this.executeQuery<CalendarFeedToken>(
+        `UPDATE calendar_feed_tokens
+         SET last_accessed_at = CURRENT_TIMESTAMP
+         WHERE token_hash = $1
+         RETURNING *`,
+        [tokenHash],
+        "touchCalendarFeedToken"
+      );
+      return result.rows[0];
+    } catch (error) {
+      console.error("Error resolving calendar feed token:", error);
+      return undefined;
+    }
+  }
+
+  // ========================================
+  // PUSH SUBSCRIPTION METHODS (Web Push devices)
+  // ========================================
+
+  /**
+   * Store a Push Subscription (Async)
+   * Re-subscribing the same endpoint refreshes its keys and owner
+   */
+  async savePushSubscription(
+    userId: number,
+    subscription: { endpoint: string; keys: { p256dh: string; auth: string }; expirationTime?: number | null },
+    userAgent?: string
+  ): Promise<PushSubscriptionRecord | undefined> {
+    try {
+      const result = await this.executeQuery<PushSubscriptionRecord>(
+        `INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (endpoint) DO UPDATE
+         SET user_id = EXCLUDED.user_id,
+             p256dh = EXCLUDED.p256dh,
+             auth = EXCLUDED.auth,
+             user_agent = EXCLUDED.user_agent,
+             expires_at = EXCLUDED.expires_at
+         RETURNING *`,
+        [
+          userId,
+          subscription.endpoint,
+          subscription.keys.p256dh,
+          subscription.keys.auth,
+          userAgent?.slice(0, 500) || null,
+          subscription.expirationTime ? new Date(subscription.expirationTime).toISOString() : null,
+        ],
+        "savePushSubscription"
+      );
+      return result.rows[0];
+    } catch (error) {
+      console.error("Error saving push subscription:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Push Subscriptions (Async)
+   * Every unexpired device, or only one user's when userId is given
+   */
+  async getPushSubscriptions(userId?: number): Promise<PushSubscriptionRecord[]> {
+    try {
+      const result = await this.executeQuery<PushSubscriptionRecord>(
+        `SELECT * FROM push_subscriptions
+         WHERE ($1::integer IS NULL OR user_id = $1)
+           AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
+         ORDER BY created_at`,
+        [userId ?? null],
+        "getPushSubscriptions"
+      );
+      return result.rows;
+    } catch (error) {
+      console.error("Database read error:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Remove a Push Subscription (Async)
+   * With userId only that user's device is removed (unsubscribe from the UI)
+   */
+  async deletePushSubscription(endpoint: string, userId?: number): Promise<boolean> {
+    try {
+      const result = await this.executeQuery(
+        `DELETE FROM push_subscriptions
+         WHERE endpoint = $1 AND ($2::integer IS NULL OR user_id = $2)`,
+        [endpoint, userId ?? null],
+        "deletePushSubscription"
+      );
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error("Error deleting push subscription:", error);
+      return false;
+    }
+  }
+
+  async markPushSubscriptionUsed(id: number): Promise<void> {
+    try {
+      await this.executeQuery(
+        "UPDATE push_subscriptions SET last_used_at = CURRENT_TIMESTAMP WHERE id = $1",
+        [id],
+        "markPushSubscriptionUsed"
+      );
+    } catch (error) {
+      console.error("Error updating push subscription:", error);
+    }
+  }
+
+  /**
+   * Prune Expired Push Subscriptions (Async)
+   * Subscriptions rejected by the push service are removed at send time;
+   * this catches the ones whose browser-reported expiry has passed
+   */
+  async pruneExpiredPushSubscriptions(): Promise<number> {
+    try {
+      const result = await this.executeQuery(
+        "DELETE FROM push_subscriptions WHERE expires_at <= CURRENT_TIMESTAMP",
+        [],
+        "pruneExpiredPushSubscriptions"
+      );
+      return result.rowCount;
+    } catch (error) {
+      console.error("Error pruning push subscriptions:", error);
+      return 0;
+    }
+  }
+
+  // ========================================
+  // WEBHOOK METHODS (Outgoing event notifications)
+  // ========================================
+
+  /**
+   * All Webhooks With Their Latest Delivery (Async)
+   * Signing secrets are left out
+   */
+  async getWebhooks(): Promise<Webhook[]> {
+    try {
+      const result = await this.executeQuery<Webhook>(
+        `SELECT w.id, w.url, w.description, w.events, w.is_active, w.created_by,
+                w.created_at, w.updated_at,
+                last.status AS last_delivery_status, last.created_at AS last_delivery_at
+         FROM webhooks w
+         LEFT JOIN LATERAL (
+           SELECT status, created_at FROM webhook_deliveries
+           WHERE webhook_id = w.id
+           ORDER BY created_at DESC
+           LIMIT 1
+         ) last ON TRUE
+         ORDER BY w.created_at ASC`,
+        [],
+        "getWebhooks"
+      );
+      return result.rows;
+    } catch (error) {
+      console.error("Error fetching webhooks:", error);
+      return [];
+    }
+  }
+
+  async createWebhook(input: WebhookInput, secret: string, userId?: string): Promise<WebhookWithSecret | undefined> {
+    try {
+      const result = await this.executeQuery<WebhookWithSecret>(
+        `INSERT INTO webhooks (url, description, secret, events, is_active, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [
+          input.url,
+          input.description || null,
+          secret,
+          input.events,
+          input.is_active ?? true,
+          userId ? parseInt(userId, 10) : null,
+        ],
+        "createWebhook"
+      );
+      return result.rows[0];
+    } catch (error) {
+      console.error("Error creating webhook:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Update a Webhook (Async)
+   * Passing `secret` rotates the signing key; the returned row includes it
+   */
+  async updateWebhook(
+    id: number,
+    changes: Partial<WebhookInput>,
+    secret?: string
+  ): Promise<WebhookWithSecret | undefined> {
+    try {
+      const result = await this.executeQuery<WebhookWithSecret>(
+        `UPDATE webhooks
+         SET url = COALESCE($2, url),
+             description = CASE WHEN $3::boolean THEN $4 ELSE description END,
+             events = COALESCE($5, events),
+             is_active = COALESCE($6, is_active),
+             secret = COALESCE($7, secret)
+         WHERE id = $1
+         RETURNING *`,
+        [
+          id,
+          changes.url ?? null,
+          changes.description !== undefined,
+          changes.description || null,
+          changes.events ?? null,
+          changes.is_active ?? null,
+          secret ?? null,
+        ],
+        "updateWebhook"
+      );
+      return result.rows[0];
+    } catch (error) {
+      console.error("Error updating webhook:", error);
+      return undefined;
+    }
+  }
+
+  async deleteWebhook(id: number): Promise<boolean> {
+    try {
+      const result = await this.executeQuery("DELETE FROM webhooks WHERE id = $1", [id], "deleteWebhook");
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Queue an Event for Every Subscribed Webhook (Async)
+   * Returns how many deliveries were created
+   */
+  async enqueueWebhookEvent(type: WebhookEventType, data: Record<string, unknown>): Promise<number> {
+    try {
+      const result = await this.executeQuery(
+        `INSERT INTO webhook_deliveries (webhook_id, event_type, data)
+         SELECT id, $1, $2 FROM webhooks
+         WHERE is_active = TRUE AND $1 = ANY(events)`,
+        [type, JSON.stringify(data)],
+        "enqueueWebhookEvent"
+      );
+      return result.rowCount;
+    } catch (error) {
+      console.error("Error queueing webhook event:", error);
+      return 0;
+    }
+  }
+
+  async getWebhookDeliveries(webhookId: number, limit: number = 50): Promise<WebhookDelivery[]> {
+    try {
+      const result = await this.executeQuery<WebhookDelivery>(
+        `SELECT id, delivery_id, webhook_id, event_type, data, status, attempt_count,
+                next_attempt_at, response_status, response_body, last_error, duration_ms,
+                redelivery_of, created_at, delivered_at
+         FROM webhook_deliveries
+         WHERE webhook_id = $1
+         ORDER BY created_at DESC, id DESC
+         LIMIT $2`,
+        [webhookId, limit],
+        "getWebhookDeliveries"
+      );
+      return result.rows;
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Redeliver (Async)
+   * Sends the same data again as a new delivery with a new delivery_id
+   */
+  async redeliverWebhookDelivery(webhookId: number, deliveryId: number): Promise<WebhookDelivery | undefined> {
+    try {
+      const result = await this.executeQuery<WebhookDelivery>(
+        `INSERT INTO webhook_deliveries (webhook_id, event_type, data, redelivery_of)
+         SELECT webhook_id, event_type, data, id FROM webhook_deliveries
+         WHERE id = $1 AND webhook_id = $2
+         RETURNING id, delivery_id, webhook_id, event_type, data, status, attempt_count,
+                   next_attempt_at, redelivery_of, created_at`,
+        [deliveryId, webhookId],
+        "redeliverWebhookDelivery"
+      );
+      return result.rows[0];
+    } catch (error) {
+      console.error("Error redelivering webhook:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Claim Due Webhook Deliveries (Async)
+   * Same leasing scheme as claimDueReminders - safe with several dispatchers
+   */
+  async claimDueWebhookDeliveries(
+    workerId: string,
+    limit: number = 25,
+    leaseSeconds: number = 120
+  ): Promise<ClaimedWebhookDelivery[]> {
+    try {
+      const result = await this.executeQuery<ClaimedWebhookDelivery>(
+        `WITH due AS (
+           SELECT d.id
+           FROM webhook_deliveries d
+           WHERE d.status = 'pending'
+             AND d.next_attempt_at <= CURRENT_TIMESTAMP
+             AND (d.locked_until IS NULL OR d.locked_until < CURRENT_TIMESTAMP)
+           ORDER BY d.next_attempt_at ASC, d.id ASC
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED
+         ), claimed AS (
+           UPDATE webhook_deliveries d
+           SET locked_by = $2,
+               locked_until = CURRENT_TIMESTAMP + make_interval(secs => $3)
+           FROM due
+           WHERE d.id = due.id
+           RETURNING d.*
+         )
+         SELECT claimed.*, w.url, w.secret
+         FROM claimed
+         JOIN webhooks w ON w.id = claimed.webhook_id
+         ORDER BY claimed.id ASC`,
+        [limit, workerId, leaseSeconds],
+        "claimDueWebhookDeliveries"
+      );
+      return result.rows;
+    } catch (error) {
+      console.error("Error claiming webhook deliveries:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a Delivery Attempt (Async)
+   * Successful attempts finish the delivery; failed ones are retried after
+   * retryDelayMs until maxAttempts have been used up
+   */
+  async recordWebhookAttempt(
+    deliveryId: number,
+    workerId: string,
+    outcome: WebhookAttemptOutcome,
+    maxAttempts: number,
+    retryDelayMs: number
+  ): Promise<WebhookDelivery["status"] | null> {
+    try {
+      const result = await this.executeQuery<{ status: WebhookDelivery["status"] }>(
+        `UPDATE webhook_deliveries
+         SET attempt_count = attempt_count + 1,
+             response_status = $3,
+             response_body = $4,
+             duration_ms = $5,
+             last_error = $6,
+             status = CASE WHEN $6::text IS NULL THEN 'succeeded'
+                           WHEN attempt_count + 1 >= $7 THEN 'failed'
+                           ELSE 'pending' END,
+             next_attempt_at = CASE WHEN $6::text IS NULL OR attempt_count + 1 >= $7 THEN NULL
+                                    ELSE CURRENT_TIMESTAMP + make_interval(secs => $8) END,
+             delivered_at = CASE WHEN $6::text IS NULL THEN CURRENT_TIMESTAMP ELSE delivered_at END,
+             locked_by = NULL, locked_until = NULL
+         WHERE id = $1 AND locked_by = $2 AND status = 'pending'
+         RETURNING status`,
+        [
+          deliveryId,
+          workerId,
+          outcome.responseStatus ?? null,
+          outcome.responseBody?.slice(0, 2000) ?? null,
+          outcome.durationMs,
+          outcome.error?.slice(0, 1000) ?? null,
+          maxAttempts,
+          retryDelayMs / 1000,
+        ],
+        "recordWebhookAttempt"
+      );
+      return result.rows[0]?.status || null;
+    } catch (error) {
+      console.error("Error recording webhook attempt:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete Old Delivery Log Entries (Async)
+   * Pending deliveries are kept until they finish
+   */
+  async pruneWebhookDeliveries(): Promise<number> {
+    try {
+      const result = await this.executeQuery(
+        `DELETE FROM webhook_deliveries
+         WHERE status <> 'pending'
+           AND created_at < CURRENT_TIMESTAMP - make_interval(days => $1)`,
+        [this.WEBHOOK_DELIVERY_RETENTION_DAYS],
+        "pruneWebhookDeliveries"
+      );
+      return result.rowCount;
+    } catch (error) {
+      console.error("Error pruning webhook deliveries:", error);
+      return 0;
+    }
+  }
+
+  // ========================================
+  // MILESTONE METHODS (Virtual events from love_start_date)
+  // ========================================
+
+  async getMilestoneSettings(): Promise<MilestoneSetting[]> {
+    try {
+      const result = await this.executeQuery<MilestoneSetting>(
+        "SELECT rule_id, enabled, reminder_minutes FROM milestone_rules",
+        [],
+        "getMilestoneSettings"
+      );
+      return MilestoneGenerator.resolveSettings(
+        result.rows.map((row) => ({ ...row, reminder_minutes: row.reminder_minutes ?? undefined }))
+      );
+    } catch (error) {
+      console.error("Database read error:", error);
+      return MilestoneGenerator.resolveSettings();
+    }
+  }
+
+  async updateMilestoneSetting(
+    ruleId: MilestoneRuleId,
+    updates: { enabled?: boolean; reminder_minutes?: number }
+  ): Promise<boolean> {
+    try {
+      const current = (await this.getMilestoneSettings()).find((setting) => setting.rule_id === ruleId);
+      if (!current) return false;
+
+      const result = await this.executeQuery(
+        `INSERT INTO milestone_rules (rule_id, enabled, reminder_minutes)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (rule_id) DO UPDATE
+         SET enabled = EXCLUDED.enabled,
+             reminder_minutes = EXCLUDED.reminder_minutes,
+             updated_at = CURRENT_TIMESTAMP`,
+        [ruleId, updates.enabled ?? current.enabled, updates.reminder_minutes ?? current.reminder_minutes],
+        "updateMilestoneSetting"
+      );
+
+      this.invalidateCache("milestone");
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error("Error updating milestone setting:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Love start date, rule settings and already-materialized keys
+   * Cached under an "events" key so event writes invalidate it too
+   */
+  private async getMilestoneContext(): Promise<{
+    loveStartDate: string | Date;
+    settings: MilestoneSetting[];
+    materializedKeys: Set<string>;
+  } | null> {
+    const cacheKey = "milestone_context_events";
+    const cached = this.getCachedResult<{
+      loveStartDate: string | Date;
+      settings: MilestoneSetting[];
+      materializedKeys: Set<string>;
+    }>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const coupleInfo = await this.getCoupleInfo();
+    if (!coupleInfo?.love_start_date) return null;
+
+    const [settings, materialized] = await Promise.all([
+      this.getMilestoneSettings(),
+      this.executeQuery<{ milestone_key: string }>(
+        "SELECT milestone_key FROM events WHERE deleted_at IS NULL AND milestone_key IS NOT NULL",
+        [],
+        "getMaterializedMilestones"
+      ),
+    ]);
+
+    const context = {
+      loveStartDate: coupleInfo.love_start_date,
+      settings,
+      materializedKeys: new Set(materialized.rows.map((row) => row.milestone_key)),
+    };
+
+    this.setCachedResult(cacheKey, context);
+    return context;
+  }
+
+  /**
+   * Virtual Milestone Events Between Two Dates (Async)
+   * Disabled rules and milestones already materialized as real events are skipped
+   */
+  async getVirtualMilestones(from: Date, to: Date): Promise<EnhancedEvent[]> {
+    try {
+      const context = await this.getMilestoneContext();
+      if (!context) return [];
+
+      const enabledSettings = context.settings.filter((setting) => setting.enabled);
+      const timezone = process.env.REMINDER_TIMEZONE || DEFAULT_MILESTONE_TIMEZONE;
+
+      return MilestoneGenerator.generate(
+        context.loveStartDate,
+        from,
+        to,
+        enabledSettings.map((setting) => setting.rule_id)
+      )
+        .filter((occurrence) => !context.materializedKeys.has(occurrence.key))
+        .map((occurrence) => ({
+          ...MilestoneGenerator.toVirtualEvent(occurrence, {
+            timezone,
+            reminderMinutes: enabledSettings.find((setting) => setting.rule_id === occurrence.rule_id)?.reminder_minutes,
+            loveStartDate: context.loveStartDate,
+          }),
+          reminders: [], // Milestone reminders come from the rule's reminder_minutes
+          version: 0,
+        }));
+    } catch (error) {
+      console.error("Error generating milestones:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Filtered Events Merged with Virtual Milestones (Async)
+   * Milestones are only generated up to MILESTONE_HORIZON_DAYS ahead unless date_to is given
+   */
+  async getEventsWithMilestones(
+    filters: EventFilters = {},
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ events: EnhancedEvent[]; total_count: number }> {
+    const now = new Date();
+    const horizon = filters.date_to
+      ? new Date(filters.date_to)
+      : new Date(now.getTime() + this.MILESTONE_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+    const from = filters.date_from ? new Date(filters.date_from) : new Date(0);
+
+    const [storedEvents, storedCount, milestones] = await Promise.all([
+      // Fetch every row up to the requested page so the merged order is correct
+      this.getFilteredEvents(filters, offset + limit, 0),
+      this.getFilteredEventsCount(filters),
+      filters.category && filters.category !== "milestone"
+        ? Promise.resolve([])
+        : this.getVirtualMilestones(from, horizon),
+    ]);
+
+    const matchingIds = new Set(EventFilterUtils.filterEvents(milestones, {
+      category: filters.category,
+      priority: filters.priority,
+      dateFrom: filters.date_from,
+      dateTo: filters.date_to,
+      searchTerm: filters.search_term,
+      showPast: filters.show_past,
+      showRecurring: filters.show_recurring,
+    }).map((event) => event.id));
+    const matchingMilestones = milestones.filter((event) => matchingIds.has(event.id));
+
+    const events = [...storedEvents, ...matchingMilestones]
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .slice(offset, offset + limit);
+
+    return { events, total_count: storedCount + matchingMilestones.length };
+  }
+
+  /**
+   * Materialize Milestone into a Real Event (Async)
+   * The stored event keeps the milestone_key so the virtual copy disappears,
+   * and can then be edited, annotated and linked to photos like any event
+   */
+  async materializeMilestone(key: string, userId?: string): Promise<number | null> {
+    try {
+      const coupleInfo = await this.getCoupleInfo();
+      if (!coupleInfo?.love_start_date) return null;
+
+      const occurrence = MilestoneGenerator.fromKey(coupleInfo.love_start_date, key);
+      if (!occurrence) return null;
+
+      const existing = await this.executeQuery<{ id: number }>(
+        "SELECT id FROM events WHERE milestone_key = $1 AND deleted_at IS NULL",
+        [key],
+        "findMaterializedMilestone"
+      );
+      if (existing.rows[0]) return existing.rows[0].id;
+
+      const setting = (await this.getMilestoneSettings()).find((item) => item.rule_id === occurrence.rule_id);
+      const virtualEvent = MilestoneGenerator.toVirtualEvent(occurrence, {
+        timezone: process.env.REMINDER_TIMEZONE || DEFAULT_MILESTONE_TIMEZONE,
+        reminderMinutes: setting?.reminder_minutes,
+      });
+
+      return this.createEnhancedEvent(
+        {
+          title: virtualEvent.title,
+          date: virtualEvent.date,
+          description: virtualEvent.description,
+          is_recurring: false,
+          category: "milestone",
+          priority: virtualEvent.priority,
+          timezone: virtualEvent.timezone,
+          is_all_day: true,
+          reminder_minutes: virtualEvent.reminder_minutes,
+          milestone_key: key,
+        },
+        userId
+      );
+    } catch (error) {
+      console.error("Error materializing milestone:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Claim a Virtual Milestone Reminder (Async)
+   * The primary key makes the insert the lock - only one dispatcher wins
+   */
+  async claimMilestoneReminder(key: string, reminderTime: string): Promise<boolean> {
+    try {
+      const result = await this.executeQuery(
+        `INSERT INTO milestone_reminders (milestone_key, reminder_time)
+         VALUES ($1, $2)
+         ON CONFLICT (milestone_key) DO NOTHING`,
+        [key, reminderTime],
+        "claimMilestoneReminder"
+      );
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error("Error claiming milestone reminder:", error);
+      return false;
+    }
+  }
+
+  async markMilestoneReminder(key: string, status: "sent" | "failed"): Promise<boolean> {
+    try {
+      const result = await this.executeQuery(
+        `UPDATE milestone_reminders
+         SET status = $2, delivered_at = CASE WHEN $2 = 'sent' THEN CURRENT_TIMESTAMP ELSE NULL END
+         WHERE milestone_key = $1`,
+        [key, status],
+        "markMilestoneReminder"
+      );
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error("Error updating milestone reminder:", error);
+      return false;
+    }
+  }
+
+  // ========================================
+  // USER METHODS (Now Async)
+  // ========================================
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    try {
+      const result = await this.executeQuery<User>(
+        "SELECT * FROM users WHERE email = $1",
+        [email],
+        "getUserByEmail"
+      );
+      return result.rows[0];
+    } catch (error) {
+      console.error("Database read error:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Everyone who gets email notifications - both partners' accounts
+   */
+  async getNotificationRecipients(): Promise<NotificationRecipient[]> {
+    try {
+      const result = await this.executeQuery<NotificationRecipient>(
+        "SELECT id, email, name FROM users WHERE email IS NOT NULL AND email <> '' ORDER BY id",
+        [],
+        "getNotificationRecipients"
+      );
+      return result.rows;
+    } catch (error) {
+      console.error("Error fetching notification recipients:", error);
+      return [];
+    }
+  }
+
+  // ========================================
+  // NOTIFICATION PREFERENCE METHODS (Per-user reminder settings)
+  // ========================================
+
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences> {
+    try {
+      const result = await this.executeQuery<any>(
+        "SELECT * FROM notification_preferences WHERE user_id = $1",
+        [userId],
+        "getNotificationPreferences"
+      );
+      return this.parseNotificationPreferences(result.rows[0], userId);
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      return this.parseNotificationPreferences(undefined, userId);
+    }
+  }
+
+  /**
+   * Every partner with their preferences, for the reminder dispatcher
+   */
+  async getRecipientPreferences(): Promise<RecipientPreferences[]> {
+    try {
+      const result = await this.executeQuery<any>(
+        `SELECT u.id, u.email, u.name,
+                CASE WHEN p.user_id IS NULL THEN NULL ELSE to_jsonb(p.*) END AS preferences
+         FROM users u
+         LEFT JOIN notification_preferences p ON p.user_id = u.id
+         ORDER BY u.id`,
+        [],
+        "getRecipientPreferences"
+      );
+      return result.rows.map((row) => ({
+        id: row.id,
+        email: row.email,
+        name: row.name,
+        preferences: this.parseNotificationPreferences(row.preferences, row.id),
+      }));
+    } catch (error) {
+      console.error("Error fetching recipient preferences:", error);
+      return [];
+    }
+  }
+
+  async saveNotificationPreferences(
+    userId: number,
+    preferences: Omit<NotificationPreferences, "user_id" | "updated_at">
+  ): Promise<NotificationPreferences | undefined> {
+    try {
+      const result = await this.executeQuery<any>(
+        `INSERT INTO notification_preferences (
+           user_id, browser_enabled, email_enabled, push_enabled, reminder_times,
+           quiet_hours_start, quiet_hours_end, timezone
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (user_id) DO UPDATE
+         SET browser_enabled = EXCLUDED.browser_enabled,
+             email_enabled = EXCLUDED.email_enabled,
+             push_enabled = EXCLUDED.push_enabled,
+             reminder_times = EXCLUDED.reminder_times,
+             quiet_hours_start = EXCLUDED.quiet_hours_start,
+             quiet_hours_end = EXCLUDED.quiet_hours_end,
+             timezone = EXCLUDED.timezone
+         RETURNING *`,
+        [
+          userId,
+          preferences.browser_enabled,
+          preferences.email_enabled,
+          preferences.push_enabled,
+          preferences.reminder_times,
+          preferences.quiet_hours?.start || null,
+          preferences.quiet_hours?.end || null,
+          preferences.timezone,
+        ],
+        "saveNotificationPreferences"
+      );
+      return this.parseNotificationPreferences(result.rows[0], userId);
+    } catch (error) {
+      console.error("Error saving notification preferences:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Claim a reminder_times Reminder (Async)
+   * Like claimMilestoneReminder, the primary key makes the insert the lock
+   */
+  async claimPreferenceReminder(
+    eventId: number,
+    userId: number,
+    minutesBefore: number,
+    occurrenceDate: string
+  ): Promise<boolean> {
+    try {
+      const result = await this.executeQuery(
+        `INSERT INTO preference_reminders (event_id, user_id, minutes_before, occurrence_date)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT DO NOTHING`,
+        [eventId, userId, minutesBefore, occurrenceDate],
+        "claimPreferenceReminder"
+      );
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error("Error claiming preference reminder:", error);
+      return false;
+    }
+  }
+
+  async markPreferenceReminder(
+    eventId: number,
+    userId: number,
+    minutesBefore: number,
+    occurrenceDate: string,
+    status: "sent" | "failed"
+  ): Promise<boolean> {
+    try {
+      const result = await this.executeQuery(
+        `UPDATE preference_reminders
+         SET status = $5, delivered_at = CASE WHEN $5 = 'sent' THEN CURRENT_TIMESTAMP ELSE NULL END
+         WHERE event_id = $1 AND user_id = $2 AND minutes_before = $3 AND occurrence_date = $4`,
+        [eventId, userId, minutesBefore, occurrenceDate, status],
+        "markPreferenceReminder"
+      );
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error("Error updating preference reminder:", error);
+      return false;
+    }
+  }
+
+  private parseNotificationPreferences(row: any, userId: number): NotificationPreferences {
+    if (!row) {
+      return NotificationPreferencesManager.getDefaults(
+        String(userId),
+        process.env.REMINDER_TIMEZONE || DEFAULT_MILESTONE_TIMEZONE
+      );
+    }
+
+    return {
+      user_id: String(userId),
+      browser_enabled: row.browser_enabled,
+      email_enabled: row.email_enabled,
+      push_enabled: row.push_enabled,
+      reminder_times: row.reminder_times || [],
+      quiet_hours: row.quiet_hours_start && row.quiet_hours_end
+        ? { start: row.quiet_hours_start, end: row.quiet_hours_end }
+        : null,
+      timezone: row.timezone,
+      updated_at: row.updated_at ? new Date(row.updated_at).toISOString() : undefined,
+    };
+  }
+
+  // ========================================
+  // IN-APP NOTIFICATION METHODS (Notification center inbox)
+  // ========================================
+
+  /**
+   * Add a notification to the inbox of each given user (Async)
+   * Returns the created rows; the change trigger pushes them to open tabs
+   */
+  async createNotifications(userIds: number[], input: InAppNotificationInput): Promise<InAppNotification[]> {
+    if (userIds.length === 0) return [];
+
+    try {
+      const result = await this.executeQuery<InAppNotification>(
+        `INSERT INTO notifications (user_id, type, title, message, url, event_id)
+         SELECT recipient, $2, $3, $4, $5, $6
+         FROM unnest($1::int[]) AS recipient
+         RETURNING *`,
+        [
+          userIds,
+          input.type,
+          input.title.slice(0, 200),
+          input.message,
+          input.url || null,
+          input.event_id || null,
+        ],
+        "createNotifications"
+      );
+      return result.rows;
+    } catch (error) {
+      console.error("Error creating notifications:", error);
+      return [];
+    }
+  }
+
+  async getNotifications(
+    userId: number,
+    limit: number = 20,
+    unreadOnly: boolean = false
+  ): Promise<NotificationInbox> {
+    try {
+      const [list, unread] = await Promise.all([
+        this.executeQuery<InAppNotification>(
+          `SELECT * FROM notifications
+           WHERE user_id = $1 AND ($3::boolean = FALSE OR read_at IS NULL)
+           ORDER BY created_at DESC, id DESC
+           LIMIT $2`,
+          [userId, limit, unreadOnly],
+          "getNotifications"
+        ),
+        this.executeQuery<{ count: string }>(
+          "SELECT COUNT(*) AS count FROM notifications WHERE user_id = $1 AND read_at IS NULL",
+          [userId],
+          "getUnreadNotificationCount"
+        ),
+      ]);
+
+      return {
+        notifications: list.rows,
+        unread_count: parseInt(unread.rows[0]?.count || "0", 10),
+      };
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      return { notifications: [], unread_count: 0 };
+    }
+  }
+
+  /**
+   * Mark notifications read or unread (Async)
+   * Without ids, every notification of the user is marked
+   */
+  async markNotificationsRead(userId: number, ids?: number[], read: boolean = true): Promise<number> {
+    try {
+      const result = await this.executeQuery(
+        `UPDATE notifications
+         SET read_at = CASE WHEN $3 THEN COALESCE(read_at, CURRENT_TIMESTAMP) ELSE NULL END
+         WHERE user_id = $1
+           AND ($2::int[] IS NULL OR id = ANY($2::int[]))
+           AND (read_at IS NULL) = $3`,
+        [userId, ids || null, read],
+        "markNotificationsRead"
+      );
+      return result.rowCount;
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      return 0;
+    }
+  }
+
+  async deleteNotification(userId: number, id: number): Promise<boolean> {
+    try {
+      const result = await this.executeQuery(
+        "DELETE FROM notifications WHERE id = $1 AND user_id = $2",
+        [id, userId],
+        "deleteNotification"
+      );
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error("Error deleting notification:", error);
+      return false;
+    }
+  }
+
+  async pruneNotifications(): Promise<number> {
+    try {
+      const result = await this.executeQuery(
+        `DELETE FROM notifications
+         WHERE created_at < CURRENT_TIMESTAMP - make_interval(days => $1)`,
+        [this.NOTIFICATION_RETENTION_DAYS],
+        "pruneNotifications"
+      );
+      return result.rowCount;
+    } catch (error) {
+      console.error("Error pruning notifications:", error);
+      return 0;
+    }
+  }
+
+  // ========================================
+  // EMAIL DIGEST METHODS (Weekly "coming up" email)
+  // ========================================
+
+  /**
+   * Claim the Digest for a Week (Async)
+   * Inserting the row is the lock; a failed attempt may be reclaimed after
+   * retryAfterMinutes so a transient SMTP outage does not lose the week
+   */
+  async claimEmailDigest(periodStart: string, retryAfterMinutes: number = 60): Promise<boolean> {
+    try {
+      const result = await this.executeQuery(
+        `INSERT INTO email_digests (period_start)
+         VALUES ($1)
+         ON CONFLICT (period_start) DO UPDATE
+           SET status = 'pending', attempted_at = CURRENT_TIMESTAMP
+           WHERE email_digests.status = 'failed'
+             AND email_digests.attempted_at <= CURRENT_TIMESTAMP - make_interval(mins => $2)`,
+        [periodStart, retryAfterMinutes],
+        "claimEmailDigest"
+      );
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error("Error claiming email digest:", error);
+      return false;
+    }
+  }
+
+  async markEmailDigest(
+    periodStart: string,
+    status: "sent" | "failed",
+    details: { recipientCount?: number; error?: string } = {}
+  ): Promise<boolean> {
+    try {
+      const result = await this.executeQuery(
+        `UPDATE email_digests
+         SET status = $2,
+             recipient_count = $3,
+             last_error = $4,
+             sent_at = CASE WHEN $2 = 'sent' THEN CURRENT_TIMESTAMP ELSE NULL END
+         WHERE period_start = $1`,
+        [periodStart, status, details.recipientCount ?? 0, details.error ?? null],
+        "markEmailDigest"
+      );
+      return result.rowCount > 0;
     } catch (error) {
-      console.error("Database read error:", error);
-      return undefined;
+      console.error("Error updating email digest:", error);
+      return false;
     }
   }
 
@@ -1411,29 +4555,46 @@ class DatabaseManager {
   async getAllPhotos(): Promise<Photo[]> {
     try {
       const result = await this.executeQuery<Photo>(
-        "SELECT * FROM photos ORDER BY upload_date DESC",
+        "SELECT * FROM photos ORDER BY COALESCE(taken_at, upload_date) DESC, id DESC",
         [],
         "getAllPhotos"
       );
-      return result.rows;
+      return result.rows.map((row) => this.parsePhotoFromDB(row));
     } catch (error) {
       console.error("Database read error:", error);
       return [];
     }
   }
 
-  async addPhoto(photo: Omit<Photo, "id" | "created_at">): Promise<number | null> {
+  async addPhoto(
+    photo: Omit<Photo, "id" | "created_at" | "tags" | "people"> & Partial<Pick<Photo, "tags" | "people">>
+  ): Promise<number | null> {
     try {
       const result = await this.executeQuery<{ id: number }>(
-        `INSERT INTO photos (cloudinary_id, public_url, title, description, upload_date)
-         VALUES ($1, $2, $3, $4, $5)
+        `INSERT INTO photos (
+           cloudinary_id, storage_provider, public_url, title, description, upload_date,
+           taken_at, taken_at_offset, width, height, orientation,
+           camera_make, camera_model, latitude, longitude, tags, people
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
          RETURNING id`,
         [
           photo.cloudinary_id,
+          photo.storage_provider,
           photo.public_url,
           photo.title,
           photo.description,
-          photo.upload_date
+          photo.upload_date,
+          photo.taken_at || null,
+          photo.taken_at_offset || null,
+          photo.width ?? null,
+          photo.height ?? null,
+          photo.orientation ?? null,
+          photo.camera_make || null,
+          photo.camera_model || null,
+          photo.latitude ?? null,
+          photo.longitude ?? null,
+          photo.tags ?? [],
+          photo.people ?? []
         ],
         "addPhoto"
       );
@@ -1447,7 +4608,7 @@ class DatabaseManager {
 
   async updatePhoto(
     id: number,
-    data: { title?: string; description?: string }
+    data: { title?: string; description?: string } & PhotoLabelInput
   ): Promise<boolean> {
     try {
       const setClause = [];
@@ -1466,6 +4627,18 @@ class DatabaseManager {
         paramCount++;
       }
 
+      if (data.tags !== undefined) {
+        setClause.push(`tags = $${paramCount}`);
+        values.push(data.tags);
+        paramCount++;
+      }
+
+      if (data.people !== undefined) {
+        setClause.push(`people = $${paramCount}`);
+        values.push(data.people);
+        paramCount++;
+      }
+
       if (setClause.length === 0) return false;
 
       values.push(id);
@@ -1493,7 +4666,7 @@ class DatabaseManager {
       );
       
       if (photoResult.rows.length === 0) return null;
-      const photo = photoResult.rows[0];
+      const photo = this.parsePhotoFromDB(photoResult.rows[0]);
 
       // Delete photo
       const deleteResult = await this.executeQuery(
@@ -1509,6 +4682,542 @@ class DatabaseManager {
     }
   }
 
+  /**
+   * Gallery Search with Facets (Async)
+   * Photos matching every filter - newest taken first, or in album order when
+   * searching within an album - with tag, people, year and album counts over
+   * the same matches. Search text is matched as word prefixes against the
+   * photos' search_vector.
+   */
+  async searchPhotos(filters: PhotoSearchFilters): Promise<{ photos: Photo[]; facets: PhotoFacets }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    const addParam = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    const tsQuery = filters.q ? toPrefixTsQuery(filters.q) : null;
+    if (tsQuery) {
+      conditions.push(`p.search_vector @@ to_tsquery('simple', ${addParam(tsQuery)})`);
+    }
+    if (filters.tags?.length) {
+      conditions.push(`p.tags @> ${addParam(filters.tags)}::text[]`);
+    }
+    if (filters.people?.length) {
+      conditions.push(`p.people @> ${addParam(filters.people)}::text[]`);
+    }
+    if (filters.year) {
+      conditions.push(`EXTRACT(YEAR FROM COALESCE(p.taken_at, p.upload_date)) = ${addParam(filters.year)}`);
+    }
+
+    let from = "photos p";
+    let order = "COALESCE(p.taken_at, p.upload_date) DESC, p.id DESC";
+    if (filters.album_id) {
+      from = `photos p JOIN photo_album_items i ON i.photo_id = p.id AND i.album_id = ${addParam(filters.album_id)}`;
+      order = "i.position, i.added_at, p.id";
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    try {
+      const [photoResult, facetResult] = await Promise.all([
+        this.executeQuery<any>(
+          `SELECT p.* FROM ${from} ${where} ORDER BY ${order}`,
+          params,
+          "searchPhotos"
+        ),
+        this.executeQuery<PhotoFacets>(
+          `WITH matches AS (
+             SELECT p.id, p.tags, p.people, COALESCE(p.taken_at, p.upload_date) AS shown_date
+             FROM ${from} ${where}
+           )
+           SELECT
+             (SELECT COALESCE(json_agg(t), '[]') FROM (
+                SELECT tag AS value, COUNT(*)::int AS count
+                FROM matches, unnest(matches.tags) AS tag
+                GROUP BY tag ORDER BY count DESC, tag LIMIT ${PHOTO_FACET_LIMIT}
+              ) t) AS tags,
+             (SELECT COALESCE(json_agg(t), '[]') FROM (
+                SELECT person AS value, COUNT(*)::int AS count
+                FROM matches, unnest(matches.people) AS person
+                GROUP BY person ORDER BY count DESC, person LIMIT ${PHOTO_FACET_LIMIT}
+              ) t) AS people,
+             (SELECT COALESCE(json_agg(t), '[]') FROM (
+                SELECT EXTRACT(YEAR FROM shown_date)::int AS value, COUNT(*)::int AS count
+                FROM matches GROUP BY 1 ORDER BY 1 DESC
+              ) t) AS years,
+             (SELECT COALESCE(json_agg(t), '[]') FROM (
+                SELECT a.id, a.title, COUNT(*)::int AS count
+                FROM matches
+                JOIN photo_album_items ai ON ai.photo_id = matches.id
+                JOIN photo_albums a ON a.id = ai.album_id
+                GROUP BY a.id, a.title ORDER BY count DESC, a.title
+              ) t) AS albums`,
+          params,
+          "searchPhotoFacets"
+        ),
+      ]);
+
+      return {
+        photos: photoResult.rows.map((row) => this.parsePhotoFromDB(row)),
+        facets: facetResult.rows[0],
+      };
+    } catch (error) {
+      console.error("Error searching photos:", error);
+      return { photos: [], facets: { tags: [], people: [], years: [], albums: [] } };
+    }
+  }
+
+  /**
+   * Tags or people in use, most used first (Async)
+   * Optionally only those starting with `prefix`, for autocomplete
+   */
+  async getPhotoLabels(kind: PhotoLabelKind, prefix: string = "", limit: number = 10): Promise<FacetCount[]> {
+    const column = kind === "tag" ? "tags" : "people";
+    try {
+      const result = await this.executeQuery<FacetCount>(
+        `SELECT label AS value, COUNT(*)::int AS count
+         FROM photos, unnest(${column}) AS label
+         WHERE $1 = '' OR LOWER(label) LIKE LOWER($1) || '%'
+         GROUP BY label
+         ORDER BY count DESC, label
+         LIMIT $2`,
+        [prefix.replace(/[\\%_]/g, "\\$&"), limit],
+        "getPhotoLabels"
+      );
+      return result.rows;
+    } catch (error) {
+      console.error("Error fetching photo labels:", error);
+      return [];
+    }
+  }
+
+  // ========================================
+  // PHOTO ALBUM METHODS (Albums, membership and manual order)
+  // ========================================
+
+  async getAlbums(): Promise<PhotoAlbum[]> {
+    try {
+      return await this.queryAlbums("", [], "getAlbums");
+    } catch (error) {
+      console.error("Error fetching albums:", error);
+      return [];
+    }
+  }
+
+  async getAlbum(id: number): Promise<PhotoAlbum | null> {
+    try {
+      const albums = await this.queryAlbums("WHERE a.id = $1", [id], "getAlbum");
+      return albums[0] || null;
+    } catch (error) {
+      console.error("Error fetching album:", error);
+      return null;
+    }
+  }
+
+  async getFeaturedAlbum(): Promise<PhotoAlbum | null> {
+    try {
+      const albums = await this.queryAlbums("WHERE a.is_featured", [], "getFeaturedAlbum");
+      return albums[0] || null;
+    } catch (error) {
+      console.error("Error fetching featured album:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Photos of an album in their manual order (Async)
+   */
+  async getAlbumPhotos(albumId: number, limit?: number): Promise<Photo[]> {
+    try {
+      const result = await this.executeQuery<Photo>(
+        `SELECT p.*
+         FROM photo_album_items i
+         JOIN photos p ON p.id = i.photo_id
+         WHERE i.album_id = $1
+         ORDER BY i.position, i.added_at, p.id
+         LIMIT $2`,
+        [albumId, limit ?? null],
+        "getAlbumPhotos"
+      );
+      return result.rows.map((row) => this.parsePhotoFromDB(row));
+    } catch (error) {
+      console.error("Error fetching album photos:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Create an album, optionally with its first photos (Async)
+   * Featuring it takes the home page spot from any other album
+   */
+  async createAlbum(
+    input: PhotoAlbumInput & { title: string },
+    photoIds: number[] = [],
+    userId?: string
+  ): Promise<number | null> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      if (input.is_featured) {
+        await client.query("UPDATE photo_albums SET is_featured = FALSE, updated_at = NOW() WHERE is_featured");
+      }
+
+      const result = await client.query<{ id: number }>(
+        `INSERT INTO photo_albums (title, description, is_featured, created_by)
+         VALUES ($1, $2, $3, $4)
+         RETURNING id`,
+        [input.title, input.description || null, !!input.is_featured, userId ? parseInt(userId, 10) : null]
+      );
+      const albumId = result.rows[0].id;
+
+      await this.appendAlbumPhotos(client, albumId, photoIds);
+
+      // The cover has to be one of the album's photos
+      if (input.cover_photo_id) {
+        await client.query(
+          `UPDATE photo_albums SET cover_photo_id = $2
+           WHERE id = $1
+             AND EXISTS (SELECT 1 FROM photo_album_items WHERE album_id = $1 AND photo_id = $2)`,
+          [albumId, input.cover_photo_id]
+        );
+      }
+
+      await client.query('COMMIT');
+      return albumId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error("Error creating album:", error);
+      return null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateAlbum(id: number, changes: PhotoAlbumInput): Promise<AlbumChangeResult> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query("SELECT id FROM photo_albums WHERE id = $1 FOR UPDATE", [id]);
+      if (existing.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return "not_found";
+      }
+
+      if (changes.cover_photo_id) {
+        const member = await client.query(
+          "SELECT 1 FROM photo_album_items WHERE album_id = $1 AND photo_id = $2",
+          [id, changes.cover_photo_id]
+        );
+        if (member.rows.length === 0) {
+          await client.query('ROLLBACK');
+          return "invalid_cover";
+        }
+      }
+
+      if (changes.is_featured) {
+        await client.query(
+          "UPDATE photo_albums SET is_featured = FALSE, updated_at = NOW() WHERE is_featured AND id <> $1",
+          [id]
+        );
+      }
+
+      const setClause: string[] = [];
+      const values: any[] = [];
+      const fields: (keyof PhotoAlbumInput)[] = ["title", "description", "cover_photo_id", "is_featured"];
+      for (const field of fields) {
+        if (changes[field] !== undefined) {
+          values.push(changes[field]);
+          setClause.push(`${field} = $${values.length}`);
+        }
+      }
+
+      values.push(id);
+      await client.query(
+        `UPDATE photo_albums
+         SET ${[...setClause, "updated_at = NOW()"].join(", ")}
+         WHERE id = $${values.length}`,
+        values
+      );
+
+      await client.query('COMMIT');
+      return "updated";
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error("Error updating album:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Delete an album - its photos stay in the gallery
+   */
+  async deleteAlbum(id: number): Promise<boolean> {
+    try {
+      const result = await this.executeQuery(
+        "DELETE FROM photo_albums WHERE id = $1",
+        [id],
+        "deleteAlbum"
+      );
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error("Error deleting album:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Add photos to the end of an album, in the given order (Async)
+   * Photos already in the album keep their place
+   */
+  async addPhotosToAlbum(albumId: number, photoIds: number[]): Promise<AlbumChangeResult> {
+    return this.changeAlbumPhotos(albumId, async (client) => {
+      const found = await client.query(
+        "SELECT COUNT(*)::int AS count FROM photos WHERE id = ANY($1::int[])",
+        [photoIds]
+      );
+      if (found.rows[0].count !== new Set(photoIds).size) return "invalid_photos";
+
+      await this.appendAlbumPhotos(client, albumId, photoIds);
+      return "updated";
+    });
+  }
+
+  /**
+   * Take photos out of an album (Async)
+   * A removed cover falls back to the first remaining photo
+   */
+  async removePhotosFromAlbum(albumId: number, photoIds: number[]): Promise<AlbumChangeResult> {
+    return this.changeAlbumPhotos(albumId, async (client) => {
+      await client.query(
+        "DELETE FROM photo_album_items WHERE album_id = $1 AND photo_id = ANY($2::int[])",
+        [albumId, photoIds]
+      );
+      await client.query(
+        "UPDATE photo_albums SET cover_photo_id = NULL WHERE id = $1 AND cover_photo_id = ANY($2::int[])",
+        [albumId, photoIds]
+      );
+      return "updated";
+    });
+  }
+
+  /**
+   * Put an album's photos in a new order (Async)
+   * photoIds must list every photo in the album exactly once
+   */
+  async reorderAlbumPhotos(albumId: number, photoIds: number[]): Promise<AlbumChangeResult> {
+    return this.changeAlbumPhotos(albumId, async (client) => {
+      const members = await client.query<{ photo_id: number }>(
+        "SELECT photo_id FROM photo_album_items WHERE album_id = $1",
+        [albumId]
+      );
+      const memberIds = new Set(members.rows.map(row => row.photo_id));
+      if (
+        photoIds.length !== memberIds.size ||
+        new Set(photoIds).size !== photoIds.length ||
+        !photoIds.every(photoId => memberIds.has(photoId))
+      ) {
+        return "invalid_photos";
+      }
+
+      await client.query(
+        `UPDATE photo_album_items i
+         SET position = ordered.position
+         FROM unnest($2::int[]) WITH ORDINALITY AS ordered(photo_id, position)
+         WHERE i.album_id = $1 AND i.photo_id = ordered.photo_id`,
+        [albumId, photoIds]
+      );
+      return "updated";
+    });
+  }
+
+  /**
+   * Run a membership change with the album row locked, then touch the album
+   * so the change trigger tells open galleries
+   */
+  private async changeAlbumPhotos(
+    albumId: number,
+    change: (client: PoolClient) => Promise<AlbumChangeResult>
+  ): Promise<AlbumChangeResult> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query("SELECT id FROM photo_albums WHERE id = $1 FOR UPDATE", [albumId]);
+      if (existing.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return "not_found";
+      }
+
+      const result = await change(client);
+      if (result !== "updated") {
+        await client.query('ROLLBACK');
+        return result;
+      }
+
+      await client.query("UPDATE photo_albums SET updated_at = NOW() WHERE id = $1", [albumId]);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error("Error changing album photos:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async appendAlbumPhotos(client: PoolClient, albumId: number, photoIds: number[]): Promise<void> {
+    if (photoIds.length === 0) return;
+
+    await client.query(
+      `INSERT INTO photo_album_items (album_id, photo_id, position)
+       SELECT $1, p.id,
+              (SELECT COALESCE(MAX(position), 0) FROM photo_album_items WHERE album_id = $1) + ordered.position
+       FROM unnest($2::int[]) WITH ORDINALITY AS ordered(photo_id, position)
+       JOIN photos p ON p.id = ordered.photo_id
+       ON CONFLICT (album_id, photo_id) DO NOTHING`,
+      [albumId, photoIds]
+    );
+  }
+
+  // Albums with their photo count and cover (the chosen one, else the first photo)
+  private async queryAlbums(where: string, params: any[], queryType: string): Promise<PhotoAlbum[]> {
+    const result = await this.executeQuery(
+      `SELECT a.*, stats.photo_count,
+              CASE WHEN cover.id IS NULL THEN NULL ELSE json_build_object(
+                'id', cover.id,
+                'cloudinary_id', cover.cloudinary_id,
+                'storage_provider', cover.storage_provider,
+                'public_url', cover.public_url
+              ) END AS cover
+       FROM photo_albums a
+       CROSS JOIN LATERAL (
+         SELECT COUNT(*)::int AS photo_count FROM photo_album_items WHERE album_id = a.id
+       ) stats
+       LEFT JOIN LATERAL (
+         SELECT p.id, p.cloudinary_id, p.storage_provider, p.public_url
+         FROM photo_album_items i
+         JOIN photos p ON p.id = i.photo_id
+         WHERE i.album_id = a.id
+         ORDER BY (p.id = a.cover_photo_id) DESC, i.position, i.added_at, p.id
+         LIMIT 1
+       ) cover ON TRUE
+       ${where}
+       ORDER BY a.is_featured DESC, a.updated_at DESC, a.id DESC`,
+      params,
+      queryType
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      title: row.title,
+      description: row.description || undefined,
+      cover_photo_id: row.cover_photo_id || undefined,
+      is_featured: row.is_featured,
+      photo_count: row.photo_count,
+      cover: row.cover || undefined,
+      created_by: row.created_by || undefined,
+      created_at: new Date(row.created_at).toISOString(),
+      updated_at: new Date(row.updated_at).toISOString(),
+    }));
+  }
+
+  // ========================================
+  // CHANGE NOTIFICATIONS (LISTEN/NOTIFY fan-out across instances)
+  // ========================================
+
+  /**
+   * Subscribe to Row Changes
+   * Delivers every change published by the database triggers, whichever
+   * instance made it. Returns the unsubscribe function.
+   */
+  subscribeToChanges(listener: DataChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private async startChangeListener(): Promise<void> {
+    if (this.changeClient) return;
+
+    const client = await this.pool.connect();
+    this.changeClient = client;
+
+    client.on("notification", (message) => {
+      if (message.channel !== this.CHANGE_CHANNEL || !message.payload) return;
+
+      try {
+        this.handleDataChange(JSON.parse(message.payload) as DataChange);
+      } catch (error) {
+        console.error("Invalid change notification:", error);
+      }
+    });
+
+    client.on("error", (error) => {
+      console.error("Change listener connection lost:", error);
+      if (this.changeClient !== client) return;
+
+      this.changeClient = null;
+      client.release(error);
+      this.scheduleChangeListenerReconnect();
+    });
+
+    await client.query(`LISTEN ${this.CHANGE_CHANNEL}`);
+    console.log("📡 Listening for data changes");
+  }
+
+  private scheduleChangeListenerReconnect(): void {
+    if (this.changeReconnectTimer || !this.initialized) return;
+
+    this.changeReconnectTimer = setTimeout(() => {
+      this.changeReconnectTimer = null;
+      this.startChangeListener()
+        .then(() => {
+          // Anything that happened while disconnected went unnoticed
+          this.invalidateCache();
+          this.emitDataChange(null);
+        })
+        .catch((error) => {
+          console.error("Change listener reconnect failed:", error);
+          this.changeClient = null;
+          this.scheduleChangeListenerReconnect();
+        });
+    }, this.CHANGE_RECONNECT_DELAY_MS);
+  }
+
+  private handleDataChange(change: DataChange): void {
+    // Cached reads on this instance may predate the change
+    if (change.entity === "event") {
+      this.invalidateCache("event");
+    } else if (change.entity === "couple_info") {
+      this.invalidateCache("couple");
+      this.invalidateCache("milestone");
+    } else if (change.entity === "photo") {
+      this.invalidateCache("photos");
+    }
+
+    this.emitDataChange(change);
+  }
+
+  private emitDataChange(change: DataChange | null): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error("Change listener failed:", error);
+      }
+    }
+  }
+
   // ========================================
   // UTILITY AND MAINTENANCE METHODS
   // ========================================
@@ -1521,12 +5230,26 @@ class DatabaseManager {
     return {
       ...dbEvent,
       recurring_config: dbEvent.recurring_config || undefined,
+      reminders: dbEvent.reminders || [],
       is_recurring: Boolean(dbEvent.is_recurring),
       is_all_day: Boolean(dbEvent.is_all_day),
       version: dbEvent.version || 1,
     };
   }
 
+  /**
+   * Parse Database Photo to Application Format
+   * The search vector only matters to queries, so it is not passed along
+   */
+  private parsePhotoFromDB(dbPhoto: any): Photo {
+    const { search_vector, ...photo } = dbPhoto;
+    return {
+      ...photo,
+      tags: photo.tags || [],
+      people: photo.people || [],
+    };
+  }
+
   /**
    * Get Performance Metrics for Monitoring
    */
@@ -1567,6 +5290,35 @@ class DatabaseManager {
         "maintenance_cleanup"
       );
 
+      // Empty the trash past its retention period
+      const purgedEvents = await this.purgeDeletedEvents();
+      if (purgedEvents > 0) {
+        console.log(`🗑️ Purged ${purgedEvents} event(s) deleted over ${this.TRASH_RETENTION_DAYS} days ago`);
+      }
+
+      const prunedSubscriptions = await this.pruneExpiredPushSubscriptions();
+      if (prunedSubscriptions > 0) {
+        console.log(`🔕 Removed ${prunedSubscriptions} expired push subscription(s)`);
+      }
+
+      const prunedDeliveries = await this.pruneWebhookDeliveries();
+      if (prunedDeliveries > 0) {
+        console.log(`🪝 Removed ${prunedDeliveries} old webhook delivery log entries`);
+      }
+
+      const prunedNotifications = await this.pruneNotifications();
+      if (prunedNotifications > 0) {
+        console.log(`🔔 Removed ${prunedNotifications} old notification(s)`);
+      }
+
+      // reminder_times reminders are only claimed ahead of their occurrence
+      await this.executeQuery(
+        `DELETE FROM preference_reminders
+         WHERE occurrence_date < CURRENT_TIMESTAMP - INTERVAL '30 days'`,
+        [],
+        "maintenance_cleanup"
+      );
+
       // Clear expired cache entries
       this.invalidateCache();
 
@@ -1665,6 +5417,10 @@ class DatabaseManager {
         is_all_day: false,
         location: "Romantic Restaurant",
         reminder_minutes: 1440,
+        reminders: [
+          { minutes_before: 10080, delivery_method: "browser", reminder_type: "gentle" },
+          { minutes_before: 1440, delivery_method: "browser", reminder_type: "standard" },
+        ],
       },
       {
         title: "An's Birthday",
@@ -1677,6 +5433,7 @@ class DatabaseManager {
         timezone: "Asia/Ho_Chi_Minh",
         is_all_day: true,
         reminder_minutes: 1440,
+        reminders: [{ minutes_before: 1440, delivery_method: "browser", reminder_type: "standard" }],
       }
     ];
 
@@ -1685,8 +5442,8 @@ class DatabaseManager {
         `INSERT INTO events (
           title, description, date, timezone, is_all_day, location,
           category, priority, is_recurring, recurring_config,
-          reminder_minutes, created_by, updated_by
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+          reminder_minutes, reminders, created_by, updated_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
         [
           eventData.title,
           eventData.description,
@@ -1699,6 +5456,7 @@ class DatabaseManager {
           eventData.is_recurring,
           JSON.stringify(eventData.recurring_config),
           eventData.reminder_minutes,
+          JSON.stringify(eventData.reminders),
           "1", // created_by
           "1"  // updated_by
         ]
@@ -1715,6 +5473,17 @@ class DatabaseManager {
         // Clear all caches
         this.invalidateCache();
 
+        // Stop following changes before the pool goes away
+        if (this.changeReconnectTimer) {
+          clearTimeout(this.changeReconnectTimer);
+          this.changeReconnectTimer = null;
+        }
+        if (this.changeClient) {
+          this.changeClient.release();
+          this.changeClient = null;
+        }
+        this.changeListeners.clear();
+
         // Close connection pool
         await this.pool.end();
         console.log("🔒 PostgreSQL connection pool closed");
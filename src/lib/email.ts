@@ -0,0 +1,344 @@
+// lib/email.ts - Outgoing email through a pluggable transport (SMTP or console)
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { randomBytes } from 'crypto';
+
+/**
+ * Configuration comes from the environment:
+ *   SMTP_HOST / SMTP_PORT - server to relay through (e.g. localhost:1025 for Mailpit in dev)
+ *   SMTP_SECURE - "true" for implicit TLS (port 465); otherwise STARTTLS is used when offered
+ *   SMTP_USER / SMTP_PASS - AUTH PLAIN credentials, omitted for catchers that need none
+ *   SMTP_TLS_REJECT_UNAUTHORIZED - "false" to accept self-signed certificates
+ *   SMTP_ALLOW_PLAINTEXT_AUTH - "true" to send credentials without TLS (local catchers only)
+ *   EMAIL_FROM - sender, "Name <address>" or a bare address
+ *
+ * Without SMTP_HOST, messages are written to the console instead.
+ */
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'Our Love Story <love-story@localhost>';
+const SMTP_TIMEOUT_MS = 30 * 1000;
+const MAX_ENCODED_WORD_BYTES = 45; // Keeps each =?UTF-8?B?...?= word under 75 characters
+
+export function isEmailConfigured(): boolean {
+  return Boolean(process.env.SMTP_HOST);
+}
+
+/**
+ * Address part of "Name <address>" (or the value itself when there is no name)
+ */
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+/**
+ * RFC 2047 encoded words for non-ASCII header text
+ */
+function encodeHeaderText(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of Array.from(value)) {
+    if (Buffer.byteLength(chunk + char) > MAX_ENCODED_WORD_BYTES) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+
+  return words.map(word => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`).join('\r\n ');
+}
+
+function formatAddressHeader(value: string): string {
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) return extractAddress(value);
+  return `${encodeHeaderText(match[1])} <${match[2].trim()}>`;
+}
+
+function base64Lines(value: string): string {
+  return Buffer.from(value).toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+/**
+ * Build a multipart/alternative message - plain text first so clients that
+ * cannot render HTML show the text part
+ */
+export function buildMimeMessage(message: EmailMessage, from: string): string {
+  const boundary = `love-story-${randomBytes(12).toString('hex')}`;
+  const domain = extractAddress(from).split('@')[1] || 'localhost';
+
+  return [
+    `From: ${formatAddressHeader(from)}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeaderText(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(16).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One SMTP session - replies are read in order, one per command
+ */
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('data', (data: string) => this.onData(data));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed unexpectedly')));
+  }
+
+  private onData(data: string): void {
+    this.buffer += data;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.replyLines.push(line.slice(4));
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        this.pushReply({ code: parseInt(line.slice(0, 3), 10), lines: this.replyLines });
+        this.replyLines = [];
+      }
+    }
+  }
+
+  private pushReply(reply: SmtpReply): void {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /**
+   * Send a command and require one of the expected reply codes
+   */
+  async command(line: string, expected: number[], label = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  async expect(expected: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Upgrade the plain connection after STARTTLS
+   */
+  async upgradeToTls(host: string, rejectUnauthorized: boolean): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+
+    this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const secure: tls.TLSSocket = tls.connect({ socket: plain, servername: host, rejectUnauthorized }, () => resolve(secure));
+      secure.once('error', reject);
+    });
+    this.attach(this.socket);
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  close(): void {
+    this.failure = this.failure || new Error('SMTP session closed');
+    this.socket.end();
+  }
+}
+
+/**
+ * SMTP Transport
+ * Minimal RFC 5321 client: EHLO, optional STARTTLS, AUTH PLAIN, one message per connection
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private readonly host: string;
+  private readonly port: number;
+  private readonly secure: boolean;
+  private readonly user?: string;
+  private readonly password?: string;
+  private readonly from: string;
+  private readonly rejectUnauthorized: boolean;
+  private readonly allowPlaintextAuth: boolean;
+
+  constructor() {
+    this.host = process.env.SMTP_HOST || 'localhost';
+    this.secure = process.env.SMTP_SECURE === 'true';
+    this.port = parseInt(process.env.SMTP_PORT || (this.secure ? '465' : '587'), 10);
+    this.user = process.env.SMTP_USER || undefined;
+    this.password = process.env.SMTP_PASS || undefined;
+    this.from = process.env.EMAIL_FROM || DEFAULT_FROM;
+    this.rejectUnauthorized = process.env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false';
+    this.allowPlaintextAuth = process.env.SMTP_ALLOW_PLAINTEXT_AUTH === 'true';
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    if (message.to.length === 0) {
+      throw new Error('Email has no recipients');
+    }
+
+    const session = new SmtpSession(await this.connect());
+
+    try {
+      await session.expect([220], 'greeting');
+      let capabilities = await session.command(`EHLO ${os.hostname()}`, [250]);
+
+      const offersStartTls = capabilities.lines.some(line => /^STARTTLS\b/i.test(line));
+      if (!this.secure && offersStartTls) {
+        await session.command('STARTTLS', [220]);
+        await session.upgradeToTls(this.host, this.rejectUnauthorized);
+        capabilities = await session.command(`EHLO ${os.hostname()}`, [250]);
+      }
+
+      if (this.user) {
+        // AUTH PLAIN is only base64 - never send it over an unencrypted connection
+        if (!this.secure && !offersStartTls && !this.allowPlaintextAuth) {
+          throw new Error(
+            `SMTP server ${this.host} does not offer STARTTLS - refusing to send credentials in plaintext ` +
+            '(set SMTP_SECURE=true, or SMTP_ALLOW_PLAINTEXT_AUTH=true for a local catcher)'
+          );
+        }
+
+        const credentials = Buffer.from(`\0${this.user}\0${this.password || ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+      }
+
+      await session.command(`MAIL FROM:<${extractAddress(this.from)}>`, [250], 'MAIL FROM');
+      for (const recipient of message.to) {
+        await session.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251], 'RCPT TO');
+      }
+
+      await session.command('DATA', [354]);
+      // Dot-stuffing: a line starting with "." would otherwise end the message early
+      const body = buildMimeMessage(message, this.from).replace(/^\./gm, '..');
+      session.write(`${body}\r\n.\r\n`);
+      await session.expect([250], 'message');
+
+      await session.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+
+  private connect(): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const socket = this.secure
+        ? tls.connect({ host: this.host, port: this.port, servername: this.host, rejectUnauthorized: this.rejectUnauthorized })
+        : net.connect({ host: this.host, port: this.port });
+
+      socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+      socket.once(this.secure ? 'secureConnect' : 'connect', () => {
+        socket.removeListener('error', reject);
+        resolve(socket);
+      });
+      socket.once('error', reject);
+    });
+  }
+}
+
+/**
+ * Console Transport
+ * Development fallback when no SMTP server is configured
+ */
+export class ConsoleEmailTransport implements EmailTransport {
+  readonly name = 'console';
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`✉️  [email to ${message.to.join(', ')}] ${message.subject}\n${message.text}`);
+  }
+}
+
+let sharedTransport: EmailTransport | null = null;
+
+/**
+ * Get Shared Transport - SMTP when SMTP_HOST is set, console otherwise
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!sharedTransport) {
+    sharedTransport = isEmailConfigured() ? new SmtpEmailTransport() : new ConsoleEmailTransport();
+  }
+  return sharedTransport;
+}
+
+/**
+ * Replace the shared transport (e.g. a provider API instead of SMTP)
+ */
+export function setEmailTransport(transport: EmailTransport): void {
+  sharedTransport = transport;
+}
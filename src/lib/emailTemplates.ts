@@ -0,0 +1,161 @@
+// lib/emailTemplates.ts - HTML and plain-text bodies for reminder and digest emails
+import { format, parseISO } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import type { EnhancedEvent } from '../types/event';
+import type { WeeklyDigest, WeeklyDigestItem } from './weeklyDigest';
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Reminder content as rendered from EventReminderScheduler's templates
+export interface ReminderEmailContent {
+  title: string;
+  message: string;
+  url: string;
+  event: EnhancedEvent;
+  timezone: string;
+}
+
+const BRAND_COLOR = '#ec4899';
+
+/**
+ * Links in emails must be absolute - NEXTAUTH_URL is the public site address
+ */
+export function absoluteUrl(path: string): string {
+  const baseUrl = (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/$/, '');
+  return `${baseUrl}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatWhen(date: string, isAllDay: boolean | undefined, timezone: string): string {
+  return formatInTimeZone(
+    parseISO(date),
+    timezone,
+    isAllDay ? 'EEEE, MMMM d' : 'EEEE, MMMM d \'at\' h:mm a'
+  );
+}
+
+/**
+ * Shared layout - inline styles only, most mail clients drop <style> blocks
+ */
+function renderLayout(heading: string, content: string, action: { label: string; url: string }): string {
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#fdf2f8;font-family:Helvetica,Arial,sans-serif;color:#374151;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;">
+    <tr><td style="padding:24px 24px 8px;">
+      <h1 style="margin:0;font-size:20px;color:${BRAND_COLOR};">${escapeHtml(heading)}</h1>
+    </td></tr>
+    <tr><td style="padding:8px 24px;font-size:15px;line-height:1.5;">${content}</td></tr>
+    <tr><td style="padding:16px 24px 24px;">
+      <a href="${escapeHtml(action.url)}" style="display:inline-block;padding:10px 18px;background:${BRAND_COLOR};color:#ffffff;border-radius:8px;text-decoration:none;font-weight:bold;">${escapeHtml(action.label)}</a>
+    </td></tr>
+  </table>
+  <p style="text-align:center;font-size:12px;color:#9ca3af;">Sent by Our Love Story 💕</p>
+</body>
+</html>`;
+}
+
+/**
+ * Reminder Email
+ * Subject and lead sentence come from the notification templates; the event
+ * details follow
+ */
+export function renderReminderEmail(content: ReminderEmailContent): RenderedEmail {
+  const { event } = content;
+  const url = absoluteUrl(content.url);
+  const when = formatWhen(event.date, event.is_all_day, content.timezone);
+
+  const details: Array<[string, string]> = [['When', when]];
+  if (event.location) details.push(['Where', event.location]);
+  if (event.description) details.push(['Notes', event.description]);
+
+  const text = [
+    content.message,
+    '',
+    ...details.map(([label, value]) => `${label}: ${value}`),
+    '',
+    `Open the event: ${url}`
+  ].join('\n');
+
+  const html = renderLayout(
+    content.title,
+    `<p style="margin:0 0 12px;">${escapeHtml(content.message)}</p>
+      <table role="presentation" cellpadding="0" cellspacing="0">
+        ${details.map(([label, value]) => `<tr>
+          <td style="padding:2px 12px 2px 0;color:#6b7280;vertical-align:top;">${label}</td>
+          <td style="padding:2px 0;white-space:pre-line;">${escapeHtml(value)}</td>
+        </tr>`).join('')}
+      </table>`,
+    { label: 'Open event', url }
+  );
+
+  return { subject: content.title, text, html };
+}
+
+function describeItem(item: WeeklyDigestItem, timezone: string): string {
+  return item.location
+    ? `${formatWhen(item.date, item.is_all_day, timezone)} · ${item.location}`
+    : formatWhen(item.date, item.is_all_day, timezone);
+}
+
+const DIGEST_SECTIONS: Array<{ key: 'events' | 'birthdays' | 'milestones'; heading: string; empty: string }> = [
+  { key: 'events', heading: '📅 This week', empty: 'Nothing planned yet - maybe time for a date? 💞' },
+  { key: 'birthdays', heading: '🎂 Birthdays', empty: '' },
+  { key: 'milestones', heading: '💖 Milestones', empty: '' }
+];
+
+/**
+ * Weekly Digest Email
+ * Birthday and milestone sections are left out when there is nothing in them
+ */
+export function renderDigestEmail(digest: WeeklyDigest): RenderedEmail {
+  const heading = digest.couple_names
+    ? `What's coming up for ${digest.couple_names}`
+    : "What's coming up for us";
+  const weekLabel = format(parseISO(digest.period_start), 'MMMM d'); // Calendar date, no time zone
+  const subject = `💌 ${heading} - week of ${weekLabel}`;
+  const url = absoluteUrl('/events');
+
+  const sections = DIGEST_SECTIONS
+    .map(section => ({ ...section, items: digest[section.key] }))
+    .filter(section => section.items.length > 0 || section.empty);
+
+  const text = [
+    `${heading} (week of ${weekLabel})`,
+    ...sections.flatMap(section => [
+      '',
+      section.heading,
+      ...(section.items.length > 0
+        ? section.items.map(item => `- ${item.title} - ${describeItem(item, digest.timezone)}`)
+        : [section.empty])
+    ]),
+    '',
+    `See everything: ${url}`
+  ].join('\n');
+
+  const html = renderLayout(
+    heading,
+    sections.map(section => `<h2 style="margin:16px 0 8px;font-size:16px;">${escapeHtml(section.heading)}</h2>
+      ${section.items.length > 0
+        ? `<ul style="margin:0;padding-left:20px;">${section.items.map(item => `<li style="margin:0 0 6px;">
+            <a href="${escapeHtml(absoluteUrl(item.url))}" style="color:#111827;font-weight:bold;text-decoration:none;">${escapeHtml(item.title)}</a><br>
+            <span style="color:#6b7280;font-size:13px;">${escapeHtml(describeItem(item, digest.timezone))}</span>
+          </li>`).join('')}</ul>`
+        : `<p style="margin:0;color:#6b7280;">${escapeHtml(section.empty)}</p>`}`).join(''),
+    { label: 'Open our calendar', url }
+  );
+
+  return { subject, text, html };
+}
@@ -1,6 +1,6 @@
 // lib/eventNotifications.ts - Comprehensive event notification and reminder system
-import { parseISO, isBefore, addMinutes, format, formatDistanceToNow } from 'date-fns';
-import { formatInTimeZone } from 'date-fns-tz';
+import { parseISO, isBefore, addMinutes, addDays, format, formatDistanceToNow } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
 import type { EnhancedEvent } from '../types/event';
 
 /**
@@ -40,8 +40,9 @@ export interface NotificationPreferences {
   quiet_hours: {
     start: string; // "22:00"
     end: string;   // "08:00"
-  };
-  timezone: string;
+  } | null; // No quiet hours
+  timezone: string; // Quiet hours are wall-clock times in this zone
+  updated_at?: string; // Unset while the defaults are in effect
 }
 
 /**
@@ -171,6 +172,85 @@ export class BrowserNotificationManager {
   }
 }
 
+/**
+ * Push Notification Manager
+ * Subscribes this browser to server-sent Web Push reminders, which arrive
+ * even when no tab is open (the service worker in public/sw.js shows them)
+ */
+export class PushNotificationManager {
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' &&
+           'serviceWorker' in navigator &&
+           'PushManager' in window &&
+           'Notification' in window;
+  }
+
+  // The worker is registered by _app in production; push needs it in development too
+  private static async getRegistration(): Promise<ServiceWorkerRegistration> {
+    const existing = await navigator.serviceWorker.getRegistration();
+    if (existing) return existing;
+    await navigator.serviceWorker.register('/sw.js');
+    return navigator.serviceWorker.ready;
+  }
+
+  static async getSubscription(): Promise<PushSubscription | null> {
+    if (!this.isSupported()) return null;
+    const registration = await navigator.serviceWorker.getRegistration();
+    return registration ? registration.pushManager.getSubscription() : null;
+  }
+
+  /**
+   * Ask for permission, subscribe with the server's VAPID key and store the
+   * subscription server-side. Returns false when the user declined
+   */
+  static async subscribe(): Promise<boolean> {
+    if (!this.isSupported() || !await BrowserNotificationManager.requestPermission()) {
+      return false;
+    }
+
+    const keyResponse = await fetch('/api/push/subscription');
+    const { public_key: publicKey } = await keyResponse.json();
+    if (!keyResponse.ok || !publicKey) {
+      throw new Error('Push notifications are not available on this server');
+    }
+
+    const registration = await this.getRegistration();
+    const subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: this.decodeKey(publicKey)
+    });
+
+    const response = await fetch('/api/push/subscription', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(subscription.toJSON())
+    });
+    if (!response.ok) {
+      await subscription.unsubscribe();
+      throw new Error('Failed to register for push notifications');
+    }
+    return true;
+  }
+
+  static async unsubscribe(): Promise<void> {
+    const subscription = await this.getSubscription();
+    if (!subscription) return;
+
+    await fetch('/api/push/subscription', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ endpoint: subscription.endpoint })
+    });
+    await subscription.unsubscribe();
+  }
+
+  // base64url VAPID key -> bytes for applicationServerKey
+  private static decodeKey(key: string): Uint8Array {
+    const base64 = (key + '='.repeat((4 - key.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+    return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  }
+}
+
 /**
  * Event Reminder Scheduler
  * Manages comprehensive reminder scheduling and delivery
@@ -294,10 +374,11 @@ export class EventReminderScheduler {
       reminderTimes = [...new Set([...reminderTimes, 1440, 7 * 1440])]; // 1 day and 1 week
     }
 
-    // Event-specific reminder override
-    if (event.reminder_minutes) {
-      reminderTimes = [...new Set([...reminderTimes, event.reminder_minutes])];
-    }
+    // The event's own reminders
+    const eventReminderTimes = event.reminders?.length
+      ? event.reminders.map(reminder => reminder.minutes_before)
+      : event.reminder_minutes ? [event.reminder_minutes] : [];
+    reminderTimes = [...new Set([...reminderTimes, ...eventReminderTimes])];
 
     return reminderTimes.sort((a, b) => a - b);
   }
@@ -313,7 +394,8 @@ export class EventReminderScheduler {
     preferences: NotificationPreferences
   ): void {
     const reminderId = `${event.id}-${minutesBefore}`;
-    const delay = reminderTime.getTime() - Date.now();
+    // Reminders that fall in quiet hours wait until they end
+    const delay = NotificationPreferencesManager.getDeliveryTime(preferences, reminderTime).getTime() - Date.now();
 
     // Safety check for reasonable delay times
     if (delay < 0 || delay > 365 * 24 * 60 * 60 * 1000) { // Max 1 year
@@ -337,7 +419,7 @@ export class EventReminderScheduler {
     preferences: NotificationPreferences
   ): void {
     const notificationId = `${event.id}-dayof`;
-    const delay = notificationTime.getTime() - Date.now();
+    const delay = NotificationPreferencesManager.getDeliveryTime(preferences, notificationTime).getTime() - Date.now();
 
     if (delay < 0) return;
 
@@ -358,18 +440,13 @@ export class EventReminderScheduler {
     minutesBefore: number,
     preferences: NotificationPreferences
   ): Promise<void> {
-    const template = this.getTemplateForReminder(minutesBefore);
-    const eventTime = formatInTimeZone(
-      parseISO(event.date),
-      preferences.timezone,
-      event.is_all_day ? 'MMMM d, yyyy' : 'MMMM d, yyyy \'at\' h:mm a'
-    );
+    const { title, message } = this.buildReminderContent(event, minutesBefore, preferences.timezone);
 
     const notification: Omit<EventNotification, 'id' | 'created_at' | 'updated_at'> = {
       event_id: event.id,
       type: 'reminder',
-      title: this.interpolateTemplate(template.title_template, { event, eventTime }),
-      message: this.interpolateTemplate(template.message_template, { event, eventTime }),
+      title,
+      message,
       scheduled_time: new Date().toISOString(),
       delivery_method: 'browser',
       status: 'pending',
@@ -380,6 +457,28 @@ export class EventReminderScheduler {
     await this.deliverNotification(notification, preferences);
   }
 
+  /**
+   * Render reminder title and message from the shared templates
+   * Used by both in-browser scheduling and the server-side dispatcher
+   */
+  static buildReminderContent(
+    event: EnhancedEvent,
+    minutesBefore: number,
+    timezone: string
+  ): { title: string; message: string } {
+    const template = this.getTemplateForReminder(minutesBefore);
+    const eventTime = formatInTimeZone(
+      parseISO(event.date),
+      timezone,
+      event.is_all_day ? 'MMMM d, yyyy' : 'MMMM d, yyyy \'at\' h:mm a'
+    );
+
+    return {
+      title: this.interpolateTemplate(template.title_template, { event, eventTime }),
+      message: this.interpolateTemplate(template.message_template, { event, eventTime })
+    };
+  }
+
   /**
    * Deliver day-of notification for special events
    */
@@ -444,39 +543,43 @@ export class EventReminderScheduler {
       }
     }
 
-    // Fallback to in-app notification (toast)
+    // Fallback to the in-app notification center (shown as a toast)
     if (!delivered) {
       try {
-        // Queue for in-app display
-        this.queueInAppNotification(notification);
+        await this.queueInAppNotification(notification);
         delivered = true;
-        console.log('In-app notification queued:', notification.title);
       } catch (error) {
         console.error('In-app notification failed:', error);
       }
     }
 
-    // Future: Email and push notification fallbacks
-    // if (!delivered && preferences.email_enabled) {
-    //   await this.sendEmailNotification(notification, preferences);
-    // }
+    // Email and Web Push are delivered server-side from event_reminders by the
+    // reminder dispatcher (see EmailReminderChannel / PushReminderChannel)
   }
 
   /**
-   * Queue notification for in-app display
-   * Implements toast notification fallback
+   * Add the notification to the signed-in user's notification center
+   * The server stores it and the realtime stream brings it (and its toast)
+   * to every open tab of that user
    */
-  private static queueInAppNotification(
+  private static async queueInAppNotification(
     notification: Omit<EventNotification, 'id' | 'created_at' | 'updated_at'>
-  ): void {
-    // This would integrate with your toast notification system
-    // For now, we'll use console logging
-    console.log(`📅 ${notification.title}: ${notification.message}`);
-    
-    // In a real implementation, this would:
-    // 1. Add to a notification queue
-    // 2. Display as toast when user is active
-    // 3. Store in local storage for offline access
+  ): Promise<void> {
+    const response = await fetch('/api/notifications', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        url: `/events?highlight=${notification.event_id}`,
+        event_id: notification.event_id
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to add in-app notification (HTTP ${response.status})`);
+    }
   }
 
   /**
@@ -556,68 +659,202 @@ export class EventReminderScheduler {
 
 /**
  * Notification Preferences Manager
- * Handles user preferences with intelligent defaults
+ * Preferences are stored per user on the server (GET/PUT
+ * /api/notifications/preferences) so they follow both partners across
+ * devices and the reminder dispatcher can honour them. Validation and the
+ * quiet hours logic are shared by the browser and the dispatcher.
  */
 export class NotificationPreferencesManager {
-  private static readonly DEFAULT_PREFERENCES: Omit<NotificationPreferences, 'user_id'> = {
+  static readonly MAX_REMINDER_TIMES = 10;
+  static readonly MAX_REMINDER_MINUTES = 30 * 24 * 60; // 30 days
+
+  private static readonly DEFAULT_PREFERENCES: Omit<NotificationPreferences, 'user_id' | 'timezone'> = {
     browser_enabled: true,
-    email_enabled: false,
-    push_enabled: false,
+    email_enabled: true,
+    push_enabled: true,
     reminder_times: [15, 60, 1440], // 15 min, 1 hour, 1 day
     quiet_hours: {
       start: '22:00',
       end: '08:00'
-    },
-    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+    }
   };
 
+  private static readonly TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+  private static readonly LEGACY_STORAGE_PREFIX = 'notification_prefs_';
+
+  private static cache = new Map<string, NotificationPreferences>();
+
   /**
-   * Get user preferences with fallback to defaults
+   * Defaults for a user who has not saved preferences yet - every channel
+   * allowed, so reminders keep flowing exactly as before
+   */
+  static getDefaults(userId: string, timezone?: string): NotificationPreferences {
+    return {
+      ...this.DEFAULT_PREFERENCES,
+      reminder_times: [...this.DEFAULT_PREFERENCES.reminder_times],
+      user_id: userId,
+      timezone: timezone || Intl.DateTimeFormat().resolvedOptions().timeZone
+    };
+  }
+
+  /**
+   * Last loaded preferences, or the defaults before loadPreferences resolves
    */
   static getPreferences(userId: string): NotificationPreferences {
-    try {
-      const stored = localStorage.getItem(`notification_prefs_${userId}`);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        return { ...this.DEFAULT_PREFERENCES, ...parsed, user_id: userId };
+    return this.cache.get(userId) || this.getDefaults(userId);
+  }
+
+  /**
+   * Fetch the signed-in user's preferences from the server. Preferences kept
+   * in localStorage by earlier versions are uploaded once, then dropped.
+   */
+  static async loadPreferences(userId: string): Promise<NotificationPreferences> {
+    const response = await fetch('/api/notifications/preferences');
+    if (!response.ok) {
+      throw new Error(`Failed to load notification preferences (HTTP ${response.status})`);
+    }
+    let { preferences } = await response.json() as { preferences: NotificationPreferences };
+
+    const legacyKey = `${this.LEGACY_STORAGE_PREFIX}${userId}`;
+    const legacy = typeof localStorage !== 'undefined' ? localStorage.getItem(legacyKey) : null;
+    if (legacy) {
+      try {
+        if (!preferences.updated_at) {
+          const { value } = this.validate(JSON.parse(legacy));
+          if (value) {
+            preferences = await this.savePreferences(userId, value);
+          }
+        }
+        localStorage.removeItem(legacyKey);
+      } catch (error) {
+        console.error('Error migrating stored notification preferences:', error);
       }
-    } catch (error) {
-      console.error('Error loading notification preferences:', error);
     }
 
-    return { ...this.DEFAULT_PREFERENCES, user_id: userId };
+    this.cache.set(userId, preferences);
+    return preferences;
   }
 
   /**
-   * Save user preferences with validation
+   * Save changed preferences - fields left out keep their current value
    */
-  static savePreferences(preferences: NotificationPreferences): boolean {
-    try {
-      localStorage.setItem(
-        `notification_prefs_${preferences.user_id}`, 
-        JSON.stringify(preferences)
-      );
-      return true;
-    } catch (error) {
-      console.error('Error saving notification preferences:', error);
-      return false;
+  static async savePreferences(
+    userId: string,
+    changes: Partial<Omit<NotificationPreferences, 'user_id' | 'updated_at'>>
+  ): Promise<NotificationPreferences> {
+    const response = await fetch('/api/notifications/preferences', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes)
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Failed to save notification preferences (HTTP ${response.status})`);
     }
+
+    this.cache.set(userId, data.preferences);
+    return data.preferences;
   }
 
   /**
-   * Check if current time is within quiet hours
+   * Validate a preferences body - only the fields present are checked, so
+   * the result can be merged over the current preferences
    */
-  static isQuietTime(preferences: NotificationPreferences): boolean {
-    const now = new Date();
-    const currentTime = format(now, 'HH:mm');
+  static validate(
+    body: Record<string, unknown>
+  ): { value?: Partial<Omit<NotificationPreferences, 'user_id' | 'updated_at'>>; error?: string } {
+    const value: Partial<Omit<NotificationPreferences, 'user_id' | 'updated_at'>> = {};
+
+    for (const field of ['browser_enabled', 'email_enabled', 'push_enabled'] as const) {
+      if (body[field] === undefined) continue;
+      if (typeof body[field] !== 'boolean') {
+        return { error: `${field} must be a boolean` };
+      }
+      value[field] = body[field] as boolean;
+    }
+
+    if (body.reminder_times !== undefined) {
+      const times = body.reminder_times;
+      if (
+        !Array.isArray(times) ||
+        times.length > this.MAX_REMINDER_TIMES ||
+        !times.every(time => Number.isInteger(time) && time > 0 && time <= this.MAX_REMINDER_MINUTES)
+      ) {
+        return {
+          error: `reminder_times must list at most ${this.MAX_REMINDER_TIMES} whole minutes between 1 and ${this.MAX_REMINDER_MINUTES}`
+        };
+      }
+      value.reminder_times = Array.from(new Set(times as number[])).sort((a, b) => a - b);
+    }
+
+    if (body.quiet_hours !== undefined) {
+      const quietHours = body.quiet_hours as { start?: unknown; end?: unknown } | null;
+      if (quietHours === null) {
+        value.quiet_hours = null;
+      } else if (
+        typeof quietHours !== 'object' ||
+        typeof quietHours.start !== 'string' ||
+        typeof quietHours.end !== 'string' ||
+        !this.TIME_PATTERN.test(quietHours.start) ||
+        !this.TIME_PATTERN.test(quietHours.end)
+      ) {
+        return { error: 'quiet_hours must be null or { start, end } in HH:mm' };
+      } else if (quietHours.start === quietHours.end) {
+        return { error: 'quiet_hours must start and end at different times' };
+      } else {
+        value.quiet_hours = { start: quietHours.start, end: quietHours.end };
+      }
+    }
+
+    if (body.timezone !== undefined) {
+      try {
+        if (typeof body.timezone !== 'string' || !body.timezone) throw new Error('empty');
+        Intl.DateTimeFormat(undefined, { timeZone: body.timezone });
+      } catch {
+        return { error: 'timezone must be an IANA time zone such as Asia/Ho_Chi_Minh' };
+      }
+      value.timezone = body.timezone as string;
+    }
+
+    return { value };
+  }
+
+  /**
+   * Check if a moment falls within quiet hours, read in the user's timezone
+   * The start is quiet, the end is not
+   */
+  static isQuietTime(preferences: NotificationPreferences, at: Date = new Date()): boolean {
+    if (!preferences.quiet_hours) return false;
+
+    const currentTime = formatInTimeZone(at, preferences.timezone, 'HH:mm');
     const { start, end } = preferences.quiet_hours;
 
     // Handle quiet hours that span midnight
     if (start > end) {
-      return currentTime >= start || currentTime <= end;
+      return currentTime >= start || currentTime < end;
     } else {
-      return currentTime >= start && currentTime <= end;
+      return currentTime >= start && currentTime < end;
+    }
+  }
+
+  /**
+   * When a notification due at `at` may be delivered - `at` itself, or the
+   * end of the quiet hours it falls in
+   */
+  static getDeliveryTime(preferences: NotificationPreferences, at: Date = new Date()): Date {
+    if (!preferences.quiet_hours || !this.isQuietTime(preferences, at)) {
+      return at;
     }
+
+    const { timezone } = preferences;
+    const localDate = formatInTimeZone(at, timezone, 'yyyy-MM-dd');
+    const endToday = fromZonedTime(`${localDate}T${preferences.quiet_hours.end}:00`, timezone);
+    if (endToday > at) {
+      return endToday;
+    }
+
+    const nextDate = format(addDays(parseISO(localDate), 1), 'yyyy-MM-dd');
+    return fromZonedTime(`${nextDate}T${preferences.quiet_hours.end}:00`, timezone);
   }
 }
 
@@ -0,0 +1,486 @@
+// lib/exif.ts - EXIF metadata from uploaded photos (capture time, camera, GPS) and GPS removal
+import sharp from 'sharp';
+
+/**
+ * EXIF lives in a TIFF structure inside the image container:
+ *   JPEG - APP1 segment starting "Exif\0\0"
+ *   PNG  - eXIf chunk (CRC-protected)
+ *   WebP - EXIF chunk of the RIFF container
+ *
+ * XMP packets (JPEG APP1, PNG iTXt, WebP "XMP " chunk) can repeat the GPS
+ * position as exif:GPS* properties.
+ *
+ * Reading never throws - a malformed or missing block just yields fewer fields.
+ * Removing GPS fails closed - see removeGpsMetadata.
+ */
+export interface PhotoMetadata {
+  taken_at?: string; // ISO instant; the camera's wall clock read as UTC when it recorded no offset
+  taken_at_offset?: string; // "+07:00" - only when the camera recorded it
+  width?: number; // As displayed, after applying the orientation
+  height?: number;
+  orientation?: number; // EXIF orientation 1-8
+  camera_make?: string;
+  camera_model?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+interface TiffBlock {
+  start: number; // Offset of the TIFF header within the file
+  length: number;
+  pngCrcOffset?: number; // eXIf chunks carry a CRC that must follow any change
+  pngChunkStart?: number;
+}
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  entryOffset: number; // Relative to the TIFF header
+  valueOffset: number; // Inline (entryOffset + 8) or the pointed-to offset
+}
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_DATETIME_DIGITIZED = 0x9004;
+const TAG_OFFSET_TIME = 0x9010;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_OFFSET_TIME_DIGITIZED = 0x9012;
+const GPS_LATITUDE_REF = 0x0001;
+const GPS_LATITUDE = 0x0002;
+const GPS_LONGITUDE_REF = 0x0003;
+const GPS_LONGITUDE = 0x0004;
+
+// Bytes per value for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8, 11: 4, 12: 8 };
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'binary');
+const XMP_HEADER = Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'latin1');
+const XMP_EXTENSION_HEADER = Buffer.from('http://ns.adobe.com/xmp/extension/\0', 'latin1');
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+// exif:GPSLatitude="..." attributes and <exif:GPSLatitude>...</exif:GPSLatitude> elements, any prefix
+const XMP_GPS_ATTRIBUTE = /\s[\w.-]+:GPS\w*\s*=\s*(?:"[^"]*"|'[^']*')/g;
+const XMP_GPS_ELEMENT = /<([\w.-]+:GPS\w*)[^>]*?(?:\/>|>[\s\S]*?<\/\1\s*>)/g;
+const MAX_TEXT_LENGTH = 100;
+
+/**
+ * Find the TIFF block holding the EXIF data, if the image has one
+ */
+function findTiffBlock(image: Buffer): TiffBlock | null {
+  const withoutHeader = (start: number, length: number): TiffBlock =>
+    image.subarray(start, start + EXIF_HEADER.length).equals(EXIF_HEADER)
+      ? { start: start + EXIF_HEADER.length, length: length - EXIF_HEADER.length }
+      : { start, length };
+
+  // JPEG - walk the marker segments up to the image data
+  if (image.length > 4 && image[0] === 0xff && image[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 4 <= image.length && image[offset] === 0xff) {
+      const marker = image[offset + 1];
+      if (marker === 0xda || marker === 0xd9) break; // Start of scan / end of image
+      const segmentLength = image.readUInt16BE(offset + 2);
+      if (marker === 0xe1 && image.subarray(offset + 4, offset + 10).equals(EXIF_HEADER)) {
+        return { start: offset + 10, length: segmentLength - 8 };
+      }
+      offset += 2 + segmentLength;
+    }
+    return null;
+  }
+
+  // PNG - length, type, data, CRC per chunk
+  if (image.length > 8 && image.readUInt32BE(0) === 0x89504e47) {
+    let offset = 8;
+    while (offset + 12 <= image.length) {
+      const chunkLength = image.readUInt32BE(offset);
+      const type = image.toString('latin1', offset + 4, offset + 8);
+      if (type === 'eXIf') {
+        return {
+          ...withoutHeader(offset + 8, chunkLength),
+          pngChunkStart: offset + 4,
+          pngCrcOffset: offset + 8 + chunkLength
+        };
+      }
+      if (type === 'IDAT' || type === 'IEND') break;
+      offset += 12 + chunkLength;
+    }
+    return null;
+  }
+
+  // WebP - RIFF chunks, padded to an even size
+  if (image.length > 12 && image.toString('latin1', 0, 4) === 'RIFF' && image.toString('latin1', 8, 12) === 'WEBP') {
+    let offset = 12;
+    while (offset + 8 <= image.length) {
+      const chunkLength = image.readUInt32LE(offset + 4);
+      if (image.toString('latin1', offset, offset + 4) === 'EXIF') {
+        return withoutHeader(offset + 8, chunkLength);
+      }
+      offset += 8 + chunkLength + (chunkLength % 2);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Every XMP packet of the image, as blocks of XML
+ * Throws on packets that cannot be edited in place (extended or compressed XMP)
+ */
+function findXmpBlocks(image: Buffer): TiffBlock[] {
+  const blocks: TiffBlock[] = [];
+
+  if (image.length > 4 && image[0] === 0xff && image[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 4 <= image.length && image[offset] === 0xff) {
+      const marker = image[offset + 1];
+      if (marker === 0xda || marker === 0xd9) break;
+      const segmentLength = image.readUInt16BE(offset + 2);
+      const payload = image.subarray(offset + 4, offset + 2 + segmentLength);
+      if (marker === 0xe1 && payload.subarray(0, XMP_HEADER.length).equals(XMP_HEADER)) {
+        blocks.push({ start: offset + 4 + XMP_HEADER.length, length: segmentLength - 2 - XMP_HEADER.length });
+      }
+      if (marker === 0xe1 && payload.subarray(0, XMP_EXTENSION_HEADER.length).equals(XMP_EXTENSION_HEADER)) {
+        // Extended XMP splits the XML across segments at arbitrary points
+        throw new Error('Extended XMP cannot be edited in place');
+      }
+      offset += 2 + segmentLength;
+    }
+  } else if (image.length > 8 && image.readUInt32BE(0) === 0x89504e47) {
+    let offset = 8;
+    while (offset + 12 <= image.length) {
+      const chunkLength = image.readUInt32BE(offset);
+      const type = image.toString('latin1', offset + 4, offset + 8);
+      const dataStart = offset + 8;
+      if (type === 'iTXt' && image.toString('latin1', dataStart, dataStart + PNG_XMP_KEYWORD.length + 1) === `${PNG_XMP_KEYWORD}\0`) {
+        const flagOffset = dataStart + PNG_XMP_KEYWORD.length + 1;
+        if (image[flagOffset] !== 0) throw new Error('Compressed XMP cannot be edited in place');
+        // Keyword, compression flag and method, then NUL-terminated language tag and translated keyword
+        let textStart = flagOffset + 2;
+        for (let nulls = 0; nulls < 2 && textStart < dataStart + chunkLength; textStart++) {
+          if (image[textStart] === 0) nulls++;
+        }
+        blocks.push({
+          start: textStart,
+          length: dataStart + chunkLength - textStart,
+          pngChunkStart: offset + 4,
+          pngCrcOffset: dataStart + chunkLength
+        });
+      }
+      if (type === 'IEND') break;
+      offset += 12 + chunkLength;
+    }
+  } else if (image.length > 12 && image.toString('latin1', 0, 4) === 'RIFF' && image.toString('latin1', 8, 12) === 'WEBP') {
+    let offset = 12;
+    while (offset + 8 <= image.length) {
+      const chunkLength = image.readUInt32LE(offset + 4);
+      if (image.toString('latin1', offset, offset + 4) === 'XMP ') {
+        blocks.push({ start: offset + 8, length: chunkLength });
+      }
+      offset += 8 + chunkLength + (chunkLength % 2);
+    }
+  }
+
+  blocks.forEach(block => {
+    if (block.length < 0 || block.start + block.length > image.length) {
+      throw new RangeError('XMP packet outside the image');
+    }
+  });
+  return blocks;
+}
+
+/**
+ * Bounds-checked reader over a TIFF block in either byte order
+ */
+class TiffReader {
+  private readonly littleEndian: boolean;
+
+  constructor(private readonly data: Buffer) {
+    const byteOrder = data.toString('latin1', 0, 2);
+    if (byteOrder !== 'II' && byteOrder !== 'MM') {
+      throw new Error('Not a TIFF header');
+    }
+    this.littleEndian = byteOrder === 'II';
+    if (this.uint16(2) !== 42) {
+      throw new Error('Bad TIFF magic number');
+    }
+  }
+
+  get firstIfdOffset(): number {
+    return this.uint32(4);
+  }
+
+  uint16(offset: number): number {
+    this.check(offset, 2);
+    return this.littleEndian ? this.data.readUInt16LE(offset) : this.data.readUInt16BE(offset);
+  }
+
+  uint32(offset: number): number {
+    this.check(offset, 4);
+    return this.littleEndian ? this.data.readUInt32LE(offset) : this.data.readUInt32BE(offset);
+  }
+
+  writeUint16(offset: number, value: number): void {
+    this.check(offset, 2);
+    if (this.littleEndian) this.data.writeUInt16LE(value, offset);
+    else this.data.writeUInt16BE(value, offset);
+  }
+
+  writeUint32(offset: number, value: number): void {
+    this.check(offset, 4);
+    if (this.littleEndian) this.data.writeUInt32LE(value, offset);
+    else this.data.writeUInt32BE(value, offset);
+  }
+
+  fill(offset: number, length: number): void {
+    this.check(offset, length);
+    this.data.fill(0, offset, offset + length);
+  }
+
+  readIfd(offset: number): IfdEntry[] {
+    const count = this.uint16(offset);
+    const entries: IfdEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      const entryOffset = offset + 2 + i * 12;
+      const type = this.uint16(entryOffset + 2);
+      const valueCount = this.uint32(entryOffset + 4);
+      const size = (TYPE_SIZES[type] || 1) * valueCount;
+      entries.push({
+        tag: this.uint16(entryOffset),
+        type,
+        count: valueCount,
+        entryOffset,
+        valueOffset: size > 4 ? this.uint32(entryOffset + 8) : entryOffset + 8
+      });
+    }
+    return entries;
+  }
+
+  text(entry: IfdEntry): string | undefined {
+    if (entry.type !== 2 || entry.count === 0) return undefined;
+    this.check(entry.valueOffset, entry.count);
+    const value = this.data
+      .toString('latin1', entry.valueOffset, entry.valueOffset + entry.count)
+      .replace(/\0[\s\S]*$/, '')
+      .trim();
+    return value ? value.slice(0, MAX_TEXT_LENGTH) : undefined;
+  }
+
+  // SHORT or LONG - whichever the writer chose
+  integer(entry: IfdEntry): number | undefined {
+    if (entry.type === 3) return this.uint16(entry.valueOffset);
+    if (entry.type === 4) return this.uint32(entry.valueOffset);
+    return undefined;
+  }
+
+  rationals(entry: IfdEntry): number[] {
+    if (entry.type !== 5) return [];
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      const denominator = this.uint32(entry.valueOffset + i * 8 + 4);
+      values.push(denominator ? this.uint32(entry.valueOffset + i * 8) / denominator : NaN);
+    }
+    return values;
+  }
+
+  private check(offset: number, length: number): void {
+    if (offset < 0 || offset + length > this.data.length) {
+      throw new RangeError('EXIF value outside its block');
+    }
+  }
+}
+
+/**
+ * "2023:06:14 18:30:05" plus an optional "+07:00" -> ISO instant
+ */
+function parseExifDate(value: string | undefined, offset: string | undefined): { taken_at: string; taken_at_offset?: string } | null {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') return null;
+
+  const validOffset = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : undefined;
+  const iso = `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}${validOffset || 'Z'}`;
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return null;
+
+  return { taken_at: date.toISOString(), taken_at_offset: validOffset };
+}
+
+// Degrees, minutes, seconds -> signed decimal degrees
+function toDecimalDegrees(parts: number[], ref: string | undefined, negativeRef: string): number | undefined {
+  if (parts.length < 3 || parts.some(part => !Number.isFinite(part))) return undefined;
+  const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600;
+  return Math.round((ref === negativeRef ? -degrees : degrees) * 1e7) / 1e7;
+}
+
+function readExifTags(image: Buffer): Omit<PhotoMetadata, 'width' | 'height'> {
+  const block = findTiffBlock(image);
+  if (!block) return {};
+
+  const metadata: Omit<PhotoMetadata, 'width' | 'height'> = {};
+  try {
+    const reader = new TiffReader(image.subarray(block.start, block.start + block.length));
+    const ifd0 = reader.readIfd(reader.firstIfdOffset);
+    const find = (entries: IfdEntry[], tag: number) => entries.find(entry => entry.tag === tag);
+
+    const make = find(ifd0, TAG_MAKE);
+    const model = find(ifd0, TAG_MODEL);
+    const orientation = find(ifd0, TAG_ORIENTATION);
+    metadata.camera_make = make && reader.text(make);
+    metadata.camera_model = model && reader.text(model);
+    const orientationValue = orientation && reader.integer(orientation);
+    if (orientationValue && orientationValue >= 1 && orientationValue <= 8) {
+      metadata.orientation = orientationValue;
+    }
+
+    const exifPointer = find(ifd0, TAG_EXIF_IFD);
+    const exifIfd = exifPointer ? reader.readIfd(reader.uint32(exifPointer.valueOffset)) : [];
+    const textOf = (entries: IfdEntry[], tag: number) => {
+      const entry = find(entries, tag);
+      return entry ? reader.text(entry) : undefined;
+    };
+
+    // Prefer when the shutter fired, then when it was digitized, then the file's own time
+    const taken =
+      parseExifDate(textOf(exifIfd, TAG_DATETIME_ORIGINAL), textOf(exifIfd, TAG_OFFSET_TIME_ORIGINAL)) ||
+      parseExifDate(textOf(exifIfd, TAG_DATETIME_DIGITIZED), textOf(exifIfd, TAG_OFFSET_TIME_DIGITIZED)) ||
+      parseExifDate(textOf(ifd0, TAG_DATETIME), textOf(exifIfd, TAG_OFFSET_TIME));
+    if (taken) Object.assign(metadata, taken);
+
+    const gpsPointer = find(ifd0, TAG_GPS_IFD);
+    if (gpsPointer) {
+      const gpsIfd = reader.readIfd(reader.uint32(gpsPointer.valueOffset));
+      const latitude = find(gpsIfd, GPS_LATITUDE);
+      const longitude = find(gpsIfd, GPS_LONGITUDE);
+      if (latitude && longitude) {
+        const lat = toDecimalDegrees(reader.rationals(latitude), textOf(gpsIfd, GPS_LATITUDE_REF), 'S');
+        const lng = toDecimalDegrees(reader.rationals(longitude), textOf(gpsIfd, GPS_LONGITUDE_REF), 'W');
+        // 0,0 is what some phones write when they had no fix
+        if (lat !== undefined && lng !== undefined && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 && (lat !== 0 || lng !== 0)) {
+          metadata.latitude = lat;
+          metadata.longitude = lng;
+        }
+      }
+    }
+  } catch (error) {
+    console.warn('Ignoring unreadable EXIF data:', (error as Error).message);
+  }
+
+  // Drop fields the image did not have
+  return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Everything worth keeping about an uploaded image - EXIF tags plus the
+ * displayed dimensions
+ */
+export async function extractPhotoMetadata(image: Buffer): Promise<PhotoMetadata> {
+  const metadata: PhotoMetadata = readExifTags(image);
+
+  try {
+    const { width, height, orientation } = await sharp(image).metadata();
+    const effectiveOrientation = metadata.orientation ?? orientation ?? 1;
+    // Orientations 5-8 are stored rotated by 90 degrees
+    const rotated = effectiveOrientation >= 5;
+    metadata.width = rotated ? height : width;
+    metadata.height = rotated ? width : height;
+  } catch (error) {
+    console.warn('Could not read image dimensions:', (error as Error).message);
+  }
+
+  return metadata;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function updatePngCrc(image: Buffer, block: TiffBlock): void {
+  if (block.pngChunkStart !== undefined && block.pngCrcOffset !== undefined) {
+    image.writeUInt32BE(crc32(image.subarray(block.pngChunkStart, block.pngCrcOffset)), block.pngCrcOffset);
+  }
+}
+
+/**
+ * Blanks the EXIF GPS directory of `image` in place and unlinks it from IFD0
+ * Throws when the EXIF block cannot be parsed
+ */
+function removeExifGps(image: Buffer): void {
+  const block = findTiffBlock(image);
+  if (!block) return;
+
+  const reader = new TiffReader(image.subarray(block.start, block.start + block.length));
+  const ifd0Offset = reader.firstIfdOffset;
+  const ifd0 = reader.readIfd(ifd0Offset);
+  const pointerIndex = ifd0.findIndex(entry => entry.tag === TAG_GPS_IFD);
+  if (pointerIndex === -1) return;
+
+  // Zero every GPS value, then the GPS directory itself
+  const gpsOffset = reader.uint32(ifd0[pointerIndex].valueOffset);
+  const gpsIfd = reader.readIfd(gpsOffset);
+  for (const entry of gpsIfd) {
+    const size = (TYPE_SIZES[entry.type] || 1) * entry.count;
+    if (size > 4) reader.fill(entry.valueOffset, size);
+  }
+  reader.fill(gpsOffset, 2 + gpsIfd.length * 12 + 4);
+
+  // Drop the pointer from IFD0 - later entries and the next-IFD link move up one slot
+  const nextIfdPosition = ifd0Offset + 2 + ifd0.length * 12;
+  const nextIfd = reader.uint32(nextIfdPosition);
+  const firstMoved = ifd0Offset + 2 + (pointerIndex + 1) * 12;
+  image.copy(image, block.start + firstMoved - 12, block.start + firstMoved, block.start + nextIfdPosition);
+  reader.writeUint16(ifd0Offset, ifd0.length - 1);
+  reader.writeUint32(nextIfdPosition - 12, nextIfd);
+  reader.fill(nextIfdPosition - 8, 12);
+
+  updatePngCrc(image, block);
+}
+
+/**
+ * Overwrites exif:GPS* properties of every XMP packet with spaces
+ * The packet keeps its length and stays well-formed XML
+ */
+function removeXmpGps(image: Buffer): void {
+  findXmpBlocks(image).forEach(block => {
+    // latin1 keeps one character per byte, so string offsets are byte offsets
+    const xml = image.toString('latin1', block.start, block.start + block.length);
+    const blanked = xml
+      .replace(XMP_GPS_ELEMENT, match => ' '.repeat(match.length))
+      .replace(XMP_GPS_ATTRIBUTE, match => ' '.repeat(match.length));
+    if (blanked === xml) return;
+
+    image.write(blanked, block.start, 'latin1');
+    updatePngCrc(image, block);
+  });
+}
+
+/**
+ * Copy of the image without GPS in its EXIF or XMP metadata
+ * The bytes are edited in place, so nothing is re-encoded and every other tag
+ * (capture time, orientation, camera) is kept. Metadata that cannot be edited
+ * that way falls back to a sharp re-encode, which drops all metadata; if the
+ * image cannot be decoded either, this rejects rather than keep the location.
+ */
+export async function removeGpsMetadata(image: Buffer): Promise<Buffer> {
+  const copy = Buffer.from(image);
+  try {
+    removeExifGps(copy);
+    removeXmpGps(copy);
+    return copy;
+  } catch (error) {
+    console.warn('Could not remove GPS data in place, re-encoding without metadata:', (error as Error).message);
+  }
+
+  // rotate() applies the EXIF orientation to the pixels before it is dropped
+  return sharp(image).rotate().toBuffer();
+}
@@ -0,0 +1,126 @@
+// lib/photoSearch.ts - Tag/people label validation and gallery search query parsing
+import type { NextApiRequest } from 'next';
+import {
+  PHOTO_LABEL_MAX_LENGTH,
+  PHOTO_LABELS_MAX_COUNT,
+  type PhotoLabelInput,
+  type PhotoLabelKind,
+  type PhotoSearchFilters
+} from '../types/photoSearch';
+
+const SEARCH_TEXT_MAX_LENGTH = 200;
+
+/**
+ * One label as stored - whitespace collapsed; tags also lose a leading "#"
+ * and are lowercased so "Beach" and "#beach" are the same tag
+ */
+export function normalizeLabel(label: string, kind: PhotoLabelKind): string {
+  const collapsed = label.normalize('NFC').trim().replace(/\s+/g, ' ');
+  return kind === 'tag' ? collapsed.replace(/^#+/, '').toLowerCase() : collapsed;
+}
+
+/**
+ * Normalize a list of labels, dropping blanks and duplicates (ignoring case)
+ */
+export function normalizeLabels(
+  value: unknown,
+  kind: PhotoLabelKind
+): { labels?: string[]; error?: string } {
+  const field = kind === 'tag' ? 'tags' : 'people';
+  if (!Array.isArray(value) || !value.every(label => typeof label === 'string')) {
+    return { error: `${field} must be a list of text labels` };
+  }
+
+  const labels: string[] = [];
+  const seen = new Set<string>();
+  for (const label of value.map(label => normalizeLabel(label, kind))) {
+    if (!label || seen.has(label.toLowerCase())) continue;
+    if (label.length > PHOTO_LABEL_MAX_LENGTH) {
+      return { error: `${field} must be at most ${PHOTO_LABEL_MAX_LENGTH} characters each` };
+    }
+    seen.add(label.toLowerCase());
+    labels.push(label);
+  }
+
+  if (labels.length > PHOTO_LABELS_MAX_COUNT) {
+    return { error: `A photo can have at most ${PHOTO_LABELS_MAX_COUNT} ${field}` };
+  }
+  return { labels };
+}
+
+/**
+ * Validate the tags and people of a photo update - either may be left out
+ */
+export function validatePhotoLabels(body: Record<string, unknown>): { value?: PhotoLabelInput; error?: string } {
+  const value: PhotoLabelInput = {};
+
+  if (body.tags !== undefined) {
+    const { labels, error } = normalizeLabels(body.tags, 'tag');
+    if (error) return { error };
+    value.tags = labels;
+  }
+
+  if (body.people !== undefined) {
+    const { labels, error } = normalizeLabels(body.people, 'person');
+    if (error) return { error };
+    value.people = labels;
+  }
+
+  return { value };
+}
+
+/**
+ * Gallery search filters from the query string:
+ * ?q=&tag=beach&tag=sunset&person=Lan&year=2023&album=3
+ */
+export function parsePhotoSearchQuery(query: NextApiRequest['query']): { filters?: PhotoSearchFilters; error?: string } {
+  const list = (value: string | string[] | undefined) => (value === undefined ? [] : [value].flat());
+  const filters: PhotoSearchFilters = {};
+
+  const q = typeof query.q === 'string' ? query.q.trim() : '';
+  if (q.length > SEARCH_TEXT_MAX_LENGTH) {
+    return { error: `q must be at most ${SEARCH_TEXT_MAX_LENGTH} characters` };
+  }
+  if (q) filters.q = q;
+
+  const tags = normalizeLabels(list(query.tag), 'tag');
+  const people = normalizeLabels(list(query.person), 'person');
+  if (tags.error || people.error) {
+    return { error: tags.error || people.error };
+  }
+  if (tags.labels!.length > 0) filters.tags = tags.labels;
+  if (people.labels!.length > 0) filters.people = people.labels;
+
+  if (query.year !== undefined) {
+    const year = Number(query.year);
+    if (!Number.isInteger(year) || year < 1900 || year > 9999) {
+      return { error: 'year must be a four-digit year' };
+    }
+    filters.year = year;
+  }
+
+  if (query.album !== undefined) {
+    const albumId = Number(query.album);
+    if (!Number.isInteger(albumId) || albumId <= 0) {
+      return { error: 'album must be an album number' };
+    }
+    filters.album_id = albumId;
+  }
+
+  return { filters };
+}
+
+/**
+ * Search text as a PostgreSQL tsquery where every word must match the start
+ * of a word in the photo ("sun bea" finds "sunset at the beach"), or null
+ * when there are no words at all
+ */
+export function toPrefixTsQuery(text: string): string | null {
+  const words = text
+    .normalize('NFC')
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u) // Punctuation splits words, as the tsvector parser does
+    .filter(Boolean);
+
+  return words.length > 0 ? words.map(word => `${word}:*`).join(' & ') : null;
+}
@@ -0,0 +1,511 @@
+// lib/photoStorage.ts - Photo storage behind a pluggable driver (Cloudinary, local disk or S3-compatible)
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import sharp from 'sharp';
+import { THUMBNAIL_CONFIGS, deleteFromCloudinary, getCloudinaryUrl, uploadToCloudinary } from './cloudinary';
+
+/**
+ * Configuration comes from the environment:
+ *   PHOTO_STORAGE - "cloudinary", "local" or "s3"; defaults to cloudinary when
+ *     CLOUDINARY_CLOUD_NAME is set and to local otherwise
+ *   PHOTO_STORAGE_DIR - where the local driver keeps files (default ./storage/photos)
+ *   PHOTO_URL_SECRET - signs local file URLs (falls back to NEXTAUTH_SECRET)
+ *   S3_ENDPOINT / S3_REGION / S3_BUCKET - S3-compatible service (AWS, MinIO, R2...),
+ *     addressed path-style as {endpoint}/{bucket}/{key}
+ *   S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY - credentials for SigV4 signing
+ *
+ * Each photo row remembers the driver it was stored with, so switching
+ * PHOTO_STORAGE only affects new uploads.
+ */
+export type PhotoStorageName = 'cloudinary' | 'local' | 's3';
+export type PhotoSize = keyof typeof THUMBNAIL_CONFIGS;
+
+export const PHOTO_SIZES = Object.keys(THUMBNAIL_CONFIGS) as PhotoSize[];
+
+export interface StoredPhoto {
+  key: string;
+  public_url: string;
+  width?: number;
+  height?: number;
+  format?: string;
+  bytes: number;
+}
+
+export interface PhotoStorage {
+  readonly name: PhotoStorageName;
+  put(file: Buffer, filename: string): Promise<StoredPhoto>;
+  delete(key: string): Promise<void>;
+  /** URL the browser can load - the original, or one of the derived sizes */
+  getSignedUrl(key: string, size?: PhotoSize): string;
+}
+
+// Signed URLs are issued per window so a page rendered twice gets the same
+// URLs (and browser cache hits); each stays valid for at least one full window
+const URL_WINDOW_SECONDS = 6 * 60 * 60;
+const DERIVED_QUALITY: Record<string, number> = { 'auto:low': 60, 'auto:good': 80 };
+const KEY_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+const CONTENT_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+};
+const EXTENSIONS: Record<string, string> = { jpeg: 'jpg', png: 'png', webp: 'webp' };
+
+export function isValidPhotoKey(key: string): boolean {
+  return KEY_PATTERN.test(key) && !key.includes('..');
+}
+
+function createPhotoKey(filename: string): string {
+  const base = filename
+    .replace(/\.[^/.]+$/, '')
+    .normalize('NFKD')
+    .replace(/[^\w-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase()
+    .slice(0, 60);
+  return `${Date.now()}-${base || 'photo'}-${randomBytes(4).toString('hex')}`;
+}
+
+function getSigningWindow(): { signedAt: number; expiresAt: number } {
+  const now = Math.floor(Date.now() / 1000);
+  const signedAt = now - (now % URL_WINDOW_SECONDS);
+  return { signedAt, expiresAt: signedAt + 2 * URL_WINDOW_SECONDS };
+}
+
+/**
+ * Original bytes plus the THUMBNAIL_CONFIGS sizes as WebP, for drivers that
+ * have no image service of their own. The original is kept untouched.
+ */
+async function prepareImage(file: Buffer): Promise<{
+  format: string;
+  width?: number;
+  height?: number;
+  derived: Record<PhotoSize, Buffer>;
+}> {
+  const metadata = await sharp(file).metadata();
+  if (!metadata.format || !CONTENT_TYPES[metadata.format]) {
+    throw new Error('Unsupported image format. Only JPEG, PNG, and WebP are allowed.');
+  }
+
+  const derived = {} as Record<PhotoSize, Buffer>;
+  for (const size of PHOTO_SIZES) {
+    const config = THUMBNAIL_CONFIGS[size];
+    derived[size] = await sharp(file)
+      .rotate() // Apply the EXIF orientation before cropping
+      .resize({
+        width: config.width,
+        height: config.height,
+        fit: config.crop === 'fill' ? 'cover' : 'inside',
+        withoutEnlargement: config.crop !== 'fill'
+      })
+      .webp({ quality: DERIVED_QUALITY[config.quality] ?? 80 })
+      .toBuffer();
+  }
+
+  // Orientations 5-8 are stored rotated by 90 degrees
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  return {
+    format: metadata.format,
+    width: rotated ? metadata.height : metadata.width,
+    height: rotated ? metadata.width : metadata.height,
+    derived
+  };
+}
+
+// ========================================
+// CLOUDINARY
+// ========================================
+
+export class CloudinaryPhotoStorage implements PhotoStorage {
+  readonly name = 'cloudinary' as const;
+
+  async put(file: Buffer, filename: string): Promise<StoredPhoto> {
+    const result = await uploadToCloudinary(file, filename);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    return {
+      key: result.data.cloudinary_id,
+      public_url: result.data.public_url,
+      width: result.data.width,
+      height: result.data.height,
+      format: result.data.format,
+      bytes: result.data.bytes
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const result = await deleteFromCloudinary(key);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+  }
+
+  // Uploads are public on the CDN; derived sizes are on-the-fly transformations
+  getSignedUrl(key: string, size?: PhotoSize): string {
+    return getCloudinaryUrl(key, size ? THUMBNAIL_CONFIGS[size] : undefined);
+  }
+}
+
+// ========================================
+// LOCAL DISK (served by /api/photos/files/[key])
+// ========================================
+
+export class LocalPhotoStorage implements PhotoStorage {
+  readonly name = 'local' as const;
+  private readonly root: string;
+
+  constructor(root: string = process.env.PHOTO_STORAGE_DIR || path.join(process.cwd(), 'storage', 'photos')) {
+    this.root = path.resolve(root);
+  }
+
+  async put(file: Buffer, filename: string): Promise<StoredPhoto> {
+    const image = await prepareImage(file);
+    const key = createPhotoKey(filename);
+    const directory = this.getDirectory(key);
+
+    try {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(path.join(directory, `original.${EXTENSIONS[image.format]}`), file);
+      for (const size of PHOTO_SIZES) {
+        await fs.writeFile(path.join(directory, `${size}.webp`), image.derived[size]);
+      }
+    } catch (error) {
+      await fs.rm(directory, { recursive: true, force: true });
+      throw error;
+    }
+
+    return {
+      key,
+      public_url: `/api/photos/files/${key}`,
+      width: image.width,
+      height: image.height,
+      format: image.format,
+      bytes: file.length
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.getDirectory(key), { recursive: true, force: true });
+  }
+
+  getSignedUrl(key: string, size?: PhotoSize): string {
+    const { expiresAt } = getSigningWindow();
+    const params = new URLSearchParams();
+    if (size) params.set('size', size);
+    params.set('expires', String(expiresAt));
+    params.set('signature', signLocalUrl(key, size, expiresAt));
+    return `/api/photos/files/${key}?${params.toString()}`;
+  }
+
+  /**
+   * File contents for the serving route, or null when the photo is gone
+   */
+  async read(key: string, size?: PhotoSize): Promise<{ data: Buffer; contentType: string } | null> {
+    const directory = this.getDirectory(key);
+
+    try {
+      if (size) {
+        return { data: await fs.readFile(path.join(directory, `${size}.webp`)), contentType: 'image/webp' };
+      }
+
+      const original = (await fs.readdir(directory)).find(name => name.startsWith('original.'));
+      if (!original) return null;
+
+      const extension = path.extname(original).slice(1);
+      const format = Object.keys(EXTENSIONS).find(name => EXTENSIONS[name] === extension) || 'jpeg';
+      return { data: await fs.readFile(path.join(directory, original)), contentType: CONTENT_TYPES[format] };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private getDirectory(key: string): string {
+    if (!isValidPhotoKey(key)) {
+      throw new Error(`Invalid photo key: ${key}`);
+    }
+    return path.join(this.root, key);
+  }
+}
+
+function getUrlSecret(): string {
+  const secret = process.env.PHOTO_URL_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('PHOTO_URL_SECRET or NEXTAUTH_SECRET must be set to sign photo URLs');
+  }
+  return secret;
+}
+
+function signLocalUrl(key: string, size: PhotoSize | undefined, expiresAt: number): string {
+  return createHmac('sha256', getUrlSecret())
+    .update(`${key}:${size || 'original'}:${expiresAt}`)
+    .digest('base64url');
+}
+
+/**
+ * Check a local file URL's signature and expiry
+ */
+export function verifyLocalPhotoSignature(
+  key: string,
+  size: PhotoSize | undefined,
+  expires: string,
+  signature: string
+): boolean {
+  const expiresAt = parseInt(expires, 10);
+  if (!Number.isFinite(expiresAt) || expiresAt * 1000 < Date.now()) return false;
+
+  const expected = Buffer.from(signLocalUrl(key, size, expiresAt));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// ========================================
+// S3-COMPATIBLE (AWS Signature Version 4, no SDK)
+// ========================================
+
+const S3_SERVICE = 's3';
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// RFC 3986 encoding as SigV4 expects it
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function toAmzDate(seconds: number): string {
+  return new Date(seconds * 1000).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export class S3PhotoStorage implements PhotoStorage {
+  readonly name = 's3' as const;
+  private readonly endpoint: URL;
+  private readonly region: string;
+  private readonly bucket: string;
+  private readonly accessKeyId: string;
+  private readonly secretAccessKey: string;
+
+  constructor() {
+    const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set for S3 photo storage');
+    }
+
+    this.endpoint = new URL(S3_ENDPOINT);
+    this.region = process.env.S3_REGION || 'us-east-1';
+    this.bucket = S3_BUCKET;
+    this.accessKeyId = S3_ACCESS_KEY_ID;
+    this.secretAccessKey = S3_SECRET_ACCESS_KEY;
+  }
+
+  async put(file: Buffer, filename: string): Promise<StoredPhoto> {
+    const image = await prepareImage(file);
+    const key = createPhotoKey(filename);
+    const written: string[] = [];
+
+    try {
+      const objects: [string, Buffer, string][] = [
+        [`${key}/original`, file, CONTENT_TYPES[image.format]],
+        ...PHOTO_SIZES.map((size): [string, Buffer, string] => [`${key}/${size}.webp`, image.derived[size], 'image/webp'])
+      ];
+      for (const [objectKey, body, contentType] of objects) {
+        await this.request('PUT', objectKey, body, contentType);
+        written.push(objectKey);
+      }
+    } catch (error) {
+      await Promise.all(written.map(objectKey => this.request('DELETE', objectKey).catch(() => undefined)));
+      throw error;
+    }
+
+    return {
+      key,
+      public_url: this.getObjectUrl(`${key}/original`).toString(),
+      width: image.width,
+      height: image.height,
+      format: image.format,
+      bytes: file.length
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    if (!isValidPhotoKey(key)) {
+      throw new Error(`Invalid photo key: ${key}`);
+    }
+    const objectKeys = [`${key}/original`, ...PHOTO_SIZES.map(size => `${key}/${size}.webp`)];
+    await Promise.all(objectKeys.map(objectKey => this.request('DELETE', objectKey)));
+  }
+
+  // Presigned GET - the bucket itself can stay private
+  getSignedUrl(key: string, size?: PhotoSize): string {
+    const { signedAt, expiresAt } = getSigningWindow();
+    const url = this.getObjectUrl(size ? `${key}/${size}.webp` : `${key}/original`);
+    const amzDate = toAmzDate(signedAt);
+    const scope = this.getScope(amzDate);
+
+    const query: [string, string][] = [
+      ['X-Amz-Algorithm', 'AWS4-HMAC-SHA256'],
+      ['X-Amz-Credential', `${this.accessKeyId}/${scope}`],
+      ['X-Amz-Date', amzDate],
+      ['X-Amz-Expires', String(expiresAt - signedAt)],
+      ['X-Amz-SignedHeaders', 'host']
+    ];
+    const canonicalQuery = query
+      .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+      .sort()
+      .join('&');
+
+    const signature = this.sign(amzDate, [
+      'GET',
+      url.pathname,
+      canonicalQuery,
+      `host:${url.host}\n`,
+      'host',
+      UNSIGNED_PAYLOAD
+    ].join('\n'));
+
+    return `${url.toString()}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  private async request(method: 'PUT' | 'DELETE', objectKey: string, body?: Buffer, contentType?: string): Promise<void> {
+    const url = this.getObjectUrl(objectKey);
+    const amzDate = toAmzDate(Math.floor(Date.now() / 1000));
+    const payloadHash = sha256Hex(body || '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    if (contentType) headers['content-type'] = contentType;
+
+    const names = Object.keys(headers).sort();
+    const signedHeaders = names.join(';');
+    const signature = this.sign(amzDate, [
+      method,
+      url.pathname,
+      '',
+      names.map(name => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders,
+      payloadHash
+    ].join('\n'));
+
+    const { host: _host, ...requestHeaders } = headers;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${this.getScope(amzDate)}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+      },
+      body: body ? new Uint8Array(body) : undefined
+    });
+
+    // Deleting an object that is already gone is not an error
+    if (!response.ok && !(method === 'DELETE' && response.status === 404)) {
+      const detail = (await response.text()).slice(0, 200);
+      throw new Error(`S3 ${method} ${objectKey} failed with HTTP ${response.status}: ${detail}`);
+    }
+  }
+
+  private getObjectUrl(objectKey: string): URL {
+    const url = new URL(this.endpoint.toString());
+    const basePath = url.pathname.replace(/\/+$/, '');
+    url.pathname = `${basePath}/${encodeRfc3986(this.bucket)}/${objectKey.split('/').map(encodeRfc3986).join('/')}`;
+    return url;
+  }
+
+  private getScope(amzDate: string): string {
+    return `${amzDate.slice(0, 8)}/${this.region}/${S3_SERVICE}/aws4_request`;
+  }
+
+  private sign(amzDate: string, canonicalRequest: string): string {
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      this.getScope(amzDate),
+      sha256Hex(canonicalRequest)
+    ].join('\n');
+
+    const dateKey = hmac(`AWS4${this.secretAccessKey}`, amzDate.slice(0, 8));
+    const signingKey = hmac(hmac(hmac(dateKey, this.region), S3_SERVICE), 'aws4_request');
+    return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+}
+
+// ========================================
+// DRIVER SELECTION
+// ========================================
+
+const drivers = new Map<PhotoStorageName, PhotoStorage>();
+let defaultDriverName: PhotoStorageName | null = null;
+
+function getConfiguredDriverName(): PhotoStorageName {
+  const configured = process.env.PHOTO_STORAGE;
+  if (configured === 'cloudinary' || configured === 'local' || configured === 's3') {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown PHOTO_STORAGE "${configured}", using the default photo storage`);
+  }
+  return process.env.CLOUDINARY_CLOUD_NAME ? 'cloudinary' : 'local';
+}
+
+function createDriver(name: PhotoStorageName): PhotoStorage {
+  switch (name) {
+    case 'cloudinary':
+      return new CloudinaryPhotoStorage();
+    case 's3':
+      return new S3PhotoStorage();
+    default:
+      return new LocalPhotoStorage();
+  }
+}
+
+/**
+ * The driver new uploads go to, or the one a stored photo was written with
+ */
+export function getPhotoStorage(name?: PhotoStorageName): PhotoStorage {
+  const driverName = name || defaultDriverName || (defaultDriverName = getConfiguredDriverName());
+  let driver = drivers.get(driverName);
+  if (!driver) {
+    driver = createDriver(driverName);
+    drivers.set(driverName, driver);
+  }
+  return driver;
+}
+
+/**
+ * Replace a driver (e.g. a different bucket layout) and send new uploads to it
+ */
+export function setPhotoStorage(storage: PhotoStorage): void {
+  drivers.set(storage.name, storage);
+  defaultDriverName = storage.name;
+}
+
+/**
+ * A photo row with URLs the browser can load - the original as public_url
+ * and every derived size under thumbnails
+ */
+export function withPhotoUrls<T extends { cloudinary_id: string; public_url: string; storage_provider?: PhotoStorageName }>(
+  photo: T
+): T & { thumbnails: Record<PhotoSize, string> } {
+  const storage = getPhotoStorage(photo.storage_provider || 'cloudinary');
+  const thumbnails = {} as Record<PhotoSize, string>;
+  for (const size of PHOTO_SIZES) {
+    thumbnails[size] = storage.getSignedUrl(photo.cloudinary_id, size);
+  }
+
+  return {
+    ...photo,
+    public_url: storage.getSignedUrl(photo.cloudinary_id),
+    thumbnails
+  };
+}
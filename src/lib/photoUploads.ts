@@ -0,0 +1,292 @@
+// lib/photoUploads.ts - Turning uploaded images into stored photos, one at a time or in batches
+import type { NextApiRequest, NextApiResponse } from 'next';
+import multer from 'multer';
+import { getDatabase } from './database';
+import { emitWebhookEvent } from './webhooks';
+import { getPhotoStorage, type StoredPhoto } from './photoStorage';
+import { extractPhotoMetadata, removeGpsMetadata } from './exif';
+import { normalizeLabels } from './photoSearch';
+import {
+  PHOTO_BATCH_MAX_FILES,
+  PHOTO_UPLOAD_MAX_FILE_SIZE,
+  PHOTO_UPLOAD_MIME_TYPES,
+  type PhotoUploadOptions,
+  type PhotoUploadResult
+} from '../types/photoUpload';
+
+const ALLOWED_EXTENSIONS = /\.(jpg|jpeg|png|webp)$/i;
+const INVALID_TYPE_MESSAGE = 'Invalid file type. Only JPEG, PNG, and WebP are allowed.';
+const FILE_TOO_LARGE_MESSAGE = `File is larger than ${PHOTO_UPLOAD_MAX_FILE_SIZE / (1024 * 1024)}MB.`;
+
+// Express-style handler returned by multer.single() / multer.array()
+type UploadMiddleware = ReturnType<multer.Multer['single']>;
+
+// Where multer leaves the parsed files
+export type PhotoUploadRequest = NextApiRequest & {
+  file?: Express.Multer.File;
+  files?: Express.Multer.File[];
+};
+
+// Files of a batch request in the order they were sent, including skipped ones
+type BatchUploadRequest = PhotoUploadRequest & {
+  uploadParts?: Array<{ filename: string; accepted: boolean }>;
+};
+
+/**
+ * MIME type validation with additional extension check
+ */
+function isAllowedPhotoFile(file: Express.Multer.File): boolean {
+  return PHOTO_UPLOAD_MIME_TYPES.includes(file.mimetype) && ALLOWED_EXTENSIONS.test(file.originalname);
+}
+
+/**
+ * Multer configuration for memory storage (serverless-friendly)
+ * File size limits and type validation prevent abuse and malicious uploads
+ * Memory storage eliminates temporary file cleanup concerns in serverless environments
+ */
+const singleUpload = multer({
+  storage: multer.memoryStorage(), // Store in memory for serverless compatibility
+  limits: {
+    fileSize: PHOTO_UPLOAD_MAX_FILE_SIZE,
+    files: 1,
+  },
+  fileFilter: (req, file, callback) => {
+    if (isAllowedPhotoFile(file)) {
+      callback(null, true);
+    } else {
+      callback(new Error(INVALID_TYPE_MESSAGE));
+    }
+  },
+});
+
+/**
+ * Memory storage with the size limit checked per file. An oversized file is
+ * read to its end and dropped (multer's fileSize limit would abort the whole
+ * request); its `size` is kept so the batch can report it.
+ */
+const perFileLimitStorage: multer.StorageEngine = {
+  _handleFile(req, file, callback) {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    file.stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= PHOTO_UPLOAD_MAX_FILE_SIZE) {
+        chunks.push(chunk);
+      } else {
+        chunks.length = 0;
+      }
+    });
+    file.stream.on('error', callback);
+    file.stream.on('end', () => {
+      callback(null, size > PHOTO_UPLOAD_MAX_FILE_SIZE ? { size } : { buffer: Buffer.concat(chunks), size });
+    });
+  },
+  _removeFile(req, file, callback) {
+    delete (file as Partial<Express.Multer.File>).buffer;
+    callback(null);
+  },
+};
+
+// A batch reports files of the wrong type or size instead of failing the whole request
+const batchUpload = multer({
+  storage: perFileLimitStorage,
+  limits: {
+    files: PHOTO_BATCH_MAX_FILES,
+  },
+  fileFilter: (req, file, callback) => {
+    const accepted = isAllowedPhotoFile(file);
+    const batchReq = req as unknown as BatchUploadRequest;
+    (batchReq.uploadParts ??= []).push({ filename: file.originalname, accepted });
+    callback(null, accepted);
+  },
+});
+
+/**
+ * Run a multer middleware on a Next.js API request (the same Node
+ * request/response pair Express wraps)
+ */
+function runUploadMiddleware(middleware: UploadMiddleware, req: PhotoUploadRequest, res: NextApiResponse): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const expressReq = req as unknown as Parameters<UploadMiddleware>[0];
+    const expressRes = res as unknown as Parameters<UploadMiddleware>[1];
+    middleware(expressReq, expressRes, (error?: unknown) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Parse a single upload - the file lands on req.file, form fields on req.body
+ */
+export function parseSinglePhotoUpload(req: PhotoUploadRequest, res: NextApiResponse): Promise<void> {
+  return runUploadMiddleware(singleUpload.single('photo'), req, res);
+}
+
+/**
+ * Parse a batch upload - accepted files land on req.files, form fields on req.body
+ */
+export function parsePhotoBatchUpload(req: PhotoUploadRequest, res: NextApiResponse): Promise<void> {
+  return runUploadMiddleware(batchUpload.array('photos', PHOTO_BATCH_MAX_FILES), req, res);
+}
+
+/**
+ * The multipart form fields shared by every photo of an upload - tags come
+ * as a JSON list since a form field can only carry text
+ */
+export function parsePhotoUploadOptions(
+  body: Record<string, unknown> = {}
+): { options?: PhotoUploadOptions; error?: string } {
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  const albumId = parseInt(String(body.album_id), 10);
+
+  let tags: string[] | undefined;
+  if (text(body.tags)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body.tags as string);
+    } catch {
+      return { error: 'tags must be a JSON list of text labels' };
+    }
+    const { labels, error } = normalizeLabels(parsed, 'tag');
+    if (error) return { error };
+    tags = labels;
+  }
+
+  return {
+    options: {
+      title: text(body.title),
+      description: text(body.description),
+      album_id: albumId > 0 ? albumId : undefined,
+      tags,
+      strip_location: body.strip_location === 'true',
+    },
+  };
+}
+
+/**
+ * Extract EXIF, store the image through the configured driver and record it.
+ * Failures come back as a result rather than an exception so a batch can
+ * carry on with its other files.
+ */
+export async function storeUploadedPhoto(
+  file: Express.Multer.File,
+  options: PhotoUploadOptions,
+  actorId: string
+): Promise<PhotoUploadResult> {
+  const filename = file.originalname;
+
+  // EXIF is read from the upload as received; strip_location keeps the
+  // coordinates out of the stored file (they are still recorded below)
+  const metadata = await extractPhotoMetadata(file.buffer);
+  let fileToStore = file.buffer;
+  if (options.strip_location) {
+    try {
+      fileToStore = await removeGpsMetadata(file.buffer);
+    } catch (stripError) {
+      console.error(`Could not remove the location from ${filename}:`, stripError);
+      return { filename, status: 'failed', error: 'The location could not be removed from this image.', code: 'LOCATION_STRIP_FAILED' };
+    }
+  }
+
+  // Storage upload through the configured driver (Cloudinary, local disk or S3)
+  const storage = getPhotoStorage();
+  let stored: StoredPhoto;
+  try {
+    stored = await storage.put(fileToStore, filename);
+  } catch (storageError) {
+    console.error(`Photo storage (${storage.name}) upload failed for ${filename}:`, storageError);
+    return { filename, status: 'failed', error: (storageError as Error).message, code: 'STORAGE_ERROR' };
+  }
+
+  const db = await getDatabase();
+  const photo = {
+    cloudinary_id: stored.key,
+    storage_provider: storage.name,
+    public_url: stored.public_url,
+    title: options.title || filename.replace(/\.[^/.]+$/, ''),
+    description: options.description,
+    tags: options.tags,
+    upload_date: new Date().toISOString(),
+    ...metadata,
+  };
+  const photoId = await db.addPhoto(photo);
+
+  if (!photoId) {
+    // Cleanup the stored files if database insertion fails
+    await storage.delete(stored.key).catch(error => {
+      console.error('Photo storage cleanup failed:', error);
+    });
+    return { filename, status: 'failed', error: 'Failed to save photo metadata', code: 'DATABASE_ERROR' };
+  }
+
+  // Location kept off the stored file stays out of outgoing webhooks too
+  const { latitude, longitude, ...photoWithoutLocation } = photo;
+  const webhookPhoto = options.strip_location ? photoWithoutLocation : { ...photoWithoutLocation, latitude, longitude };
+  await emitWebhookEvent('photo.uploaded', { photo: { id: photoId, ...webhookPhoto }, actor_id: actorId });
+
+  return {
+    filename,
+    status: 'uploaded',
+    photo: {
+      id: photoId,
+      cloudinary_id: stored.key,
+      storage_provider: storage.name,
+      public_url: storage.getSignedUrl(stored.key),
+      taken_at: metadata.taken_at,
+    },
+  };
+}
+
+/**
+ * Store every file of a parsed batch request, in order. Files skipped for
+ * their type or size and files that fail are reported without stopping the rest.
+ */
+export async function storeUploadedPhotoBatch(
+  req: BatchUploadRequest,
+  options: PhotoUploadOptions,
+  actorId: string
+): Promise<PhotoUploadResult[]> {
+  const parts = req.uploadParts ?? [];
+  const files = [...(req.files ?? [])];
+  const results: PhotoUploadResult[] = [];
+
+  for (const part of parts) {
+    if (!part.accepted) {
+      results.push({ filename: part.filename, status: 'failed', error: INVALID_TYPE_MESSAGE, code: 'INVALID_FILE_TYPE' });
+      continue;
+    }
+
+    const file = files.shift()!;
+    if (!file.buffer) {
+      results.push({ filename: file.originalname, status: 'failed', error: FILE_TOO_LARGE_MESSAGE, code: 'FILE_TOO_LARGE' });
+      continue;
+    }
+
+    try {
+      results.push(await storeUploadedPhoto(file, options, actorId));
+    } catch (error) {
+      console.error(`Photo upload failed for ${file.originalname}:`, error);
+      results.push({ filename: file.originalname, status: 'failed', error: 'Internal server error', code: 'INTERNAL_ERROR' });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * File freshly uploaded photos in the album they were uploaded to - a missing
+ * album only costs the filing, never the upload
+ */
+export async function addUploadedPhotosToAlbum(albumId: number | undefined, photoIds: number[]): Promise<void> {
+  if (!albumId || photoIds.length === 0) return;
+
+  const db = await getDatabase();
+  await db.addPhotosToAlbum(albumId, photoIds).catch(error => {
+    console.error('Adding uploaded photos to album failed:', error);
+  });
+}
@@ -0,0 +1,654 @@
+// lib/reminderDispatcher.ts - Server-side worker that drains the event_reminders table
+import os from 'os';
+import { parseISO, differenceInMinutes } from 'date-fns';
+import {
+  getDatabase,
+  getDefaultReminderDelivery,
+  type ClaimedReminder,
+  type EnhancedEvent,
+  type EventReminder,
+  type NotificationRecipient,
+  type RecipientPreferences
+} from './database';
+import { EventReminderScheduler, NotificationPreferencesManager, type NotificationPreferences } from './eventNotifications';
+import { getEmailTransport } from './email';
+import { absoluteUrl, renderReminderEmail } from './emailTemplates';
+import { isAllowedPushEndpoint, isWebPushConfigured, sendWebPush } from './webPush';
+import { emitWebhookEvent } from './webhooks';
+import { sendWeeklyDigestIfDue } from './weeklyDigest';
+import { RecurringEventCalculator } from '../utils/eventUtils';
+
+// Milestone reminders can be configured up to 30 days ahead
+const MILESTONE_LOOKAHEAD_MS = 30 * 24 * 60 * 60 * 1000;
+
+// reminder_times reminders found later than this are dropped, unless quiet hours held them back
+const PREFERENCE_REMINDER_GRACE_MS = 60 * 60 * 1000;
+const MAX_OCCURRENCES_PER_EVENT = 10;
+
+// How often recurring events are checked for reminders missing on their next occurrence
+const RECURRING_REFRESH_INTERVAL_MS = 15 * 60 * 1000;
+
+const CHANNEL_PREFERENCES: Record<EventReminder['delivery_method'], 'browser_enabled' | 'email_enabled' | 'push_enabled'> = {
+  browser: 'browser_enabled',
+  email: 'email_enabled',
+  push: 'push_enabled',
+};
+
+const PUSH_URGENCY: Record<EventReminder['reminder_type'], 'high' | 'normal' | 'low'> = {
+  urgent: 'high',
+  standard: 'normal',
+  gentle: 'low',
+};
+
+/**
+ * Delivery Payload and Channel Contracts
+ * Channels are registered per delivery_method and throw to signal failure
+ */
+export interface ReminderDeliveryPayload {
+  reminder: ClaimedReminder;
+  title: string;
+  message: string;
+  minutes_before: number;
+  url: string;
+  timezone: string;
+  recipients: NotificationRecipient[]; // Partners to reach on this attempt
+}
+
+export interface ReminderChannel {
+  readonly method: EventReminder['delivery_method'];
+  deliver(payload: ReminderDeliveryPayload): Promise<void>;
+}
+
+export interface ReminderDispatcherOptions {
+  workerId?: string;
+  batchSize?: number;
+  leaseSeconds?: number;
+  maxRetries?: number;
+  baseRetryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  timezone?: string;
+}
+
+export interface DispatchRunResult {
+  claimed: number;
+  sent: number;
+  retried: number;
+  failed: number;
+  skipped: number;
+  deferred: number;
+  digests: number;
+}
+
+/**
+ * In-App Channel
+ * The 'browser' channel - adds the reminder to each recipient's notification
+ * center, which open tabs pick up over the realtime stream and show as a toast
+ */
+export class InAppReminderChannel implements ReminderChannel {
+  readonly method = 'browser' as const;
+
+  async deliver(payload: ReminderDeliveryPayload): Promise<void> {
+    const db = await getDatabase();
+    const created = await db.createNotifications(
+      payload.recipients.map((recipient) => recipient.id),
+      {
+        type: 'reminder',
+        title: payload.title,
+        message: payload.message,
+        url: payload.url,
+        event_id: payload.reminder.event.is_virtual ? undefined : payload.reminder.event_id,
+      }
+    );
+
+    if (created.length < payload.recipients.length) {
+      throw new Error('Could not add the reminder to the notification center');
+    }
+  }
+}
+
+/**
+ * Web Push Channel
+ * Sends the reminder to every subscribed device of the recipients. Devices the
+ * push service reports as gone are unsubscribed; the attempt only fails (and
+ * is retried) when no device could be reached
+ */
+export class PushReminderChannel implements ReminderChannel {
+  readonly method = 'push' as const;
+
+  async deliver(payload: ReminderDeliveryPayload): Promise<void> {
+    const db = await getDatabase();
+    const recipientIds = new Set(payload.recipients.map((recipient) => recipient.id));
+    const subscriptions = (await db.getPushSubscriptions()).filter((subscription) => recipientIds.has(subscription.user_id));
+
+    if (subscriptions.length === 0) {
+      console.warn(`🔕 [reminder ${payload.reminder.id}] No push subscriptions - ${payload.title}: ${payload.message}`);
+      return;
+    }
+
+    const errors: string[] = [];
+    let delivered = 0;
+
+    for (const subscription of subscriptions) {
+      // Stored before endpoints were restricted - never post to it
+      if (!isAllowedPushEndpoint(subscription.endpoint)) {
+        await db.deletePushSubscription(subscription.endpoint);
+        console.log(`🔕 Removed push subscription ${subscription.id} with a disallowed endpoint`);
+        continue;
+      }
+
+      try {
+        const outcome = await sendWebPush(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          {
+            title: payload.title,
+            body: payload.message,
+            url: payload.url,
+            tag: `reminder-${payload.reminder.event_id}`,
+          },
+          {
+            ttl: Math.max(60, payload.minutes_before * 60), // Useless once the event has started
+            urgency: PUSH_URGENCY[payload.reminder.reminder_type],
+          }
+        );
+
+        if (outcome === 'expired') {
+          await db.deletePushSubscription(subscription.endpoint);
+          console.log(`🔕 Removed expired push subscription ${subscription.id}`);
+        } else {
+          delivered++;
+          await db.markPushSubscriptionUsed(subscription.id);
+        }
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    if (delivered === 0 && errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+  }
+}
+
+/**
+ * Email Channel
+ * Emails the reminder to the recipients through the configured transport
+ * (SMTP, or the console when SMTP_HOST is not set)
+ */
+export class EmailReminderChannel implements ReminderChannel {
+  readonly method = 'email' as const;
+
+  async deliver(payload: ReminderDeliveryPayload): Promise<void> {
+    const recipients = payload.recipients.filter((recipient) => recipient.email);
+
+    if (recipients.length === 0) {
+      console.warn(`✉️  [reminder ${payload.reminder.id}] No email recipients - ${payload.title}: ${payload.message}`);
+      return;
+    }
+
+    const email = renderReminderEmail({
+      title: payload.title,
+      message: payload.message,
+      url: payload.url,
+      event: payload.reminder.event,
+      timezone: payload.timezone,
+    });
+
+    await getEmailTransport().send({ to: recipients.map((recipient) => recipient.email), ...email });
+  }
+}
+
+/**
+ * Reminder Dispatcher
+ * Polls due pending reminders, delivers them through pluggable channels and
+ * records the outcome with exponential backoff between retries
+ *
+ * Concurrency: reminders are leased via claimDueReminders, so any number of
+ * dispatcher instances can run against the same database without sending
+ * the same reminder twice
+ *
+ * Preferences: each partner only gets reminders through channels they allow.
+ * A partner in quiet hours gets the reminder when they end - the row is
+ * deferred and remembers who has already been reached.
+ */
+export class ReminderDispatcher {
+  private readonly channels = new Map<EventReminder['delivery_method'], ReminderChannel>();
+  private readonly options: Required<ReminderDispatcherOptions>;
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private lastRecurringRefresh = 0;
+
+  constructor(options: ReminderDispatcherOptions = {}) {
+    this.options = {
+      workerId: options.workerId || `${os.hostname()}-${process.pid}-${Math.random().toString(36).slice(2, 8)}`,
+      batchSize: options.batchSize ?? 25,
+      leaseSeconds: options.leaseSeconds ?? 300,
+      maxRetries: options.maxRetries ?? parseInt(process.env.REMINDER_MAX_RETRIES || '5', 10),
+      baseRetryDelayMs: options.baseRetryDelayMs ?? 60 * 1000, // 1 minute
+      maxRetryDelayMs: options.maxRetryDelayMs ?? 6 * 60 * 60 * 1000, // 6 hours
+      timezone: options.timezone || process.env.REMINDER_TIMEZONE || 'Asia/Ho_Chi_Minh',
+    };
+  }
+
+  get workerId(): string {
+    return this.options.workerId;
+  }
+
+  /**
+   * Register (or replace) the channel for a delivery method
+   */
+  registerChannel(channel: ReminderChannel): this {
+    this.channels.set(channel.method, channel);
+    return this;
+  }
+
+  /**
+   * Drain one batch of due reminders
+   * Safe to call from an API route or cron trigger
+   */
+  async runOnce(): Promise<DispatchRunResult> {
+    const result: DispatchRunResult = { claimed: 0, sent: 0, retried: 0, failed: 0, skipped: 0, deferred: 0, digests: 0 };
+
+    if (this.isRunning) {
+      return result; // Previous tick still in progress
+    }
+
+    this.isRunning = true;
+    try {
+      const db = await getDatabase();
+      const recipients = await db.getRecipientPreferences();
+      const reminders = await db.claimDueReminders(
+        this.options.workerId,
+        this.options.batchSize,
+        this.options.leaseSeconds
+      );
+      result.claimed = reminders.length;
+
+      for (const reminder of reminders) {
+        const channel = this.channels.get(reminder.delivery_method);
+
+        try {
+          if (!channel) {
+            throw new Error(`No channel registered for delivery method "${reminder.delivery_method}"`);
+          }
+
+          const payload = this.buildPayload(reminder, []);
+          if (!reminder.last_attempt) {
+            await this.emitReminderDue(payload);
+          }
+
+          const { awake, resumeAt } = this.splitByQuietHours(
+            recipients.filter((recipient) => (
+              this.allowsChannel(recipient.preferences, reminder.delivery_method) &&
+              !reminder.delivered_to.includes(recipient.id)
+            )),
+            new Date()
+          );
+          if (awake.length > 0) {
+            await channel.deliver({ ...payload, recipients: awake });
+          }
+
+          if (resumeAt) {
+            const deliveredTo = [...reminder.delivered_to, ...awake.map((recipient) => recipient.id)];
+            if (await db.deferReminder(reminder.id, this.options.workerId, resumeAt, deliveredTo)) {
+              result.deferred++;
+            } else {
+              result.skipped++;
+            }
+          } else if (await db.markReminderSent(reminder.id, this.options.workerId)) {
+            result.sent++;
+            await this.scheduleNextOccurrence(reminder);
+          } else {
+            // Lease expired and was taken over - another worker owns the outcome now
+            result.skipped++;
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          const status = await db.markReminderAttemptFailed(
+            reminder.id,
+            this.options.workerId,
+            message,
+            this.options.maxRetries,
+            this.getRetryDelay(reminder.retry_count)
+          );
+
+          if (status === 'failed') {
+            result.failed++;
+            console.error(`❌ Reminder ${reminder.id} failed permanently: ${message}`);
+            await this.scheduleNextOccurrence(reminder);
+          } else if (status === 'pending') {
+            result.retried++;
+            console.warn(`🔁 Reminder ${reminder.id} will be retried: ${message}`);
+          } else {
+            result.skipped++;
+          }
+        }
+      }
+
+      if (Date.now() - this.lastRecurringRefresh >= RECURRING_REFRESH_INTERVAL_MS) {
+        this.lastRecurringRefresh = Date.now();
+        await db.refreshRecurringReminders();
+      }
+
+      await this.dispatchMilestoneReminders(result, recipients);
+      await this.dispatchPreferenceReminders(result, recipients);
+      await this.dispatchWeeklyDigest(result);
+    } finally {
+      this.isRunning = false;
+    }
+
+    return result;
+  }
+
+  /**
+   * Virtual milestones have no event_reminders rows - a milestone_reminders
+   * row is inserted on first claim instead, which makes delivery at-most-once
+   * across dispatchers. Milestones whose day has already passed are skipped,
+   * and claiming waits while any partner who would get it is in quiet hours.
+   */
+  private async dispatchMilestoneReminders(result: DispatchRunResult, recipients: RecipientPreferences[]): Promise<void> {
+    const db = await getDatabase();
+    const now = new Date();
+    const milestones = await db.getVirtualMilestones(
+      new Date(now.getTime() - 24 * 60 * 60 * 1000),
+      new Date(now.getTime() + MILESTONE_LOOKAHEAD_MS)
+    );
+    const preferredMethod = getDefaultReminderDelivery();
+    const deliveryMethod: EventReminder['delivery_method'] = this.channels.has(preferredMethod) ? preferredMethod : 'browser';
+    const channel = this.channels.get(deliveryMethod);
+    const milestoneRecipients = recipients.filter((recipient) => this.allowsChannel(recipient.preferences, deliveryMethod));
+    const { resumeAt } = this.splitByQuietHours(milestoneRecipients, now);
+
+    for (const event of milestones) {
+      const eventTime = new Date(event.date);
+      const reminderTime = new Date(eventTime.getTime() - (event.reminder_minutes || 0) * 60 * 1000);
+      if (!event.milestone_key || reminderTime > now || differenceInMinutes(now, eventTime) >= 24 * 60) {
+        continue;
+      }
+      if (milestoneRecipients.length === 0 || resumeAt) {
+        continue;
+      }
+
+      if (!(await db.claimMilestoneReminder(event.milestone_key, reminderTime.toISOString()))) {
+        continue; // Already delivered (or being delivered) by another run
+      }
+      result.claimed++;
+
+      const reminder: ClaimedReminder = {
+        id: event.id,
+        event_id: event.id,
+        reminder_time: reminderTime.toISOString(),
+        reminder_type: 'gentle',
+        status: 'pending',
+        delivery_method: deliveryMethod,
+        retry_count: 0,
+        delivered_to: [],
+        created_at: now.toISOString(),
+        event,
+      };
+
+      try {
+        if (!channel) {
+          throw new Error(`No channel registered for delivery method "${deliveryMethod}"`);
+        }
+
+        const payload = this.buildPayload(reminder, milestoneRecipients);
+        await this.emitReminderDue(payload);
+        await channel.deliver(payload);
+        await db.markMilestoneReminder(event.milestone_key, 'sent');
+        result.sent++;
+      } catch (error) {
+        await db.markMilestoneReminder(event.milestone_key, 'failed');
+        result.failed++;
+        console.error(`❌ Milestone reminder ${event.milestone_key} failed: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  /**
+   * Reminders from each partner's reminder_times have no event_reminders
+   * rows - like milestones, a preference_reminders row is claimed per event
+   * occurrence, partner and lead time. Each goes out through one channel the
+   * partner allows, preferring the default delivery method. Lead times the
+   * event already has its own reminder for are skipped, as are reminders
+   * found over an hour late unless quiet hours held them back.
+   */
+  private async dispatchPreferenceReminders(result: DispatchRunResult, recipients: RecipientPreferences[]): Promise<void> {
+    const now = new Date();
+    const longestLead = Math.max(0, ...recipients.flatMap((recipient) => recipient.preferences.reminder_times));
+    if (longestLead === 0) return;
+
+    const db = await getDatabase();
+    const rangeEnd = new Date(now.getTime() + longestLead * 60 * 1000);
+    const storedEvents = await db.getEventsInRange(now, rangeEnd);
+
+    for (const storedEvent of storedEvents) {
+      // node-postgres hands back Date objects - the calculator works on ISO strings
+      const event = { ...storedEvent, date: new Date(storedEvent.date).toISOString() } as EnhancedEvent;
+      const createdAt = new Date(event.created_at);
+      const occurrences = RecurringEventCalculator.calculateOccurrences(event, now, rangeEnd, MAX_OCCURRENCES_PER_EVENT);
+
+      for (const occurrence of occurrences) {
+        const occurrenceTime = new Date(occurrence.date);
+        const occurrenceEvent: EnhancedEvent = {
+          ...event,
+          date: occurrenceTime.toISOString(),
+          title: occurrence.title || event.title,
+          location: occurrence.location || event.location,
+          description: occurrence.description || event.description,
+        };
+
+        for (const recipient of recipients) {
+          const { preferences } = recipient;
+          const channel = this.getPreferenceChannel(preferences);
+          if (!channel || NotificationPreferencesManager.isQuietTime(preferences, now)) {
+            continue;
+          }
+
+          for (const minutesBefore of preferences.reminder_times) {
+            const reminderTime = new Date(occurrenceTime.getTime() - minutesBefore * 60 * 1000);
+            if (
+              event.reminders.some((reminder) => reminder.minutes_before === minutesBefore) ||
+              reminderTime > now ||
+              reminderTime < createdAt ||
+              (now.getTime() - reminderTime.getTime() > PREFERENCE_REMINDER_GRACE_MS &&
+                !NotificationPreferencesManager.isQuietTime(preferences, reminderTime))
+            ) {
+              continue;
+            }
+
+            const occurrenceDate = occurrenceEvent.date;
+            if (!(await db.claimPreferenceReminder(event.id, recipient.id, minutesBefore, occurrenceDate))) {
+              continue;
+            }
+            result.claimed++;
+
+            try {
+              await channel.deliver(this.buildPayload({
+                id: event.id,
+                event_id: event.id,
+                reminder_time: reminderTime.toISOString(),
+                reminder_type: 'standard',
+                status: 'pending',
+                delivery_method: channel.method,
+                retry_count: 0,
+                delivered_to: [],
+                created_at: now.toISOString(),
+                event: occurrenceEvent,
+              }, [recipient]));
+              await db.markPreferenceReminder(event.id, recipient.id, minutesBefore, occurrenceDate, 'sent');
+              result.sent++;
+            } catch (error) {
+              await db.markPreferenceReminder(event.id, recipient.id, minutesBefore, occurrenceDate, 'failed');
+              result.failed++;
+              console.error(
+                `❌ Reminder ${minutesBefore}m before event ${event.id} for user ${recipient.id} failed: ` +
+                `${error instanceof Error ? error.message : error}`
+              );
+            }
+          }
+        }
+      }
+    }
+  }
+
+  private allowsChannel(preferences: NotificationPreferences, method: EventReminder['delivery_method']): boolean {
+    return preferences[CHANNEL_PREFERENCES[method]];
+  }
+
+  /**
+   * Registered channel for a partner's reminder_times reminders, if they allow any
+   */
+  private getPreferenceChannel(preferences: NotificationPreferences): ReminderChannel | undefined {
+    const order: EventReminder['delivery_method'][] = [getDefaultReminderDelivery(), 'push', 'email', 'browser'];
+    const method = order.find((candidate) => this.channels.has(candidate) && this.allowsChannel(preferences, candidate));
+    return method ? this.channels.get(method) : undefined;
+  }
+
+  /**
+   * A recurring event's reminder is done with its occurrence - set it up for the next one
+   */
+  private async scheduleNextOccurrence(reminder: ClaimedReminder): Promise<void> {
+    if (reminder.event.is_recurring) {
+      const db = await getDatabase();
+      await db.refreshEventReminders(reminder.event_id);
+    }
+  }
+
+  /**
+   * Recipients who can be reached now, and the earliest end of quiet hours
+   * among the rest (null when nobody is in quiet hours)
+   */
+  private splitByQuietHours(
+    recipients: RecipientPreferences[],
+    now: Date
+  ): { awake: RecipientPreferences[]; resumeAt: Date | null } {
+    const awake: RecipientPreferences[] = [];
+    let resumeAt: Date | null = null;
+
+    for (const recipient of recipients) {
+      const deliveryTime = NotificationPreferencesManager.getDeliveryTime(recipient.preferences, now);
+      if (deliveryTime <= now) {
+        awake.push(recipient);
+      } else if (!resumeAt || deliveryTime < resumeAt) {
+        resumeAt = deliveryTime;
+      }
+    }
+
+    return { awake, resumeAt };
+  }
+
+  /**
+   * Webhooks hear about each reminder once, on its first attempt, whichever
+   * channel ends up delivering it and even while partners are in quiet hours
+   */
+  private async emitReminderDue(payload: ReminderDeliveryPayload): Promise<void> {
+    const { reminder } = payload;
+    await emitWebhookEvent('reminder.due', {
+      reminder: {
+        id: reminder.event.is_virtual ? null : reminder.id, // Virtual milestones have no event_reminders row
+        reminder_time: reminder.reminder_time,
+        reminder_type: reminder.reminder_type,
+        delivery_method: reminder.delivery_method,
+        minutes_before: payload.minutes_before,
+      },
+      event: reminder.event,
+      title: payload.title,
+      message: payload.message,
+      url: absoluteUrl(payload.url),
+    });
+  }
+
+  /**
+   * The weekly digest rides on the dispatcher's polling - it is a no-op
+   * except on the configured day, and sent at most once per week
+   */
+  private async dispatchWeeklyDigest(result: DispatchRunResult): Promise<void> {
+    try {
+      if ((await sendWeeklyDigestIfDue()) === 'sent') {
+        result.digests++;
+      }
+    } catch (error) {
+      console.error(`❌ Weekly digest failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Start polling on a fixed interval
+   */
+  start(intervalMs: number = 30 * 1000): void {
+    if (this.timer) return;
+
+    const tick = () => {
+      this.runOnce()
+        .then((result) => {
+          if (result.claimed > 0 || result.deferred > 0 || result.digests > 0) {
+            console.log(`📬 Reminder dispatch: ${JSON.stringify(result)}`);
+          }
+        })
+        .catch((error) => {
+          console.error('Reminder dispatch tick failed:', error);
+        });
+    };
+
+    tick();
+    this.timer = setInterval(tick, intervalMs);
+  }
+
+  /**
+   * Stop polling - in-flight batch is allowed to finish
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Exponential backoff: base * 2^attempt, capped at maxRetryDelayMs
+   */
+  private getRetryDelay(retryCount: number): number {
+    return Math.min(
+      this.options.baseRetryDelayMs * Math.pow(2, retryCount),
+      this.options.maxRetryDelayMs
+    );
+  }
+
+  private buildPayload(reminder: ClaimedReminder, recipients: NotificationRecipient[]): ReminderDeliveryPayload {
+    const minutesBefore = Math.max(
+      0,
+      differenceInMinutes(parseISO(reminder.event.date), new Date(reminder.reminder_time))
+    );
+    const timezone = reminder.event.timezone || this.options.timezone;
+    const { title, message } = EventReminderScheduler.buildReminderContent(reminder.event, minutesBefore, timezone);
+
+    return {
+      reminder,
+      title,
+      message,
+      minutes_before: minutesBefore,
+      url: reminder.event.is_virtual ? '/events' : `/events?highlight=${reminder.event_id}`,
+      timezone,
+      recipients,
+    };
+  }
+}
+
+let sharedDispatcher: ReminderDispatcher | null = null;
+
+/**
+ * Get Shared Dispatcher - Singleton with default channels registered
+ * Email goes to the console until SMTP is configured; Web Push is added
+ * when VAPID keys are configured
+ */
+export function getReminderDispatcher(): ReminderDispatcher {
+  if (!sharedDispatcher) {
+    sharedDispatcher = new ReminderDispatcher()
+      .registerChannel(new InAppReminderChannel())
+      .registerChannel(new EmailReminderChannel());
+    if (isWebPushConfigured()) {
+      sharedDispatcher.registerChannel(new PushReminderChannel());
+    }
+  }
+  return sharedDispatcher;
+}
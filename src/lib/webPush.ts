@@ -0,0 +1,248 @@
+// lib/webPush.ts - Web Push delivery (VAPID, RFC 8292) with aes128gcm payloads (RFC 8291)
+import {
+  createCipheriv,
+  createECDH,
+  createPrivateKey,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+  sign,
+  type KeyObject
+} from 'crypto';
+import { BlockList, isIP } from 'net';
+
+/**
+ * Configuration comes from the environment:
+ *   VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY - base64url keys from `npm run push:generate-keys`
+ *   VAPID_SUBJECT - mailto: or https: contact for the push service operator
+ */
+export interface VapidKeys {
+  publicKey: string; // Uncompressed P-256 point, base64url - what browsers get as applicationServerKey
+  privateKey: string; // P-256 private scalar, base64url
+}
+
+// Browser PushSubscription.toJSON() shape, as stored per device
+export interface WebPushSubscription {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+export interface WebPushMessage {
+  title: string;
+  body: string;
+  url: string; // Opened when the notification is clicked
+  tag?: string; // Notifications with the same tag replace each other
+}
+
+export interface WebPushOptions {
+  ttl?: number; // Seconds the push service keeps the message for an offline device
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  timeoutMs?: number; // How long to wait for the push service before giving up
+}
+
+// 'expired' - the push service no longer knows the subscription (404/410) and it should be removed
+export type WebPushResult = 'sent' | 'expired';
+
+const RECORD_SIZE = 4096;
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60; // RFC 8292 caps it at 24 hours
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_SUBJECT = 'mailto:admin@localhost';
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+
+const MAX_ENDPOINT_LENGTH = 2000;
+
+// Loopback, private, link-local and other non-public ranges a push service never lives in
+const INTERNAL_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+].forEach(([network, prefix]) => INTERNAL_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([network, prefix]) => INTERNAL_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+const toBase64Url = (buffer: Buffer) => buffer.toString('base64url');
+const fromBase64Url = (value: string) => Buffer.from(value, 'base64url');
+
+/**
+ * Create a new VAPID key pair
+ * Rotating keys invalidates every stored subscription
+ */
+export function generateVapidKeys(): VapidKeys {
+  const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const publicJwk = publicKey.export({ format: 'jwk' });
+  const privateJwk = privateKey.export({ format: 'jwk' });
+
+  return {
+    publicKey: toBase64Url(Buffer.concat([
+      Buffer.from([0x04]),
+      fromBase64Url(publicJwk.x!),
+      fromBase64Url(publicJwk.y!)
+    ])),
+    privateKey: privateJwk.d!
+  };
+}
+
+export function getVapidPublicKey(): string | null {
+  return process.env.VAPID_PUBLIC_KEY || null;
+}
+
+export function isWebPushConfigured(): boolean {
+  return Boolean(process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY);
+}
+
+/**
+ * Whether a client-sent subscription endpoint may be stored and posted to:
+ * https only, and never a loopback or private host - the server sends a
+ * request to whatever endpoint a browser registered
+ */
+export function isAllowedPushEndpoint(endpoint: unknown): endpoint is string {
+  if (typeof endpoint !== 'string' || endpoint.length > MAX_ENDPOINT_LENGTH) return false;
+
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.username || url.password) return false;
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return false;
+  }
+
+  const family = isIP(host);
+  if (family === 0) return host.includes('.'); // Single-label names only resolve on the local network
+  return !INTERNAL_ADDRESSES.check(host, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function getVapidSigningKey(keys: VapidKeys): KeyObject {
+  const point = fromBase64Url(keys.publicKey);
+  if (point.length !== 65 || point[0] !== 0x04) {
+    throw new Error('VAPID_PUBLIC_KEY must be an uncompressed P-256 public key');
+  }
+
+  return createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: toBase64Url(point.subarray(1, 33)),
+      y: toBase64Url(point.subarray(33, 65)),
+      d: keys.privateKey
+    },
+    format: 'jwk'
+  });
+}
+
+/**
+ * VAPID Authorization header - an ES256 JWT scoped to the push service origin
+ */
+function buildVapidAuthorization(endpoint: string, keys: VapidKeys, subject: string): string {
+  const header = toBase64Url(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = toBase64Url(Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + JWT_LIFETIME_SECONDS,
+    sub: subject
+  })));
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key: getVapidSigningKey(keys),
+    dsaEncoding: 'ieee-p1363' // JWS wants raw r||s, not DER
+  });
+
+  return `vapid t=${header}.${claims}.${toBase64Url(signature)}, k=${keys.publicKey}`;
+}
+
+/**
+ * Encrypt a payload for one subscription (single aes128gcm record)
+ */
+function encryptPayload(subscription: WebPushSubscription, payload: Buffer): Buffer {
+  const userAgentPublicKey = fromBase64Url(subscription.keys.p256dh);
+  const authSecret = fromBase64Url(subscription.keys.auth);
+
+  // Fresh sender key pair and salt per message
+  const ecdh = createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+  const salt = randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]);
+  const inputKey = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  if (payload.length + 17 > RECORD_SIZE) {
+    throw new Error('Push payload is too large');
+  }
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([payload, Buffer.from([0x02])])), // 0x02 marks the last record
+    cipher.final(),
+    cipher.getAuthTag()
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+/**
+ * Send One Push Message
+ * Resolves 'expired' for subscriptions the push service has dropped; throws
+ * on any other failure so the caller can retry
+ */
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  message: WebPushMessage,
+  options: WebPushOptions = {}
+): Promise<WebPushResult> {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) {
+    throw new Error('Web Push is not configured (VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY)');
+  }
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let response: Response;
+  try {
+    response = await fetch(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': buildVapidAuthorization(
+          subscription.endpoint,
+          { publicKey, privateKey },
+          process.env.VAPID_SUBJECT || DEFAULT_SUBJECT
+        ),
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        'TTL': String(options.ttl ?? DEFAULT_TTL_SECONDS),
+        'Urgency': options.urgency || 'normal'
+      },
+      body: encryptPayload(subscription, Buffer.from(JSON.stringify(message))),
+      redirect: 'error', // A redirect could point the request anywhere
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+  } catch (error) {
+    // A push service that never answers must not hold up the dispatcher - the caller retries
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new Error(`Push service did not respond within ${timeoutMs / 1000}s`);
+    }
+    throw error;
+  }
+
+  if (response.status === 404 || response.status === 410) {
+    return 'expired';
+  }
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`Push service responded ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
+  return 'sent';
+}
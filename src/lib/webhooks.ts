@@ -0,0 +1,334 @@
+// lib/webhooks.ts - Signed outgoing webhooks with a leased, retrying delivery queue
+import os from 'os';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { getDatabase, type ClaimedWebhookDelivery, type WebhookAttemptOutcome } from './database';
+import {
+  WEBHOOK_EVENT_TYPES,
+  type Webhook,
+  type WebhookEventType,
+  type WebhookInput,
+  type WebhookPayload,
+  type WebhookWithSecret
+} from '../types/webhook';
+
+/**
+ * Every request is a JSON POST of WebhookPayload with these headers:
+ *   X-LoveStory-Event      - event type, e.g. "event.created"
+ *   X-LoveStory-Delivery   - delivery id (also the payload id), stable across retries
+ *   X-LoveStory-Timestamp  - unix seconds when this attempt was signed
+ *   X-LoveStory-Signature  - "sha256=" + hex HMAC-SHA256 of `${timestamp}.${body}`
+ *
+ * Receivers should recompute the signature with their secret, compare in
+ * constant time and reject old timestamps to prevent replays.
+ * Any 2xx response counts as delivered; anything else is retried.
+ */
+export interface WebhookDispatcherOptions {
+  workerId?: string;
+  batchSize?: number;
+  leaseSeconds?: number;
+  maxAttempts?: number;
+  baseRetryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  timeoutMs?: number;
+}
+
+export interface WebhookRunResult {
+  claimed: number;
+  succeeded: number;
+  retried: number;
+  failed: number;
+}
+
+const SIGNATURE_PREFIX = 'sha256=';
+const USER_AGENT = 'LoveStory-Webhooks/1.0';
+const MAX_RESPONSE_BODY = 2000;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return SIGNATURE_PREFIX + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Receiver-side check, exported for home automation scripts written against this app
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  toleranceSeconds: number = 300
+): boolean {
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const provided = Buffer.from(signature);
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+/**
+ * Validate a create (all fields) or update (only the fields present) body
+ */
+export function validateWebhookInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): { value?: Partial<WebhookInput>; error?: string } {
+  const value: Partial<WebhookInput> = {};
+
+  if (!partial || body.url !== undefined) {
+    let url: URL | null = null;
+    try {
+      url = typeof body.url === 'string' && body.url.length <= 2000 ? new URL(body.url) : null;
+    } catch {
+      url = null;
+    }
+    if (!url || !['http:', 'https:'].includes(url.protocol)) {
+      return { error: 'url must be an http(s) URL' };
+    }
+    value.url = url.toString();
+  }
+
+  if (body.description !== undefined && body.description !== null) {
+    if (typeof body.description !== 'string' || body.description.length > 200) {
+      return { error: 'description must be text of at most 200 characters' };
+    }
+    value.description = body.description.trim();
+  }
+
+  if (!partial || body.events !== undefined) {
+    const events = body.events;
+    if (
+      !Array.isArray(events) ||
+      events.length === 0 ||
+      !events.every((type) => (WEBHOOK_EVENT_TYPES as readonly unknown[]).includes(type))
+    ) {
+      return { error: `events must list at least one of: ${WEBHOOK_EVENT_TYPES.join(', ')}` };
+    }
+    value.events = Array.from(new Set(events as WebhookEventType[]));
+  }
+
+  if (body.is_active !== undefined) {
+    if (typeof body.is_active !== 'boolean') {
+      return { error: 'is_active must be a boolean' };
+    }
+    value.is_active = body.is_active;
+  }
+
+  return { value };
+}
+
+/**
+ * API shape of a webhook - the secret only leaves the server when created or rotated
+ */
+export function toPublicWebhook(webhook: WebhookWithSecret | Webhook): Webhook {
+  const { secret: _secret, ...rest } = webhook as WebhookWithSecret;
+  return rest;
+}
+
+/**
+ * Webhook Dispatcher
+ * Drains webhook_deliveries like the reminder dispatcher drains
+ * event_reminders: deliveries are leased per worker and retried with
+ * exponential backoff until maxAttempts
+ */
+export class WebhookDispatcher {
+  private readonly options: Required<WebhookDispatcherOptions>;
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private kickPending = false;
+
+  constructor(options: WebhookDispatcherOptions = {}) {
+    this.options = {
+      workerId: options.workerId || `${os.hostname()}-${process.pid}-webhooks-${Math.random().toString(36).slice(2, 8)}`,
+      batchSize: options.batchSize ?? 25,
+      leaseSeconds: options.leaseSeconds ?? 120,
+      maxAttempts: options.maxAttempts ?? parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10),
+      baseRetryDelayMs: options.baseRetryDelayMs ?? 30 * 1000, // 30 seconds
+      maxRetryDelayMs: options.maxRetryDelayMs ?? 6 * 60 * 60 * 1000, // 6 hours
+      timeoutMs: options.timeoutMs ?? 10 * 1000,
+    };
+  }
+
+  /**
+   * Deliver one batch of due webhooks
+   */
+  async runOnce(): Promise<WebhookRunResult> {
+    const result: WebhookRunResult = { claimed: 0, succeeded: 0, retried: 0, failed: 0 };
+
+    if (this.isRunning) {
+      return result; // Previous tick still in progress
+    }
+
+    this.isRunning = true;
+    try {
+      const db = await getDatabase();
+      const deliveries = await db.claimDueWebhookDeliveries(
+        this.options.workerId,
+        this.options.batchSize,
+        this.options.leaseSeconds
+      );
+      result.claimed = deliveries.length;
+
+      for (const delivery of deliveries) {
+        const outcome = await this.send(delivery);
+        const status = await db.recordWebhookAttempt(
+          delivery.id,
+          this.options.workerId,
+          outcome,
+          this.options.maxAttempts,
+          this.getRetryDelay(delivery.attempt_count)
+        );
+
+        if (status === 'succeeded') {
+          result.succeeded++;
+        } else if (status === 'failed') {
+          result.failed++;
+          console.error(`❌ Webhook delivery ${delivery.delivery_id} to ${delivery.url} failed permanently: ${outcome.error}`);
+        } else if (status === 'pending') {
+          result.retried++;
+          console.warn(`🔁 Webhook delivery ${delivery.delivery_id} will be retried: ${outcome.error}`);
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+
+    if (this.kickPending) {
+      this.kickPending = false;
+      this.kick();
+    }
+
+    return result;
+  }
+
+  /**
+   * Deliver newly queued webhooks as soon as possible without waiting for the
+   * next poll - a run already in progress is followed by another one
+   */
+  kick(): void {
+    if (this.isRunning) {
+      this.kickPending = true;
+      return;
+    }
+
+    this.runOnce().catch((error) => {
+      console.error('Immediate webhook dispatch failed:', error);
+    });
+  }
+
+  /**
+   * POST one delivery - never throws, the outcome is recorded either way
+   */
+  private async send(delivery: ClaimedWebhookDelivery): Promise<WebhookAttemptOutcome> {
+    const payload: WebhookPayload = {
+      id: delivery.delivery_id,
+      type: delivery.event_type,
+      created_at: new Date(delivery.created_at).toISOString(),
+      data: delivery.data,
+    };
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': USER_AGENT,
+          'X-LoveStory-Event': delivery.event_type,
+          'X-LoveStory-Delivery': delivery.delivery_id,
+          'X-LoveStory-Timestamp': String(timestamp),
+          'X-LoveStory-Signature': signWebhookPayload(delivery.secret, timestamp, body),
+        },
+        body,
+        redirect: 'manual', // A redirect would drop the signed body - treat it as a failure
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+      const responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY);
+
+      return {
+        responseStatus: response.status,
+        responseBody,
+        durationMs: Date.now() - startedAt,
+        error: response.ok ? undefined : `Endpoint responded ${response.status}`,
+      };
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      return {
+        durationMs: Date.now() - startedAt,
+        error: timedOut
+          ? `No response within ${this.options.timeoutMs / 1000}s`
+          : error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Start polling on a fixed interval
+   */
+  start(intervalMs: number = 15 * 1000): void {
+    if (this.timer) return;
+
+    const tick = () => {
+      this.runOnce()
+        .then((result) => {
+          if (result.claimed > 0) {
+            console.log(`🪝 Webhook dispatch: ${JSON.stringify(result)}`);
+          }
+        })
+        .catch((error) => {
+          console.error('Webhook dispatch tick failed:', error);
+        });
+    };
+
+    tick();
+    this.timer = setInterval(tick, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Exponential backoff: base * 2^attempt, capped at maxRetryDelayMs
+   */
+  private getRetryDelay(attemptCount: number): number {
+    return Math.min(
+      this.options.baseRetryDelayMs * Math.pow(2, attemptCount),
+      this.options.maxRetryDelayMs
+    );
+  }
+}
+
+let sharedDispatcher: WebhookDispatcher | null = null;
+
+export function getWebhookDispatcher(): WebhookDispatcher {
+  if (!sharedDispatcher) {
+    sharedDispatcher = new WebhookDispatcher();
+  }
+  return sharedDispatcher;
+}
+
+/**
+ * Emit a Webhook Event
+ * Queues a delivery for every subscribed webhook and starts sending right
+ * away; the worker (or the dispatch cron) picks up whatever is left over.
+ * Never throws - a webhook problem must not fail the request that caused it
+ */
+export async function emitWebhookEvent(type: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+  try {
+    const db = await getDatabase();
+    const queued = await db.enqueueWebhookEvent(type, data);
+    if (queued > 0) {
+      getWebhookDispatcher().kick();
+    }
+  } catch (error) {
+    console.error(`Failed to emit ${type} webhook:`, error);
+  }
+}
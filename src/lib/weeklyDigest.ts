@@ -0,0 +1,219 @@
+// lib/weeklyDigest.ts - Weekly "what's coming up for us" email
+import { addDays } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { getDatabase, type CoupleInfo } from './database';
+import { getEmailTransport, isEmailConfigured } from './email';
+import { renderDigestEmail, type RenderedEmail } from './emailTemplates';
+import { RecurringEventCalculator } from '../utils/eventUtils';
+import { DEFAULT_MILESTONE_TIMEZONE } from '../utils/milestones';
+import type { EnhancedEvent } from '../types/event';
+
+/**
+ * Configuration comes from the environment:
+ *   EMAIL_DIGEST_ENABLED - "false" turns the digest off (it is on whenever SMTP_HOST is set)
+ *   EMAIL_DIGEST_DAY - weekday it goes out, 0 = Sunday ... 6 = Saturday (default 1, Monday)
+ *   EMAIL_DIGEST_HOUR - local hour in REMINDER_TIMEZONE from which it is sent (default 8)
+ *
+ * The reminder dispatcher checks on every run; email_digests makes sure each
+ * week is sent once no matter how many workers are polling.
+ */
+export interface WeeklyDigestItem {
+  title: string;
+  date: string; // ISO instant
+  is_all_day: boolean;
+  location?: string;
+  url: string; // Path inside the app
+}
+
+export interface WeeklyDigest {
+  period_start: string; // Local calendar date (yyyy-MM-dd) the digest covers from
+  timezone: string;
+  couple_names?: string;
+  events: WeeklyDigestItem[]; // Next EVENT_WINDOW_DAYS
+  birthdays: WeeklyDigestItem[]; // Next LOOKAHEAD_DAYS
+  milestones: WeeklyDigestItem[]; // Next LOOKAHEAD_DAYS
+}
+
+export type WeeklyDigestResult = 'sent' | 'not_due' | 'already_sent' | 'disabled';
+
+const EVENT_WINDOW_DAYS = 7;
+const LOOKAHEAD_DAYS = 30; // Birthdays and milestones are worth knowing about earlier
+const MAX_EVENTS = 25;
+const MAX_OCCURRENCES_PER_EVENT = 50;
+
+export function isWeeklyDigestEnabled(): boolean {
+  return isEmailConfigured() && process.env.EMAIL_DIGEST_ENABLED !== 'false';
+}
+
+function getDigestTimezone(): string {
+  return process.env.REMINDER_TIMEZONE || DEFAULT_MILESTONE_TIMEZONE;
+}
+
+/**
+ * Next occurrence of an MM-DD birthday on or after a calendar date
+ * Feb 29 birthdays fall on Feb 28 in other years
+ */
+function nextBirthday(monthDay: string, fromDate: string): string | null {
+  const match = /^(\d{2})-(\d{2})$/.exec(monthDay || '');
+  if (!match) return null;
+
+  const [month, day] = [parseInt(match[1], 10), parseInt(match[2], 10)];
+  const fromYear = parseInt(fromDate.slice(0, 4), 10);
+
+  for (const year of [fromYear, fromYear + 1]) {
+    const candidate = new Date(Date.UTC(year, month - 1, day));
+    const date = candidate.getUTCDate() === day
+      ? candidate
+      : new Date(Date.UTC(year, month - 1, day - 1));
+    const isoDate = date.toISOString().slice(0, 10);
+    if (isoDate >= fromDate) return isoDate;
+  }
+  return null;
+}
+
+function collectBirthdays(
+  coupleInfo: CoupleInfo | undefined,
+  periodStart: string,
+  lastDate: string,
+  timezone: string
+): WeeklyDigestItem[] {
+  if (!coupleInfo) return [];
+
+  return [
+    { name: coupleInfo.male_name, birthday: coupleInfo.male_birthday },
+    { name: coupleInfo.female_name, birthday: coupleInfo.female_birthday }
+  ]
+    .map(({ name, birthday }) => ({ name, date: nextBirthday(birthday, periodStart) }))
+    .filter((entry): entry is { name: string; date: string } => !!entry.date && entry.date <= lastDate)
+    .map(({ name, date }) => ({
+      title: `${name}'s birthday`,
+      date: fromZonedTime(`${date}T00:00:00`, timezone).toISOString(),
+      is_all_day: true,
+      url: '/'
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function toDigestItem(event: EnhancedEvent, date: string, overrides: { title?: string; location?: string } = {}): WeeklyDigestItem {
+  return {
+    title: overrides.title || event.title,
+    date,
+    is_all_day: event.is_all_day,
+    location: overrides.location || event.location || undefined,
+    url: event.is_virtual ? '/events' : `/events?highlight=${event.id}`
+  };
+}
+
+/**
+ * Gather the Digest Contents
+ * Recurring events are expanded into their occurrences; milestones stored as
+ * events are listed with the generated ones rather than under events
+ */
+export async function buildWeeklyDigest(now: Date = new Date()): Promise<WeeklyDigest> {
+  const db = await getDatabase();
+  const timezone = getDigestTimezone();
+  const periodStart = formatInTimeZone(now, timezone, 'yyyy-MM-dd');
+  const rangeStart = fromZonedTime(`${periodStart}T00:00:00`, timezone);
+  const eventsEnd = addDays(rangeStart, EVENT_WINDOW_DAYS);
+  const lookaheadEnd = addDays(rangeStart, LOOKAHEAD_DAYS);
+
+  const [storedEvents, virtualMilestones, coupleInfo] = await Promise.all([
+    db.getEventsInRange(rangeStart, lookaheadEnd),
+    db.getVirtualMilestones(rangeStart, lookaheadEnd),
+    db.getCoupleInfo()
+  ]);
+
+  const events: WeeklyDigestItem[] = [];
+  const milestones: WeeklyDigestItem[] = [];
+
+  [...storedEvents, ...virtualMilestones].forEach(storedEvent => {
+    // node-postgres hands back Date objects - the calculator works on ISO strings
+    const event = { ...storedEvent, date: new Date(storedEvent.date).toISOString() } as EnhancedEvent;
+    const isMilestone = !!event.milestone_key;
+
+    RecurringEventCalculator.calculateOccurrences(
+      event,
+      rangeStart,
+      isMilestone ? lookaheadEnd : eventsEnd,
+      MAX_OCCURRENCES_PER_EVENT
+    ).forEach(occurrence => {
+      const item = toDigestItem(event, occurrence.date, occurrence);
+      (isMilestone ? milestones : events).push(item);
+    });
+  });
+
+  const byDate = (a: WeeklyDigestItem, b: WeeklyDigestItem) => (
+    new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+
+  return {
+    period_start: periodStart,
+    timezone,
+    couple_names: coupleInfo ? `${coupleInfo.male_name} & ${coupleInfo.female_name}` : undefined,
+    events: events.sort(byDate).slice(0, MAX_EVENTS),
+    birthdays: collectBirthdays(
+      coupleInfo,
+      periodStart,
+      formatInTimeZone(addDays(rangeStart, LOOKAHEAD_DAYS - 1), timezone, 'yyyy-MM-dd'),
+      timezone
+    ),
+    milestones: milestones.sort(byDate)
+  };
+}
+
+export async function renderWeeklyDigest(now: Date = new Date()): Promise<RenderedEmail> {
+  return renderDigestEmail(await buildWeeklyDigest(now));
+}
+
+/**
+ * Send the Digest Now
+ * Returns how many partners it went to; throws when the transport fails
+ */
+export async function sendWeeklyDigest(now: Date = new Date()): Promise<number> {
+  const db = await getDatabase();
+  const recipients = await db.getNotificationRecipients();
+  if (recipients.length === 0) {
+    console.warn('✉️  Weekly digest skipped - no users with an email address');
+    return 0;
+  }
+
+  const email = await renderWeeklyDigest(now);
+  await getEmailTransport().send({ to: recipients.map(recipient => recipient.email), ...email });
+  return recipients.length;
+}
+
+/**
+ * Send This Week's Digest When Due
+ * Only on EMAIL_DIGEST_DAY from EMAIL_DIGEST_HOUR on - a week missed because
+ * no worker ran that day is skipped rather than sent late
+ */
+export async function sendWeeklyDigestIfDue(now: Date = new Date()): Promise<WeeklyDigestResult> {
+  if (!isWeeklyDigestEnabled()) return 'disabled';
+
+  const timezone = getDigestTimezone();
+  const digestDay = parseInt(process.env.EMAIL_DIGEST_DAY || '1', 10);
+  const digestHour = parseInt(process.env.EMAIL_DIGEST_HOUR || '8', 10);
+  // ISO weekday (1 = Monday ... 7 = Sunday) -> 0 = Sunday ... 6 = Saturday
+  const weekday = parseInt(formatInTimeZone(now, timezone, 'i'), 10) % 7;
+  const hour = parseInt(formatInTimeZone(now, timezone, 'H'), 10);
+
+  if (weekday !== digestDay || hour < digestHour) {
+    return 'not_due';
+  }
+
+  const db = await getDatabase();
+  const periodStart = formatInTimeZone(now, timezone, 'yyyy-MM-dd');
+  if (!(await db.claimEmailDigest(periodStart))) {
+    return 'already_sent';
+  }
+
+  try {
+    const recipientCount = await sendWeeklyDigest(now);
+    await db.markEmailDigest(periodStart, 'sent', { recipientCount });
+    return 'sent';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await db.markEmailDigest(periodStart, 'failed', { error: message });
+    throw error;
+  }
+}
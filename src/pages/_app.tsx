@@ -1,3 +1,4 @@
+import { useEffect } from 'react';
 import type { AppProps } from 'next/app';
 import { SessionProvider } from 'next-auth/react';
 import Head from 'next/head';
@@ -22,7 +23,15 @@ const SESSION_CONFIG = {
  * Now properly handles client-side only libraries with dynamic imports
  */
 export default function App({ Component, pageProps: { session, ...pageProps } }: AppProps) {
-  
+  // Offline support - skipped in development so cached bundles don't fight hot reload
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  }, []);
+
   return (
     <>
       <Head>
@@ -0,0 +1,101 @@
+// pages/api/albums/[id].ts - One photo album with its photos
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../lib/auth';
+import { getDatabase } from '../../../lib/database';
+import { validateAlbumInput, withAlbumCoverUrls } from '../../../lib/albums';
+import { withPhotoUrls } from '../../../lib/photoStorage';
+
+/**
+ * Album Handler
+ * GET    - the album and its photos in album order
+ * PUT    - { title?, description?, cover_photo_id?, is_featured? } - the cover
+ *          must be in the album; null goes back to the first photo
+ * DELETE - remove the album; its photos stay in the gallery
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'PUT', 'DELETE'].includes(req.method || '')) {
+    res.setHeader('Allow', ['GET', 'PUT', 'DELETE']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const albumId = parseInt(req.query.id as string, 10);
+  if (isNaN(albumId)) {
+    return res.status(400).json({
+      error: 'Invalid album ID',
+      code: 'INVALID_PARAMETER'
+    });
+  }
+
+  try {
+    const db = await getDatabase();
+
+    if (req.method === 'GET') {
+      const album = await db.getAlbum(albumId);
+      if (!album) {
+        return res.status(404).json({
+          error: 'Album not found',
+          code: 'ALBUM_NOT_FOUND'
+        });
+      }
+
+      const photos = await db.getAlbumPhotos(albumId);
+      return res.status(200).json({
+        album: withAlbumCoverUrls(album),
+        photos: photos.map(photo => withPhotoUrls(photo))
+      });
+    }
+
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      if (!(await db.deleteAlbum(albumId))) {
+        return res.status(404).json({
+          error: 'Album not found',
+          code: 'ALBUM_NOT_FOUND'
+        });
+      }
+      return res.status(200).json({ message: 'Album deleted' });
+    }
+
+    const { value, error } = validateAlbumInput(req.body || {}, true);
+    if (error || !value) {
+      return res.status(400).json({
+        error,
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const result = await db.updateAlbum(albumId, value);
+    if (result === 'not_found') {
+      return res.status(404).json({
+        error: 'Album not found',
+        code: 'ALBUM_NOT_FOUND'
+      });
+    }
+    if (result === 'invalid_cover') {
+      return res.status(400).json({
+        error: 'The cover must be one of the album\'s photos',
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const album = await db.getAlbum(albumId);
+    return res.status(200).json({ album: album && withAlbumCoverUrls(album) });
+  } catch (error) {
+    console.error('Album API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
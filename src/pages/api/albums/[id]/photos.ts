@@ -0,0 +1,79 @@
+// pages/api/albums/[id]/photos.ts - Album membership and manual order
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../../lib/auth';
+import { getDatabase } from '../../../../lib/database';
+import { validatePhotoIds, withAlbumCoverUrls } from '../../../../lib/albums';
+
+/**
+ * Album Photos Handler - every method takes { photo_ids: number[] }
+ * POST   - add photos to the end of the album, in the order given
+ * PUT    - reorder; must list every photo in the album exactly once
+ * DELETE - take photos out of the album (they stay in the gallery)
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['POST', 'PUT', 'DELETE'].includes(req.method || '')) {
+    res.setHeader('Allow', ['POST', 'PUT', 'DELETE']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const albumId = parseInt(req.query.id as string, 10);
+  if (isNaN(albumId)) {
+    return res.status(400).json({
+      error: 'Invalid album ID',
+      code: 'INVALID_PARAMETER'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const { photoIds, error } = validatePhotoIds(req.body?.photo_ids);
+    if (error || !photoIds) {
+      return res.status(400).json({
+        error,
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const db = await getDatabase();
+    const result = req.method === 'POST'
+      ? await db.addPhotosToAlbum(albumId, photoIds)
+      : req.method === 'PUT'
+        ? await db.reorderAlbumPhotos(albumId, photoIds)
+        : await db.removePhotosFromAlbum(albumId, photoIds);
+
+    if (result === 'not_found') {
+      return res.status(404).json({
+        error: 'Album not found',
+        code: 'ALBUM_NOT_FOUND'
+      });
+    }
+    if (result === 'invalid_photos') {
+      return res.status(400).json({
+        error: req.method === 'PUT'
+          ? 'photo_ids must list every photo in the album exactly once'
+          : 'photo_ids contains a photo that does not exist',
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const album = await db.getAlbum(albumId);
+    return res.status(200).json({ album: album && withAlbumCoverUrls(album) });
+  } catch (error) {
+    console.error('Album photos API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
@@ -0,0 +1,70 @@
+// pages/api/albums/index.ts - List and create photo albums
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../lib/auth';
+import { getDatabase } from '../../../lib/database';
+import { validateAlbumInput, validatePhotoIds, withAlbumCoverUrls } from '../../../lib/albums';
+
+/**
+ * Albums Handler
+ * GET  - every album with its photo count and cover, the featured one first
+ * POST - { title, description?, photo_ids?, cover_photo_id?, is_featured? } -
+ *        photos are added in the order given; the cover must be one of them
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'POST'].includes(req.method || '')) {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  try {
+    const db = await getDatabase();
+
+    // Albums are as public as the gallery itself
+    if (req.method === 'GET') {
+      const albums = await db.getAlbums();
+      return res.status(200).json({ albums: albums.map(withAlbumCoverUrls) });
+    }
+
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const body = req.body || {};
+    const { value, error } = validateAlbumInput(body, false);
+    const { photoIds, error: photoIdsError } = body.photo_ids === undefined
+      ? { photoIds: [], error: undefined }
+      : validatePhotoIds(body.photo_ids);
+    const coverError = value?.cover_photo_id && !photoIds?.includes(value.cover_photo_id)
+      ? 'cover_photo_id must be one of photo_ids'
+      : undefined;
+
+    if (error || photoIdsError || coverError || !value || !photoIds) {
+      return res.status(400).json({
+        error: error || photoIdsError || coverError,
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const albumId = await db.createAlbum({ ...value, title: value.title! }, photoIds, session.user.id);
+    const album = albumId ? await db.getAlbum(albumId) : null;
+    if (!album) {
+      throw new Error('Failed to create album');
+    }
+
+    return res.status(201).json({ album: withAlbumCoverUrls(album) });
+  } catch (error) {
+    console.error('Albums API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
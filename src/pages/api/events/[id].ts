@@ -2,6 +2,110 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '../../../lib/auth';
 import { getDatabase } from '../../../lib/database';
+import { emitWebhookEvent } from '../../../lib/webhooks';
+import { EventValidator, RecurringEventCalculator } from '../../../utils/eventUtils';
+import { sanitizeRecurringConfig } from '../../../utils/recurrenceRule';
+import type { EnhancedEvent, EventDetailResponse } from '../../../types/event';
+
+const UPDATABLE_FIELDS = [
+  'title', 'date', 'description', 'is_recurring', 'recurring_config', 'category',
+  'priority', 'timezone', 'is_all_day', 'location', 'reminder_minutes', 'reminders'
+];
+
+const DETAIL_LIMITS = {
+  occurrences: { fallback: 5, max: 50 },
+  related: { fallback: 6, max: 20 },
+  historyPerPage: { fallback: 10, max: 50 }
+} as const;
+
+const OCCURRENCE_LOOKAHEAD_YEARS = 5;
+
+// Strong validator for the stored row - clients echo it back in If-Match
+function getEventETag(event: { version?: number }): string {
+  return `"${event.version || 1}"`;
+}
+
+/**
+ * Expected version from If-Match ("3" or W/"3") or a `version` body field.
+ * undefined = no precondition, null = malformed
+ */
+function getExpectedVersion(req: NextApiRequest): number | undefined | null {
+  const header = req.headers['if-match'];
+  const raw = header !== undefined && header !== '*'
+    ? String(header).replace(/^W\//, '').replace(/"/g, '').trim()
+    : req.body?.version;
+
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  const version = Number(raw);
+  return Number.isInteger(version) && version > 0 ? version : null;
+}
+
+function parseLimit(value: unknown, limit: { fallback: number; max: number }): number {
+  const parsed = parseInt(String(value ?? ''), 10);
+  return isNaN(parsed) ? limit.fallback : Math.min(Math.max(parsed, 0), limit.max);
+}
+
+/**
+ * Event Detail
+ * GET ?occurrences=N&related=N&history=0|1&history_page=P&history_per_page=N
+ * The audit trail is only included for signed-in users (history=0 skips it)
+ */
+async function getEventDetail(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  db: Awaited<ReturnType<typeof getDatabase>>,
+  eventId: number
+) {
+  const storedEvent = await db.getEventById(eventId);
+  if (!storedEvent) {
+    return res.status(404).json({
+      error: 'Event not found',
+      code: 'EVENT_NOT_FOUND'
+    });
+  }
+
+  // node-postgres hands back Date objects - the calculator works on ISO strings
+  const event = { ...storedEvent, date: new Date(storedEvent.date).toISOString() } as EnhancedEvent;
+  const now = new Date();
+  const lookahead = new Date(now);
+  lookahead.setFullYear(lookahead.getFullYear() + OCCURRENCE_LOOKAHEAD_YEARS);
+
+  const occurrenceLimit = parseLimit(req.query.occurrences, DETAIL_LIMITS.occurrences);
+  const upcomingOccurrences = occurrenceLimit > 0
+    ? RecurringEventCalculator.calculateOccurrences(event, now, lookahead, occurrenceLimit)
+    : [];
+
+  // "Nearby" is measured from the next occurrence so old recurring events still find neighbours
+  const anchorDate = upcomingOccurrences[0] ? new Date(upcomingOccurrences[0].date) : new Date(event.date);
+  const relatedLimit = parseLimit(req.query.related, DETAIL_LIMITS.related);
+  const relatedEvents = relatedLimit > 0 ? await db.getRelatedEvents(storedEvent, anchorDate, relatedLimit) : [];
+
+  const response: EventDetailResponse = {
+    event,
+    upcoming_occurrences: upcomingOccurrences,
+    related_events: relatedEvents
+  };
+
+  res.setHeader('ETag', getEventETag(storedEvent));
+
+  const session = await getServerSession(req, res, authOptions);
+  if (session && req.query.history !== '0') {
+    const page = Math.max(1, parseInt(String(req.query.history_page ?? '1'), 10) || 1);
+    const perPage = Math.max(1, parseLimit(req.query.history_per_page, DETAIL_LIMITS.historyPerPage));
+    const { entries, total } = await db.getEventHistory(eventId, perPage, (page - 1) * perPage);
+
+    response.history = {
+      entries,
+      total_count: total,
+      page,
+      per_page: perPage,
+      has_next_page: page * perPage < total
+    };
+  }
+
+  res.setHeader('Cache-Control', 'private, no-cache');
+  return res.status(200).json(response);
+}
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Parameter extraction with type safety
@@ -19,6 +123,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const db = await getDatabase();
 
     switch (req.method) {
+      case 'GET':
+        return getEventDetail(req, res, db, eventId);
+
       case 'PUT':
         const session = await getServerSession(req, res, authOptions);
         if (!session) {
@@ -28,18 +135,79 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           });
         }
 
-        const updateData = req.body;
-        const updateSuccess = await db.updateEvent(eventId, updateData);
+        const expectedVersion = getExpectedVersion(req);
+        if (expectedVersion === null) {
+          return res.status(400).json({
+            error: 'If-Match must be an event version',
+            code: 'INVALID_PARAMETER'
+          });
+        }
+
+        // Only whitelisted columns reach the dynamic UPDATE in updateEnhancedEvent
+        const updateData = Object.fromEntries(
+          Object.entries(req.body || {}).filter(([key]) => UPDATABLE_FIELDS.includes(key))
+        );
+
+        const reminderError = updateData.reminders !== undefined
+          ? EventValidator.validateReminders(updateData.reminders)
+          : null;
+        if (reminderError) {
+          return res.status(400).json({
+            error: reminderError,
+            code: 'VALIDATION_ERROR'
+          });
+        }
+
+        // Same whitelist and rule checks as creating an event; null clears the rule
+        if (updateData.recurring_config !== undefined && updateData.recurring_config !== null) {
+          const recurringConfig = sanitizeRecurringConfig(updateData.recurring_config);
+          const ruleErrors = recurringConfig ? EventValidator.validateRecurringConfig(recurringConfig) : [];
+          if (!recurringConfig || ruleErrors.length > 0) {
+            return res.status(400).json({
+              error: 'Validation failed',
+              code: 'VALIDATION_ERROR',
+              details: recurringConfig
+                ? ruleErrors
+                : [{ field: 'recurring_config', message: 'Recurring frequency must be daily, weekly, monthly or yearly' }]
+            });
+          }
+          updateData.recurring_config = recurringConfig;
+        }
+
+        const updateResult = await db.updateEnhancedEvent(eventId, updateData, session.user.id, expectedVersion);
         
-        if (!updateSuccess) {
+        if (updateResult === 'conflict') {
+          const current = await db.getEventById(eventId);
+          if (current) {
+            res.setHeader('ETag', getEventETag(current));
+            return res.status(409).json({
+              error: 'This event was changed by someone else',
+              code: 'VERSION_CONFLICT',
+              current
+            });
+          }
+        }
+
+        if (updateResult !== 'updated') {
           return res.status(404).json({ 
             error: 'Event not found or update failed',
             code: 'UPDATE_FAILED' 
           });
         }
 
+        const updatedEvent = await db.getEventById(eventId);
+        if (updatedEvent) {
+          res.setHeader('ETag', getEventETag(updatedEvent));
+          await emitWebhookEvent('event.updated', {
+            event: updatedEvent,
+            changed_fields: Object.keys(updateData),
+            actor_id: session.user.id
+          });
+        }
+
         return res.status(200).json({ 
-          message: 'Event updated successfully' 
+          message: 'Event updated successfully',
+          event: updatedEvent
         });
 
       case 'DELETE':
@@ -51,21 +219,48 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           });
         }
 
-        const deleteSuccess = await db.deleteEvent(eventId);
+        const expectedDeleteVersion = getExpectedVersion(req);
+        if (expectedDeleteVersion === null) {
+          return res.status(400).json({
+            error: 'If-Match must be an event version',
+            code: 'INVALID_PARAMETER'
+          });
+        }
+
+        // Read before deleting so the webhook can say what was removed
+        const eventToDelete = await db.getEventById(eventId);
+        const deleteResult = await db.deleteEvent(eventId, deleteSession.user.id, expectedDeleteVersion);
+
+        if (deleteResult === 'conflict') {
+          const current = await db.getEventById(eventId);
+          if (current) {
+            res.setHeader('ETag', getEventETag(current));
+            return res.status(409).json({
+              error: 'This event was changed by someone else',
+              code: 'VERSION_CONFLICT',
+              current
+            });
+          }
+        }
         
-        if (!deleteSuccess) {
+        if (deleteResult !== 'deleted') {
           return res.status(404).json({ 
             error: 'Event not found',
             code: 'DELETE_FAILED' 
           });
         }
 
+        await emitWebhookEvent('event.deleted', {
+          event: eventToDelete || { id: eventId },
+          actor_id: deleteSession.user.id
+        });
+
         return res.status(200).json({ 
           message: 'Event deleted successfully' 
         });
 
       default:
-        res.setHeader('Allow', ['PUT', 'DELETE']);
+        res.setHeader('Allow', ['GET', 'PUT', 'DELETE']);
         return res.status(405).json({ 
           error: `Method ${req.method} not allowed`,
           code: 'METHOD_NOT_ALLOWED' 
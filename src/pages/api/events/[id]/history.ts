@@ -0,0 +1,84 @@
+// pages/api/events/[id]/history.ts - Audit trail of a single event
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../../lib/auth';
+import { getDatabase } from '../../../../lib/database';
+import type { EventHistoryResponse } from '../../../../types/event';
+
+const MAX_PER_PAGE = 50;
+
+function parseDate(value: unknown, endOfDay = false): Date | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+
+  // A bare date covers the whole day
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`)
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Event History
+ * GET ?page=P&per_page=N&changed_by=<user id>&from=<date>&to=<date>
+ * Newest first; `from`/`to` are inclusive
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const eventId = parseInt(req.query.id as string, 10);
+  const from = parseDate(req.query.from);
+  const to = parseDate(req.query.to, true);
+
+  if (isNaN(eventId) || from === null || to === null) {
+    return res.status(400).json({
+      error: 'Invalid event ID or date range',
+      code: 'INVALID_PARAMETER'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const page = Math.max(1, parseInt(req.query.page as string, 10) || 1);
+    const perPage = Math.min(Math.max(parseInt(req.query.per_page as string, 10) || 10, 1), MAX_PER_PAGE);
+    const changedBy = typeof req.query.changed_by === 'string' && req.query.changed_by
+      ? req.query.changed_by
+      : undefined;
+
+    const db = await getDatabase();
+    const [{ entries, total }, contributors] = await Promise.all([
+      db.getEventHistory(eventId, perPage, (page - 1) * perPage, { changed_by: changedBy, from, to }),
+      db.getEventHistoryContributors(eventId)
+    ]);
+
+    const response: EventHistoryResponse = {
+      entries,
+      total_count: total,
+      page,
+      per_page: perPage,
+      has_next_page: page * perPage < total,
+      contributors
+    };
+
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error('Event history API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
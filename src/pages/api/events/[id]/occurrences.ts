@@ -0,0 +1,281 @@
+// pages/api/events/[id]/occurrences.ts - Edit single occurrences of a recurring event
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { fromZonedTime } from 'date-fns-tz';
+import { authOptions } from '../../../../lib/auth';
+import { getDatabase } from '../../../../lib/database';
+import { emitWebhookEvent } from '../../../../lib/webhooks';
+import { EventValidator } from '../../../../utils/eventUtils';
+import { sanitizeRecurringConfig } from '../../../../utils/recurrenceRule';
+import type { EnhancedEvent } from '../../../../types/event';
+
+// event_exceptions.title is VARCHAR(100), the same cap events have
+const OVERRIDE_LIMITS = { title: EventValidator.MAX_TITLE_LENGTH, location: 200, description: 1000 } as const;
+const CATEGORIES = ['anniversary', 'birthday', 'date', 'milestone', 'other'];
+const PRIORITIES = ['low', 'medium', 'high'];
+
+// Fields a "this and following" edit may change on the new series
+const SERIES_FIELDS = [
+  'title', 'date', 'description', 'recurring_config', 'category',
+  'priority', 'is_all_day', 'location', 'reminder_minutes', 'reminders'
+];
+
+/**
+ * Form inputs send wall-clock values without an offset - those are
+ * interpreted in the event's timezone, anything else must be a full ISO date
+ */
+function normalizeDate(value: unknown, timezone: string): string | null {
+  if (typeof value !== 'string') return null;
+
+  const wallClock = value.match(/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2})?)?$/);
+  const date = wallClock
+    ? fromZonedTime(wallClock[1] ? value : `${value}T00:00:00`, timezone)
+    : new Date(value);
+
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function validateOverrides(changes: Record<string, unknown>): string | null {
+  for (const [field, maxLength] of Object.entries(OVERRIDE_LIMITS)) {
+    const value = changes[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'string' || value.length > maxLength) {
+      return `${field} must be a string of at most ${maxLength} characters`;
+    }
+  }
+
+  if (typeof changes.title === 'string' && !changes.title.trim()) {
+    return 'title cannot be empty';
+  }
+
+  if (changes.reminders !== undefined) {
+    return EventValidator.validateReminders(changes.reminders);
+  }
+
+  return null;
+}
+
+/**
+ * Checks the fields a new series takes over beyond the overrides. The rule
+ * change is merged onto the current rule, then whitelisted and validated like
+ * an event update - `changes.recurring_config` is replaced by the result
+ */
+function validateSeriesChanges(changes: Record<string, unknown>, event: EnhancedEvent): string | null {
+  if (changes.category !== undefined && !CATEGORIES.includes(changes.category as string)) {
+    return `category must be one of ${CATEGORIES.join(', ')}`;
+  }
+  if (changes.priority !== undefined && !PRIORITIES.includes(changes.priority as string)) {
+    return `priority must be one of ${PRIORITIES.join(', ')}`;
+  }
+  if (changes.is_all_day !== undefined && typeof changes.is_all_day !== 'boolean') {
+    return 'is_all_day must be true or false';
+  }
+  if (
+    changes.reminder_minutes !== undefined &&
+    changes.reminder_minutes !== null &&
+    (!Number.isInteger(changes.reminder_minutes) ||
+      (changes.reminder_minutes as number) < 0 ||
+      (changes.reminder_minutes as number) > EventValidator.MAX_REMINDER_MINUTES)
+  ) {
+    return 'Reminder must be between 0 and 10080 minutes (1 week)';
+  }
+
+  if (changes.recurring_config !== undefined) {
+    if (!changes.recurring_config || typeof changes.recurring_config !== 'object') {
+      return 'recurring_config must be an object';
+    }
+    const recurringConfig = sanitizeRecurringConfig({ ...event.recurring_config, ...changes.recurring_config });
+    if (!recurringConfig) {
+      return 'Recurring frequency must be daily, weekly, monthly or yearly';
+    }
+    const ruleErrors = EventValidator.validateRecurringConfig(recurringConfig);
+    if (ruleErrors.length > 0) {
+      return ruleErrors[0].message;
+    }
+    changes.recurring_config = recurringConfig;
+  }
+
+  return null;
+}
+
+/**
+ * Occurrence Handler
+ * PUT    { occurrence_index, scope: 'this' | 'following', cancelled?, changes? }
+ *        'this' stores an exception; 'following' ends the series and starts a new one
+ * DELETE ?occurrence_index=N - restore the occurrence to the series defaults
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['PUT', 'DELETE'].includes(req.method || '')) {
+    res.setHeader('Allow', ['PUT', 'DELETE']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const eventId = parseInt(req.query.id as string, 10);
+  const occurrenceIndex = Number(req.method === 'DELETE' ? req.query.occurrence_index : req.body?.occurrence_index);
+
+  if (isNaN(eventId) || !Number.isInteger(occurrenceIndex) || occurrenceIndex < 0) {
+    return res.status(400).json({
+      error: 'Invalid event ID or occurrence index',
+      code: 'INVALID_PARAMETER'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const db = await getDatabase();
+    const event = await db.getEventById(eventId);
+
+    if (!event || !event.is_recurring) {
+      return res.status(404).json({
+        error: 'Recurring event not found',
+        code: 'EVENT_NOT_FOUND'
+      });
+    }
+
+    // Reply with the changed series and tell webhooks what happened to it
+    const respondWithUpdatedEvent = async (change: string) => {
+      const updated = await db.getEventById(eventId);
+      if (updated) {
+        await emitWebhookEvent('event.updated', {
+          event: updated,
+          change,
+          occurrence_index: occurrenceIndex,
+          actor_id: session.user.id
+        });
+      }
+      return res.status(200).json({ event: updated });
+    };
+
+    if (req.method === 'DELETE') {
+      if (!(await db.deleteEventException(eventId, occurrenceIndex, session.user.id))) {
+        return res.status(404).json({
+          error: 'Occurrence has no changes to restore',
+          code: 'UPDATE_FAILED'
+        });
+      }
+
+      return respondWithUpdatedEvent('occurrence_restored');
+    }
+
+    const { scope, cancelled = false } = req.body;
+    const changes: Record<string, unknown> = { ...(req.body.changes || {}) };
+
+    if (scope !== 'this' && scope !== 'following') {
+      return res.status(400).json({
+        error: "scope must be 'this' or 'following'",
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    if (scope === 'following' && occurrenceIndex === 0) {
+      return res.status(400).json({
+        error: 'Update the event itself to change the whole series',
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const validationError = validateOverrides(changes);
+    if (validationError) {
+      return res.status(400).json({
+        error: validationError,
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    if (changes.date !== undefined) {
+      const date = normalizeDate(changes.date, event.timezone || 'UTC');
+      if (!date) {
+        return res.status(400).json({
+          error: 'Invalid date',
+          code: 'VALIDATION_ERROR'
+        });
+      }
+      changes.date = date;
+    }
+
+    if (scope === 'this') {
+      const saved = await db.saveEventException(eventId, {
+        occurrence_index: occurrenceIndex,
+        is_cancelled: Boolean(cancelled),
+        date: changes.date as string | undefined,
+        title: (changes.title as string | undefined)?.trim(),
+        location: changes.location as string | undefined,
+        description: changes.description as string | undefined
+      }, session.user.id);
+
+      if (!saved) {
+        return res.status(404).json({
+          error: 'Occurrence not found in this series',
+          code: 'UPDATE_FAILED'
+        });
+      }
+
+      return respondWithUpdatedEvent(cancelled ? 'occurrence_cancelled' : 'occurrence_changed');
+    }
+
+    if (cancelled) {
+      if (!(await db.endRecurringEvent(eventId, occurrenceIndex, session.user.id))) {
+        return res.status(404).json({
+          error: 'Occurrence not found in this series',
+          code: 'UPDATE_FAILED'
+        });
+      }
+
+      return respondWithUpdatedEvent('series_ended');
+    }
+
+    const seriesChanges = Object.fromEntries(
+      Object.entries(changes).filter(([key]) => SERIES_FIELDS.includes(key))
+    );
+    const seriesError = validateSeriesChanges(seriesChanges, event);
+    if (seriesError) {
+      return res.status(400).json({
+        error: seriesError,
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const newEventId = await db.splitRecurringEvent(eventId, occurrenceIndex, seriesChanges, session.user.id);
+
+    if (!newEventId) {
+      return res.status(404).json({
+        error: 'Occurrence not found in this series',
+        code: 'UPDATE_FAILED'
+      });
+    }
+
+    const [endedSeries, newEvent] = await Promise.all([db.getEventById(eventId), db.getEventById(newEventId)]);
+    if (endedSeries) {
+      await emitWebhookEvent('event.updated', {
+        event: endedSeries,
+        change: 'series_split',
+        occurrence_index: occurrenceIndex,
+        actor_id: session.user.id
+      });
+    }
+    if (newEvent) {
+      await emitWebhookEvent('event.created', { event: newEvent, split_from: eventId, actor_id: session.user.id });
+    }
+
+    return res.status(200).json({
+      event: endedSeries,
+      new_event: newEvent
+    });
+  } catch (error) {
+    console.error('Event occurrence API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
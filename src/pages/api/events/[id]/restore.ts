@@ -0,0 +1,72 @@
+// pages/api/events/[id]/restore.ts - Bring a soft-deleted event back
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../../lib/auth';
+import { getDatabase } from '../../../../lib/database';
+import { emitWebhookEvent } from '../../../../lib/webhooks';
+
+/**
+ * Restore a soft-deleted event
+ * POST - clears deleted_at, reinstates upcoming reminders and records a
+ * 'restored' history entry
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const eventId = parseInt(req.query.id as string, 10);
+  if (isNaN(eventId)) {
+    return res.status(400).json({
+      error: 'Invalid event ID',
+      code: 'INVALID_PARAMETER'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const db = await getDatabase();
+    const result = await db.restoreEvent(eventId, session.user.id);
+
+    if (result === 'not_found') {
+      return res.status(404).json({
+        error: 'Event not found in the trash',
+        code: 'EVENT_NOT_FOUND'
+      });
+    }
+
+    if (result === 'conflict') {
+      return res.status(409).json({
+        error: 'Another event already uses this imported calendar entry or milestone',
+        code: 'RESTORE_CONFLICT'
+      });
+    }
+
+    const event = await db.getEventById(eventId);
+    if (event) {
+      await emitWebhookEvent('event.updated', { event, change: 'restored', actor_id: session.user.id });
+    }
+
+    return res.status(200).json({
+      message: 'Event restored successfully',
+      event
+    });
+  } catch (error) {
+    console.error('Event restore API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
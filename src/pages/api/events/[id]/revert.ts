@@ -0,0 +1,75 @@
+// pages/api/events/[id]/revert.ts - Roll an event back to an earlier version
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../../lib/auth';
+import { getDatabase } from '../../../../lib/database';
+import { emitWebhookEvent } from '../../../../lib/webhooks';
+
+/**
+ * Revert Event
+ * POST { history_id } - reapplies the event as it stood right after that
+ * history entry; the revert itself is recorded as a new update
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const eventId = parseInt(req.query.id as string, 10);
+  const historyId = Number(req.body?.history_id);
+
+  if (isNaN(eventId) || !Number.isInteger(historyId) || historyId <= 0) {
+    return res.status(400).json({
+      error: 'Invalid event ID or history entry',
+      code: 'INVALID_PARAMETER'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const db = await getDatabase();
+    const result = await db.revertEventToHistory(eventId, historyId, session.user.id);
+
+    if (result.status === 'not_found') {
+      return res.status(404).json({
+        error: 'Event or history entry not found',
+        code: 'EVENT_NOT_FOUND'
+      });
+    }
+
+    const event = await db.getEventById(eventId);
+    if (event && result.status === 'reverted') {
+      await emitWebhookEvent('event.updated', {
+        event,
+        change: 'reverted',
+        changed_fields: result.changed_fields,
+        actor_id: session.user.id
+      });
+    }
+
+    return res.status(200).json({
+      message: result.status === 'reverted'
+        ? 'Event reverted successfully'
+        : 'Event already matches this version',
+      changed_fields: result.status === 'reverted' ? result.changed_fields : [],
+      event
+    });
+  } catch (error) {
+    console.error('Event revert API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
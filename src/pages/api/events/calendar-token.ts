@@ -0,0 +1,86 @@
+// pages/api/events/calendar-token.ts - Manage the per-user iCalendar subscription token
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createHash, randomBytes } from 'crypto';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../lib/auth';
+import { getDatabase } from '../../../lib/database';
+
+/**
+ * Builds subscription URLs from NEXTAUTH_URL, falling back to the request host
+ * webcal:// makes Apple Calendar and Outlook open a subscribe dialog directly
+ */
+function buildFeedUrls(req: NextApiRequest, token: string): { feed_url: string; webcal_url: string } {
+  const baseUrl = process.env.NEXTAUTH_URL
+    || `${req.headers['x-forwarded-proto'] || 'http'}://${req.headers.host}`;
+  const feedUrl = `${baseUrl.replace(/\/$/, '')}/api/events/calendar.ics?token=${encodeURIComponent(token)}`;
+
+  return {
+    feed_url: feedUrl,
+    webcal_url: feedUrl.replace(/^https?:\/\//, 'webcal://')
+  };
+}
+
+/**
+ * Calendar Feed Token Handler
+ * GET    - whether a feed is active (the token itself is never retrievable again)
+ * POST   - create or rotate the token and return the new subscription URLs
+ * DELETE - revoke the feed
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+    res.setHeader('Allow', ['GET', 'POST', 'DELETE']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const userId = parseInt(session.user.id, 10);
+    const db = await getDatabase();
+
+    switch (req.method) {
+      case 'GET': {
+        const feedToken = await db.getCalendarFeedToken(userId);
+        return res.status(200).json({
+          active: !!feedToken,
+          created_at: feedToken?.created_at,
+          last_accessed_at: feedToken?.last_accessed_at
+        });
+      }
+
+      case 'POST': {
+        const token = randomBytes(32).toString('base64url');
+        const tokenHash = createHash('sha256').update(token).digest('hex');
+
+        if (!(await db.rotateCalendarFeedToken(userId, tokenHash))) {
+          throw new Error('Failed to store calendar feed token');
+        }
+
+        return res.status(201).json({
+          active: true,
+          ...buildFeedUrls(req, token)
+        });
+      }
+
+      case 'DELETE': {
+        await db.revokeCalendarFeedToken(userId);
+        return res.status(200).json({ active: false });
+      }
+    }
+  } catch (error) {
+    console.error('Calendar token API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
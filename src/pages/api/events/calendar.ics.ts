@@ -0,0 +1,72 @@
+// pages/api/events/calendar.ics.ts - Read-only iCalendar feed for calendar app subscriptions
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createHash } from 'crypto';
+import { getDatabase } from '../../../lib/database';
+import { buildCalendar } from '../../../utils/icalendar';
+
+const FEED_EVENT_LIMIT = 1000;
+const FEED_REFRESH_MINUTES = 60;
+
+/**
+ * iCalendar Subscription Feed
+ * Google Calendar, Apple Calendar and Outlook cannot send session cookies,
+ * so the feed is authorized by the secret token embedded in the URL
+ *
+ * GET /api/events/calendar.ics?token=<feed token>
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.setHeader('Allow', ['GET', 'HEAD']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+  if (!token) {
+    return res.status(401).json({
+      error: 'Feed token required',
+      code: 'UNAUTHORIZED'
+    });
+  }
+
+  try {
+    const db = await getDatabase();
+    const tokenHash = createHash('sha256').update(token).digest('hex');
+    const feedToken = await db.touchCalendarFeedToken(tokenHash);
+
+    if (!feedToken) {
+      return res.status(404).json({
+        error: 'Calendar feed not found',
+        code: 'FEED_NOT_FOUND'
+      });
+    }
+
+    const [events, coupleInfo] = await Promise.all([
+      db.getFilteredEvents({ show_past: true }, FEED_EVENT_LIMIT, 0),
+      db.getCoupleInfo()
+    ]);
+
+    const calendarName = coupleInfo
+      ? `${coupleInfo.male_name} & ${coupleInfo.female_name}`
+      : 'Couple Love Story';
+
+    const body = buildCalendar(events, {
+      calendarName,
+      timezone: process.env.REMINDER_TIMEZONE || 'Asia/Ho_Chi_Minh',
+      refreshIntervalMinutes: FEED_REFRESH_MINUTES
+    });
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="couple-love-story.ics"');
+    res.setHeader('Cache-Control', `private, max-age=${FEED_REFRESH_MINUTES * 60}`);
+    return res.status(200).send(body);
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
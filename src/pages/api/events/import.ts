@@ -0,0 +1,135 @@
+// pages/api/events/import.ts - Bulk-create events from an uploaded iCalendar (.ics) file
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../lib/auth';
+import { getDatabase } from '../../../lib/database';
+import { emitWebhookEvent } from '../../../lib/webhooks';
+import { EventValidator } from '../../../utils/eventUtils';
+import { parseIcsEvents } from '../../../utils/icalendar';
+import type { EventImportItem, EventImportResponse } from '../../../types/event';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '2mb'
+    }
+  }
+};
+
+const MAX_IMPORT_EVENTS = 500;
+
+/**
+ * iCalendar Import Handler
+ * POST { ics, timezone?, dry_run: true }           - parse and preview only
+ * POST { ics, timezone?, dry_run: false, keys[] }  - create the selected 'ready' candidates
+ *
+ * The file is re-parsed and re-validated on commit, so the client never
+ * sends event payloads that bypassed EventValidator
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<EventImportResponse | any>
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const { ics, timezone, dry_run = true, keys } = req.body || {};
+
+    if (typeof ics !== 'string' || !ics.includes('BEGIN:VCALENDAR')) {
+      return res.status(400).json({
+        error: 'A valid iCalendar file is required',
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const candidates = parseIcsEvents(ics, typeof timezone === 'string' ? timezone : 'UTC');
+
+    if (candidates.length > MAX_IMPORT_EVENTS) {
+      return res.status(400).json({
+        error: `Files may contain at most ${MAX_IMPORT_EVENTS} events`,
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const db = await getDatabase();
+    const duplicates = await db.findDuplicateEvents(
+      candidates.map(candidate => ({
+        key: candidate.key,
+        uid: candidate.uid,
+        title: candidate.data.title,
+        date: candidate.data.date
+      }))
+    );
+
+    const items: EventImportItem[] = candidates.map(candidate => {
+      const validationErrors = EventValidator.validateEventData(candidate.data);
+      const duplicateOf = duplicates.get(candidate.key);
+
+      return {
+        ...candidate,
+        status: validationErrors.length > 0 ? 'invalid' : duplicateOf ? 'duplicate' : 'ready',
+        duplicate_of: duplicateOf,
+        validation_errors: validationErrors
+      };
+    });
+
+    if (dry_run !== false) {
+      return res.status(200).json({ items });
+    }
+
+    if (!Array.isArray(keys) || keys.length === 0) {
+      return res.status(400).json({
+        error: 'No events selected for import',
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const selected = new Set(keys.filter((key): key is string => typeof key === 'string'));
+    const accepted = items.filter(item => item.status === 'ready' && selected.has(item.key));
+
+    if (accepted.length === 0) {
+      return res.status(400).json({
+        error: 'None of the selected events can be imported',
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const createdIds = await db.createEnhancedEventsBatch(
+      accepted.map(item => ({ ...item.data, external_uid: item.uid, exceptions: item.exceptions })),
+      session.user.id
+    );
+
+    if (!createdIds) {
+      throw new Error('Import transaction failed');
+    }
+
+    for (const createdId of createdIds) {
+      const event = await db.getEventById(createdId);
+      if (event) {
+        await emitWebhookEvent('event.created', { event, source: 'ics_import', actor_id: session.user.id });
+      }
+    }
+
+    return res.status(201).json({ items, created_ids: createdIds });
+  } catch (error) {
+    console.error('Event import error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
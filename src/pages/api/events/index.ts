@@ -3,7 +3,9 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '../../../lib/auth';
 import { getDatabase } from '../../../lib/database';
+import { emitWebhookEvent } from '../../../lib/webhooks';
 import { EventValidator } from '../../../utils/eventUtils';
+import { sanitizeRecurringConfig } from '../../../utils/recurrenceRule';
 import type { EnhancedEvent, EventFormData, EventListResponse } from '../../../types/event';
 
 /**
@@ -142,6 +144,24 @@ class InputSanitizer {
       }
     }
     
+    // Recurring configuration - whitelist known keys only
+    if (sanitized.is_recurring && data.recurring_config && typeof data.recurring_config === 'object') {
+      sanitized.recurring_config = sanitizeRecurringConfig(data.recurring_config);
+    }
+    
+    if (typeof data.reminder_minutes === 'number' && Number.isInteger(data.reminder_minutes)) {
+      sanitized.reminder_minutes = data.reminder_minutes;
+    }
+    
+    // Reminder list - known keys only, EventValidator checks the values
+    if (Array.isArray(data.reminders)) {
+      sanitized.reminders = data.reminders.map((reminder: any) => ({
+        minutes_before: reminder?.minutes_before,
+        delivery_method: reminder?.delivery_method,
+        reminder_type: reminder?.reminder_type ?? 'standard'
+      }));
+    }
+    
     return sanitized;
   }
 }
@@ -341,8 +361,10 @@ async function handleGetEvents(
       date_to,
       search,
       upcoming = 'false',
-      include_stats = 'false'
+      include_stats = 'false',
+      include_milestones = 'true'
     } = req.query;
+    const withMilestones = include_milestones !== 'false';
     
     // Pagination validation
     const pageNum = Math.max(1, parseInt(page as string, 10) || 1);
@@ -381,6 +403,11 @@ async function handleGetEvents(
       // Optimized query for upcoming events only
       events = await db.getUpcomingEvents(perPage, offset);
       totalCount = await db.getUpcomingEventsCount();
+    } else if (withMilestones) {
+      // Stored events merged with virtual milestones derived from love_start_date
+      const result = await db.getEventsWithMilestones(filters, perPage, offset);
+      events = result.events;
+      totalCount = result.total_count;
     } else {
       // Full event query with filters
       events = await db.getFilteredEvents(filters, perPage, offset);
@@ -388,7 +415,9 @@ async function handleGetEvents(
     }
     
     // Generate statistics if requested
-    if (include_stats === 'true') {
+    if (include_stats === 'true' && withMilestones) {
+      stats = await db.getEventStats();
+    } else if (include_stats === 'true') {
       stats = {
         total_events: await db.getTotalEventsCount(),
         upcoming_events: await db.getUpcomingEventsCount(),
@@ -457,11 +486,7 @@ async function handleCreateEvent(
       // Begin transaction (pseudo-code - implement based on your DB adapter)
       // await db.beginTransaction();
       
-      eventId = await db.addEvent({
-        ...sanitizedData,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      } as any);
+      eventId = await db.createEnhancedEvent(sanitizedData as EventFormData, session.user.id);
       
       if (!eventId) {
         throw new Error('Failed to create event');
@@ -477,7 +502,10 @@ async function handleCreateEvent(
     }
     
     // Return created event with proper HTTP status
-    const createdEvent = db.getEventById(eventId);
+    const createdEvent = await db.getEventById(eventId);
+    if (createdEvent) {
+      await emitWebhookEvent('event.created', { event: createdEvent, actor_id: session.user.id });
+    }
     
     return res.status(201).json({
       event: createdEvent,
@@ -0,0 +1,83 @@
+// pages/api/events/range.ts - Events expanded into occurrences for a calendar range
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getDatabase } from '../../../lib/database';
+import { RecurringEventCalculator } from '../../../utils/eventUtils';
+import type { EnhancedEvent, EventOccurrence, EventRangeResponse } from '../../../types/event';
+
+const MAX_RANGE_DAYS = 100; // Enough for a padded 6-week month grid
+const MAX_OCCURRENCES_PER_EVENT = 400; // A daily event across the longest range
+
+/**
+ * Event Range Handler
+ * GET ?start=ISO&end=ISO - every event visible in the range, with recurring
+ * series expanded so the client never has to fetch the full event list
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<EventRangeResponse | { error: string; code: string }>) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const rangeStart = new Date(String(req.query.start || ''));
+  const rangeEnd = new Date(String(req.query.end || ''));
+
+  if (isNaN(rangeStart.getTime()) || isNaN(rangeEnd.getTime()) || rangeEnd < rangeStart) {
+    return res.status(400).json({
+      error: 'start and end must be valid dates with start before end',
+      code: 'INVALID_PARAMETER'
+    });
+  }
+
+  if (rangeEnd.getTime() - rangeStart.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    return res.status(400).json({
+      error: `Range cannot exceed ${MAX_RANGE_DAYS} days`,
+      code: 'INVALID_PARAMETER'
+    });
+  }
+
+  try {
+    const db = await getDatabase();
+    const [storedEvents, milestones] = await Promise.all([
+      db.getEventsInRange(rangeStart, rangeEnd),
+      req.query.include_milestones === 'false' ? Promise.resolve([]) : db.getVirtualMilestones(rangeStart, rangeEnd)
+    ]);
+
+    const events: EnhancedEvent[] = [];
+    const occurrences: EventOccurrence[] = [];
+
+    [...storedEvents, ...milestones].forEach(storedEvent => {
+      // node-postgres hands back Date objects - the calculator works on ISO strings
+      const event = { ...storedEvent, date: new Date(storedEvent.date).toISOString() } as EnhancedEvent;
+      const eventOccurrences = RecurringEventCalculator.calculateOccurrences(
+        event,
+        rangeStart,
+        rangeEnd,
+        MAX_OCCURRENCES_PER_EVENT
+      );
+
+      if (eventOccurrences.length > 0) {
+        events.push(event);
+        occurrences.push(...eventOccurrences);
+      }
+    });
+
+    occurrences.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    res.setHeader('Cache-Control', 'private, no-cache');
+    return res.status(200).json({
+      range_start: rangeStart.toISOString(),
+      range_end: rangeEnd.toISOString(),
+      events,
+      occurrences
+    });
+  } catch (error) {
+    console.error('Event range API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
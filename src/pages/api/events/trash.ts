@@ -0,0 +1,50 @@
+// pages/api/events/trash.ts - Soft-deleted events awaiting restore or purge
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../lib/auth';
+import { getDatabase } from '../../../lib/database';
+import type { EventTrashResponse } from '../../../types/event';
+
+const MAX_LIMIT = 100;
+
+/**
+ * Trash
+ * GET ?limit=N&offset=N - soft-deleted events, most recently deleted first.
+ * Entries older than the retention period are purged by database maintenance
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 50, 1), MAX_LIMIT);
+    const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0);
+
+    const db = await getDatabase();
+    const response: EventTrashResponse = {
+      events: await db.getDeletedEvents(limit, offset),
+      retention_days: db.getTrashRetentionDays()
+    };
+
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error('Event trash API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
@@ -0,0 +1,89 @@
+// pages/api/milestones/index.ts - Milestone rule settings
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../lib/auth';
+import { getDatabase } from '../../../lib/database';
+import { MILESTONE_RULES, type MilestoneRuleId } from '../../../utils/milestones';
+
+const MAX_REMINDER_MINUTES = 43200; // 30 days
+
+/**
+ * Milestone Settings Handler
+ * GET - every rule with its enabled flag and reminder offset, plus upcoming milestones
+ * PUT - toggle a rule or change its reminder: { rule_id, enabled?, reminder_minutes? }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'PUT'].includes(req.method || '')) {
+    res.setHeader('Allow', ['GET', 'PUT']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const db = await getDatabase();
+
+    if (req.method === 'GET') {
+      const now = new Date();
+      const [settings, upcoming] = await Promise.all([
+        db.getMilestoneSettings(),
+        db.getVirtualMilestones(now, new Date(now.getTime() + 365 * 24 * 60 * 60 * 1000))
+      ]);
+
+      return res.status(200).json({
+        rules: MILESTONE_RULES,
+        settings,
+        upcoming: upcoming.slice(0, 5)
+      });
+    }
+
+    const { rule_id, enabled, reminder_minutes } = req.body || {};
+
+    if (!MILESTONE_RULES.some(rule => rule.id === rule_id)) {
+      return res.status(400).json({
+        error: 'Unknown milestone rule',
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      return res.status(400).json({
+        error: 'enabled must be a boolean',
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    if (reminder_minutes !== undefined && (
+      !Number.isInteger(reminder_minutes) || reminder_minutes < 0 || reminder_minutes > MAX_REMINDER_MINUTES
+    )) {
+      return res.status(400).json({
+        error: `reminder_minutes must be an integer between 0 and ${MAX_REMINDER_MINUTES}`,
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    if (!(await db.updateMilestoneSetting(rule_id as MilestoneRuleId, { enabled, reminder_minutes }))) {
+      return res.status(500).json({
+        error: 'Failed to update milestone rule',
+        code: 'UPDATE_FAILED'
+      });
+    }
+
+    return res.status(200).json({ settings: await db.getMilestoneSettings() });
+  } catch (error) {
+    console.error('Milestones API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
@@ -0,0 +1,62 @@
+// pages/api/milestones/materialize.ts - Turn a virtual milestone into a stored event
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../lib/auth';
+import { getDatabase } from '../../../lib/database';
+import { emitWebhookEvent } from '../../../lib/webhooks';
+
+/**
+ * Materialize Handler
+ * POST { key } - stores the milestone as a regular event so it can be edited,
+ * annotated or have photos attached; the virtual copy is hidden from then on
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const { key } = req.body || {};
+    if (typeof key !== 'string' || !/^(days|month|year):\d+$/.test(key)) {
+      return res.status(400).json({
+        error: 'Invalid milestone key',
+        code: 'INVALID_PARAMETER'
+      });
+    }
+
+    const db = await getDatabase();
+    const eventId = await db.materializeMilestone(key, session.user.id);
+
+    if (!eventId) {
+      return res.status(400).json({
+        error: 'Milestone could not be created',
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const event = await db.getEventById(eventId);
+    if (event) {
+      await emitWebhookEvent('event.created', { event, source: 'milestone', actor_id: session.user.id });
+    }
+
+    return res.status(201).json({ event });
+  } catch (error) {
+    console.error('Milestone materialize API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
@@ -0,0 +1,68 @@
+// pages/api/notifications/[id].ts - Mark one notification read or dismiss it
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../lib/auth';
+import { getDatabase } from '../../../lib/database';
+
+/**
+ * Notification Handler
+ * PUT    - { read: boolean }
+ * DELETE - dismiss (removes it from the inbox on every device)
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['PUT', 'DELETE'].includes(req.method || '')) {
+    res.setHeader('Allow', ['PUT', 'DELETE']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const notificationId = parseInt(req.query.id as string, 10);
+  if (isNaN(notificationId)) {
+    return res.status(400).json({
+      error: 'Invalid notification ID',
+      code: 'INVALID_PARAMETER'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const userId = parseInt(session.user.id, 10);
+    const db = await getDatabase();
+
+    if (req.method === 'DELETE') {
+      if (!(await db.deleteNotification(userId, notificationId))) {
+        return res.status(404).json({
+          error: 'Notification not found',
+          code: 'NOTIFICATION_NOT_FOUND'
+        });
+      }
+      return res.status(200).json({ message: 'Notification dismissed' });
+    }
+
+    if (typeof req.body?.read !== 'boolean') {
+      return res.status(400).json({
+        error: 'read must be a boolean',
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    await db.markNotificationsRead(userId, [notificationId], req.body.read);
+    const { unread_count } = await db.getNotifications(userId, 1);
+    return res.status(200).json({ read: req.body.read, unread_count });
+  } catch (error) {
+    console.error('Notification API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
@@ -0,0 +1,96 @@
+// pages/api/notifications/index.ts - The signed-in partner's notification center
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../lib/auth';
+import { getDatabase } from '../../../lib/database';
+import { NOTIFICATION_TYPES, type InAppNotificationInput, type NotificationType } from '../../../types/notification';
+
+const MAX_LIMIT = 100;
+
+/**
+ * Validate a notification the browser adds to its own user's inbox
+ */
+function validateNotificationInput(body: Record<string, unknown>): { value?: InAppNotificationInput; error?: string } {
+  if (!NOTIFICATION_TYPES.includes(body.type as NotificationType)) {
+    return { error: `type must be one of: ${NOTIFICATION_TYPES.join(', ')}` };
+  }
+  if (typeof body.title !== 'string' || !body.title.trim() || body.title.length > 200) {
+    return { error: 'title must be text of at most 200 characters' };
+  }
+  if (typeof body.message !== 'string' || body.message.length > 2000) {
+    return { error: 'message must be text of at most 2000 characters' };
+  }
+  // Only in-app paths - a notification must not link off-site
+  if (body.url !== undefined && (typeof body.url !== 'string' || !/^\/(?!\/)/.test(body.url) || body.url.length > 500)) {
+    return { error: 'url must be an in-app path such as /events' };
+  }
+  if (body.event_id !== undefined && !Number.isInteger(body.event_id)) {
+    return { error: 'event_id must be an event number' };
+  }
+
+  return {
+    value: {
+      type: body.type as NotificationType,
+      title: body.title.trim(),
+      message: body.message,
+      url: body.url as string | undefined,
+      event_id: body.event_id as number | undefined
+    }
+  };
+}
+
+/**
+ * Notifications Handler
+ * GET  - ?limit= (default 20) &unread=true - newest first, with the unread count
+ * POST - { type, title, message, url?, event_id? } - add to your own inbox
+ *        (used by reminders scheduled in the browser)
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'POST'].includes(req.method || '')) {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const userId = parseInt(session.user.id, 10);
+    const db = await getDatabase();
+
+    if (req.method === 'GET') {
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit || '20'), 10) || 20, 1), MAX_LIMIT);
+      res.setHeader('Cache-Control', 'private, no-cache');
+      return res.status(200).json(await db.getNotifications(userId, limit, req.query.unread === 'true'));
+    }
+
+    const { value, error } = validateNotificationInput(req.body || {});
+    if (error || !value) {
+      return res.status(400).json({
+        error,
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const [notification] = await db.createNotifications([userId], value);
+    if (!notification) {
+      throw new Error('Failed to create notification');
+    }
+
+    return res.status(201).json({ notification });
+  } catch (error) {
+    console.error('Notifications API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
@@ -0,0 +1,63 @@
+// pages/api/notifications/preferences.ts - The signed-in partner's notification preferences
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../lib/auth';
+import { getDatabase } from '../../../lib/database';
+import { NotificationPreferencesManager } from '../../../lib/eventNotifications';
+
+/**
+ * Notification Preferences Handler
+ * GET - stored preferences, or the defaults (without updated_at) if none were saved
+ * PUT - { browser_enabled?, email_enabled?, push_enabled?, reminder_times?,
+ *         quiet_hours?: { start, end } | null, timezone? } - fields left out are kept
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'PUT'].includes(req.method || '')) {
+    res.setHeader('Allow', ['GET', 'PUT']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const userId = parseInt(session.user.id, 10);
+    const db = await getDatabase();
+    const current = await db.getNotificationPreferences(userId);
+
+    if (req.method === 'GET') {
+      res.setHeader('Cache-Control', 'private, no-cache');
+      return res.status(200).json({ preferences: current });
+    }
+
+    const { value, error } = NotificationPreferencesManager.validate(req.body || {});
+    if (error || !value) {
+      return res.status(400).json({
+        error,
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const { user_id: _userId, updated_at: _updatedAt, ...currentValues } = current;
+    const preferences = await db.saveNotificationPreferences(userId, { ...currentValues, ...value });
+    if (!preferences) {
+      throw new Error('Failed to save notification preferences');
+    }
+
+    return res.status(200).json({ preferences });
+  } catch (error) {
+    console.error('Notification preferences API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
@@ -0,0 +1,50 @@
+// pages/api/notifications/read.ts - Mark several (or all) notifications read
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../lib/auth';
+import { getDatabase } from '../../../lib/database';
+
+/**
+ * Mark Read Handler
+ * POST - { ids?: number[] } - without ids, the whole inbox is marked read
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const ids = req.body?.ids;
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id) => Number.isInteger(id)))) {
+      return res.status(400).json({
+        error: 'ids must be a list of notification numbers',
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const userId = parseInt(session.user.id, 10);
+    const db = await getDatabase();
+    const updated = await db.markNotificationsRead(userId, ids);
+    const { unread_count } = await db.getNotifications(userId, 1);
+
+    return res.status(200).json({ updated, unread_count });
+  } catch (error) {
+    console.error('Mark notifications read API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
@@ -2,7 +2,7 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '../../../lib/auth';
 import { getDatabase } from '../../../lib/database';
-import { deleteFromCloudinary } from '../../../lib/cloudinary';
+import { getPhotoStorage } from '../../../lib/photoStorage';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'DELETE') {
@@ -34,8 +34,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
     }
 
-    // Atomic deletion: Database first, then Cloudinary
-    // This prevents orphaned database records if Cloudinary deletion fails
+    // Atomic deletion: Database first, then storage
+    // This prevents orphaned database records if storage deletion fails
     const db = await getDatabase();
     const deletedPhoto = await db.deletePhoto(photoId);
 
@@ -46,10 +46,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
     }
 
-    // Cloudinary cleanup - non-blocking for better UX
+    // Storage cleanup - non-blocking for better UX
     // Even if this fails, the photo is removed from the gallery
-    deleteFromCloudinary(deletedPhoto.cloudinary_id).catch(error => {
-      console.error('Cloudinary cleanup failed:', error);
+    getPhotoStorage(deletedPhoto.storage_provider).delete(deletedPhoto.cloudinary_id).catch(error => {
+      console.error('Photo storage cleanup failed:', error);
       // Consider implementing a cleanup job queue for production
     });
 
@@ -0,0 +1,93 @@
+// pages/api/photos/batch.ts - Upload several photos in one request
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import {
+  addUploadedPhotosToAlbum,
+  parsePhotoBatchUpload,
+  parsePhotoUploadOptions,
+  storeUploadedPhotoBatch
+} from '@/lib/photoUploads';
+import { PHOTO_BATCH_MAX_FILES, type PhotoBatchResponse } from '@/types/photoUpload';
+
+/**
+ * POST multipart/form-data with up to PHOTO_BATCH_MAX_FILES "photos" files.
+ * The title, description, album_id, tags (a JSON list) and strip_location
+ * fields apply to every photo of the batch (photos without a shared title
+ * are named after their file).
+ *
+ * Each file is stored on its own - a file of the wrong type or over
+ * PHOTO_UPLOAD_MAX_FILE_SIZE only fails itself. The response lists one result
+ * per file in the order sent - 201 when all were stored, 207 when any failed.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    try {
+      await parsePhotoBatchUpload(req, res);
+    } catch (multerError) {
+      const message = (multerError as { code?: string }).code === 'LIMIT_FILE_COUNT'
+        ? `At most ${PHOTO_BATCH_MAX_FILES} photos per batch`
+        : (multerError as Error).message;
+      return res.status(400).json({
+        error: message,
+        code: 'UPLOAD_ERROR'
+      });
+    }
+
+    const { options, error } = parsePhotoUploadOptions(req.body);
+    if (!options) {
+      return res.status(400).json({
+        error: error!,
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const results = await storeUploadedPhotoBatch(req, options, session.user.id);
+    if (results.length === 0) {
+      return res.status(400).json({
+        error: 'No files uploaded',
+        code: 'NO_FILE'
+      });
+    }
+
+    // The whole batch lands in the album in the order it was sent
+    const photoIds = results.flatMap(result => (result.status === 'uploaded' ? [result.photo.id] : []));
+    await addUploadedPhotosToAlbum(options.album_id, photoIds);
+
+    const response: PhotoBatchResponse = {
+      results,
+      uploaded: photoIds.length,
+      failed: results.length - photoIds.length,
+    };
+    return res.status(response.failed > 0 ? 207 : 201).json(response);
+  } catch (error) {
+    console.error('Photo batch upload error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
+
+// Disable Next.js body parser for file uploads
+export const config = {
+  api: {
+    bodyParser: false, // Required for multer to handle multipart/form-data
+  },
+};
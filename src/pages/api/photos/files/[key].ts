@@ -0,0 +1,78 @@
+// pages/api/photos/files/[key].ts - Serve photos kept by the local storage driver
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../../lib/auth';
+import {
+  LocalPhotoStorage,
+  PHOTO_SIZES,
+  getPhotoStorage,
+  isValidPhotoKey,
+  verifyLocalPhotoSignature,
+  type PhotoSize
+} from '../../../../lib/photoStorage';
+
+/**
+ * Photo File Handler
+ * GET - ?size=small|medium|large (the original without it)
+ *
+ * Open to a signed-in session, or to anyone holding a URL signed by the
+ * driver (expires + signature) - next/image fetches without cookies
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const key = req.query.key as string;
+  const size = req.query.size as string | undefined;
+  if (!isValidPhotoKey(key) || (size !== undefined && !PHOTO_SIZES.includes(size as PhotoSize))) {
+    return res.status(400).json({
+      error: 'Invalid photo file',
+      code: 'INVALID_PARAMETER'
+    });
+  }
+
+  try {
+    const { expires, signature } = req.query;
+    const isSigned = typeof expires === 'string' && typeof signature === 'string' &&
+      verifyLocalPhotoSignature(key, size as PhotoSize | undefined, expires, signature);
+
+    if (!isSigned) {
+      const session = await getServerSession(req, res, authOptions);
+      if (!session) {
+        return res.status(401).json({
+          error: 'Authentication required',
+          code: 'UNAUTHORIZED'
+        });
+      }
+    }
+
+    const storage = getPhotoStorage('local');
+    const file = storage instanceof LocalPhotoStorage
+      ? await storage.read(key, size as PhotoSize | undefined)
+      : null;
+
+    if (!file) {
+      return res.status(404).json({
+        error: 'Photo not found',
+        code: 'PHOTO_NOT_FOUND'
+      });
+    }
+
+    // Files under a key never change; private keeps shared caches out
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Length', file.data.length);
+    res.setHeader('Cache-Control', 'private, max-age=86400, immutable');
+    return res.status(200).send(file.data);
+  } catch (error) {
+    console.error('Photo file error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
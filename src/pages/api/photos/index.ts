@@ -1,6 +1,7 @@
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { getDatabase } from '../../../lib/database';
+import { withPhotoUrls } from '../../../lib/photoStorage';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -15,16 +16,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const db = await getDatabase();
     const photos = await db.getAllPhotos();
     
-    // Performance optimization: Transform URLs for responsive images
-    const optimizedPhotos = photos.map(photo => ({
-      ...photo,
-      // Generate responsive image URLs for different screen sizes
-      thumbnails: {
-        small: photo.public_url.replace('/upload/', '/upload/w_300,h_200,c_fill,q_auto:low/'),
-        medium: photo.public_url.replace('/upload/', '/upload/w_600,h_400,c_fill,q_auto:good/'),
-        large: photo.public_url.replace('/upload/', '/upload/w_1200,h_800,c_limit,q_auto:good/'),
-      },
-    }));
+    // Performance optimization: Responsive image URLs from each photo's storage driver
+    const optimizedPhotos = photos.map(photo => withPhotoUrls(photo));
 
     return res.status(200).json(optimizedPhotos);
   } catch (error) {
@@ -0,0 +1,37 @@
+// pages/api/photos/labels.ts - Tags and people in use, for autocomplete
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getDatabase } from '@/lib/database';
+
+const LABEL_SUGGESTION_LIMIT = 10;
+
+/**
+ * GET ?kind=tag|person&q=prefix
+ * Returns { labels: [{ value, count }] }, the most used first
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const kind = req.query.kind ?? 'tag';
+  if (kind !== 'tag' && kind !== 'person') {
+    return res.status(400).json({ error: 'kind must be "tag" or "person"', code: 'VALIDATION_ERROR' });
+  }
+  const prefix = typeof req.query.q === 'string' ? req.query.q.trim().replace(/^#+/, '') : '';
+
+  try {
+    const db = await getDatabase();
+    const labels = await db.getPhotoLabels(kind, prefix, LABEL_SUGGESTION_LIMIT);
+    return res.status(200).json({ labels });
+  } catch (error) {
+    console.error('Photo labels error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
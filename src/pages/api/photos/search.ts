@@ -0,0 +1,42 @@
+// pages/api/photos/search.ts - Full-text gallery search with facet counts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getDatabase } from '@/lib/database';
+import { withPhotoUrls } from '@/lib/photoStorage';
+import { parsePhotoSearchQuery } from '@/lib/photoSearch';
+
+/**
+ * GET ?q=&tag=&person=&year=&album=
+ * tag and person may repeat - a photo must carry all of them. Returns
+ * { photos, facets } where facets counts tags, people, years and albums
+ * among the matching photos.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const { filters, error } = parsePhotoSearchQuery(req.query);
+  if (!filters) {
+    return res.status(400).json({ error, code: 'VALIDATION_ERROR' });
+  }
+
+  try {
+    const db = await getDatabase();
+    const { photos, facets } = await db.searchPhotos(filters);
+
+    return res.status(200).json({
+      photos: photos.map(photo => withPhotoUrls(photo)),
+      facets,
+    });
+  } catch (error) {
+    console.error('Photo search error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
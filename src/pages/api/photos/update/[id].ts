@@ -2,6 +2,8 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '../../../../lib/auth';
 import { getDatabase } from '../../../../lib/database';
+import { withPhotoUrls } from '../../../../lib/photoStorage';
+import { validatePhotoLabels } from '../../../../lib/photoSearch';
 
 /**
  * RESTful API endpoint for photo metadata updates
@@ -14,7 +16,9 @@ import { getDatabase } from '../../../../lib/database';
  * Request Body Interface:
  * {
  *   title?: string,       // Optional photo title (max 100 chars)
- *   description?: string  // Optional photo description (max 500 chars)
+ *   description?: string, // Optional photo description (max 500 chars)
+ *   tags?: string[],      // Replaces the photo's tags (stored lowercase)
+ *   people?: string[]     // Replaces who's in the photo
  * }
  * 
  * Response Formats:
@@ -25,6 +29,8 @@ import { getDatabase } from '../../../../lib/database';
 interface PhotoUpdateRequest {
   title?: string;
   description?: string;
+  tags?: string[];
+  people?: string[];
 }
 
 interface PhotoUpdateResponse {
@@ -133,6 +139,12 @@ export default async function handler(
     const updateData: PhotoUpdateRequest = req.body;
     const validationErrors = validatePhotoUpdateInput(updateData);
 
+    // Tags and people are normalized (trimmed, deduplicated) as they are checked
+    const labels = validatePhotoLabels(req.body ?? {});
+    if (labels.error) {
+      validationErrors.push(labels.error);
+    }
+
     if (validationErrors.length > 0) {
       return res.status(400).json({
         error: 'Validation failed: ' + validationErrors.join(', '),
@@ -157,7 +169,8 @@ export default async function handler(
     // Data sanitization with null coercion for database consistency
     const sanitizedData = {
       title: updateData.title?.trim() || undefined,
-      description: updateData.description?.trim() || undefined
+      description: updateData.description?.trim() || undefined,
+      ...labels.value
     };
 
     // Convert empty strings to undefined for proper database handling
@@ -189,7 +202,7 @@ export default async function handler(
     // Success response with structured data
     return res.status(200).json({
       message: 'Photo updated successfully',
-      photo: updatedPhoto
+      photo: withPhotoUrls(updatedPhoto)
     });
 
   } catch (error) {
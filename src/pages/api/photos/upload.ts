@@ -1,39 +1,21 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
-import { getDatabase } from '@/lib/database';
-import { deleteFromCloudinary, uploadToCloudinary } from "@/lib/cloudinary";
-import multer from 'multer';
-import { promisify } from 'util';
+import {
+  addUploadedPhotosToAlbum,
+  parsePhotoUploadOptions,
+  parseSinglePhotoUpload,
+  storeUploadedPhoto,
+  type PhotoUploadRequest
+} from '@/lib/photoUploads';
 
 /**
- * Multer configuration for memory storage (serverless-friendly)
- * File size limits and type validation prevent abuse and malicious uploads
- * Memory storage eliminates temporary file cleanup concerns in serverless environments
+ * Single photo upload - POST multipart/form-data with one "photo" file plus
+ * optional title, description, album_id, tags (a JSON list) and
+ * strip_location fields.
+ * Batches of photos go through /api/photos/batch instead.
  */
-const upload = multer({
-  storage: multer.memoryStorage(), // Store in memory for serverless compatibility
-  limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
-    files: 1, // Single file upload for this endpoint
-  },
-  fileFilter: (req, file, callback) => {
-    // MIME type validation with additional extension check
-    const allowedMimes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-    const allowedExtensions = /\.(jpg|jpeg|png|webp)$/i;
-    
-    if (allowedMimes.includes(file.mimetype) && allowedExtensions.test(file.originalname)) {
-      callback(null, true);
-    } else {
-      callback(new Error('Invalid file type. Only JPEG, PNG, and WebP are allowed.'));
-    }
-  },
-});
-
-// Promisify multer for async/await usage
-const uploadMiddleware = promisify(upload.single('photo'));
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: PhotoUploadRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     res.setHeader('Allow', ['POST']);
     return res.status(405).json({ 
@@ -54,7 +36,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     // File upload processing with error handling
     try {
-      await uploadMiddleware(req as any, res as any);
+      await parseSinglePhotoUpload(req, res);
     } catch (multerError) {
       return res.status(400).json({ 
         error: (multerError as Error).message,
@@ -62,8 +44,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
     }
 
-    // Type assertion with null check - TypeScript safety
-    const file = (req as any).file as Express.Multer.File | undefined;
+    const file = req.file;
     if (!file) {
       return res.status(400).json({ 
         error: 'No file uploaded',
@@ -71,38 +52,28 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
     }
 
-    // Cloudinary upload with comprehensive error handling
-    const uploadResult = await uploadToCloudinary(file.buffer, file.originalname);
-    if (!uploadResult.success) {
-      return res.status(500).json({ 
-        error: uploadResult.error,
-        code: 'CLOUDINARY_ERROR' 
+    const { options, error } = parsePhotoUploadOptions(req.body);
+    if (!options) {
+      return res.status(400).json({ 
+        error: error!,
+        code: 'VALIDATION_ERROR' 
       });
     }
 
-    // Database storage with transaction-like error handling
-    const db = await getDatabase();
-    const photoId = await db.addPhoto({
-      cloudinary_id: uploadResult.data!.cloudinary_id,
-      public_url: uploadResult.data!.public_url,
-      title: req.body.title || file.originalname,
-      description: req.body.description || null,
-      upload_date: new Date().toISOString(),
-    });
-
-    if (!photoId) {
-      // Cleanup Cloudinary upload if database insertion fails
-      await deleteFromCloudinary(uploadResult.data!.cloudinary_id);
-      return res.status(500).json({ 
-        error: 'Failed to save photo metadata',
-        code: 'DATABASE_ERROR' 
+    const result = await storeUploadedPhoto(file, options, session.user.id);
+    if (result.status === 'failed') {
+      // An image that cannot be stripped of its location fails the same way every time
+      return res.status(result.code === 'LOCATION_STRIP_FAILED' ? 422 : 500).json({ 
+        error: result.error,
+        code: result.code 
       });
     }
 
+    // Uploads from an album page are filed in that album too
+    await addUploadedPhotosToAlbum(options.album_id, [result.photo.id]);
+
     return res.status(201).json({
-      id: photoId,
-      cloudinary_id: uploadResult.data!.cloudinary_id,
-      public_url: uploadResult.data!.public_url,
+      ...result.photo,
       message: 'Photo uploaded successfully',
     });
 
@@ -0,0 +1,101 @@
+// pages/api/push/subscription.ts - Register this browser for Web Push reminders
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../lib/auth';
+import { getDatabase } from '../../../lib/database';
+import { getVapidPublicKey, isAllowedPushEndpoint, isWebPushConfigured } from '../../../lib/webPush';
+
+interface SubscriptionBody {
+  endpoint?: unknown;
+  expirationTime?: unknown;
+  keys?: { p256dh?: unknown; auth?: unknown };
+}
+
+/**
+ * Push Subscription Handler
+ * GET    - VAPID public key to pass as applicationServerKey (null when push is not configured)
+ * POST   - store a PushSubscription (the browser's subscription.toJSON())
+ * DELETE - { endpoint } - unsubscribe this device
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+    res.setHeader('Allow', ['GET', 'POST', 'DELETE']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ public_key: getVapidPublicKey() });
+    }
+
+    if (!isWebPushConfigured()) {
+      return res.status(503).json({
+        error: 'Push notifications are not configured on this server',
+        code: 'PUSH_NOT_CONFIGURED'
+      });
+    }
+
+    const userId = parseInt(session.user.id, 10);
+    const body: SubscriptionBody = req.body || {};
+    if (typeof body.endpoint !== 'string' || !body.endpoint) {
+      return res.status(400).json({
+        error: 'A subscription endpoint is required',
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const db = await getDatabase();
+
+    if (req.method === 'DELETE') {
+      await db.deletePushSubscription(body.endpoint, userId);
+      return res.status(200).json({ subscribed: false });
+    }
+
+    if (!isAllowedPushEndpoint(body.endpoint)) {
+      return res.status(400).json({
+        error: 'A valid https push service endpoint is required',
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const { p256dh, auth } = body.keys || {};
+    if (typeof p256dh !== 'string' || typeof auth !== 'string' || !p256dh || !auth) {
+      return res.status(400).json({
+        error: 'Subscription keys (p256dh, auth) are required',
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const subscription = await db.savePushSubscription(
+      userId,
+      {
+        endpoint: body.endpoint,
+        keys: { p256dh, auth },
+        expirationTime: typeof body.expirationTime === 'number' ? body.expirationTime : null
+      },
+      req.headers['user-agent']
+    );
+    if (!subscription) {
+      throw new Error('Failed to store push subscription');
+    }
+
+    return res.status(201).json({ subscribed: true });
+  } catch (error) {
+    console.error('Push subscription API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
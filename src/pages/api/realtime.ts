@@ -0,0 +1,81 @@
+// pages/api/realtime.ts - Server-Sent Events stream of data changes
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../lib/auth';
+import { getDatabase, type DataChange } from '../../lib/database';
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000; // Keeps proxies from closing an idle stream
+const CLIENT_RETRY_MS = 5000;
+
+export const config = {
+  api: {
+    responseLimit: false
+  }
+};
+
+/**
+ * Realtime Changes
+ * GET (signed in) - text/event-stream of `change` events ({ entity, action, id, changed_by })
+ * for events, photos and couple info, including changes made through other
+ * instances. Changes to a notification only go to its owner's streams.
+ * A `resync` event means changes may have been missed and clients should
+ * reload what they show
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  let db;
+  let userId: number;
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+    userId = parseInt(session.user.id, 10);
+    db = await getDatabase();
+  } catch (error) {
+    console.error('Realtime stream error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'Content-Encoding': 'none', // Compression would buffer the stream
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+  const send = (event: string, data: DataChange | Record<string, never>) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const unsubscribe = db.subscribeToChanges((change) => {
+    if (change) {
+      if (change.entity === 'notification' && change.user_id !== userId) return;
+      send('change', change);
+    } else {
+      send('resync', {});
+    }
+  });
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  await new Promise<void>((resolve) => req.on('close', resolve));
+
+  clearInterval(heartbeat);
+  unsubscribe();
+  res.end();
+}
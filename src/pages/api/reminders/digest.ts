@@ -0,0 +1,64 @@
+// pages/api/reminders/digest.ts - Preview or send the weekly "coming up" email
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../lib/auth';
+import { hasValidDispatchSecret } from '../../../lib/auth-utils';
+import { isEmailConfigured } from '../../../lib/email';
+import { renderWeeklyDigest, sendWeeklyDigest, sendWeeklyDigestIfDue } from '../../../lib/weeklyDigest';
+
+/**
+ * Weekly Digest Handler
+ * GET  - preview; ?format=html renders the email body, otherwise { subject, text, html }
+ * POST - send if due (same schedule as the dispatcher); { force: true } sends right away
+ *
+ * Authorization: either a signed-in session or
+ *   Authorization: Bearer <REMINDER_DISPATCH_SECRET>
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'POST'].includes(req.method || '')) {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  try {
+    if (!hasValidDispatchSecret(req)) {
+      const session = await getServerSession(req, res, authOptions);
+      if (!session) {
+        return res.status(401).json({
+          error: 'Authentication required',
+          code: 'UNAUTHORIZED'
+        });
+      }
+    }
+
+    if (req.method === 'GET') {
+      const email = await renderWeeklyDigest();
+      res.setHeader('Cache-Control', 'private, no-cache');
+      if (req.query.format === 'html') {
+        res.setHeader('Content-Type', 'text/html; charset=utf-8');
+        return res.status(200).send(email.html);
+      }
+      return res.status(200).json(email);
+    }
+
+    if (req.body?.force === true) {
+      const recipients = await sendWeeklyDigest();
+      return res.status(200).json({
+        status: 'sent',
+        recipients,
+        transport: isEmailConfigured() ? 'smtp' : 'console'
+      });
+    }
+
+    return res.status(200).json({ status: await sendWeeklyDigestIfDue() });
+  } catch (error) {
+    console.error('Weekly digest API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
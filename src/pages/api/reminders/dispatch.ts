@@ -0,0 +1,51 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../lib/auth';
+import { hasValidDispatchSecret } from '../../../lib/auth-utils';
+import { getReminderDispatcher } from '../../../lib/reminderDispatcher';
+import { getWebhookDispatcher } from '../../../lib/webhooks';
+
+/**
+ * Reminder dispatch trigger
+ * Drains one batch of due reminders and pending webhook retries - intended for cron services (Vercel Cron,
+ * GitHub Actions, crontab + curl) when the standalone worker is not running
+ *
+ * Authorization: either a signed-in session or
+ *   Authorization: Bearer <REMINDER_DISPATCH_SECRET>
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  try {
+    if (!hasValidDispatchSecret(req)) {
+      const session = await getServerSession(req, res, authOptions);
+      if (!session) {
+        return res.status(401).json({
+          error: 'Authentication required',
+          code: 'UNAUTHORIZED'
+        });
+      }
+    }
+
+    const result = await getReminderDispatcher().runOnce();
+    const webhooks = await getWebhookDispatcher().runOnce();
+
+    return res.status(200).json({
+      message: 'Reminder dispatch completed',
+      ...result,
+      webhooks
+    });
+  } catch (error) {
+    console.error('Reminder dispatch error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
@@ -0,0 +1,81 @@
+// pages/api/webhooks/[id].ts - Change or remove one outgoing webhook
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../lib/auth';
+import { getDatabase } from '../../../lib/database';
+import { generateWebhookSecret, toPublicWebhook, validateWebhookInput } from '../../../lib/webhooks';
+
+/**
+ * Webhook Handler
+ * PUT    - { url?, description?, events?, is_active?, rotate_secret? } - a
+ *          rotated secret is returned once, the old one stops working at once
+ * DELETE - remove the webhook and its delivery log
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['PUT', 'DELETE'].includes(req.method || '')) {
+    res.setHeader('Allow', ['PUT', 'DELETE']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const webhookId = parseInt(req.query.id as string, 10);
+  if (isNaN(webhookId)) {
+    return res.status(400).json({
+      error: 'Invalid webhook ID',
+      code: 'INVALID_PARAMETER'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const db = await getDatabase();
+
+    if (req.method === 'DELETE') {
+      if (!(await db.deleteWebhook(webhookId))) {
+        return res.status(404).json({
+          error: 'Webhook not found',
+          code: 'WEBHOOK_NOT_FOUND'
+        });
+      }
+      return res.status(200).json({ message: 'Webhook deleted' });
+    }
+
+    const body = req.body || {};
+    const { value, error } = validateWebhookInput(body, true);
+    if (error || !value) {
+      return res.status(400).json({
+        error,
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const newSecret = body.rotate_secret === true ? generateWebhookSecret() : undefined;
+    const webhook = await db.updateWebhook(webhookId, value, newSecret);
+    if (!webhook) {
+      return res.status(404).json({
+        error: 'Webhook not found',
+        code: 'WEBHOOK_NOT_FOUND'
+      });
+    }
+
+    return res.status(200).json({
+      webhook: toPublicWebhook(webhook),
+      ...(newSecret ? { secret: newSecret } : {})
+    });
+  } catch (error) {
+    console.error('Webhook API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
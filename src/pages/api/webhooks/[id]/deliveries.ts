@@ -0,0 +1,74 @@
+// pages/api/webhooks/[id]/deliveries.ts - Delivery log and redelivery for one webhook
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../../lib/auth';
+import { getDatabase } from '../../../../lib/database';
+import { getWebhookDispatcher } from '../../../../lib/webhooks';
+
+const MAX_LIMIT = 100;
+
+/**
+ * Webhook Deliveries Handler
+ * GET  - ?limit= most recent deliveries, newest first (default 50)
+ * POST - { delivery_id } - send that delivery's data again as a new delivery
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'POST'].includes(req.method || '')) {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const webhookId = parseInt(req.query.id as string, 10);
+  if (isNaN(webhookId)) {
+    return res.status(400).json({
+      error: 'Invalid webhook ID',
+      code: 'INVALID_PARAMETER'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const db = await getDatabase();
+
+    if (req.method === 'GET') {
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit || '50'), 10) || 50, 1), MAX_LIMIT);
+      res.setHeader('Cache-Control', 'private, no-cache');
+      return res.status(200).json({ deliveries: await db.getWebhookDeliveries(webhookId, limit) });
+    }
+
+    const deliveryId = req.body?.delivery_id;
+    if (!Number.isInteger(deliveryId)) {
+      return res.status(400).json({
+        error: 'delivery_id must be a delivery number',
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const delivery = await db.redeliverWebhookDelivery(webhookId, deliveryId);
+    if (!delivery) {
+      return res.status(404).json({
+        error: 'Delivery not found',
+        code: 'DELIVERY_NOT_FOUND'
+      });
+    }
+
+    getWebhookDispatcher().kick();
+    return res.status(202).json({ delivery });
+  } catch (error) {
+    console.error('Webhook deliveries API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
@@ -0,0 +1,63 @@
+// pages/api/webhooks/index.ts - List and create outgoing webhooks
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../lib/auth';
+import { getDatabase } from '../../../lib/database';
+import { generateWebhookSecret, toPublicWebhook, validateWebhookInput } from '../../../lib/webhooks';
+import type { WebhookInput } from '../../../types/webhook';
+
+/**
+ * Webhooks Handler
+ * GET  - every webhook with the status of its latest delivery
+ * POST - { url, description?, events[], is_active? } - create; the response
+ *        carries the signing secret, which is not shown again
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'POST'].includes(req.method || '')) {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.id) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const db = await getDatabase();
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ webhooks: await db.getWebhooks() });
+    }
+
+    const { value, error } = validateWebhookInput(req.body || {}, false);
+    if (error || !value) {
+      return res.status(400).json({
+        error,
+        code: 'VALIDATION_ERROR'
+      });
+    }
+
+    const webhook = await db.createWebhook(value as WebhookInput, generateWebhookSecret(), session.user.id);
+    if (!webhook) {
+      throw new Error('Failed to create webhook');
+    }
+
+    return res.status(201).json({
+      webhook: toPublicWebhook(webhook),
+      secret: webhook.secret
+    });
+  } catch (error) {
+    console.error('Webhooks API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
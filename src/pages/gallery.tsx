@@ -3,16 +3,27 @@ import { GetServerSideProps } from 'next';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '../lib/auth';
 import {getDatabase} from '../lib/database';
+import { withPhotoUrls } from '../lib/photoStorage';
+import { parsePhotoSearchQuery } from '../lib/photoSearch';
 import Head from 'next/head';
 import Link from 'next/link';
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { useRouter } from 'next/router';
 import { useSession } from 'next-auth/react';
 import { toast } from 'react-toastify';
 import Image from 'next/image';
-import { format, parseISO } from 'date-fns';
+import { getPhotoDate, formatPhotoDate, groupPhotosByMonth } from '../utils/photoDates';
 import NavHeader from '@/components/NavHeader';
 import PhotoEditModal from '@/components/PhotoEditModal';
 import DynamicMasonry from '@/components/DynamicMasonry';
+import AlbumStrip from '@/components/AlbumStrip';
+import AlbumFormModal from '@/components/AlbumFormModal';
+import PhotoUploadPanel from '@/components/PhotoUploadPanel';
+import PhotoFilterChips, { type PhotoFacetFilters } from '@/components/PhotoFilterChips';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+import { withAlbumCoverUrls } from '../lib/albums';
+import type { PhotoAlbum } from '../types/album';
+import type { PhotoFacets, PhotoSearchFilters } from '../types/photoSearch';
 
 interface Photo {
   id: number;
@@ -21,6 +32,14 @@ interface Photo {
   title?: string;
   description?: string;
   upload_date: string;
+  taken_at?: string;
+  taken_at_offset?: string;
+  camera_make?: string;
+  camera_model?: string;
+  latitude?: number;
+  longitude?: number;
+  tags?: string[];
+  people?: string[];
   thumbnails?: {
     small: string;
     medium: string;
@@ -30,8 +49,14 @@ interface Photo {
 
 interface GalleryPageProps {
   photos: Photo[];
+  facets: PhotoFacets;
+  filters: PhotoSearchFilters; // Search from the URL (?q=&tag=&person=&year=)
+  albums: PhotoAlbum[];
+  album: PhotoAlbum | null; // Set on an album page (/gallery?album=<id>)
 }
 
+type SortOption = 'album' | 'newest' | 'oldest' | 'title';
+
 /**
  * Enhanced photo gallery với Masonry Layout
  * Features:
@@ -39,20 +64,46 @@ interface GalleryPageProps {
  * - Responsive breakpoints
  * - Smooth animations and transitions
  * - Optimized performance with proper image sizing
+ * - Albums with a cover and a manual order, one page each
+ * - Server-side full-text search with tag, people, year and album filter chips
  */
-export default function GalleryPage({ photos: initialPhotos }: GalleryPageProps) {
+export default function GalleryPage(props: GalleryPageProps) {
+  // Moving between albums keeps this page mounted - start each one fresh
+  return <GalleryView key={props.album?.id ?? 'all'} {...props} />;
+}
+
+function GalleryView({
+  photos: initialPhotos,
+  facets: initialFacets,
+  filters: initialFilters,
+  albums: initialAlbums,
+  album: initialAlbum
+}: GalleryPageProps) {
   const { data: session } = useSession();
+  const router = useRouter();
   const [photos, setPhotos] = useState<Photo[]>(initialPhotos);
+  const [albums, setAlbums] = useState<PhotoAlbum[]>(initialAlbums);
+  const [album, setAlbum] = useState<PhotoAlbum | null>(initialAlbum);
   const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null);
   const [selectedPhotoIndex, setSelectedPhotoIndex] = useState<number>(-1);
-  const [isUploading, setIsUploading] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState<'newest' | 'oldest' | 'title'>('newest');
+  const [searchTerm, setSearchTerm] = useState(initialFilters.q || '');
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState(searchTerm);
+  const [facetFilters, setFacetFilters] = useState<PhotoFacetFilters>({
+    tags: initialFilters.tags || [],
+    people: initialFilters.people || [],
+    year: initialFilters.year,
+  });
+  const [facets, setFacets] = useState<PhotoFacets>(initialFacets);
+  const [sortBy, setSortBy] = useState<SortOption>(initialAlbum ? 'album' : 'newest');
 
   // State cho edit modal
   const [editingPhoto, setEditingPhoto] = useState<Photo | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
 
+  // Album form: create when albumFormTarget is null, edit otherwise
+  const [isAlbumFormOpen, setIsAlbumFormOpen] = useState(false);
+  const [albumFormTarget, setAlbumFormTarget] = useState<PhotoAlbum | null>(null);
+
   // Masonry breakpoints configuration
   const breakpointColumnsObj = {
     default: 4,
@@ -61,97 +112,142 @@ export default function GalleryPage({ photos: initialPhotos }: GalleryPageProps)
     500: 1
   };
 
-  // Memoized filtered and sorted photos for performance
+  const isFiltering = Boolean(
+    searchTerm.trim() || facetFilters.tags?.length || facetFilters.people?.length || facetFilters.year
+  );
+
+  // Memoized sorted photos for performance - searching and filtering happen
+  // on the server, so photos only holds the matches
   const filteredPhotos = useMemo(() => {
-    let filtered = photos;
-
-    // Search filtering
-    if (searchTerm.trim()) {
-      const term = searchTerm.toLowerCase();
-      filtered = photos.filter(photo =>
-        photo.title?.toLowerCase().includes(term) ||
-        photo.description?.toLowerCase().includes(term)
-      );
-    }
+    const filtered = photos;
 
-    // Sorting
+    // Sorting - album order is the order the API returns
     switch (sortBy) {
+      case 'album':
+        return filtered;
       case 'newest':
-        return [...filtered].sort((a, b) => new Date(b.upload_date).getTime() - new Date(a.upload_date).getTime());
+        return [...filtered].sort((a, b) => getPhotoDate(b).getTime() - getPhotoDate(a).getTime());
       case 'oldest':
-        return [...filtered].sort((a, b) => new Date(a.upload_date).getTime() - new Date(b.upload_date).getTime());
+        return [...filtered].sort((a, b) => getPhotoDate(a).getTime() - getPhotoDate(b).getTime());
       case 'title':
         return [...filtered].sort((a, b) => (a.title || '').localeCompare(b.title || ''));
       default:
         return filtered;
     }
-  }, [photos, searchTerm, sortBy]);
-
-  // Enhanced photo upload with drag & drop support
-  const handlePhotoUpload = useCallback(async (files: FileList) => {
-    if (!session) {
-      toast.error('Please sign in to upload photos');
-      return;
-    }
-
-    const validFiles = Array.from(files).filter(file => {
-      const isValidType = file.type.startsWith('image/');
-      const isValidSize = file.size <= 10 * 1024 * 1024; // 10MB limit
-
-      if (!isValidType) {
-        toast.error(`${file.name} is not a valid image file`);
-        return false;
-      }
-      if (!isValidSize) {
-        toast.error(`${file.name} is too large (max 10MB)`);
-        return false;
-      }
-      return true;
-    });
-
-    if (validFiles.length === 0) return;
-
-    setIsUploading(true);
-    const uploadPromises = validFiles.map(async (file) => {
-      const formData = new FormData();
-      formData.append('photo', file);
-      formData.append('title', file.name.replace(/\.[^/.]+$/, ''));
-
-      try {
-        const response = await fetch('/api/photos/upload', {
-          method: 'POST',
-          body: formData,
-        });
-
-        if (!response.ok) {
-          const error = await response.json();
-          throw new Error(error.error || 'Upload failed');
-        }
-
-        return await response.json();
-      } catch (error) {
-        console.error(`Upload failed for ${file.name}:`, error);
-        toast.error(`Failed to upload ${file.name}`);
-        return null;
-      }
+  }, [photos, sortBy]);
+
+  // Date orders are grouped by the month the photos were taken; start is the
+  // group's first index in filteredPhotos, which the lightbox walks through
+  const photoGroups = useMemo(() => {
+    const groups = sortBy === 'newest' || sortBy === 'oldest'
+      ? groupPhotosByMonth(filteredPhotos)
+      : [{ key: 'all', label: '', photos: filteredPhotos }];
+
+    let start = 0;
+    return groups.map(group => {
+      const withStart = { ...group, start };
+      start += group.photos.length;
+      return withStart;
     });
+  }, [filteredPhotos, sortBy]);
+
+  const albumId = album?.id;
+
+  // The search as query parameters, also mirrored in the page URL
+  const searchQuery = useMemo(() => {
+    const params = new URLSearchParams();
+    if (debouncedSearchTerm.trim()) params.set('q', debouncedSearchTerm.trim());
+    facetFilters.tags?.forEach(tag => params.append('tag', tag));
+    facetFilters.people?.forEach(person => params.append('person', person));
+    if (facetFilters.year) params.set('year', String(facetFilters.year));
+    return params.toString();
+  }, [debouncedSearchTerm, facetFilters]);
+
+  // Reload the gallery (or this album) through the search API (thumbnails
+  // included); only the latest search may land if several are in flight
+  const searchRequestRef = useRef(0);
+  const reloadPhotos = useCallback(async () => {
+    const requestId = ++searchRequestRef.current;
+    const params = new URLSearchParams(searchQuery);
+    if (albumId) params.set('album', String(albumId));
 
     try {
-      const results = await Promise.all(uploadPromises);
-      const successfulUploads = results.filter(result => result !== null);
+      const response = await fetch(`/api/photos/search?${params}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
 
-      if (successfulUploads.length > 0) {
-        toast.success(`Successfully uploaded ${successfulUploads.length} photo(s)!`);
-        // Refresh photos
-        window.location.reload();
+      const data: { photos: Photo[]; facets: PhotoFacets } = await response.json();
+      if (requestId !== searchRequestRef.current) return;
+      setPhotos(data.photos);
+      setFacets(data.facets);
+    } catch (error) {
+      console.error('Failed to reload photos:', error);
+    }
+  }, [searchQuery, albumId]);
+
+  // Typing settles before the search goes out
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchTerm(searchTerm), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Search again when the filters change (the server rendered the first search)
+  const lastSearchRef = useRef(searchQuery);
+  useEffect(() => {
+    if (lastSearchRef.current === searchQuery) return;
+    lastSearchRef.current = searchQuery;
+
+    reloadPhotos();
+    const params = new URLSearchParams(searchQuery);
+    if (albumId) params.set('album', String(albumId));
+    const query = params.toString();
+    router.replace(query ? `/gallery?${query}` : '/gallery', undefined, { shallow: true, scroll: false });
+  }, [searchQuery, albumId, reloadPhotos, router]);
+
+  // Album details come with the album list; an album missing from it was deleted
+  const reloadAlbums = useCallback(async () => {
+    try {
+      const response = await fetch('/api/albums');
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const latest: PhotoAlbum[] = (await response.json()).albums;
+      setAlbums(latest);
+      if (albumId) {
+        const current = latest.find(a => a.id === albumId);
+        if (current) {
+          setAlbum(current);
+        } else {
+          toast.info('This album was deleted');
+          router.push('/gallery');
+        }
       }
     } catch (error) {
-      console.error('Batch upload error:', error);
-      toast.error('Some uploads failed');
-    } finally {
-      setIsUploading(false);
+      console.error('Failed to reload albums:', error);
+    }
+  }, [albumId, router]);
+
+  // Live updates - photos added, edited or removed by the partner show up without a reload
+  useRealtimeChanges(['photo'], (change) => {
+    if (change?.action === 'deleted') {
+      setPhotos(prev => prev.filter(p => p.id !== change.id));
+      setSelectedPhoto(prev => (prev?.id === change.id ? null : prev));
+      reloadAlbums(); // Counts and covers may have changed
+      return;
     }
-  }, [session]);
+    reloadPhotos();
+  });
+
+  useRealtimeChanges(['album'], (change) => {
+    reloadAlbums();
+    if (albumId && (!change || change.id === albumId)) {
+      reloadPhotos();
+    }
+  });
+
+  // Album counts and covers change with uploads filed in an album
+  const handleUploaded = useCallback(() => {
+    reloadPhotos();
+    reloadAlbums();
+  }, [reloadPhotos, reloadAlbums]);
 
   // Photo deletion with optimistic updates
   const handleDeletePhoto = useCallback(async (photoId: number) => {
@@ -204,6 +300,129 @@ export default function GalleryPage({ photos: initialPhotos }: GalleryPageProps)
     }
   }, [selectedPhoto]);
 
+  // Album membership and order - the server's album (count, cover) comes back with each change
+  const changeAlbumPhotos = useCallback(async (
+    targetAlbumId: number,
+    method: 'POST' | 'PUT' | 'DELETE',
+    photoIds: number[]
+  ): Promise<PhotoAlbum> => {
+    const response = await fetch(`/api/albums/${targetAlbumId}/photos`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ photo_ids: photoIds }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to update album');
+    }
+
+    setAlbums(prev => prev.map(a => (a.id === data.album.id ? data.album : a)));
+    if (data.album.id === albumId) {
+      setAlbum(data.album);
+    }
+    return data.album;
+  }, [albumId]);
+
+  const handleAddToAlbum = useCallback(async (photo: Photo, targetAlbumId: number) => {
+    try {
+      const updatedAlbum = await changeAlbumPhotos(targetAlbumId, 'POST', [photo.id]);
+      toast.success(`Added to ${updatedAlbum.title}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add photo to album');
+    }
+  }, [changeAlbumPhotos]);
+
+  const handleRemoveFromAlbum = useCallback(async (photo: Photo, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!albumId) return;
+
+    const originalPhotos = photos;
+    setPhotos(prev => prev.filter(p => p.id !== photo.id));
+    try {
+      await changeAlbumPhotos(albumId, 'DELETE', [photo.id]);
+      toast.success('Removed from album');
+    } catch (error) {
+      setPhotos(originalPhotos);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove photo from album');
+    }
+  }, [albumId, photos, changeAlbumPhotos]);
+
+  // Swap a photo with its neighbour in album order
+  const handleMovePhoto = useCallback(async (photo: Photo, offset: -1 | 1, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!albumId) return;
+
+    const index = photos.findIndex(p => p.id === photo.id);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= photos.length) return;
+
+    const originalPhotos = photos;
+    const reordered = [...photos];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setPhotos(reordered);
+
+    try {
+      await changeAlbumPhotos(albumId, 'PUT', reordered.map(p => p.id));
+    } catch (error) {
+      setPhotos(originalPhotos);
+      toast.error(error instanceof Error ? error.message : 'Failed to reorder album');
+    }
+  }, [albumId, photos, changeAlbumPhotos]);
+
+  const handleSetCover = useCallback(async (photo: Photo, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!albumId) return;
+
+    try {
+      const response = await fetch(`/api/albums/${albumId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cover_photo_id: photo.id }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to set cover');
+      }
+
+      setAlbum(data.album);
+      setAlbums(prev => prev.map(a => (a.id === data.album.id ? data.album : a)));
+      toast.success('Album cover updated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to set cover');
+    }
+  }, [albumId]);
+
+  const handleAlbumSaved = useCallback((savedAlbum: PhotoAlbum) => {
+    setAlbums(prev => {
+      // Featuring one album un-features the others
+      const others = prev
+        .filter(a => a.id !== savedAlbum.id)
+        .map(a => (savedAlbum.is_featured ? { ...a, is_featured: false } : a));
+      return [savedAlbum, ...others];
+    });
+
+    if (savedAlbum.id === albumId) {
+      setAlbum(savedAlbum);
+    } else if (!albumFormTarget) {
+      router.push(`/gallery?album=${savedAlbum.id}`); // Open a new album right away
+    }
+  }, [albumId, albumFormTarget, router]);
+
+  const handleAlbumDeleted = useCallback((deletedAlbumId: number) => {
+    setAlbums(prev => prev.filter(a => a.id !== deletedAlbumId));
+    if (deletedAlbumId === albumId) {
+      router.push('/gallery');
+    }
+  }, [albumId, router]);
+
+  const openAlbumForm = useCallback((target: PhotoAlbum | null) => {
+    setAlbumFormTarget(target);
+    setIsAlbumFormOpen(true);
+  }, []);
+
+  // Reordering sends the whole album, so it needs every photo on screen
+  const canArrange = Boolean(session && album && sortBy === 'album' && !isFiltering);
+
   // Keyboard navigation for lightbox
   const handleKeyNavigation = useCallback((e: KeyboardEvent) => {
     if (!selectedPhoto) return;
@@ -238,29 +457,6 @@ export default function GalleryPage({ photos: initialPhotos }: GalleryPageProps)
     }
   }, [selectedPhoto, handleKeyNavigation]);
 
-  // Drag and drop handlers
-  const [isDragOver, setIsDragOver] = useState(false);
-
-  const handleDragOver = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    setIsDragOver(true);
-  }, []);
-
-  const handleDragLeave = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    setIsDragOver(false);
-  }, []);
-
-  const handleDrop = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    setIsDragOver(false);
-
-    const files = e.dataTransfer.files;
-    if (files.length > 0) {
-      handlePhotoUpload(files);
-    }
-  }, [handlePhotoUpload]);
-
   const openPhotoModal = useCallback((photo: Photo, index: number) => {
     setSelectedPhoto(photo);
     setSelectedPhotoIndex(index);
@@ -269,8 +465,8 @@ export default function GalleryPage({ photos: initialPhotos }: GalleryPageProps)
   return (
     <>
       <Head>
-        <title>Our Photo Gallery - Love Story</title>
-        <meta name="description" content="Beautiful memories from our journey together" />
+        <title>{album ? `${album.title} - Love Story` : 'Our Photo Gallery - Love Story'}</title>
+        <meta name="description" content={album?.description || 'Beautiful memories from our journey together'} />
       </Head>
 
       <div className="container mx-auto px-4 py-8 max-w-7xl">
@@ -280,7 +476,18 @@ export default function GalleryPage({ photos: initialPhotos }: GalleryPageProps)
         {/* Header with controls */}
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8 space-y-4 md:space-y-0">
           <div>
-            <h1 className="text-4xl font-bold text-gray-800 mb-2">Our Memories</h1>
+            <div className="flex items-center gap-3 mb-2">
+              <h1 className="text-4xl font-bold text-gray-800">{album ? album.title : 'Our Memories'}</h1>
+              {session && album && (
+                <button
+                  onClick={() => openAlbumForm(album)}
+                  className="text-sm text-pink-600 hover:text-pink-700 font-medium"
+                >
+                  Edit album
+                </button>
+              )}
+            </div>
+            {album?.description && <p className="text-gray-700 mb-1">{album.description}</p>}
             <p className="text-gray-600">{filteredPhotos.length} beautiful moments captured</p>
           </div>
 
@@ -289,7 +496,7 @@ export default function GalleryPage({ photos: initialPhotos }: GalleryPageProps)
             <div className="relative">
               <input
                 type="text"
-                placeholder="Search photos..."
+                placeholder="Search titles, tags, people..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-full sm:w-64 px-4 py-2 pl-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
@@ -301,9 +508,10 @@ export default function GalleryPage({ photos: initialPhotos }: GalleryPageProps)
 
             <select
               value={sortBy}
-              onChange={(e) => setSortBy(e.target.value as any)}
+              onChange={(e) => setSortBy(e.target.value as SortOption)}
               className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
             >
+              {album && <option value="album">Album Order</option>}
               <option value="newest">Newest First</option>
               <option value="oldest">Oldest First</option>
               <option value="title">By Title</option>
@@ -311,122 +519,157 @@ export default function GalleryPage({ photos: initialPhotos }: GalleryPageProps)
           </div>
         </div>
 
+        <PhotoFilterChips
+          facets={facets}
+          filters={facetFilters}
+          onChange={setFacetFilters}
+          albumHref={album ? undefined : (id) => {
+            const params = new URLSearchParams(searchQuery);
+            params.set('album', String(id));
+            return `/gallery?${params}`;
+          }}
+        />
+
+        <AlbumStrip
+          albums={albums}
+          activeAlbumId={album?.id}
+          onCreateAlbum={session ? () => openAlbumForm(null) : undefined}
+        />
+
         {/* Upload area */}
         {session && (
-          <div
-            className={`mb-8 border-2 border-dashed rounded-xl p-8 text-center transition-colors ${isDragOver
-              ? 'border-pink-400 bg-pink-50'
-              : 'border-gray-300 hover:border-pink-300 hover:bg-pink-25'
-              }`}
-            onDragOver={handleDragOver}
-            onDragLeave={handleDragLeave}
-            onDrop={handleDrop}
-          >
-            <div className="flex flex-col items-center space-y-4">
-              {isUploading ? (
-                <>
-                  <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500" />
-                  <p className="text-gray-600">Uploading photos...</p>
-                </>
-              ) : (
-                <>
-                  <svg className="h-16 w-16 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-                  </svg>
-                  <div>
-                    <p className="text-lg font-medium text-gray-700">Drop photos here or click to upload</p>
-                    <p className="text-sm text-gray-500">Supports JPEG, PNG, WebP up to 10MB each</p>
-                  </div>
-                  <input
-                    type="file"
-                    multiple
-                    accept="image/*"
-                    onChange={(e) => e.target.files && handlePhotoUpload(e.target.files)}
-                    className="hidden"
-                    id="photo-upload"
-                  />
-                  <label
-                    htmlFor="photo-upload"
-                    className="bg-pink-500 text-white px-6 py-2 rounded-lg hover:bg-pink-600 transition-colors cursor-pointer font-medium"
-                  >
-                    Choose Photos
-                  </label>
-                </>
-              )}
-            </div>
-          </div>
+          <PhotoUploadPanel albums={albums} albumId={album?.id} onUploaded={handleUploaded} />
         )}
 
         {/* Masonry Photo Grid */}
         {filteredPhotos.length > 0 ? (
-          <DynamicMasonry
-            breakpointCols={breakpointColumnsObj}
-            className="flex w-auto -ml-4"
-            columnClassName="pl-4 bg-clip-padding"
-          >
-            {filteredPhotos.map((photo, index) => (
-              <div
-                key={photo.id}
-                className="mb-4 bg-white rounded-xl shadow-sm hover:shadow-lg transition-all duration-300 cursor-pointer group overflow-hidden"
-                onClick={() => openPhotoModal(photo, index)}
-              >
-                <div className="relative overflow-hidden rounded-t-xl">
-                  <Image
-                    src={photo.thumbnails?.medium || photo.public_url}
-                    alt={photo.title || `Photo ${photo.id}`}
-                    width={400}
-                    height={300}
-                    className="w-full h-auto object-cover group-hover:scale-105 transition-transform duration-500 ease-out"
-                    loading="lazy"
-                    sizes="(max-width: 500px) 100vw, (max-width: 700px) 50vw, (max-width: 1100px) 33vw, 25vw"
-                  />
+          <div className="space-y-10">
+            {photoGroups.map(group => (
+              <section key={group.key} aria-label={group.label || undefined}>
+                {group.label && (
+                  <h2 className="text-xl font-semibold text-gray-700 mb-4">
+                    {group.label}
+                    <span className="ml-2 text-sm font-normal text-gray-500">{group.photos.length}</span>
+                  </h2>
+                )}
+                <DynamicMasonry
+                  breakpointCols={breakpointColumnsObj}
+                  className="flex w-auto -ml-4"
+                  columnClassName="pl-4 bg-clip-padding"
+                >
+                  {group.photos.map((photo, groupIndex) => {
+                    const index = group.start + groupIndex;
+                    return (
+                      <div
+                        key={photo.id}
+                        className="mb-4 bg-white rounded-xl shadow-sm hover:shadow-lg transition-all duration-300 cursor-pointer group overflow-hidden"
+                        onClick={() => openPhotoModal(photo, index)}
+                      >
+                        <div className="relative overflow-hidden rounded-t-xl">
+                          <Image
+                            src={photo.thumbnails?.medium || photo.public_url}
+                            alt={photo.title || `Photo ${photo.id}`}
+                            width={400}
+                            height={300}
+                            className="w-full h-auto object-cover group-hover:scale-105 transition-transform duration-500 ease-out"
+                            loading="lazy"
+                            sizes="(max-width: 500px) 100vw, (max-width: 700px) 50vw, (max-width: 1100px) 33vw, 25vw"
+                          />
                   
-                  {/* Overlay with gradient */}
-                  <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-                    <div className="absolute bottom-3 left-3 right-3 text-white">
-                      {photo.title && (
-                        <h3 className="font-semibold text-sm truncate mb-1 drop-shadow-lg">
-                          {photo.title}
-                        </h3>
-                      )}
-                      <p className="text-xs opacity-90 drop-shadow-lg">
-                        {format(parseISO(photo.upload_date), 'MMM d, yyyy')}
-                      </p>
-                    </div>
-                  </div>
+                          {/* Overlay with gradient */}
+                          <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+                            <div className="absolute bottom-3 left-3 right-3 text-white">
+                              {photo.title && (
+                                <h3 className="font-semibold text-sm truncate mb-1 drop-shadow-lg">
+                                  {photo.title}
+                                </h3>
+                              )}
+                              <p className="text-xs opacity-90 drop-shadow-lg">
+                                {formatPhotoDate(photo, 'MMM d, yyyy')}
+                              </p>
+                            </div>
+                          </div>
                   
-                  {/* Edit button */}
-                  {session && (
-                    <button
-                      onClick={(e) => handleEditPhoto(photo, e)}
-                      className="absolute top-2 right-2 bg-white/20 backdrop-blur-sm text-white rounded-full p-2 opacity-0 group-hover:opacity-100 transition-all duration-200 hover:bg-white/30 hover:scale-110 z-10"
-                      aria-label="Edit photo details"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                      </svg>
-                    </button>
-                  )}
-                </div>
+                          {/* Edit button */}
+                          {session && (
+                            <button
+                              onClick={(e) => handleEditPhoto(photo, e)}
+                              className="absolute top-2 right-2 bg-white/20 backdrop-blur-sm text-white rounded-full p-2 opacity-0 group-hover:opacity-100 transition-all duration-200 hover:bg-white/30 hover:scale-110 z-10"
+                              aria-label="Edit photo details"
+                            >
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                              </svg>
+                            </button>
+                          )}
+
+                          {/* Album controls - cover, order and removal */}
+                          {session && album && (
+                            <div className="absolute top-2 left-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200 z-10">
+                              {canArrange && (
+                                <>
+                                  <button
+                                    onClick={(e) => handleMovePhoto(photo, -1, e)}
+                                    disabled={index === 0}
+                                    className="bg-white/20 backdrop-blur-sm text-white rounded-full w-8 h-8 hover:bg-white/30 disabled:opacity-40"
+                                    aria-label="Move earlier in album"
+                                  >
+                                    ←
+                                  </button>
+                                  <button
+                                    onClick={(e) => handleMovePhoto(photo, 1, e)}
+                                    disabled={index === filteredPhotos.length - 1}
+                                    className="bg-white/20 backdrop-blur-sm text-white rounded-full w-8 h-8 hover:bg-white/30 disabled:opacity-40"
+                                    aria-label="Move later in album"
+                                  >
+                                    →
+                                  </button>
+                                </>
+                              )}
+                              <button
+                                onClick={(e) => handleSetCover(photo, e)}
+                                className={`backdrop-blur-sm rounded-full w-8 h-8 hover:bg-white/30 ${
+                                  album.cover?.id === photo.id ? 'bg-pink-500 text-white' : 'bg-white/20 text-white'
+                                }`}
+                                aria-label={album.cover?.id === photo.id ? 'Album cover' : 'Use as album cover'}
+                                title={album.cover?.id === photo.id ? 'Album cover' : 'Use as album cover'}
+                              >
+                                ★
+                              </button>
+                              <button
+                                onClick={(e) => handleRemoveFromAlbum(photo, e)}
+                                className="bg-white/20 backdrop-blur-sm text-white rounded-full w-8 h-8 hover:bg-red-500/60"
+                                aria-label="Remove from album"
+                                title="Remove from album"
+                              >
+                                ✕
+                              </button>
+                            </div>
+                          )}
+                        </div>
                 
-                {/* Photo metadata */}
-                {(photo.title || photo.description) && (
-                  <div className="p-4">
-                    {photo.title && (
-                      <h3 className="font-semibold text-gray-800 mb-2 leading-tight">
-                        {photo.title}
-                      </h3>
-                    )}
-                    {photo.description && (
-                      <p className="text-sm text-gray-600 leading-relaxed line-clamp-3">
-                        {photo.description}
-                      </p>
-                    )}
-                  </div>
-                )}
-              </div>
+                        {/* Photo metadata */}
+                        {(photo.title || photo.description) && (
+                          <div className="p-4">
+                            {photo.title && (
+                              <h3 className="font-semibold text-gray-800 mb-2 leading-tight">
+                                {photo.title}
+                              </h3>
+                            )}
+                            {photo.description && (
+                              <p className="text-sm text-gray-600 leading-relaxed line-clamp-3">
+                                {photo.description}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </DynamicMasonry>
+              </section>
             ))}
-          </DynamicMasonry>
+          </div>
         ) : (
           <div className="text-center py-16">
             <div className="mx-auto h-24 w-24 text-gray-300 mb-4">
@@ -435,15 +678,17 @@ export default function GalleryPage({ photos: initialPhotos }: GalleryPageProps)
               </svg>
             </div>
             <h3 className="text-xl font-medium text-gray-700 mb-2">
-              {searchTerm ? 'No photos match your search' : 'No photos yet'}
+              {isFiltering ? 'No photos match your search' : album ? 'This album is empty' : 'No photos yet'}
             </h3>
             <p className="text-gray-500 mb-6">
-              {searchTerm
-                ? 'Try adjusting your search terms'
-                : 'Start building your photo collection by uploading your first memories'
+              {isFiltering
+                ? 'Try other search terms or remove a filter'
+                : album
+                  ? 'Upload photos here, or add them from a photo in All photos'
+                  : 'Start building your photo collection by uploading your first memories'
               }
             </p>
-            {!session && !searchTerm && (
+            {!session && !isFiltering && (
               <Link href="/login" className="inline-block bg-pink-500 text-white px-6 py-3 rounded-lg hover:bg-pink-600 transition-colors font-medium">
                 Sign In to Upload Photos
               </Link>
@@ -489,6 +734,19 @@ export default function GalleryPage({ photos: initialPhotos }: GalleryPageProps)
 
             {/* Action buttons */}
             <div className="absolute top-4 right-4 flex space-x-2 z-10">
+              {session && !album && albums.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && handleAddToAlbum(selectedPhoto, parseInt(e.target.value, 10))}
+                  className="bg-white/10 backdrop-blur-sm text-white rounded-full px-4 py-2 hover:bg-white/20 transition-all duration-200 text-sm"
+                  aria-label="Add to album"
+                >
+                  <option value="" className="text-gray-800">Add to album…</option>
+                  {albums.map(a => (
+                    <option key={a.id} value={a.id} className="text-gray-800">{a.title}</option>
+                  ))}
+                </select>
+              )}
               {session && (
                 <>
                   <button
@@ -547,8 +805,58 @@ export default function GalleryPage({ photos: initialPhotos }: GalleryPageProps)
                   {selectedPhoto.description && (
                     <p className="text-gray-200 mb-2 leading-relaxed">{selectedPhoto.description}</p>
                   )}
+                  {/* Tags and people filter the gallery by themselves */}
+                  {(selectedPhoto.tags?.length || selectedPhoto.people?.length) ? (
+                    <div className="flex flex-wrap gap-2 mb-3">
+                      {selectedPhoto.people?.map(person => (
+                        <button
+                          key={`person-${person}`}
+                          onClick={() => {
+                            setFacetFilters(prev => ({ ...prev, people: [person] }));
+                            setSelectedPhoto(null);
+                            setSelectedPhotoIndex(-1);
+                          }}
+                          className="rounded-full bg-purple-500/30 hover:bg-purple-500/50 px-3 py-0.5 text-sm text-white"
+                        >
+                          {person}
+                        </button>
+                      ))}
+                      {selectedPhoto.tags?.map(tag => (
+                        <button
+                          key={`tag-${tag}`}
+                          onClick={() => {
+                            setFacetFilters(prev => ({ ...prev, tags: [tag] }));
+                            setSelectedPhoto(null);
+                            setSelectedPhotoIndex(-1);
+                          }}
+                          className="rounded-full bg-pink-500/30 hover:bg-pink-500/50 px-3 py-0.5 text-sm text-white"
+                        >
+                          #{tag}
+                        </button>
+                      ))}
+                    </div>
+                  ) : null}
                   <div className="flex justify-between items-center text-sm text-gray-300">
-                    <span>{format(parseISO(selectedPhoto.upload_date), 'MMMM d, yyyy • h:mm a')}</span>
+                    <span className="flex flex-wrap gap-x-4">
+                      <span>{formatPhotoDate(selectedPhoto, 'MMMM d, yyyy • h:mm a')}</span>
+                      {selectedPhoto.camera_model && (
+                        <span>
+                          📷 {selectedPhoto.camera_make && !selectedPhoto.camera_model.startsWith(selectedPhoto.camera_make)
+                            ? `${selectedPhoto.camera_make} ${selectedPhoto.camera_model}`
+                            : selectedPhoto.camera_model}
+                        </span>
+                      )}
+                      {selectedPhoto.latitude != null && selectedPhoto.longitude != null && (
+                        <a
+                          href={`https://www.openstreetmap.org/?mlat=${selectedPhoto.latitude}&mlon=${selectedPhoto.longitude}#map=15/${selectedPhoto.latitude}/${selectedPhoto.longitude}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="underline hover:text-white"
+                        >
+                          📍 View on map
+                        </a>
+                      )}
+                    </span>
                     <span>{selectedPhotoIndex + 1} of {filteredPhotos.length}</span>
                   </div>
                 </div>
@@ -567,6 +875,14 @@ export default function GalleryPage({ photos: initialPhotos }: GalleryPageProps)
           }}
           onUpdate={handlePhotoUpdate}
         />
+
+        <AlbumFormModal
+          album={albumFormTarget}
+          isOpen={isAlbumFormOpen}
+          onClose={() => setIsAlbumFormOpen(false)}
+          onSaved={handleAlbumSaved}
+          onDeleted={handleAlbumDeleted}
+        />
       </div>
 
       <style jsx>{`
@@ -582,30 +898,48 @@ export default function GalleryPage({ photos: initialPhotos }: GalleryPageProps)
 }
 
 export const getServerSideProps: GetServerSideProps = async (context) => {
+  const albumId = context.query.album ? parseInt(context.query.album as string, 10) : null;
+  if (albumId !== null && isNaN(albumId)) {
+    return { notFound: true };
+  }
+
   try {
     const db = await getDatabase();
-    const photos = await db.getAllPhotos();
+    const [albums, album] = await Promise.all([
+      db.getAlbums(),
+      albumId !== null ? db.getAlbum(albumId) : Promise.resolve(null),
+    ]);
+    if (albumId !== null && !album) {
+      return { notFound: true };
+    }
+
+    // Searches from the URL render server-side too; a malformed one shows everything
+    const { filters = {} } = parsePhotoSearchQuery(context.query);
+    const { photos, facets } = await db.searchPhotos({ ...filters, album_id: album?.id });
 
     // Add thumbnail URLs for responsive images AND serialize dates
-    const photosWithThumbnails = (photos as Photo[]).map((photo: Photo) => ({
+    const photosWithThumbnails = photos.map(photo => withPhotoUrls({
       ...photo,
       // Critical: Convert Date objects to ISO strings for JSON serialization
       upload_date: (photo.upload_date && typeof photo.upload_date === 'object' && (photo.upload_date as any) instanceof Date)
         ? (photo.upload_date as Date).toISOString()
         : photo.upload_date,
-      created_at: (photo as any).created_at && typeof (photo as any).created_at === 'object' && (photo as any).created_at instanceof Date
-        ? ((photo as any).created_at as Date).toISOString()
-        : (photo as any).created_at,
-      thumbnails: {
-        small: photo.public_url.replace('/upload/', '/upload/w_300,h_200,c_fill,q_auto:low/'),
-        medium: photo.public_url.replace('/upload/', '/upload/w_600,h_400,c_fill,q_auto:good/'),
-        large: photo.public_url.replace('/upload/', '/upload/w_1200,h_800,c_limit,q_auto:good/'),
-      },
+      taken_at: (photo.taken_at && typeof photo.taken_at === 'object' && (photo.taken_at as any) instanceof Date)
+        ? (photo.taken_at as Date).toISOString()
+        : photo.taken_at,
+      created_at: photo.created_at && typeof photo.created_at === 'object' && (photo.created_at as any) instanceof Date
+        ? (photo.created_at as Date).toISOString()
+        : photo.created_at,
     }));
 
     return {
       props: {
         photos: photosWithThumbnails,
+        facets,
+        // Round-trip through JSON - props cannot carry unset (undefined) fields
+        filters: JSON.parse(JSON.stringify({ ...filters, album_id: undefined })),
+        albums: JSON.parse(JSON.stringify(albums.map(withAlbumCoverUrls))),
+        album: album ? JSON.parse(JSON.stringify(withAlbumCoverUrls(album))) : null,
       },
     };
   } catch (error) {
@@ -613,7 +947,11 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
     return {
       props: {
         photos: [],
+        facets: { tags: [], people: [], years: [], albums: [] },
+        filters: {},
+        albums: [],
+        album: null,
       },
     };
   }
-};
\ No newline at end of file
+};
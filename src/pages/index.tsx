@@ -2,6 +2,10 @@ import { GetServerSideProps } from 'next';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '../lib/auth';
 import { getDatabase } from '../lib/database';
+import { withPhotoUrls } from '../lib/photoStorage';
+import { withAlbumCoverUrls } from '../lib/albums';
+import type { PhotoAlbum } from '../types/album';
+import { formatInTimeZone } from 'date-fns-tz';
 import Head from 'next/head';
 import Link from 'next/link';
 import { useSession } from 'next-auth/react';
@@ -21,9 +25,11 @@ interface HomePageProps {
   coupleInfo: any;
   upcomingEvents: any[];
   featuredPhotos: any[];
+  featuredAlbum: PhotoAlbum | null; // Set when an album is featured - featuredPhotos then come from it
+  nextMilestone: { title: string; date: string } | null;
 }
 
-export default function HomePage({ coupleInfo, upcomingEvents, featuredPhotos }: HomePageProps) {
+export default function HomePage({ coupleInfo, upcomingEvents, featuredPhotos, featuredAlbum, nextMilestone }: HomePageProps) {
   const { data: session } = useSession();
 
   const pageTitle = useMemo(() => {
@@ -54,6 +60,7 @@ export default function HomePage({ coupleInfo, upcomingEvents, featuredPhotos }:
             <section>
               <CoupleInfoDisplay
                 coupleInfo={coupleInfo}
+                nextMilestone={nextMilestone}
                 isEditable={!!session}
                 onUpdate={(updated) => {
                   // Optimistic update - in production, consider using SWR or React Query
@@ -88,16 +95,16 @@ export default function HomePage({ coupleInfo, upcomingEvents, featuredPhotos }:
           {featuredPhotos.length > 0 && (
             <section>
               <div className="flex justify-between items-center mb-6">
-                <h2 className="text-3xl font-bold text-gray-800">Our Memories</h2>
+                <h2 className="text-3xl font-bold text-gray-800">{featuredAlbum ? featuredAlbum.title : 'Our Memories'}</h2>
                 <Link
-                  href="/gallery"
+                  href={featuredAlbum ? `/gallery?album=${featuredAlbum.id}` : '/gallery'}
                   className="text-pink-600 hover:text-pink-700 font-medium transition-colors"
                 >
-                  View All Photos →
+                  {featuredAlbum ? 'View Album →' : 'View All Photos →'}
                 </Link>
               </div>
 
-              <PhotoGalleryPreview photos={featuredPhotos} />
+              <PhotoGalleryPreview photos={featuredPhotos} album={featuredAlbum || undefined} />
             </section>
           )}
 
@@ -174,15 +181,33 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
 
     // Parallel data fetching for optimal performance
     // Note: Removed Promise.resolve() wrapper since methods are now async
-    const [coupleInfo, upcomingEvents, allPhotos] = await Promise.all([
+    const now = new Date();
+    const [coupleInfo, upcomingEvents, allPhotos, milestones, featuredAlbum] = await Promise.all([
       db.getCoupleInfo(),
       db.getUpcomingEvents(3),
       db.getAllPhotos(),
+      db.getVirtualMilestones(now, new Date(now.getTime() + 365 * 24 * 60 * 60 * 1000)),
+      db.getFeaturedAlbum(),
     ]);
 
-    // Featured photos selection: Most recent 6 photos
+    // Milestones are virtual - pass the calendar day so the countdown is timezone-independent
+    // (all-day, so a milestone stays "next" for the whole of its day)
+    const upcomingMilestone = milestones.find(
+      (event) => new Date(event.date).getTime() + 24 * 60 * 60 * 1000 > now.getTime()
+    );
+    const nextMilestone = upcomingMilestone
+      ? {
+          title: upcomingMilestone.title,
+          date: formatInTimeZone(new Date(upcomingMilestone.date), upcomingMilestone.timezone, 'yyyy-MM-dd'),
+        }
+      : null;
+
+    // Featured photos selection: the featured album's first 6 photos in album order,
+    // otherwise the most recent 6 photos
+    const albumPhotos = featuredAlbum?.photo_count ? await db.getAlbumPhotos(featuredAlbum.id, 6) : [];
+
     // Sort by upload_date (handling potential Date objects)
-    const featuredPhotos = allPhotos
+    const recentPhotos = allPhotos
       .sort((a, b) => {
         const dateA = (typeof a.upload_date === 'object' && a.upload_date !== null && 'getTime' in a.upload_date)
           ? a.upload_date
@@ -194,12 +219,17 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
       })
       .slice(0, 6);
 
+    const featuredPhotos = (albumPhotos.length > 0 ? albumPhotos : recentPhotos).map(photo => withPhotoUrls(photo));
+
     // Critical: Serialize all data to ensure JSON compatibility
     // This step converts PostgreSQL Date objects to ISO strings
     const serializedProps = {
       coupleInfo: serializeDates(coupleInfo || null),
       upcomingEvents: serializeDates(upcomingEvents || []),
       featuredPhotos: serializeDates(featuredPhotos || []),
+      // Round-trip through JSON - props cannot carry unset (undefined) fields
+      featuredAlbum: albumPhotos.length > 0 ? JSON.parse(JSON.stringify(withAlbumCoverUrls(featuredAlbum!))) : null,
+      nextMilestone,
     };
 
     return {
@@ -215,6 +245,8 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
         coupleInfo: null,
         upcomingEvents: [],
         featuredPhotos: [],
+        featuredAlbum: null,
+        nextMilestone: null,
       },
     };
   }
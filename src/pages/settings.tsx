@@ -0,0 +1,46 @@
+import Head from 'next/head';
+import { GetServerSideProps } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { useSession } from 'next-auth/react';
+import { authOptions } from '../lib/auth';
+import NavHeader from '@/components/NavHeader';
+import NotificationSettings from '@/components/NotificationSettings';
+
+interface SettingsPageProps {
+  userId: string;
+}
+
+export default function SettingsPage({ userId }: SettingsPageProps) {
+  const { data: session } = useSession();
+
+  return (
+    <>
+      <Head>
+        <title>Settings - Love Story</title>
+        <meta name="description" content="Notification preferences" />
+      </Head>
+
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <NavHeader session={session} />
+
+        <h1 className="text-2xl font-bold text-gray-800 mb-6">Notifications</h1>
+        <NotificationSettings userId={userId} />
+      </div>
+    </>
+  );
+}
+
+// Preferences belong to a partner - send everyone else to the login page
+export const getServerSideProps: GetServerSideProps<SettingsPageProps> = async (context) => {
+  const session = await getServerSession(context.req, context.res, authOptions);
+  if (!session?.user?.id) {
+    return {
+      redirect: {
+        destination: '/login',
+        permanent: false,
+      },
+    };
+  }
+
+  return { props: { userId: session.user.id } };
+};
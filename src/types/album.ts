@@ -0,0 +1,42 @@
+// types/album.ts - Photo albums with a cover and a manual order
+
+export const ALBUM_TITLE_MAX_LENGTH = 100;
+export const ALBUM_DESCRIPTION_MAX_LENGTH = 500;
+export const ALBUM_MAX_PHOTOS_PER_REQUEST = 200;
+
+// Photo shown on the album card - the chosen cover, or the first photo
+export interface AlbumCover {
+  id: number;
+  cloudinary_id: string;
+  storage_provider: 'cloudinary' | 'local' | 's3';
+  public_url: string;
+  thumbnails?: {
+    small: string;
+    medium: string;
+    large: string;
+  };
+}
+
+export interface PhotoAlbum {
+  id: number;
+  title: string;
+  description?: string;
+  cover_photo_id?: number; // Chosen cover; unset means the first photo stands in
+  is_featured: boolean; // Featured on the home page - at most one album at a time
+  photo_count: number;
+  cover?: AlbumCover;
+  created_by?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PhotoAlbumInput {
+  title?: string;
+  description?: string | null;
+  cover_photo_id?: number | null;
+  is_featured?: boolean;
+}
+
+// "invalid_photos" - an id is not a photo (or, when reordering, not in the album);
+// "invalid_cover" - the cover is not one of the album's photos
+export type AlbumChangeResult = 'updated' | 'not_found' | 'invalid_photos' | 'invalid_cover';
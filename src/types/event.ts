@@ -8,13 +8,34 @@ export interface BaseEvent {
   updated_at: string;
 }
 
+// BYDAY entry - an ordinal picks the n-th weekday of the month/year (2 = second, -1 = last)
+export interface RecurrenceWeekday {
+  weekday: number; // 0 = Sunday
+  ordinal?: number;
+}
+
+// Mirrors the RFC 5545 RRULE parts; evaluated in the event's timezone
 export interface RecurringEventConfig {
   frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
   interval: number; // Every N units (e.g., every 2 weeks)
-  end_date?: string; // When to stop recurring
-  max_occurrences?: number; // Max number of occurrences
-  days_of_week?: number[]; // For weekly events (0 = Sunday)
-  day_of_month?: number; // For monthly events
+  end_date?: string; // When to stop recurring (UNTIL, inclusive)
+  max_occurrences?: number; // Max number of occurrences (COUNT)
+  days_of_week?: number[]; // For weekly events (0 = Sunday) - shorthand for by_day without ordinals
+  day_of_month?: number; // For monthly events - shorthand for by_month_day
+  by_day?: RecurrenceWeekday[];
+  by_month?: number[]; // 1-12
+  by_month_day?: number[]; // 1-31, or -1 (last day) to -31
+  by_set_pos?: number[]; // Keeps the n-th matching date of each period (-1 = last)
+  week_start?: number; // WKST, 0 = Sunday (defaults to Monday)
+  skip?: 'omit' | 'backward' | 'forward'; // Dates a month lacks, e.g. Feb 29 (RFC 7529 SKIP)
+  calendar_system?: 'solar' | 'lunar'; // Lunar repeats by the Vietnamese lunar calendar (monthly/yearly only)
+}
+
+// One of an event's reminders - stored as an event_reminders row for the next occurrence it can still fire for
+export interface EventReminderSetting {
+  minutes_before: number;
+  delivery_method: 'browser' | 'email' | 'push';
+  reminder_type: 'standard' | 'urgent' | 'gentle';
 }
 
 export interface EnhancedEvent extends BaseEvent {
@@ -23,9 +44,34 @@ export interface EnhancedEvent extends BaseEvent {
   category: 'anniversary' | 'birthday' | 'date' | 'milestone' | 'other';
   priority: 'low' | 'medium' | 'high';
   location?: string;
-  reminder_minutes?: number; // Minutes before event to remind
+  reminder_minutes?: number; // Shortest lead time in reminders - kept for older clients
+  reminders?: EventReminderSetting[];
   is_all_day: boolean;
   timezone: string; // IANA timezone identifier
+  milestone_key?: string; // Set on generated milestones and on events materialized from them
+  is_virtual?: boolean; // Generated milestone that is not stored as a row
+  exceptions?: EventOccurrenceException[]; // Per-occurrence changes (recurring events only)
+  version?: number; // Bumped on every write - sent back as If-Match to detect concurrent edits
+}
+
+// Cancels or overrides a single occurrence of a recurring event
+export interface EventOccurrenceException {
+  occurrence_index: number; // Index of the occurrence in the unmodified series (0-based)
+  original_date: string; // Where the occurrence falls without the exception (RECURRENCE-ID)
+  is_cancelled: boolean;
+  date?: string; // Overridden start
+  title?: string;
+  location?: string;
+  description?: string;
+}
+
+export type OccurrenceEditScope = 'this' | 'following' | 'all';
+
+// Request body for changing one occurrence ('this') or the rest of the series ('following')
+export interface OccurrenceChange {
+  scope: Exclude<OccurrenceEditScope, 'all'>;
+  cancelled?: boolean;
+  changes?: Partial<EventFormData>;
 }
 
 export interface EventFormData {
@@ -38,10 +84,34 @@ export interface EventFormData {
   priority: EnhancedEvent['priority'];
   location?: string;
   reminder_minutes?: number;
+  reminders?: EventReminderSetting[];
   is_all_day: boolean;
   timezone: string;
 }
 
+// A field both partners changed to different values since the edit started
+export interface EventFieldConflict {
+  field: keyof EventFormData;
+  base?: unknown;
+  mine: unknown;
+  theirs: unknown;
+}
+
+// 409 from PUT /api/events/[id] folded against the edit's starting point
+export interface EventUpdateConflict {
+  event_id: number;
+  mine: Partial<EventFormData>;
+  server: EnhancedEvent; // Current server state
+  merged: Partial<EventFormData>; // My changes that do not clash with theirs
+  their_changes: (keyof EventFormData)[]; // Fields only the partner changed - kept as theirs
+  conflicts: EventFieldConflict[];
+}
+
+export type EventConflictResolution =
+  | { action: 'merge'; picks: Partial<Record<keyof EventFormData, 'mine' | 'theirs'>> }
+  | { action: 'discard' } // Keep the server version
+  | { action: 'cancel' }; // Back to editing, nothing saved
+
 export interface EventFilters {
   category?: EnhancedEvent['category'];
   priority?: EnhancedEvent['priority'];
@@ -62,6 +132,7 @@ export interface EventOperationResult {
   data?: EnhancedEvent;
   error?: string;
   validation_errors?: EventValidationError[];
+  queued?: boolean; // Saved offline - sent once the connection is back
 }
 
 // Event calculation utilities
@@ -71,6 +142,11 @@ export interface EventOccurrence {
   date: string;
   is_original: boolean; // True for the first occurrence
   occurrence_index: number; // Which occurrence this is (0-based)
+  original_date?: string; // Set when an exception moved this occurrence
+  is_exception?: boolean; // True when an exception overrides this occurrence
+  title?: string; // Overrides of the parent event's fields
+  location?: string;
+  description?: string;
 }
 
 export interface EventStats {
@@ -92,10 +168,98 @@ export interface EventListResponse {
   stats?: EventStats;
 }
 
+// Calendar view: parent events plus their occurrences expanded for the range
+export interface EventRangeResponse {
+  range_start: string;
+  range_end: string;
+  events: EnhancedEvent[];
+  occurrences: EventOccurrence[];
+}
+
+// 409 body when an update was based on an outdated version
+export interface EventConflictResponse {
+  error: string;
+  code: 'VERSION_CONFLICT';
+  current: EnhancedEvent;
+}
+
+// Change made without a connection, stored in IndexedDB until it can be replayed.
+// Updates and deletes carry the version they were based on so the replay is
+// checked against the partner's changes made in the meantime
+export type QueuedEventMutation = {
+  id?: number; // IndexedDB key, assigned when queued
+  queued_at: string;
+} & (
+  | { type: 'create'; event_id: number; data: EventFormData } // event_id is the temporary (negative) id
+  | { type: 'update'; event_id: number; data: Partial<EventFormData>; base?: EnhancedEvent }
+  | { type: 'delete'; event_id: number; base_version?: number; title: string }
+);
+
 export interface EventDetailResponse {
   event: EnhancedEvent;
   upcoming_occurrences?: EventOccurrence[];
   related_events?: EnhancedEvent[];
+  history?: EventHistoryPage; // Only for signed-in users
+}
+
+// Soft-deleted event awaiting restore or purge
+export interface TrashedEvent extends EnhancedEvent {
+  deleted_at: string;
+  purge_at: string;
+}
+
+export interface EventTrashResponse {
+  events: TrashedEvent[];
+  retention_days: number;
+}
+
+// Audit trail entry from event_history
+export interface EventHistoryEntry {
+  id: number;
+  event_id: number;
+  action: 'created' | 'updated' | 'deleted' | 'restored';
+  changed_fields: string[];
+  old_values?: Record<string, unknown>;
+  new_values?: Record<string, unknown>;
+  changed_by?: string;
+  changed_by_name?: string;
+  changed_at: string;
+}
+
+export interface EventHistoryPage {
+  entries: EventHistoryEntry[];
+  total_count: number;
+  page: number;
+  per_page: number;
+  has_next_page: boolean;
+}
+
+// GET /api/events/[id]/history - one page plus everyone who changed the event
+export interface EventHistoryResponse extends EventHistoryPage {
+  contributors: { id: string; name: string }[];
+}
+
+export interface EventHistoryFilters {
+  changed_by?: string;
+  from?: string; // ISO date, inclusive
+  to?: string;
+}
+
+// iCalendar import preview/commit types
+export interface EventImportItem {
+  key: string;
+  uid?: string;
+  data: EventFormData;
+  exceptions?: EventOccurrenceException[]; // EXDATE / RECURRENCE-ID changes to the series
+  status: 'ready' | 'duplicate' | 'invalid';
+  duplicate_of?: number;
+  validation_errors: EventValidationError[];
+  unsupported: string[]; // Source features EventFormData cannot express
+}
+
+export interface EventImportResponse {
+  items: EventImportItem[];
+  created_ids?: number[];
 }
 
 // Hook return types
@@ -109,10 +273,24 @@ export interface UseEventsReturn {
   // Actions
   setFilters: (filters: Partial<EventFilters>) => void;
   createEvent: (data: EventFormData) => Promise<EventOperationResult>;
-  updateEvent: (id: number, data: Partial<EventFormData>) => Promise<EventOperationResult>;
+  updateEvent: (
+    id: number,
+    data: Partial<EventFormData>,
+    options?: { baseEvent?: EnhancedEvent }
+  ) => Promise<EventOperationResult>;
   deleteEvent: (id: number) => Promise<EventOperationResult>;
+  restoreEvent: (id: number) => Promise<EventOperationResult>;
+  updateOccurrence: (eventId: number, occurrenceIndex: number, change: OccurrenceChange | null) => Promise<EventOperationResult>;
   refreshEvents: () => Promise<void>;
   
+  // Concurrent edit waiting for the user to merge (see EventConflictModal)
+  conflict: EventUpdateConflict | null;
+  resolveConflict: (resolution: EventConflictResolution) => void;
+  
+  // Offline changes waiting to be sent
+  pendingSyncCount: number;
+  isOnline: boolean;
+  
   // Computed values
   upcomingEvents: EnhancedEvent[];
   pastEvents: EnhancedEvent[];
@@ -125,8 +303,16 @@ export interface UseEventDetailReturn {
   error: string | null;
   occurrences: EventOccurrence[];
   relatedEvents: EnhancedEvent[];
+  history: EventHistoryEntry[];
+  historyTotal: number;
+  hasMoreHistory: boolean;
+  historyContributors: EventHistoryResponse['contributors'];
+  historyFilters: EventHistoryFilters;
   
   updateEvent: (data: Partial<EventFormData>) => Promise<EventOperationResult>;
   deleteEvent: () => Promise<EventOperationResult>;
+  revertToVersion: (historyId: number) => Promise<EventOperationResult>;
+  setHistoryFilters: (filters: EventHistoryFilters) => void;
+  loadMoreHistory: () => Promise<void>;
   refresh: () => Promise<void>;
 }
\ No newline at end of file
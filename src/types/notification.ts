@@ -0,0 +1,31 @@
+// types/notification.ts - In-app notification center
+
+export const NOTIFICATION_TYPES = ['reminder', 'update', 'cancelled', 'upcoming'] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// One entry in a partner's inbox - dismissing deletes it
+export interface InAppNotification {
+  id: number;
+  user_id: number;
+  type: NotificationType;
+  title: string;
+  message: string;
+  url?: string; // In-app path opened when the notification is clicked
+  event_id?: number;
+  read_at?: string;
+  created_at: string;
+}
+
+export interface InAppNotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  url?: string;
+  event_id?: number;
+}
+
+export interface NotificationInbox {
+  notifications: InAppNotification[];
+  unread_count: number;
+}
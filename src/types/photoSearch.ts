@@ -0,0 +1,40 @@
+// types/photoSearch.ts - Photo tags, people labels and faceted gallery search
+
+export const PHOTO_LABEL_MAX_LENGTH = 50;
+export const PHOTO_LABELS_MAX_COUNT = 30; // Per kind, per photo
+export const PHOTO_FACET_LIMIT = 30; // Most common tags/people returned with a search
+
+// Tags are free-form keywords (stored lowercase); people are names as written
+export type PhotoLabelKind = 'tag' | 'person';
+
+export interface PhotoSearchFilters {
+  q?: string; // Full-text over title, description, tags and people
+  tags?: string[]; // Every tag must be on the photo
+  people?: string[]; // Everyone must be in the photo
+  year?: number; // Year taken (falling back to the upload)
+  album_id?: number;
+}
+
+export interface FacetCount<T = string> {
+  value: T;
+  count: number;
+}
+
+export interface AlbumFacetCount {
+  id: number;
+  title: string;
+  count: number;
+}
+
+// Counts over the photos matching the current filters
+export interface PhotoFacets {
+  tags: FacetCount[];
+  people: FacetCount[];
+  years: FacetCount<number>[];
+  albums: AlbumFacetCount[];
+}
+
+export interface PhotoLabelInput {
+  tags?: string[];
+  people?: string[];
+}
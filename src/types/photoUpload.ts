@@ -0,0 +1,33 @@
+// types/photoUpload.ts - Single and batch photo uploads
+
+export const PHOTO_UPLOAD_MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB per photo
+export const PHOTO_BATCH_MAX_FILES = 20; // Files per batch request
+export const PHOTO_UPLOAD_MIME_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+
+// Shared by every photo in a batch
+export interface PhotoUploadOptions {
+  title?: string; // Unset falls back to each file's name
+  description?: string;
+  album_id?: number;
+  tags?: string[];
+  strip_location: boolean; // Remove GPS from the stored copy
+}
+
+export interface UploadedPhoto {
+  id: number;
+  cloudinary_id: string;
+  storage_provider: 'cloudinary' | 'local' | 's3';
+  public_url: string;
+  taken_at?: string;
+}
+
+// One entry per file of a batch, in the order the files were sent
+export type PhotoUploadResult =
+  | { filename: string; status: 'uploaded'; photo: UploadedPhoto }
+  | { filename: string; status: 'failed'; error: string; code: string };
+
+export interface PhotoBatchResponse {
+  results: PhotoUploadResult[];
+  uploaded: number;
+  failed: number;
+}
@@ -0,0 +1,17 @@
+/**
+ * Realtime Sync Types
+ * Payloads of the /api/realtime Server-Sent Events stream
+ */
+
+export type RealtimeEntity = 'event' | 'photo' | 'couple_info' | 'notification' | 'album';
+
+export interface RealtimeChange {
+  entity: RealtimeEntity;
+  action: 'created' | 'updated' | 'deleted' | 'restored';
+  id: number;
+  changed_by: string | null; // User id, when the change is attributed
+  user_id?: number | null; // Owner of a notification - only sent to that user
+}
+
+// null - the stream reconnected and changes may have been missed, reload everything
+export type RealtimeChangeHandler = (change: RealtimeChange | null) => void;
@@ -0,0 +1,70 @@
+// types/webhook.ts - Outgoing webhook configuration and delivery log
+
+export const WEBHOOK_EVENT_TYPES = [
+  'event.created',
+  'event.updated',
+  'event.deleted',
+  'reminder.due',
+  'photo.uploaded'
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  'event.created': 'Event created',
+  'event.updated': 'Event updated',
+  'event.deleted': 'Event deleted',
+  'reminder.due': 'Reminder due',
+  'photo.uploaded': 'Photo uploaded'
+};
+
+// A configured endpoint - the signing secret is only returned when it is created or rotated
+export interface Webhook {
+  id: number;
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  is_active: boolean;
+  created_by?: number;
+  created_at: string;
+  updated_at: string;
+  last_delivery_status?: WebhookDelivery['status'];
+  last_delivery_at?: string;
+}
+
+export interface WebhookWithSecret extends Webhook {
+  secret: string;
+}
+
+// Body POSTed to the endpoint
+export interface WebhookPayload<T = Record<string, unknown>> {
+  id: string; // delivery_id - the same across retries, new for redeliveries
+  type: WebhookEventType;
+  created_at: string;
+  data: T;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  delivery_id: string; // UUID sent as the payload id and X-LoveStory-Delivery header
+  webhook_id: number;
+  event_type: WebhookEventType;
+  data: Record<string, unknown>;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempt_count: number;
+  next_attempt_at?: string;
+  response_status?: number;
+  response_body?: string;
+  last_error?: string;
+  duration_ms?: number;
+  redelivery_of?: number;
+  created_at: string;
+  delivered_at?: string;
+}
+
+export interface WebhookInput {
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  is_active?: boolean;
+}
@@ -1,18 +1,33 @@
 // utils/eventUtils.ts - Comprehensive event calculation and validation utilities
 import { 
-  addDays, addWeeks, addMonths, addYears, 
+  addDays, addYears, 
   isBefore, isAfter, parseISO, formatISO,
   differenceInDays, startOfDay, endOfDay,
   isValid, format, isSameDay, isToday, isTomorrow,
-  setDay, getDayOfYear, getDaysInMonth
+  getDayOfYear
 } from 'date-fns';
-import { format as formatTz } from 'date-fns-tz';
+import { format as formatTz, formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import {
+  solarToLunar,
+  jdFromDate,
+  jdToDate,
+  getLunationIndex,
+  getLunationBounds,
+  resolveLunarAnniversary,
+  formatLunarDate,
+  type LunarDate
+} from './lunarCalendar';
+import { describeRecurrence, hasRuleParts, iterateRecurrence, resolveUntil } from './recurrenceRule';
 import type { 
   EnhancedEvent, 
   RecurringEventConfig, 
   EventOccurrence, 
+  EventOccurrenceException,
+  EventReminderSetting,
   EventFormData, 
-  EventValidationError 
+  EventValidationError,
+  EventFieldConflict,
+  EventUpdateConflict
 } from '../types/event';
 
 /**
@@ -20,11 +35,15 @@ import type {
  * Comprehensive validation for event data with detailed error reporting
  */
 export class EventValidator {
-  private static readonly MAX_TITLE_LENGTH = 100;
+  static readonly MAX_TITLE_LENGTH = 100;
   private static readonly MAX_DESCRIPTION_LENGTH = 1000;
   private static readonly MAX_LOCATION_LENGTH = 200;
   private static readonly MIN_DATE = new Date('1900-01-01');
   private static readonly MAX_DATE = new Date('2100-12-31');
+  static readonly MAX_REMINDERS = 5;
+  static readonly MAX_REMINDER_MINUTES = 10080; // 1 week
+  private static readonly REMINDER_METHODS = ['browser', 'email', 'push'];
+  private static readonly REMINDER_TYPES = ['standard', 'urgent', 'gentle'];
 
   /**
    * Validates complete event form data
@@ -75,7 +94,7 @@ export class EventValidator {
 
     // Reminder validation
     if (data.reminder_minutes !== undefined) {
-      if (data.reminder_minutes < 0 || data.reminder_minutes > 10080) { // Max 1 week
+      if (data.reminder_minutes < 0 || data.reminder_minutes > this.MAX_REMINDER_MINUTES) {
         errors.push({ 
           field: 'reminder_minutes', 
           message: 'Reminder must be between 0 and 10080 minutes (1 week)' 
@@ -83,9 +102,56 @@ export class EventValidator {
       }
     }
 
+    if (data.reminders !== undefined) {
+      const reminderError = this.validateReminders(data.reminders);
+      if (reminderError) {
+        errors.push({ field: 'reminders', message: reminderError });
+      }
+    }
+
     return errors;
   }
 
+  /**
+   * Validates an event's reminder list - null when valid
+   * Two reminders may not share a lead time and channel
+   */
+  static validateReminders(reminders: unknown): string | null {
+    if (!Array.isArray(reminders)) {
+      return 'Reminders must be a list';
+    }
+    if (reminders.length > this.MAX_REMINDERS) {
+      return `An event can have at most ${this.MAX_REMINDERS} reminders`;
+    }
+
+    const seen = new Set<string>();
+    for (const reminder of reminders) {
+      if (
+        !reminder ||
+        typeof reminder !== 'object' ||
+        !Number.isInteger(reminder.minutes_before) ||
+        reminder.minutes_before < 0 ||
+        reminder.minutes_before > this.MAX_REMINDER_MINUTES
+      ) {
+        return 'Each reminder must be between 0 and 10080 minutes (1 week) before the event';
+      }
+      if (!this.REMINDER_METHODS.includes(reminder.delivery_method)) {
+        return 'Reminders are sent by browser, email or push';
+      }
+      if (!this.REMINDER_TYPES.includes(reminder.reminder_type)) {
+        return 'Reminder type must be standard, urgent or gentle';
+      }
+
+      const key = `${reminder.minutes_before}:${reminder.delivery_method}`;
+      if (seen.has(key)) {
+        return 'Two reminders cannot use the same time and channel';
+      }
+      seen.add(key);
+    }
+
+    return null;
+  }
+
   private static validateDate(dateString: string, timezone: string): EventValidationError | null {
     if (!dateString) {
       return { field: 'date', message: 'Event date is required' };
@@ -113,9 +179,16 @@ export class EventValidator {
     return null;
   }
 
-  private static validateRecurringConfig(config: RecurringEventConfig): EventValidationError[] {
+  static validateRecurringConfig(config: RecurringEventConfig): EventValidationError[] {
     const errors: EventValidationError[] = [];
 
+    if (config.calendar_system === 'lunar' && config.frequency !== 'monthly' && config.frequency !== 'yearly') {
+      errors.push({ 
+        field: 'recurring_config', 
+        message: 'Lunar recurrence is only available for monthly or yearly events' 
+      });
+    }
+
     if (config.interval < 1 || config.interval > 365) {
       errors.push({ 
         field: 'recurring_config', 
@@ -140,9 +213,72 @@ export class EventValidator {
       });
     }
 
+    errors.push(...this.validateRuleParts(config).map(message => ({
+      field: 'recurring_config' as const,
+      message
+    })));
+
     return errors;
   }
 
+  /**
+   * RFC 5545 value ranges and frequency restrictions for the BY* rule parts
+   */
+  private static validateRuleParts(config: RecurringEventConfig): string[] {
+    const messages: string[] = [];
+    const isIntegerIn = (value: unknown, min: number, max: number) => (
+      Number.isInteger(value) && (value as number) >= min && (value as number) <= max && value !== 0
+    );
+
+    if (config.calendar_system === 'lunar' && hasRuleParts(config)) {
+      messages.push('Lunar recurrence cannot be combined with weekday, month or position rules');
+    }
+
+    if (config.by_day?.some(day => !isIntegerIn(day.weekday + 1, 1, 7))) {
+      messages.push('Weekdays must be between 0 (Sunday) and 6 (Saturday)');
+    }
+
+    const ordinals = (config.by_day || []).filter(day => day.ordinal !== undefined).map(day => day.ordinal);
+    if (ordinals.length > 0) {
+      const maxOrdinal = config.frequency === 'monthly' || config.by_month?.length ? 5 : 53;
+      if (config.frequency !== 'monthly' && config.frequency !== 'yearly') {
+        messages.push('Weekday positions (e.g. "second Saturday") need a monthly or yearly event');
+      } else if (ordinals.some(ordinal => !isIntegerIn(ordinal, -maxOrdinal, maxOrdinal))) {
+        messages.push(`Weekday positions must be between -${maxOrdinal} and ${maxOrdinal}, excluding 0`);
+      }
+    }
+
+    if (config.by_month?.some(month => !isIntegerIn(month, 1, 12))) {
+      messages.push('Months must be between 1 and 12');
+    }
+
+    if (config.by_month_day?.length) {
+      if (config.frequency === 'weekly') {
+        messages.push('Days of the month cannot be used with weekly events');
+      } else if (config.by_month_day.some(day => !isIntegerIn(day, -31, 31))) {
+        messages.push('Days of the month must be between -31 and 31, excluding 0');
+      }
+    }
+
+    if (config.by_set_pos?.length) {
+      if (!config.by_day?.length && !config.by_month_day?.length && !config.by_month?.length) {
+        messages.push('Positions need a weekday, day-of-month or month rule to pick from');
+      } else if (config.by_set_pos.some(position => !isIntegerIn(position, -366, 366))) {
+        messages.push('Positions must be between -366 and 366, excluding 0');
+      }
+    }
+
+    if (config.week_start !== undefined && !isIntegerIn(config.week_start + 1, 1, 7)) {
+      messages.push('Week start must be between 0 (Sunday) and 6 (Saturday)');
+    }
+
+    if (config.skip && !['omit', 'backward', 'forward'].includes(config.skip)) {
+      messages.push("Missing-date handling must be 'omit', 'backward' or 'forward'");
+    }
+
+    return messages;
+  }
+
   private static containsHtmlTags(text: string): boolean {
     const htmlTagPattern = /<[^>]*>/g;
     return htmlTagPattern.test(text);
@@ -183,27 +319,38 @@ export class RecurringEventCalculator {
     const config = event.recurring_config;
     let currentDate = parseISO(event.date);
     let occurrenceIndex = 0;
+    let lastProcessedIndex = -1;
+
+    // Exceptions are keyed by the occurrence's position in the unmodified series
+    const exceptions = new Map(
+      (event.exceptions || []).map(exception => [exception.occurrence_index, exception])
+    );
 
     // Handle timezone conversion
     const timezone = event.timezone || 'UTC';
+    const until = config.end_date ? resolveUntil(config.end_date, timezone) : null;
+    const lunarAnchor = this.isLunarRecurrence(config)
+      ? this.getLunarAnchor(currentDate, timezone)
+      : null;
+    const solarDates = lunarAnchor ? null : iterateRecurrence(config, currentDate, timezone);
+    solarDates?.next(); // The first value is DTSTART itself
     
     while (occurrences.length < maxOccurrences) {
-      // Check if current date is within range
-      if (currentDate >= startDate && currentDate <= endDate) {
-        occurrences.push({
-          id: `${event.id}-${occurrenceIndex}`,
-          event_id: event.id,
-          date: formatISO(currentDate),
-          is_original: occurrenceIndex === 0,
-          occurrence_index: occurrenceIndex
-        });
-      }
-
       // Check termination conditions
-      if (config.end_date && isAfter(currentDate, parseISO(config.end_date))) {
+      if (until && isAfter(currentDate, until)) {
         break;
       }
 
+      // Check if current date (or its override) is within range
+      const exception = exceptions.get(occurrenceIndex);
+      if (!exception?.is_cancelled) {
+        const occurrenceDate = exception?.date ? parseISO(exception.date) : currentDate;
+        if (occurrenceDate >= startDate && occurrenceDate <= endDate) {
+          occurrences.push(this.buildOccurrence(event, occurrenceIndex, currentDate, occurrenceDate, exception));
+        }
+      }
+      lastProcessedIndex = occurrenceIndex;
+
       if (config.max_occurrences && occurrenceIndex >= config.max_occurrences - 1) {
         break;
       }
@@ -212,8 +359,15 @@ export class RecurringEventCalculator {
         break;
       }
 
-      // Calculate next occurrence
-      currentDate = this.getNextOccurrenceDate(currentDate, config);
+      // Calculate next occurrence - lunar dates are derived from the anchor so
+      // clamped months (day 30 -> 29) never drift later occurrences
+      if (lunarAnchor) {
+        currentDate = this.getLunarOccurrenceDate(lunarAnchor, config, occurrenceIndex + 1);
+      } else {
+        const next = solarDates!.next();
+        if (next.done) break;
+        currentDate = next.value;
+      }
       occurrenceIndex++;
 
       // Safety valve to prevent infinite loops
@@ -223,74 +377,161 @@ export class RecurringEventCalculator {
       }
     }
 
-    return occurrences;
+    // Occurrences from beyond the range that were moved into it
+    exceptions.forEach(exception => {
+      if (
+        exception.occurrence_index <= lastProcessedIndex
+        || exception.is_cancelled
+        || !exception.date
+        || occurrences.length >= maxOccurrences
+        || (config.max_occurrences && exception.occurrence_index >= config.max_occurrences)
+        || (until && isAfter(parseISO(exception.original_date), until))
+      ) {
+        return;
+      }
+
+      const occurrenceDate = parseISO(exception.date);
+      if (occurrenceDate >= startDate && occurrenceDate <= endDate) {
+        occurrences.push(this.buildOccurrence(
+          event,
+          exception.occurrence_index,
+          parseISO(exception.original_date),
+          occurrenceDate,
+          exception
+        ));
+      }
+    });
+
+    return exceptions.size > 0
+      ? occurrences.sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime())
+      : occurrences;
   }
 
   /**
-   * Calculates the next occurrence date based on recurring configuration
+   * Start of the occurrence at `occurrenceIndex` in the unmodified series
+   * Returns null when the series ends before reaching that index
    */
-  private static getNextOccurrenceDate(currentDate: Date, config: RecurringEventConfig): Date {
-    switch (config.frequency) {
-      case 'daily':
-        return addDays(currentDate, config.interval);
-        
-      case 'weekly':
-        if (config.days_of_week && config.days_of_week.length > 0) {
-          return this.getNextWeeklyOccurrence(currentDate, config);
-        }
-        return addWeeks(currentDate, config.interval);
-        
-      case 'monthly':
-        if (config.day_of_month) {
-          return this.getNextMonthlyOccurrence(currentDate, config);
-        }
-        return addMonths(currentDate, config.interval);
-        
-      case 'yearly':
-        return addYears(currentDate, config.interval);
-        
-      default:
-        throw new Error(`Unsupported recurring frequency: ${config.frequency}`);
+  static getOccurrenceDate(event: EnhancedEvent, occurrenceIndex: number): Date | null {
+    if (!event.is_recurring || !event.recurring_config) {
+      return occurrenceIndex === 0 ? parseISO(event.date) : null;
     }
+
+    const occurrence = this.calculateOccurrences(
+      { ...event, exceptions: undefined },
+      parseISO(event.date),
+      new Date('2100-12-31'),
+      occurrenceIndex + 1
+    ).find(candidate => candidate.occurrence_index === occurrenceIndex);
+
+    return occurrence ? parseISO(occurrence.date) : null;
   }
 
   /**
-   * Handles complex weekly recurring patterns with specific days
+   * Inverse of getOccurrenceDate - matches on the exact instant, or on the
+   * calendar day in the event's timezone for all-day events
    */
-  private static getNextWeeklyOccurrence(currentDate: Date, config: RecurringEventConfig): Date {
-    const daysOfWeek = config.days_of_week!.sort();
-    const currentDayOfWeek = currentDate.getDay();
-    
-    // Find next day in current week
-    const nextDayInWeek = daysOfWeek.find(day => day > currentDayOfWeek);
-    
-    if (nextDayInWeek !== undefined) {
-      // Next occurrence is in current week
-      return setDay(currentDate, nextDayInWeek);
-    } else {
-      // Move to next interval and use first day
-      const nextWeek = addWeeks(currentDate, config.interval);
-      return setDay(nextWeek, daysOfWeek[0]);
-    }
+  static findOccurrenceIndex(event: EnhancedEvent, originalDate: Date): number | null {
+    const timezone = event.timezone || 'UTC';
+    const dayKey = formatInTimeZone(originalDate, timezone, 'yyyy-MM-dd');
+
+    const match = this.calculateOccurrences(
+      { ...event, exceptions: undefined },
+      parseISO(event.date),
+      addDays(originalDate, 1),
+      10000
+    ).find(occurrence => (
+      event.is_all_day
+        ? formatInTimeZone(parseISO(occurrence.date), timezone, 'yyyy-MM-dd') === dayKey
+        : parseISO(occurrence.date).getTime() === originalDate.getTime()
+    ));
+
+    return match ? match.occurrence_index : null;
   }
 
   /**
-   * Handles monthly recurring events with specific day of month
+   * Moves a date by whole calendar days in `timezone`, keeping its wall-clock time
    */
-  private static getNextMonthlyOccurrence(currentDate: Date, config: RecurringEventConfig): Date {
-    const targetDay = config.day_of_month!;
-    let nextMonth = addMonths(currentDate, config.interval);
-    
-    // Handle months with fewer days than target day
-    const daysInMonth = getDaysInMonth(nextMonth);
-    if (targetDay > daysInMonth) {
-      // Use last day of month if target day doesn't exist
-      nextMonth.setDate(daysInMonth);
+  static shiftDate(date: string, timezone: string, days: number): string {
+    const localDateTime = formatInTimeZone(parseISO(date), timezone, "yyyy-MM-dd'T'HH:mm:ss");
+    const shifted = format(addDays(parseISO(localDateTime), days), "yyyy-MM-dd'T'HH:mm:ss");
+    return fromZonedTime(shifted, timezone).toISOString();
+  }
+
+  private static buildOccurrence(
+    event: EnhancedEvent,
+    occurrenceIndex: number,
+    originalDate: Date,
+    occurrenceDate: Date,
+    exception?: EventOccurrenceException
+  ): EventOccurrence {
+    return {
+      id: `${event.id}-${occurrenceIndex}`,
+      event_id: event.id,
+      date: formatISO(occurrenceDate),
+      is_original: occurrenceIndex === 0,
+      occurrence_index: occurrenceIndex,
+      ...(exception && {
+        is_exception: true,
+        original_date: formatISO(originalDate),
+        title: exception.title || undefined,
+        location: exception.location || undefined,
+        description: exception.description || undefined
+      })
+    };
+  }
+
+  /**
+   * Lunar recurrence only changes monthly and yearly rules - daily and weekly
+   * intervals are the same in both calendars
+   */
+  static isLunarRecurrence(config?: RecurringEventConfig): boolean {
+    return config?.calendar_system === 'lunar'
+      && (config.frequency === 'monthly' || config.frequency === 'yearly');
+  }
+
+  /**
+   * Captures the lunar date, lunation and local time of the first occurrence
+   */
+  private static getLunarAnchor(eventDate: Date, timezone: string): {
+    lunar: LunarDate;
+    lunation: number;
+    localTime: string;
+    timezone: string;
+  } {
+    const [year, month, day] = formatInTimeZone(eventDate, timezone, 'yyyy-M-d').split('-').map(Number);
+
+    return {
+      lunar: solarToLunar(day, month, year),
+      lunation: getLunationIndex(jdFromDate(day, month, year)),
+      localTime: formatInTimeZone(eventDate, timezone, 'HH:mm:ss'),
+      timezone
+    };
+  }
+
+  /**
+   * Gregorian date of the n-th lunar occurrence, keeping the original local time
+   * - monthly: same lunar day every `interval` lunations (leap months included)
+   * - yearly: same lunar day and month every `interval` lunar years
+   */
+  private static getLunarOccurrenceDate(
+    anchor: ReturnType<typeof RecurringEventCalculator.getLunarAnchor>,
+    config: RecurringEventConfig,
+    index: number
+  ): Date {
+    let solar;
+
+    if (config.frequency === 'monthly') {
+      const { start, length } = getLunationBounds(anchor.lunation + index * config.interval);
+      solar = jdToDate(start + Math.min(anchor.lunar.day, length) - 1);
     } else {
-      nextMonth.setDate(targetDay);
+      solar = resolveLunarAnniversary(anchor.lunar, anchor.lunar.year + index * config.interval);
     }
-    
-    return nextMonth;
+
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return fromZonedTime(
+      `${solar.year}-${pad(solar.month)}-${pad(solar.day)}T${anchor.localTime}`,
+      anchor.timezone
+    );
   }
 
   /**
@@ -328,10 +569,16 @@ export class EventDisplayUtils {
     options: {
       showTime?: boolean;
       showRelative?: boolean;
+      showLunar?: boolean;
       userTimezone?: string;
     } = {}
   ): string {
-    const { showTime = true, showRelative = true, userTimezone } = options;
+    const {
+      showTime = true,
+      showRelative = true,
+      showLunar = RecurringEventCalculator.isLunarRecurrence(event.recurring_config),
+      userTimezone
+    } = options;
     const eventDate = parseISO(event.date);
     const timezone = userTimezone || event.timezone || 'UTC';
 
@@ -345,6 +592,10 @@ export class EventDisplayUtils {
       formattedDate = format(eventDate, 'MMMM d, yyyy');
     }
 
+    if (showLunar) {
+      formattedDate += ` · ${this.formatLunarDate(eventDate, event.timezone || 'Asia/Ho_Chi_Minh')}`;
+    }
+
     if (showRelative) {
       const relativeText = this.getRelativeDateText(eventDate);
       if (relativeText) {
@@ -355,6 +606,42 @@ export class EventDisplayUtils {
     return formattedDate;
   }
 
+  /**
+   * Formats the Vietnamese lunar date of a moment in the given timezone, e.g. "15/8 ÂL"
+   */
+  static formatLunarDate(
+    date: Date | string,
+    timezone: string = 'Asia/Ho_Chi_Minh',
+    options: { showYear?: boolean } = {}
+  ): string {
+    const value = typeof date === 'string' ? parseISO(date) : date;
+    if (!isValid(value)) return '';
+
+    const [year, month, day] = formatInTimeZone(value, timezone, 'yyyy-M-d').split('-').map(Number);
+    return formatLunarDate(solarToLunar(day, month, year), options);
+  }
+
+  /**
+   * "1 day before", "2 hours before" - whole weeks, days and hours read best
+   */
+  static formatLeadTime(minutes: number): string {
+    if (minutes === 0) return 'At the start';
+
+    const units: [number, string][] = [[10080, 'week'], [1440, 'day'], [60, 'hour'], [1, 'minute']];
+    const [size, unit] = units.find(([unitMinutes]) => minutes % unitMinutes === 0)!;
+    const count = minutes / size;
+    return `${count} ${unit}${count === 1 ? '' : 's'} before`;
+  }
+
+  /**
+   * "1 week before by email", "1 hour before (urgent, push)"
+   */
+  static formatReminder(reminder: EventReminderSetting): string {
+    const channel = { browser: 'in the app', email: 'by email', push: 'by push' }[reminder.delivery_method];
+    const type = reminder.reminder_type === 'standard' ? '' : ` (${reminder.reminder_type})`;
+    return `${this.formatLeadTime(reminder.minutes_before)} ${channel}${type}`;
+  }
+
   /**
    * Gets relative date text (Today, Tomorrow, etc.)
    */
@@ -416,6 +703,110 @@ export class EventDisplayUtils {
         return { label: 'Event', color: 'text-gray-600 bg-gray-100', icon: '📅' };
     }
   }
+
+  /**
+   * Human-readable value of one event field (history diffs, merge dialog)
+   */
+  static formatFieldValue(field: string, value: unknown, event: Pick<EnhancedEvent, 'timezone' | 'is_all_day'>): string {
+    if (value === null || value === undefined || value === '') return '—';
+
+    switch (field) {
+      case 'date':
+        return formatInTimeZone(
+          EventMergeUtils.parseDate(value as string),
+          event.timezone || 'UTC',
+          event.is_all_day ? 'MMM d, yyyy' : "MMM d, yyyy 'at' h:mm a"
+        );
+      case 'recurring_config':
+        return describeRecurrence(value as RecurringEventConfig);
+      case 'category':
+        return this.getCategoryDisplay(value as EnhancedEvent['category']).label;
+      case 'priority':
+        return this.getPriorityDisplay(value as EnhancedEvent['priority']).label;
+      case 'reminder_minutes':
+        return `${value} minutes before`;
+      case 'reminders':
+        return (value as EventReminderSetting[]).length === 0
+          ? 'No reminders'
+          : (value as EventReminderSetting[]).map(reminder => this.formatReminder(reminder)).join(', ');
+      case 'exceptions':
+        return (value as EventOccurrenceException).is_cancelled ? 'Occurrence skipped' : 'Occurrence changed';
+      default:
+        return typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value);
+    }
+  }
+}
+
+/**
+ * Three-way merge for concurrent edits
+ * base = the event when editing started, mine = the submitted form,
+ * theirs = the server state returned with a 409
+ */
+export class EventMergeUtils {
+  /**
+   * Form inputs carry UTC wall-clock values without an offset (see the edit form)
+   */
+  static parseDate(value: string): Date {
+    return /[zZ]|[+-]\d{2}:?\d{2}$/.test(value) || !value.includes('T')
+      ? new Date(value)
+      : new Date(`${value}Z`);
+  }
+
+  static isSameValue(field: string, a: unknown, b: unknown): boolean {
+    const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+    if (isEmpty(a) || isEmpty(b)) return isEmpty(a) && isEmpty(b);
+
+    if (field === 'date') {
+      // node-postgres hands stored dates back as Date objects
+      const toTime = (value: unknown) => (value instanceof Date ? value : this.parseDate(String(value))).getTime();
+      return toTime(a) === toTime(b);
+    }
+    if (typeof a === 'object' || typeof b === 'object') {
+      return this.stableStringify(a) === this.stableStringify(b);
+    }
+    return a === b;
+  }
+
+  static merge(
+    base: EnhancedEvent | undefined,
+    mine: Partial<EventFormData>,
+    theirs: EnhancedEvent
+  ): Omit<EventUpdateConflict, 'event_id' | 'mine' | 'server'> {
+    const merged: Partial<EventFormData> = {};
+    const conflicts: EventFieldConflict[] = [];
+    const theirChanges: (keyof EventFormData)[] = [];
+
+    (Object.keys(mine) as (keyof EventFormData)[]).forEach(field => {
+      const mineValue = mine[field];
+      const theirValue = theirs[field];
+      if (mineValue === undefined || this.isSameValue(field, mineValue, theirValue)) return;
+
+      // Without a base every submitted field counts as my change
+      const changedByMe = !base || !this.isSameValue(field, mineValue, base[field]);
+      const changedByThem = !!base && !this.isSameValue(field, theirValue, base[field]);
+
+      if (changedByMe && changedByThem) {
+        conflicts.push({ field, base: base?.[field], mine: mineValue, theirs: theirValue });
+      } else if (changedByMe) {
+        (merged as Record<string, unknown>)[field] = mineValue;
+      } else if (changedByThem) {
+        theirChanges.push(field);
+      }
+    });
+
+    return { merged, conflicts, their_changes: theirChanges };
+  }
+
+  private static stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    if (value && typeof value === 'object') {
+      return `{${Object.keys(value).sort()
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .map(key => `${JSON.stringify(key)}:${this.stableStringify((value as Record<string, unknown>)[key])}`)
+        .join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
 }
 
 /**
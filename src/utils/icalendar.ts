@@ -0,0 +1,971 @@
+// utils/icalendar.ts - RFC 5545 iCalendar serialization and parsing for events
+import { addDays, addHours } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { EventValidator, RecurringEventCalculator } from './eventUtils';
+import { canHitMissingDay, getSkipMode, resolveUntil } from './recurrenceRule';
+import type {
+  EnhancedEvent,
+  EventFormData,
+  EventOccurrenceException,
+  EventReminderSetting,
+  RecurrenceWeekday,
+  RecurringEventConfig
+} from '../types/event';
+
+/**
+ * iCalendar Constants
+ * PRODID and UID domain identify calendars produced by this app
+ */
+export const ICAL_PRODID = '-//Couple Love Story//Events//EN';
+export const ICAL_UID_DOMAIN = 'couple-love-story';
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+
+const LUNAR_EXPANSION_YEARS = 10;
+
+// VTIMEZONE lists every UTC offset change from the earliest event until this many years ahead
+const TIMEZONE_EXPANSION_YEARS = 10;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+
+const PRIORITY_MAP: Record<EnhancedEvent['priority'], number> = {
+  high: 1,
+  medium: 5,
+  low: 9
+};
+
+export interface CalendarBuildOptions {
+  calendarName?: string;
+  timezone?: string;
+  refreshIntervalMinutes?: number;
+}
+
+/**
+ * Text Escaping and Line Folding Utilities
+ * Implements RFC 5545 section 3.3.11 (TEXT) and 3.1 (content lines)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds content lines longer than 75 octets
+ * Counts UTF-8 bytes so Vietnamese text never splits a multi-byte character
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const charOctets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (currentOctets + charOctets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+
+    current += char;
+    currentOctets += charOctets;
+  }
+
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+}
+
+/**
+ * Date Formatting Helpers
+ */
+export function formatUtcDateTime(date: Date): string {
+  return formatInTimeZone(date, 'UTC', "yyyyMMdd'T'HHmmss'Z'");
+}
+
+function formatDateValue(date: Date, timezone: string): string {
+  return formatInTimeZone(date, timezone, 'yyyyMMdd');
+}
+
+/**
+ * DATE-TIME property in the event's own zone, so BYDAY/BYMONTHDAY expand on local days
+ * UTC events keep the plain 'Z' form and need no VTIMEZONE
+ */
+function formatDateTimeProperty(name: string, date: Date, timezone: string): string {
+  return timezone === 'UTC'
+    ? `${name}:${formatUtcDateTime(date)}`
+    : `${name};TZID=${timezone}:${formatInTimeZone(date, timezone, "yyyyMMdd'T'HHmmss")}`;
+}
+
+function formatUtcOffset(offsetMs: number): string {
+  const minutes = Math.round(Math.abs(offsetMs) / 60000);
+  const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+  return `${offsetMs < 0 ? '-' : '+'}${hours}${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * UTC offset (ms) of a zone at an instant, read from its wall clock
+ * date-fns-tz's getTimezoneOffset reports the new offset hours before a DST change
+ */
+function createOffsetReader(timezone: string): (time: number) => number {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric'
+  });
+
+  return (time: number) => {
+    const parts = Object.fromEntries(
+      formatter.formatToParts(new Date(time)).map(part => [part.type, Number(part.value)])
+    );
+    const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return wallClock - Math.floor(time / 1000) * 1000;
+  };
+}
+
+/**
+ * VTIMEZONE for a TZID used by timed events, built from the runtime's tz database
+ * Each offset change between `from` and `until` becomes an explicit observance onset
+ */
+export function buildVTimezone(timezone: string, from: Date, until: Date): string[] {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const offsetAt = createOffsetReader(timezone);
+  const transitions: Array<{ time: number; offsetFrom: number; offsetTo: number }> = [];
+
+  let time = from.getTime();
+  let offset = offsetAt(time);
+  while (time < until.getTime()) {
+    const next = time + dayMs;
+    const nextOffset = offsetAt(next);
+
+    if (nextOffset !== offset) {
+      // Narrow the change down to the minute it takes effect
+      let low = time;
+      let high = next;
+      while (high - low > 60000) {
+        const middle = low + Math.floor((high - low) / 120000) * 60000;
+        if (offsetAt(middle) === offset) low = middle; else high = middle;
+      }
+      transitions.push({ time: high, offsetFrom: offset, offsetTo: nextOffset });
+    }
+
+    time = next;
+    offset = nextOffset;
+  }
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timezone}`];
+
+  if (transitions.length === 0) {
+    lines.push(
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${formatUtcOffset(offset)}`,
+      `TZOFFSETTO:${formatUtcOffset(offset)}`,
+      'END:STANDARD'
+    );
+  }
+
+  // One observance per offset pair - onsets are local wall time before the change
+  const observances = new Map<string, string[]>();
+  transitions.forEach(transition => {
+    const key = `${transition.offsetFrom}/${transition.offsetTo}`;
+    const onset = formatInTimeZone(new Date(transition.time + transition.offsetFrom), 'UTC', "yyyyMMdd'T'HHmmss");
+    const existing = observances.get(key);
+    if (existing) {
+      existing.push(onset);
+      return;
+    }
+    observances.set(key, [onset]);
+  });
+
+  observances.forEach((onsets, key) => {
+    const [offsetFrom, offsetTo] = key.split('/').map(Number);
+    const kind = offsetTo > offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${onsets[0]}`,
+      ...onsets.slice(1).map(onset => `RDATE:${onset}`),
+      `TZOFFSETFROM:${formatUtcOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatUtcOffset(offsetTo)}`,
+      `END:${kind}`
+    );
+  });
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+export function getEventUid(eventId: number): string {
+  return `event-${eventId}@${ICAL_UID_DOMAIN}`;
+}
+
+/**
+ * Maps RecurringEventConfig to an RRULE value
+ * RFC 5545 forbids UNTIL and COUNT together - end_date takes precedence
+ * because it is the stricter bound in RecurringEventCalculator
+ */
+export function recurringConfigToRRule(
+  config: RecurringEventConfig,
+  options: { isAllDay: boolean; timezone: string; start: Date }
+): string {
+  // RFC 7529: SKIP needs RSCALE - only sent when some month lacks the day
+  const skip = getSkipMode(config);
+  const skipsMissingDays = skip !== 'omit' && canHitMissingDay(config, options.start, options.timezone);
+
+  const parts: string[] = skipsMissingDays
+    ? ['RSCALE=GREGORIAN', `FREQ=${config.frequency.toUpperCase()}`, `SKIP=${skip.toUpperCase()}`]
+    : [`FREQ=${config.frequency.toUpperCase()}`];
+
+  if (config.interval && config.interval > 1) {
+    parts.push(`INTERVAL=${config.interval}`);
+  }
+
+  const byDay: RecurrenceWeekday[] | undefined = config.by_day?.length
+    ? config.by_day
+    : config.frequency === 'weekly' ? config.days_of_week?.map(weekday => ({ weekday })) : undefined;
+  if (byDay && byDay.length > 0) {
+    const days = [...byDay]
+      .sort((a, b) => (a.ordinal || 0) - (b.ordinal || 0) || a.weekday - b.weekday)
+      .filter(day => WEEKDAY_CODES[day.weekday])
+      .map(day => `${day.ordinal || ''}${WEEKDAY_CODES[day.weekday]}`);
+    parts.push(`BYDAY=${days.join(',')}`);
+  }
+
+  if (config.by_month?.length) {
+    parts.push(`BYMONTH=${config.by_month.join(',')}`);
+  }
+
+  const byMonthDay = config.by_month_day?.length
+    ? config.by_month_day
+    : config.frequency === 'monthly' && config.day_of_month ? [config.day_of_month] : undefined;
+  if (byMonthDay) {
+    parts.push(`BYMONTHDAY=${byMonthDay.join(',')}`);
+  }
+
+  if (config.by_set_pos?.length) {
+    parts.push(`BYSETPOS=${config.by_set_pos.join(',')}`);
+  }
+
+  if (config.week_start !== undefined && config.week_start !== 1 && WEEKDAY_CODES[config.week_start]) {
+    parts.push(`WKST=${WEEKDAY_CODES[config.week_start]}`);
+  }
+
+  if (config.end_date) {
+    const endDate = resolveUntil(config.end_date, options.timezone);
+    parts.push(
+      options.isAllDay
+        ? `UNTIL=${formatDateValue(endDate, options.timezone)}`
+        : `UNTIL=${formatUtcDateTime(endDate)}`
+    );
+  } else if (config.max_occurrences) {
+    parts.push(`COUNT=${config.max_occurrences}`);
+  }
+
+  return parts.join(';');
+}
+
+/**
+ * Expands a lunar recurrence into RDATE lines for the next LUNAR_EXPANSION_YEARS years
+ */
+function buildLunarRDates(event: EnhancedEvent, start: Date, timezone: string): string[] {
+  const horizon = new Date();
+  horizon.setFullYear(horizon.getFullYear() + LUNAR_EXPANSION_YEARS);
+
+  // Exceptions are published separately as EXDATE / RECURRENCE-ID
+  const occurrences = RecurringEventCalculator
+    .calculateOccurrences({ ...event, date: start.toISOString(), exceptions: undefined }, start, horizon, 500)
+    .filter(occurrence => !occurrence.is_original);
+
+  return occurrences.map(occurrence => (
+    event.is_all_day
+      ? `RDATE;VALUE=DATE:${formatDateValue(new Date(occurrence.date), timezone)}`
+      : formatDateTimeProperty('RDATE', new Date(occurrence.date), timezone)
+  ));
+}
+
+/**
+ * DTSTART/DTEND pair - all-day events span one calendar day, timed events one hour
+ */
+function buildTimeLines(start: Date, isAllDay: boolean, timezone: string): string[] {
+  return isAllDay
+    ? [
+      `DTSTART;VALUE=DATE:${formatDateValue(start, timezone)}`,
+      `DTEND;VALUE=DATE:${formatDateValue(addDays(start, 1), timezone)}`
+    ]
+    : [
+      formatDateTimeProperty('DTSTART', start, timezone),
+      formatDateTimeProperty('DTEND', addHours(start, 1), timezone)
+    ];
+}
+
+/**
+ * Value of EXDATE/RECURRENCE-ID - must use the same value type as DTSTART
+ */
+function formatInstanceId(name: string, date: Date, isAllDay: boolean, timezone: string): string {
+  return isAllDay
+    ? `${name};VALUE=DATE:${formatDateValue(date, timezone)}`
+    : formatDateTimeProperty(name, date, timezone);
+}
+
+/**
+ * Builds the content lines of a single VEVENT (including its VALARM)
+ */
+export function buildVEvent(event: EnhancedEvent & { version?: number }, now: Date = new Date()): string[] {
+  const timezone = event.timezone || 'UTC';
+  // Date constructor tolerates both ISO strings and driver Date objects
+  const start = new Date(event.date);
+  const lines: string[] = ['BEGIN:VEVENT'];
+
+  lines.push(`UID:${getEventUid(event.id)}`);
+  lines.push(`DTSTAMP:${formatUtcDateTime(now)}`);
+
+  lines.push(...buildTimeLines(start, event.is_all_day, timezone));
+
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+
+  lines.push(`CATEGORIES:${event.category.toUpperCase()}`);
+  lines.push(`PRIORITY:${PRIORITY_MAP[event.priority] ?? 5}`);
+
+  if (event.version && event.version > 1) {
+    lines.push(`SEQUENCE:${event.version - 1}`);
+  }
+
+  if (event.created_at) {
+    lines.push(`CREATED:${formatUtcDateTime(new Date(event.created_at))}`);
+  }
+
+  if (event.updated_at) {
+    lines.push(`LAST-MODIFIED:${formatUtcDateTime(new Date(event.updated_at))}`);
+  }
+
+  if (event.is_recurring && event.recurring_config) {
+    if (RecurringEventCalculator.isLunarRecurrence(event.recurring_config)) {
+      // RRULE cannot express the Vietnamese lunar calendar - publish explicit dates instead
+      lines.push(...buildLunarRDates(event, start, timezone));
+    } else {
+      lines.push(`RRULE:${recurringConfigToRRule(event.recurring_config, { isAllDay: event.is_all_day, timezone, start })}`);
+    }
+
+    (event.exceptions || [])
+      .filter(exception => exception.is_cancelled)
+      .forEach(exception => {
+        lines.push(formatInstanceId('EXDATE', new Date(exception.original_date), event.is_all_day, timezone));
+      });
+  }
+
+  // One alarm per distinct lead time - channels are this app's business
+  const alarmMinutes = event.reminders?.length
+    ? [...new Set(event.reminders.map(reminder => reminder.minutes_before))]
+    : event.reminder_minutes && event.reminder_minutes > 0 ? [event.reminder_minutes] : [];
+  alarmMinutes.forEach(minutes => {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.title)}`,
+      `TRIGGER:-PT${minutes}M`,
+      'END:VALARM'
+    );
+  });
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * VEVENT overriding one occurrence of a recurring event (same UID + RECURRENCE-ID)
+ */
+export function buildOccurrenceOverride(
+  event: EnhancedEvent & { version?: number },
+  exception: EventOccurrenceException,
+  now: Date = new Date()
+): string[] {
+  const timezone = event.timezone || 'UTC';
+  const originalDate = new Date(exception.original_date);
+  const description = exception.description || event.description;
+  const location = exception.location || event.location;
+
+  const lines: string[] = [
+    'BEGIN:VEVENT',
+    `UID:${getEventUid(event.id)}`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    formatInstanceId('RECURRENCE-ID', originalDate, event.is_all_day, timezone),
+    ...buildTimeLines(exception.date ? new Date(exception.date) : originalDate, event.is_all_day, timezone),
+    `SUMMARY:${escapeText(exception.title || event.title)}`
+  ];
+
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeText(description)}`);
+  }
+
+  if (location) {
+    lines.push(`LOCATION:${escapeText(location)}`);
+  }
+
+  lines.push(`CATEGORIES:${event.category.toUpperCase()}`);
+
+  if (event.version && event.version > 1) {
+    lines.push(`SEQUENCE:${event.version - 1}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serializes events into a complete VCALENDAR document
+ */
+export function buildCalendar(
+  events: Array<EnhancedEvent & { version?: number }>,
+  options: CalendarBuildOptions = {}
+): string {
+  const now = new Date();
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICAL_PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ];
+
+  if (options.calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  }
+
+  if (options.timezone) {
+    lines.push(`X-WR-TIMEZONE:${options.timezone}`);
+  }
+
+  if (options.refreshIntervalMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshIntervalMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${options.refreshIntervalMinutes}M`);
+  }
+
+  // Every TZID referenced by a timed event needs its VTIMEZONE in the same calendar
+  const zoneStarts = new Map<string, number>();
+  events
+    .filter(event => !event.is_all_day && event.timezone && event.timezone !== 'UTC')
+    .forEach(event => {
+      const earliest = Math.min(
+        new Date(event.date).getTime(),
+        ...(event.exceptions || []).map(exception => new Date(exception.date || exception.original_date).getTime())
+      );
+      zoneStarts.set(event.timezone, Math.min(zoneStarts.get(event.timezone) ?? Infinity, earliest));
+    });
+
+  const zoneHorizon = new Date(now);
+  zoneHorizon.setFullYear(zoneHorizon.getFullYear() + TIMEZONE_EXPANSION_YEARS);
+  zoneStarts.forEach((earliest, timezone) => {
+    const from = new Date(Date.UTC(new Date(earliest).getUTCFullYear() - 1, 0, 1));
+    lines.push(...buildVTimezone(timezone, from, zoneHorizon));
+  });
+
+  events.forEach(event => {
+    lines.push(...buildVEvent(event, now));
+
+    if (event.is_recurring) {
+      (event.exceptions || [])
+        .filter(exception => !exception.is_cancelled)
+        .forEach(exception => {
+          lines.push(...buildOccurrenceOverride(event, exception, now));
+        });
+    }
+  });
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
+
+/**
+ * Suggested download filename for a single event
+ */
+export function getEventIcsFilename(event: Pick<EnhancedEvent, 'id' | 'title'>): string {
+  const slug = event.title
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .replace(/đ/gi, 'd')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+
+  return `${slug || `event-${event.id}`}.ics`;
+}
+
+// ========================================
+// PARSING (iCalendar import)
+// ========================================
+
+export interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface IcsComponent {
+  name: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+/**
+ * Import candidate produced from a single VEVENT
+ * `unsupported` lists source features that EventFormData cannot express
+ */
+export interface IcsImportCandidate {
+  key: string;
+  uid?: string;
+  data: EventFormData;
+  exceptions: EventOccurrenceException[];
+  unsupported: string[];
+}
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6
+};
+
+const SUPPORTED_FREQUENCIES: RecurringEventConfig['frequency'][] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+const CATEGORY_KEYWORDS: Array<[EnhancedEvent['category'], RegExp]> = [
+  ['birthday', /birthday|sinh nh\u1eadt|sinh nhat/i],
+  ['anniversary', /anniversary|k\u1ef7 ni\u1ec7m|ky niem/i],
+  ['date', /\bdate\b|h\u1eb9n h\u00f2|hen ho/i],
+  ['milestone', /milestone|c\u1ed9t m\u1ed1c|cot moc/i]
+];
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (
+    char === 'n' || char === 'N' ? '\n' : char
+  ));
+}
+
+/**
+ * Splits a content line into name, parameters and value
+ * Parameter values may be quoted and contain ':' or ';'
+ */
+function parseContentLine(line: string): IcsProperty | null {
+  let index = 0;
+  let inQuotes = false;
+  let valueStart = -1;
+
+  for (; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ':' && !inQuotes) {
+      valueStart = index;
+      break;
+    }
+  }
+
+  if (valueStart === -1) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, valueStart).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+
+  rawParams.forEach(param => {
+    const separator = param.indexOf('=');
+    if (separator > 0) {
+      params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/^"|"$/g, '');
+    }
+  });
+
+  return {
+    name: rawName.toUpperCase(),
+    params,
+    value: line.slice(valueStart + 1)
+  };
+}
+
+/**
+ * Parses an iCalendar document into its component tree
+ * Unfolds continuation lines and tolerates LF-only line endings
+ */
+export function parseIcs(text: string): IcsComponent[] {
+  const lines = text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim().length > 0);
+
+  const root: IcsComponent = { name: 'ROOT', properties: [], components: [] };
+  const stack: IcsComponent[] = [root];
+
+  lines.forEach(line => {
+    const property = parseContentLine(line);
+    if (!property) return;
+
+    const current = stack[stack.length - 1];
+
+    if (property.name === 'BEGIN') {
+      const component: IcsComponent = { name: property.value.trim().toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  });
+
+  return root.components;
+}
+
+function getProperty(component: IcsComponent, name: string): IcsProperty | undefined {
+  return component.properties.find(property => property.name === name);
+}
+
+/**
+ * Converts a DATE or DATE-TIME value to a UTC instant
+ * Handles UTC ('Z'), TZID-qualified and floating times (floating uses the fallback zone)
+ */
+export function parseIcsDate(
+  property: IcsProperty,
+  fallbackTimezone: string
+): { date: Date; isAllDay: boolean; timezone: string } | null {
+  const value = property.value.trim();
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const isAllDay = property.params.VALUE === 'DATE' || hour === undefined;
+  const timezone = isValidTimezone(property.params.TZID) ? property.params.TZID : fallbackTimezone;
+  const local = `${year}-${month}-${day}T${hour ?? '00'}:${minute ?? '00'}:${second ?? '00'}`;
+
+  const date = utc ? new Date(`${local}Z`) : fromZonedTime(local, timezone);
+  if (isNaN(date.getTime())) return null;
+
+  return { date, isAllDay, timezone };
+}
+
+function isValidTimezone(timezone?: string): timezone is string {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parses a VALARM TRIGGER duration (e.g. -PT15M, -P1D) into minutes before start
+ * Absolute and end-relative triggers are not representable and return null
+ */
+function parseTriggerMinutes(property: IcsProperty): number | null {
+  if (property.params.VALUE === 'DATE-TIME' || property.params.RELATED === 'END') return null;
+
+  const match = property.value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes] = match;
+  const total = (parseInt(weeks || '0', 10) * 7 * 24 * 60)
+    + (parseInt(days || '0', 10) * 24 * 60)
+    + (parseInt(hours || '0', 10) * 60)
+    + parseInt(minutes || '0', 10);
+
+  // Triggers after the start cannot be expressed as "minutes before"
+  if (sign !== '-' && total > 0) return null;
+  return total;
+}
+
+/**
+ * Maps an RRULE value onto RecurringEventConfig
+ * Parts the config cannot express are reported rather than silently dropped
+ */
+export function rruleToRecurringConfig(
+  rrule: string,
+  timezone: string
+): { config: RecurringEventConfig | null; unsupported: string[] } {
+  const parts: Record<string, string> = {};
+  rrule.split(';').forEach(part => {
+    const [key, value] = part.split('=');
+    if (key && value !== undefined) parts[key.toUpperCase()] = value.toUpperCase();
+  });
+
+  const unsupported: string[] = [];
+  const frequency = (parts.FREQ || '').toLowerCase() as RecurringEventConfig['frequency'];
+
+  if (!SUPPORTED_FREQUENCIES.includes(frequency)) {
+    return { config: null, unsupported: [`FREQ=${parts.FREQ || '?'} (imported as a one-time event)`] };
+  }
+
+  const config: RecurringEventConfig = {
+    frequency,
+    interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1)
+  };
+
+  if (parts.COUNT) {
+    config.max_occurrences = parseInt(parts.COUNT, 10);
+  }
+
+  if (parts.UNTIL) {
+    const until = parseIcsDate({ name: 'UNTIL', params: {}, value: parts.UNTIL }, timezone);
+    if (until) {
+      config.end_date = until.date.toISOString();
+    } else {
+      unsupported.push(`UNTIL=${parts.UNTIL}`);
+    }
+  }
+
+  const parseNumbers = (key: string): number[] | null => {
+    const values = parts[key].split(',').map(value => Number(value));
+    return values.every(Number.isInteger) ? values : null;
+  };
+
+  if (parts.BYDAY) {
+    const days = parts.BYDAY.split(',').map(day => day.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/));
+
+    if (days.every(Boolean)) {
+      config.by_day = days.map(match => ({
+        weekday: WEEKDAY_INDEX[match![2]],
+        ...(match![1] && { ordinal: parseInt(match![1], 10) })
+      }));
+    } else {
+      unsupported.push(`BYDAY=${parts.BYDAY}`);
+    }
+  }
+
+  ([['BYMONTH', 'by_month'], ['BYMONTHDAY', 'by_month_day'], ['BYSETPOS', 'by_set_pos']] as const).forEach(([key, field]) => {
+    if (!parts[key]) return;
+    const values = parseNumbers(key);
+    if (values) {
+      config[field] = values;
+    } else {
+      unsupported.push(`${key}=${parts[key]}`);
+    }
+  });
+
+  ['BYWEEKNO', 'BYYEARDAY', 'BYHOUR', 'BYMINUTE', 'BYSECOND'].forEach(key => {
+    if (parts[key]) unsupported.push(`${key}=${parts[key]}`);
+  });
+
+  if (parts.WKST) {
+    if (parts.WKST in WEEKDAY_INDEX) {
+      config.week_start = WEEKDAY_INDEX[parts.WKST];
+    } else {
+      unsupported.push(`WKST=${parts.WKST}`);
+    }
+  }
+
+  if (parts.RSCALE && parts.RSCALE !== 'GREGORIAN') {
+    unsupported.push(`RSCALE=${parts.RSCALE} (dates follow the Gregorian calendar)`);
+  }
+
+  // Without SKIP, RFC 5545 drops dates a month lacks - say so explicitly, since
+  // configs without rule parts default to clamping for backward compatibility
+  if (frequency === 'monthly' || frequency === 'yearly') {
+    const skip = (parts.SKIP || 'OMIT').toLowerCase();
+    config.skip = skip === 'backward' || skip === 'forward' ? skip : 'omit';
+  }
+
+  return { config, unsupported };
+}
+
+function inferCategory(vevent: IcsComponent, title: string): EnhancedEvent['category'] {
+  const categories = getProperty(vevent, 'CATEGORIES')?.value.toLowerCase() || '';
+  const known: EnhancedEvent['category'][] = ['anniversary', 'birthday', 'date', 'milestone', 'other'];
+  const direct = known.find(category => categories.split(',').includes(category));
+  if (direct) return direct;
+
+  const haystack = `${categories} ${title}`;
+  const match = CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(haystack));
+  return match ? match[0] : 'other';
+}
+
+function mapPriority(value?: string): EnhancedEvent['priority'] {
+  const priority = parseInt(value || '0', 10);
+  if (priority >= 1 && priority <= 4) return 'high';
+  if (priority >= 6 && priority <= 9) return 'low';
+  return 'medium';
+}
+
+/**
+ * Resolves an EXDATE / RECURRENCE-ID value to its index in the imported series
+ */
+function resolveOccurrenceIndex(
+  data: EventFormData,
+  property: IcsProperty,
+  fallbackTimezone: string
+): { index: number; date: Date } | null {
+  const instance = parseIcsDate(property, data.timezone || fallbackTimezone);
+  if (!instance || !data.is_recurring || !data.date) return null;
+
+  const index = RecurringEventCalculator.findOccurrenceIndex(
+    { ...data, id: 0, created_at: data.date, updated_at: data.date },
+    instance.date
+  );
+  return index === null ? null : { index, date: instance.date };
+}
+
+/**
+ * Maps every VEVENT in a document to EventFormData import candidates
+ * Returns candidates in document order - validation and duplicate checks are up to the caller
+ */
+export function parseIcsEvents(text: string, defaultTimezone: string = 'UTC'): IcsImportCandidate[] {
+  const calendars = parseIcs(text).filter(component => component.name === 'VCALENDAR');
+  const candidates: IcsImportCandidate[] = [];
+
+  calendars.forEach(calendar => {
+    const calendarTimezone = getProperty(calendar, 'X-WR-TIMEZONE')?.value.trim();
+    const fallbackTimezone = isValidTimezone(calendarTimezone) ? calendarTimezone : defaultTimezone;
+    const candidatesByUid = new Map<string, IcsImportCandidate>();
+    const overrides: IcsComponent[] = [];
+
+    calendar.components
+      .filter(component => component.name === 'VEVENT')
+      .forEach((vevent, index) => {
+        const uid = getProperty(vevent, 'UID')?.value.trim() || undefined;
+        const unsupported: string[] = [];
+
+        if (getProperty(vevent, 'RECURRENCE-ID')) {
+          // Single-occurrence overrides are merged into their series below
+          overrides.push(vevent);
+          return;
+        }
+
+        const dtstart = getProperty(vevent, 'DTSTART');
+        const start = dtstart ? parseIcsDate(dtstart, fallbackTimezone) : null;
+        const title = unescapeText(getProperty(vevent, 'SUMMARY')?.value || '').trim();
+        const description = unescapeText(getProperty(vevent, 'DESCRIPTION')?.value || '').trim();
+        const location = unescapeText(getProperty(vevent, 'LOCATION')?.value || '').trim();
+
+        const data: EventFormData = {
+          title,
+          date: start ? start.date.toISOString() : '',
+          description: description || undefined,
+          location: location || undefined,
+          is_recurring: false,
+          category: inferCategory(vevent, title),
+          priority: mapPriority(getProperty(vevent, 'PRIORITY')?.value),
+          is_all_day: start?.isAllDay ?? false,
+          timezone: start?.timezone || fallbackTimezone
+        };
+
+        const rrule = getProperty(vevent, 'RRULE');
+        if (rrule) {
+          const mapped = rruleToRecurringConfig(rrule.value, data.timezone);
+          unsupported.push(...mapped.unsupported);
+          if (mapped.config) {
+            data.is_recurring = true;
+            data.recurring_config = mapped.config;
+          }
+        }
+
+        if (vevent.properties.filter(property => property.name === 'RRULE').length > 1) {
+          unsupported.push('multiple RRULEs (only the first is used)');
+        }
+
+        ['RDATE', 'EXRULE'].forEach(name => {
+          if (getProperty(vevent, name)) unsupported.push(name);
+        });
+
+        const exceptions: EventOccurrenceException[] = [];
+        let unmatchedExdates = 0;
+        vevent.properties
+          .filter(property => property.name === 'EXDATE')
+          .flatMap(property => property.value.split(',').map(value => ({ ...property, value })))
+          .forEach(property => {
+            const instance = resolveOccurrenceIndex(data, property, fallbackTimezone);
+            if (instance) {
+              exceptions.push({ occurrence_index: instance.index, original_date: instance.date.toISOString(), is_cancelled: true });
+            } else {
+              unmatchedExdates++;
+            }
+          });
+        if (unmatchedExdates > 0) {
+          unsupported.push(`${unmatchedExdates} EXDATE${unmatchedExdates === 1 ? '' : 's'} outside the recurrence`);
+        }
+
+        const alarms = vevent.components
+          .filter(component => component.name === 'VALARM')
+          .map(alarm => ({ alarm, trigger: getProperty(alarm, 'TRIGGER') }))
+          .filter((entry): entry is { alarm: IcsComponent; trigger: IcsProperty } => !!entry.trigger)
+          .map(({ alarm, trigger }) => ({
+            minutes: parseTriggerMinutes(trigger),
+            method: getProperty(alarm, 'ACTION')?.value.toUpperCase() === 'EMAIL' ? 'email' as const : 'browser' as const
+          }));
+        const reminders: EventReminderSetting[] = [];
+        alarms.forEach(({ minutes, method }) => {
+          if (minutes !== null && !reminders.some(r => r.minutes_before === minutes && r.delivery_method === method)) {
+            reminders.push({ minutes_before: minutes, delivery_method: method, reminder_type: 'standard' });
+          }
+        });
+        reminders.sort((a, b) => b.minutes_before - a.minutes_before);
+
+        if (reminders.length > 0) {
+          data.reminders = reminders.slice(0, EventValidator.MAX_REMINDERS);
+        }
+        if (alarms.some(({ minutes }) => minutes === null)) {
+          unsupported.push('absolute or end-relative VALARM trigger');
+        }
+        if (reminders.length > EventValidator.MAX_REMINDERS) {
+          unsupported.push(`${reminders.length} alarms (only the earliest ${EventValidator.MAX_REMINDERS} are kept)`);
+        }
+
+        const candidate: IcsImportCandidate = {
+          key: uid || `vevent-${candidates.length}-${index}`,
+          uid,
+          data,
+          exceptions,
+          unsupported
+        };
+        candidates.push(candidate);
+        if (uid) candidatesByUid.set(uid, candidate);
+      });
+
+    overrides.forEach(vevent => {
+      const master = candidatesByUid.get(getProperty(vevent, 'UID')?.value.trim() || '');
+      if (!master?.data.is_recurring) return;
+
+      const recurrenceId = getProperty(vevent, 'RECURRENCE-ID')!;
+      const instance = resolveOccurrenceIndex(master.data, recurrenceId, fallbackTimezone);
+      if (!instance || recurrenceId.params.RANGE) {
+        master.unsupported.push(recurrenceId.params.RANGE
+          ? 'RECURRENCE-ID with RANGE (only the single occurrence is changed)'
+          : 'occurrence override outside the recurrence');
+        if (!instance) return;
+      }
+
+      const dtstart = getProperty(vevent, 'DTSTART');
+      const start = dtstart ? parseIcsDate(dtstart, fallbackTimezone) : null;
+      const title = unescapeText(getProperty(vevent, 'SUMMARY')?.value || '').trim();
+      const location = unescapeText(getProperty(vevent, 'LOCATION')?.value || '').trim();
+      const description = unescapeText(getProperty(vevent, 'DESCRIPTION')?.value || '').trim();
+
+      const exception: EventOccurrenceException = {
+        occurrence_index: instance.index,
+        original_date: instance.date.toISOString(),
+        is_cancelled: getProperty(vevent, 'STATUS')?.value.trim().toUpperCase() === 'CANCELLED',
+        date: start && start.date.getTime() !== instance.date.getTime() ? start.date.toISOString() : undefined,
+        title: title && title !== master.data.title ? title : undefined,
+        location: location && location !== master.data.location ? location : undefined,
+        description: description && description !== master.data.description ? description : undefined
+      };
+
+      master.exceptions = [
+        ...master.exceptions.filter(existing => existing.occurrence_index !== exception.occurrence_index),
+        exception
+      ];
+    });
+  });
+
+  return candidates;
+}
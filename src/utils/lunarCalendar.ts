@@ -0,0 +1,313 @@
+// utils/lunarCalendar.ts - Offline Vietnamese lunar-solar calendar conversion
+/**
+ * Astronomical algorithm by Hồ Ngọc Đức (new moon and solar longitude series
+ * from "Astronomical Algorithms", Jean Meeus). Computes the Vietnamese lunar
+ * calendar, which is observed at UTC+7 - it differs from the Chinese calendar
+ * (UTC+8) in a few years, e.g. Tết 1985.
+ *
+ * All day arithmetic is done on Julian Day Numbers (JDN), so no Date objects
+ * or runtime timezone data are involved.
+ */
+
+export interface LunarDate {
+  day: number;
+  month: number; // 1-12
+  year: number;
+  leap: boolean; // True for the intercalary (nhuận) month
+}
+
+export interface SolarDate {
+  day: number;
+  month: number; // 1-12
+  year: number;
+}
+
+const VIETNAM_TIMEZONE_OFFSET = 7;
+const SYNODIC_MONTH = 29.530588853;
+const NEW_MOON_EPOCH = 2415021.076998695; // JDN of the new moon on 1900-01-01
+const RAD = Math.PI / 180;
+
+const CAN = ['Giáp', 'Ất', 'Bính', 'Đinh', 'Mậu', 'Kỷ', 'Canh', 'Tân', 'Nhâm', 'Quý'];
+const CHI = ['Tý', 'Sửu', 'Dần', 'Mão', 'Thìn', 'Tỵ', 'Ngọ', 'Mùi', 'Thân', 'Dậu', 'Tuất', 'Hợi'];
+
+/**
+ * Julian Day Number Conversion
+ * Gregorian calendar from 1582-10-15, Julian before
+ */
+export function jdFromDate(day: number, month: number, year: number): number {
+  const a = Math.floor((14 - month) / 12);
+  const y = year + 4800 - a;
+  const m = month + 12 * a - 3;
+  let jd = day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
+  if (jd < 2299161) {
+    jd = day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - 32083;
+  }
+  return jd;
+}
+
+export function jdToDate(jd: number): SolarDate {
+  let b: number;
+  let c: number;
+  if (jd > 2299160) {
+    const a = jd + 32044;
+    b = Math.floor((4 * a + 3) / 146097);
+    c = a - Math.floor((b * 146097) / 4);
+  } else {
+    b = 0;
+    c = jd + 32082;
+  }
+  const d = Math.floor((4 * c + 3) / 1461);
+  const e = c - Math.floor((1461 * d) / 4);
+  const m = Math.floor((5 * e + 2) / 153);
+
+  return {
+    day: e - Math.floor((153 * m + 2) / 5) + 1,
+    month: m + 3 - 12 * Math.floor(m / 10),
+    year: b * 100 + d - 4800 + Math.floor(m / 10)
+  };
+}
+
+/**
+ * Julian day (fractional) of the k-th new moon after the 1900-01-01 epoch
+ */
+function newMoon(k: number): number {
+  const T = k / 1236.85;
+  const T2 = T * T;
+  const T3 = T2 * T;
+
+  let jd1 = 2415020.75933 + 29.53058868 * k + 0.0001178 * T2 - 0.000000155 * T3;
+  jd1 += 0.00033 * Math.sin((166.56 + 132.87 * T - 0.009173 * T2) * RAD);
+
+  const M = 359.2242 + 29.10535608 * k - 0.0000333 * T2 - 0.00000347 * T3; // Sun's mean anomaly
+  const Mpr = 306.0253 + 385.81691806 * k + 0.0107306 * T2 + 0.00001236 * T3; // Moon's mean anomaly
+  const F = 21.2964 + 390.67050646 * k - 0.0016528 * T2 - 0.00000239 * T3; // Moon's argument of latitude
+
+  let C1 = (0.1734 - 0.000393 * T) * Math.sin(M * RAD) + 0.0021 * Math.sin(2 * RAD * M);
+  C1 = C1 - 0.4068 * Math.sin(Mpr * RAD) + 0.0161 * Math.sin(RAD * 2 * Mpr);
+  C1 = C1 - 0.0004 * Math.sin(RAD * 3 * Mpr);
+  C1 = C1 + 0.0104 * Math.sin(RAD * 2 * F) - 0.0051 * Math.sin(RAD * (M + Mpr));
+  C1 = C1 - 0.0074 * Math.sin(RAD * (M - Mpr)) + 0.0004 * Math.sin(RAD * (2 * F + M));
+  C1 = C1 - 0.0004 * Math.sin(RAD * (2 * F - M)) - 0.0006 * Math.sin(RAD * (2 * F + Mpr));
+  C1 = C1 + 0.0010 * Math.sin(RAD * (2 * F - Mpr)) + 0.0005 * Math.sin(RAD * (2 * Mpr + M));
+
+  const deltaT = T < -11
+    ? 0.001 + 0.000839 * T + 0.0002261 * T2 - 0.00000845 * T3 - 0.000000081 * T * T3
+    : -0.000278 + 0.000265 * T + 0.000262 * T2;
+
+  return jd1 + C1 - deltaT;
+}
+
+/**
+ * Solar longitude in radians, normalized to [0, 2π)
+ */
+function sunLongitude(jdn: number): number {
+  const T = (jdn - 2451545.0) / 36525;
+  const T2 = T * T;
+  const M = 357.52910 + 35999.05030 * T - 0.0001559 * T2 - 0.00000048 * T * T2;
+  const L0 = 280.46645 + 36000.76983 * T + 0.0003032 * T2;
+
+  let DL = (1.914600 - 0.004817 * T - 0.000014 * T2) * Math.sin(RAD * M);
+  DL += (0.019993 - 0.000101 * T) * Math.sin(RAD * 2 * M) + 0.000290 * Math.sin(RAD * 3 * M);
+
+  const L = (L0 + DL) * RAD;
+  return L - Math.PI * 2 * Math.floor(L / (Math.PI * 2));
+}
+
+/**
+ * Solar term index (0-11) at local midnight starting the given day
+ */
+function getSunLongitudeSector(dayNumber: number, timezone: number): number {
+  return Math.floor((sunLongitude(dayNumber - 0.5 - timezone / 24) / Math.PI) * 6);
+}
+
+function getNewMoonDay(k: number, timezone: number): number {
+  return Math.floor(newMoon(k) + 0.5 + timezone / 24);
+}
+
+/**
+ * JDN of the first day of lunar month 11 (the month containing the winter solstice)
+ */
+function getLunarMonth11(year: number, timezone: number): number {
+  const offset = jdFromDate(31, 12, year) - 2415021;
+  const k = Math.floor(offset / SYNODIC_MONTH);
+  const newMoonDay = getNewMoonDay(k, timezone);
+
+  return getSunLongitudeSector(newMoonDay, timezone) >= 9
+    ? getNewMoonDay(k - 1, timezone)
+    : newMoonDay;
+}
+
+/**
+ * Offset (in months after month 11) of the leap month in a 13-month year -
+ * the first month that contains no major solar term
+ */
+function getLeapMonthOffset(a11: number, timezone: number): number {
+  const k = Math.floor((a11 - NEW_MOON_EPOCH) / SYNODIC_MONTH + 0.5);
+  let last: number;
+  let i = 1;
+  let arc = getSunLongitudeSector(getNewMoonDay(k + i, timezone), timezone);
+
+  do {
+    last = arc;
+    i++;
+    arc = getSunLongitudeSector(getNewMoonDay(k + i, timezone), timezone);
+  } while (arc !== last && i < 14);
+
+  return i - 1;
+}
+
+/**
+ * Lunation index of the lunar month containing the given JDN
+ */
+export function getLunationIndex(dayNumber: number, timezone: number = VIETNAM_TIMEZONE_OFFSET): number {
+  const k = Math.floor((dayNumber - NEW_MOON_EPOCH) / SYNODIC_MONTH);
+  return getNewMoonDay(k + 1, timezone) <= dayNumber ? k + 1 : k;
+}
+
+/**
+ * First day (JDN) and length (29 or 30) of the lunar month with the given lunation index
+ */
+export function getLunationBounds(
+  k: number,
+  timezone: number = VIETNAM_TIMEZONE_OFFSET
+): { start: number; length: number } {
+  const start = getNewMoonDay(k, timezone);
+  return { start, length: getNewMoonDay(k + 1, timezone) - start };
+}
+
+/**
+ * Converts a Gregorian date to the Vietnamese lunar calendar
+ */
+export function solarToLunar(
+  day: number,
+  month: number,
+  year: number,
+  timezone: number = VIETNAM_TIMEZONE_OFFSET
+): LunarDate {
+  const dayNumber = jdFromDate(day, month, year);
+  const monthStart = getNewMoonDay(getLunationIndex(dayNumber, timezone), timezone);
+
+  let a11 = getLunarMonth11(year, timezone);
+  let b11 = a11;
+  let lunarYear: number;
+
+  if (a11 >= monthStart) {
+    lunarYear = year;
+    a11 = getLunarMonth11(year - 1, timezone);
+  } else {
+    lunarYear = year + 1;
+    b11 = getLunarMonth11(year + 1, timezone);
+  }
+
+  const lunarDay = dayNumber - monthStart + 1;
+  const diff = Math.floor((monthStart - a11) / 29);
+  let leap = false;
+  let lunarMonth = diff + 11;
+
+  if (b11 - a11 > 365) {
+    const leapMonthDiff = getLeapMonthOffset(a11, timezone);
+    if (diff >= leapMonthDiff) {
+      lunarMonth = diff + 10;
+      leap = diff === leapMonthDiff;
+    }
+  }
+
+  if (lunarMonth > 12) {
+    lunarMonth -= 12;
+  }
+  if (lunarMonth >= 11 && diff < 4) {
+    lunarYear -= 1;
+  }
+
+  return { day: lunarDay, month: lunarMonth, year: lunarYear, leap };
+}
+
+/**
+ * Finds the lunation index of a lunar month, or null when the requested
+ * leap month does not exist in that year
+ */
+function findLunarMonthIndex(
+  month: number,
+  year: number,
+  leap: boolean,
+  timezone: number
+): number | null {
+  const a11 = month < 11 ? getLunarMonth11(year - 1, timezone) : getLunarMonth11(year, timezone);
+  const b11 = month < 11 ? getLunarMonth11(year, timezone) : getLunarMonth11(year + 1, timezone);
+  const k = Math.floor(0.5 + (a11 - NEW_MOON_EPOCH) / SYNODIC_MONTH);
+
+  let offset = month - 11;
+  if (offset < 0) {
+    offset += 12;
+  }
+
+  if (b11 - a11 > 365) {
+    const leapOffset = getLeapMonthOffset(a11, timezone);
+    let leapMonth = leapOffset - 2;
+    if (leapMonth < 0) {
+      leapMonth += 12;
+    }
+
+    if (leap && month !== leapMonth) {
+      return null;
+    }
+    if (leap || offset >= leapOffset) {
+      offset += 1;
+    }
+  } else if (leap) {
+    return null;
+  }
+
+  return k + offset;
+}
+
+/**
+ * Converts a Vietnamese lunar date to Gregorian
+ * Returns null for leap months that do not exist or day 30 of a 29-day month
+ */
+export function lunarToSolar(
+  lunar: LunarDate,
+  timezone: number = VIETNAM_TIMEZONE_OFFSET
+): SolarDate | null {
+  const index = findLunarMonthIndex(lunar.month, lunar.year, lunar.leap, timezone);
+  if (index === null) return null;
+
+  const { start, length } = getLunationBounds(index, timezone);
+  if (lunar.day < 1 || lunar.day > length) return null;
+
+  return jdToDate(start + lunar.day - 1);
+}
+
+/**
+ * Resolves a recurring lunar anniversary in a given lunar year
+ * - Leap-month anchors fall back to the regular month when the year has no such leap month
+ * - Day 30 falls back to the last day (29) of short months, as is customary for giỗ
+ */
+export function resolveLunarAnniversary(
+  anchor: LunarDate,
+  year: number,
+  timezone: number = VIETNAM_TIMEZONE_OFFSET
+): SolarDate {
+  const index = (anchor.leap && findLunarMonthIndex(anchor.month, year, true, timezone))
+    || findLunarMonthIndex(anchor.month, year, false, timezone)!;
+  const { start, length } = getLunationBounds(index, timezone);
+
+  return jdToDate(start + Math.min(anchor.day, length) - 1);
+}
+
+/**
+ * Can Chi (sexagenary) name of a lunar year, e.g. 2024 -> "Giáp Thìn"
+ */
+export function getCanChiYear(year: number): string {
+  return `${CAN[(year + 6) % 10]} ${CHI[(year + 8) % 12]}`;
+}
+
+/**
+ * Short display form, e.g. "15/8 ÂL" or "10/4 nhuận ÂL"
+ */
+export function formatLunarDate(lunar: LunarDate, options: { showYear?: boolean } = {}): string {
+  const base = `${lunar.day}/${lunar.month}${lunar.leap ? ' nhuận' : ''}`;
+  return options.showYear
+    ? `${base} năm ${getCanChiYear(lunar.year)} (ÂL)`
+    : `${base} ÂL`;
+}
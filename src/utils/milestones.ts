@@ -0,0 +1,292 @@
+// utils/milestones.ts - Relationship milestones derived from love_start_date
+import { addDays, addMonths, addYears, differenceInCalendarMonths, format } from 'date-fns';
+import { fromZonedTime } from 'date-fns-tz';
+import type { EnhancedEvent } from '../types/event';
+
+/**
+ * Milestone Rules
+ * Each rule yields dated occurrences relative to the day the couple started dating.
+ * Day counts follow useDateCalculations: the start date itself is day 0.
+ */
+export type MilestoneRuleId =
+  | 'days_100'
+  | 'days_500'
+  | 'days_1000'
+  | 'days_thousands'
+  | 'monthiversary'
+  | 'anniversary';
+
+export interface MilestoneRule {
+  id: MilestoneRuleId;
+  label: string;
+  description: string;
+  priority: EnhancedEvent['priority'];
+  default_reminder_minutes: number;
+}
+
+export interface MilestoneSetting {
+  rule_id: MilestoneRuleId;
+  enabled: boolean;
+  reminder_minutes: number;
+}
+
+export interface MilestoneOccurrence {
+  key: string; // Stable identifier, e.g. "days:100", "month:14", "year:3"
+  rule_id: MilestoneRuleId;
+  date: string; // Calendar date (yyyy-MM-dd)
+  title: string;
+  description: string;
+}
+
+export const DEFAULT_MILESTONE_TIMEZONE = 'Asia/Ho_Chi_Minh';
+
+export const MILESTONE_RULES: readonly MilestoneRule[] = [
+  {
+    id: 'days_100',
+    label: '100 days',
+    description: 'The first 100 days together',
+    priority: 'high',
+    default_reminder_minutes: 1440
+  },
+  {
+    id: 'days_500',
+    label: '500 days',
+    description: '500 days together',
+    priority: 'high',
+    default_reminder_minutes: 1440
+  },
+  {
+    id: 'days_1000',
+    label: '1000 days',
+    description: '1000 days together',
+    priority: 'high',
+    default_reminder_minutes: 1440
+  },
+  {
+    id: 'days_thousands',
+    label: 'Every 1000 days',
+    description: '2000, 3000, 4000... days together',
+    priority: 'medium',
+    default_reminder_minutes: 1440
+  },
+  {
+    id: 'monthiversary',
+    label: 'Monthiversaries',
+    description: 'Every month on the day you started dating',
+    priority: 'low',
+    default_reminder_minutes: 0
+  },
+  {
+    id: 'anniversary',
+    label: 'Anniversaries',
+    description: 'Every year on the day you started dating',
+    priority: 'high',
+    default_reminder_minutes: 10080
+  }
+];
+
+const FIXED_DAY_RULES: Partial<Record<MilestoneRuleId, number>> = {
+  days_100: 100,
+  days_500: 500,
+  days_1000: 1000
+};
+
+// Virtual events use negative ids so they never collide with database rows
+const MONTH_ID_OFFSET = 1_000_000;
+const YEAR_ID_OFFSET = 2_000_000;
+
+/**
+ * Milestone Generator
+ * Pure calculations shared by the API, the reminder dispatcher and the UI
+ */
+export class MilestoneGenerator {
+  /**
+   * Settings for every rule, falling back to defaults for rules never configured
+   */
+  static resolveSettings(stored: Array<Partial<MilestoneSetting> & { rule_id: string }> = []): MilestoneSetting[] {
+    return MILESTONE_RULES.map(rule => {
+      const saved = stored.find(setting => setting.rule_id === rule.id);
+      return {
+        rule_id: rule.id,
+        enabled: saved?.enabled ?? true,
+        reminder_minutes: saved?.reminder_minutes ?? rule.default_reminder_minutes
+      };
+    });
+  }
+
+  /**
+   * Normalizes love_start_date to a local calendar date
+   * node-postgres returns DATE columns as Date objects at local midnight
+   */
+  static toStartDate(loveStartDate: string | Date): Date {
+    if (loveStartDate instanceof Date) {
+      return new Date(loveStartDate.getFullYear(), loveStartDate.getMonth(), loveStartDate.getDate());
+    }
+
+    const match = loveStartDate.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (match) {
+      return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    }
+
+    return this.toStartDate(new Date(loveStartDate));
+  }
+
+  /**
+   * All occurrences of the enabled rules whose calendar date falls within [from, to]
+   */
+  static generate(
+    loveStartDate: string | Date,
+    from: Date,
+    to: Date,
+    enabledRules: MilestoneRuleId[] = MILESTONE_RULES.map(rule => rule.id)
+  ): MilestoneOccurrence[] {
+    const start = this.toStartDate(loveStartDate);
+    const fromDay = format(from, 'yyyy-MM-dd');
+    const toDay = format(to, 'yyyy-MM-dd');
+    const occurrences: MilestoneOccurrence[] = [];
+    const inRange = (date: Date) => {
+      const day = format(date, 'yyyy-MM-dd');
+      return day >= fromDay && day <= toDay;
+    };
+
+    enabledRules.forEach(ruleId => {
+      const fixedDays = FIXED_DAY_RULES[ruleId];
+
+      if (fixedDays) {
+        const date = addDays(start, fixedDays);
+        if (inRange(date)) occurrences.push(this.buildDayOccurrence(ruleId, fixedDays, date));
+        return;
+      }
+
+      if (ruleId === 'days_thousands') {
+        for (let days = 2000; addDays(start, days) <= to; days += 1000) {
+          const date = addDays(start, days);
+          if (inRange(date)) occurrences.push(this.buildDayOccurrence(ruleId, days, date));
+        }
+        return;
+      }
+
+      const stepMonths = ruleId === 'anniversary' ? 12 : 1;
+      // Jump close to the range instead of walking from the start date
+      const firstIndex = Math.max(1, Math.floor(differenceInCalendarMonths(from, start) / stepMonths) - 1);
+
+      for (let index = firstIndex; ; index++) {
+        const date = ruleId === 'anniversary' ? addYears(start, index) : addMonths(start, index);
+        if (date > to) break;
+
+        // Every 12th monthiversary is an anniversary - let that rule own it
+        if (ruleId === 'monthiversary' && index % 12 === 0) continue;
+
+        if (inRange(date)) {
+          occurrences.push(ruleId === 'anniversary'
+            ? this.buildYearOccurrence(index, date)
+            : this.buildMonthOccurrence(index, date));
+        }
+      }
+    });
+
+    return occurrences.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Rebuilds a single occurrence from its key (used when materializing)
+   */
+  static fromKey(loveStartDate: string | Date, key: string): MilestoneOccurrence | null {
+    const match = key.match(/^(days|month|year):(\d+)$/);
+    if (!match) return null;
+
+    const start = this.toStartDate(loveStartDate);
+    const value = parseInt(match[2], 10);
+
+    switch (match[1]) {
+      case 'days': {
+        const ruleId = (Object.keys(FIXED_DAY_RULES) as MilestoneRuleId[])
+          .find(id => FIXED_DAY_RULES[id] === value)
+          || (value >= 2000 && value % 1000 === 0 ? 'days_thousands' : null);
+        return ruleId ? this.buildDayOccurrence(ruleId, value, addDays(start, value)) : null;
+      }
+      case 'month':
+        return value > 0 && value % 12 !== 0 ? this.buildMonthOccurrence(value, addMonths(start, value)) : null;
+      case 'year':
+        return value > 0 ? this.buildYearOccurrence(value, addYears(start, value)) : null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Converts an occurrence into a read-only EnhancedEvent for listings and reminders
+   */
+  static toVirtualEvent(
+    occurrence: MilestoneOccurrence,
+    options: { timezone?: string; reminderMinutes?: number; loveStartDate?: string | Date } = {}
+  ): EnhancedEvent {
+    const timezone = options.timezone || DEFAULT_MILESTONE_TIMEZONE;
+    const rule = MILESTONE_RULES.find(candidate => candidate.id === occurrence.rule_id)!;
+    const createdAt = options.loveStartDate
+      ? this.toStartDate(options.loveStartDate).toISOString()
+      : new Date(0).toISOString();
+
+    return {
+      id: this.getVirtualId(occurrence.key),
+      title: occurrence.title,
+      description: occurrence.description,
+      date: fromZonedTime(`${occurrence.date}T00:00:00`, timezone).toISOString(),
+      is_recurring: false,
+      category: 'milestone',
+      priority: rule.priority,
+      is_all_day: true,
+      timezone,
+      reminder_minutes: options.reminderMinutes || undefined,
+      created_at: createdAt,
+      updated_at: createdAt,
+      is_virtual: true,
+      milestone_key: occurrence.key
+    };
+  }
+
+  static getVirtualId(key: string): number {
+    const [kind, rawValue] = key.split(':');
+    const value = parseInt(rawValue, 10);
+
+    if (kind === 'month') return -(MONTH_ID_OFFSET + value);
+    if (kind === 'year') return -(YEAR_ID_OFFSET + value);
+    return -value;
+  }
+
+  private static buildDayOccurrence(ruleId: MilestoneRuleId, days: number, date: Date): MilestoneOccurrence {
+    return {
+      key: `days:${days}`,
+      rule_id: ruleId,
+      date: format(date, 'yyyy-MM-dd'),
+      title: `${days === 100 ? '💯' : '💞'} ${days.toLocaleString('en-US')} Days Together`,
+      description: `${days.toLocaleString('en-US')} days since we started our love story`
+    };
+  }
+
+  private static buildMonthOccurrence(months: number, date: Date): MilestoneOccurrence {
+    return {
+      key: `month:${months}`,
+      rule_id: 'monthiversary',
+      date: format(date, 'yyyy-MM-dd'),
+      title: `💕 ${months} ${months === 1 ? 'Month' : 'Months'} Together`,
+      description: `Monthiversary - ${months} ${months === 1 ? 'month' : 'months'} of love`
+    };
+  }
+
+  private static buildYearOccurrence(years: number, date: Date): MilestoneOccurrence {
+    return {
+      key: `year:${years}`,
+      rule_id: 'anniversary',
+      date: format(date, 'yyyy-MM-dd'),
+      title: `💍 ${this.toOrdinal(years)} Anniversary`,
+      description: `${years} ${years === 1 ? 'year' : 'years'} together`
+    };
+  }
+
+  private static toOrdinal(value: number): string {
+    const suffixes = ['th', 'st', 'nd', 'rd'];
+    const remainder = value % 100;
+    return `${value}${suffixes[(remainder - 20) % 10] || suffixes[remainder] || suffixes[0]}`;
+  }
+}
@@ -0,0 +1,169 @@
+// utils/offlineQueue.ts - IndexedDB queue of event changes made without a connection
+/**
+ * Changes are replayed in the order they were made once the browser is back
+ * online (see useEvents). Several changes to the same event are folded into
+ * one entry while queued, so an event created offline is still a single
+ * create when it reaches the server, and the version an offline edit was
+ * based on is kept from the first edit.
+ */
+import type { EnhancedEvent, QueuedEventMutation } from '../types/event';
+
+const DB_NAME = 'love-story-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'event_mutations';
+
+// A mutation as handed to enqueue - the key and timestamp are filled in here
+type NewQueuedEventMutation = QueuedEventMutation extends infer M
+  ? M extends QueuedEventMutation ? Omit<M, 'id' | 'queued_at'> : never
+  : never;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * True when fetch failed to reach the server at all (as opposed to an HTTP error)
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+export function isBrowserOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Offline Mutation Queue
+ * Persistent FIFO of event create/update/delete calls
+ */
+export class OfflineMutationQueue {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Whether a failed request should be queued - network failures only, HTTP errors are final
+   */
+  static canQueue(error: unknown): boolean {
+    return this.isSupported() && (isNetworkError(error) || isBrowserOffline());
+  }
+
+  private static openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      };
+      this.dbPromise = requestToPromise(request).catch((error) => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Queued mutations, oldest first
+   */
+  static async getAll(): Promise<QueuedEventMutation[]> {
+    if (!this.isSupported()) return [];
+    const db = await this.openDatabase();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    return requestToPromise(store.getAll() as IDBRequest<QueuedEventMutation[]>);
+  }
+
+  static async count(): Promise<number> {
+    if (!this.isSupported()) return 0;
+    const db = await this.openDatabase();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    return requestToPromise(store.count());
+  }
+
+  static async remove(id: number): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(id);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Queue a change, folding it into an earlier queued change for the same event
+   */
+  static async enqueue(mutation: NewQueuedEventMutation): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const done = transactionDone(transaction);
+
+    const queued = await requestToPromise(store.getAll() as IDBRequest<QueuedEventMutation[]>);
+    const pending = queued.find(item => item.event_id === mutation.event_id);
+
+    if (pending?.type === 'create' && mutation.type === 'update') {
+      // Never reached the server - just create it with the latest values
+      store.put({ ...pending, data: { ...pending.data, ...mutation.data } });
+    } else if (pending?.type === 'create' && mutation.type === 'delete') {
+      store.delete(pending.id!);
+    } else if (pending?.type === 'update' && mutation.type === 'update') {
+      store.put({ ...pending, data: { ...pending.data, ...mutation.data } });
+    } else if (pending?.type === 'update' && mutation.type === 'delete') {
+      // The delete is checked against the version the offline edits started from
+      store.delete(pending.id!);
+      store.add({
+        ...mutation,
+        base_version: pending.base?.version ?? mutation.base_version,
+        queued_at: new Date().toISOString()
+      });
+    } else {
+      store.add({ ...mutation, queued_at: new Date().toISOString() });
+    }
+
+    await done;
+  }
+}
+
+/**
+ * Events as they will look once the queue is replayed - keeps offline changes
+ * visible when the list is reloaded from the network or the service worker cache
+ */
+export function applyQueuedMutations(
+  events: EnhancedEvent[],
+  queue: QueuedEventMutation[]
+): EnhancedEvent[] {
+  let result = events;
+
+  for (const mutation of queue) {
+    switch (mutation.type) {
+      case 'create':
+        result = [{
+          id: mutation.event_id,
+          ...mutation.data,
+          created_at: mutation.queued_at,
+          updated_at: mutation.queued_at
+        } as EnhancedEvent, ...result];
+        break;
+      case 'update':
+        result = result.map(event => (
+          event.id === mutation.event_id ? { ...event, ...mutation.data } as EnhancedEvent : event
+        ));
+        break;
+      case 'delete':
+        result = result.filter(event => event.id !== mutation.event_id);
+        break;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,51 @@
+// utils/photoDates.ts - When a photo was taken, for sorting, grouping and display
+import { format, parseISO } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+
+export interface DatedPhoto {
+  upload_date: string;
+  taken_at?: string | null;
+  taken_at_offset?: string | null;
+}
+
+export interface PhotoMonthGroup<T> {
+  key: string; // "2023-06"
+  label: string; // "June 2023"
+  photos: T[];
+}
+
+/**
+ * Capture time from EXIF, falling back to the upload for photos without one
+ */
+export function getPhotoDate(photo: DatedPhoto): Date {
+  return parseISO(photo.taken_at || photo.upload_date);
+}
+
+/**
+ * Format the moment a photo was taken as the camera's clock showed it - in
+ * the offset it recorded, or as written when it recorded none (stored as UTC).
+ * Photos without EXIF show their upload time in the viewer's timezone.
+ */
+export function formatPhotoDate(photo: DatedPhoto, pattern: string): string {
+  if (photo.taken_at) {
+    return formatInTimeZone(parseISO(photo.taken_at), photo.taken_at_offset || 'UTC', pattern);
+  }
+  return format(parseISO(photo.upload_date), pattern);
+}
+
+/**
+ * Split photos (already sorted) into consecutive month groups
+ */
+export function groupPhotosByMonth<T extends DatedPhoto>(photos: T[]): PhotoMonthGroup<T>[] {
+  const groups: PhotoMonthGroup<T>[] = [];
+  for (const photo of photos) {
+    const key = formatPhotoDate(photo, 'yyyy-MM');
+    const last = groups[groups.length - 1];
+    if (last?.key === key) {
+      last.photos.push(photo);
+    } else {
+      groups.push({ key, label: formatPhotoDate(photo, 'MMMM yyyy'), photos: [photo] });
+    }
+  }
+  return groups;
+}
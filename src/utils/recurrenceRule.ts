@@ -0,0 +1,403 @@
+// utils/recurrenceRule.ts - RFC 5545 RRULE expansion for solar (Gregorian) recurrences
+/**
+ * Occurrences are resolved on local calendar days in the event's IANA
+ * timezone and only then converted to instants, so a 19:00 date stays at
+ * 19:00 on both sides of a DST change. Day arithmetic uses Julian Day
+ * Numbers like lunarCalendar.ts - no Date mutation involved.
+ *
+ * Supported rule parts: FREQ, INTERVAL, COUNT, UNTIL, BYDAY (with ordinals),
+ * BYMONTH, BYMONTHDAY, BYSETPOS, WKST and the RFC 7529 SKIP behaviour for
+ * dates that do not exist (Feb 29, day 31).
+ */
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { parseISO } from 'date-fns';
+import { jdFromDate, jdToDate, type SolarDate } from './lunarCalendar';
+import type { RecurrenceWeekday, RecurringEventConfig } from '../types/event';
+
+export type RecurrenceSkip = NonNullable<RecurringEventConfig['skip']>;
+
+interface NormalizedRule {
+  frequency: RecurringEventConfig['frequency'];
+  interval: number;
+  byDay?: RecurrenceWeekday[];
+  byMonth?: number[];
+  byMonthDay?: number[];
+  bySetPos?: number[];
+  weekStart: number;
+  skip: RecurrenceSkip;
+}
+
+const MAX_YEAR = 2100; // Same bound as EventValidator.MAX_DATE
+const DEFAULT_WEEK_START = 1; // RFC 5545 default WKST=MO
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+/**
+ * Day of week of a Julian Day Number (0 = Sunday)
+ */
+export function getWeekday(jd: number): number {
+  return (jd + 1) % 7;
+}
+
+function getDaysInMonth(year: number, month: number): number {
+  return month === 12
+    ? 31
+    : jdFromDate(1, month + 1, year) - jdFromDate(1, month, year);
+}
+
+/**
+ * True when the config uses RFC rule parts beyond the legacy
+ * days_of_week / day_of_month shorthands
+ */
+export function hasRuleParts(config: RecurringEventConfig): boolean {
+  return Boolean(
+    config.by_day?.length
+    || config.by_month?.length
+    || config.by_month_day?.length
+    || config.by_set_pos?.length
+  );
+}
+
+/**
+ * What to do with dates that do not exist in a month or year
+ * RFC 5545 drops them; configs saved before rule parts existed always clamped
+ * to the month end, so those keep doing that unless `skip` says otherwise
+ */
+export function getSkipMode(config: RecurringEventConfig): RecurrenceSkip {
+  if (config.skip) return config.skip;
+  return hasRuleParts(config) ? 'omit' : 'backward';
+}
+
+/**
+ * UNTIL bound as an instant - a bare date includes that whole day in the event's timezone
+ */
+export function resolveUntil(endDate: string, timezone: string): Date {
+  return /^\d{4}-\d{2}-\d{2}$/.test(endDate)
+    ? fromZonedTime(`${endDate}T23:59:59.999`, timezone)
+    : parseISO(endDate);
+}
+
+/**
+ * Whitelists the known keys of a client-sent rule and drops non-integer
+ * values - undefined when the frequency is not supported. Ranges are left
+ * to EventValidator.validateRecurringConfig
+ */
+export function sanitizeRecurringConfig(config: any): RecurringEventConfig | undefined {
+  const validFrequencies = ['daily', 'weekly', 'monthly', 'yearly'];
+  if (!config || typeof config !== 'object' || !validFrequencies.includes(config.frequency)) {
+    return undefined;
+  }
+
+  const sanitized: RecurringEventConfig = {
+    frequency: config.frequency,
+    interval: Number.isInteger(config.interval) ? config.interval : 1
+  };
+
+  if (typeof config.end_date === 'string' && config.end_date) {
+    sanitized.end_date = config.end_date;
+  }
+
+  if (Number.isInteger(config.max_occurrences)) {
+    sanitized.max_occurrences = config.max_occurrences;
+  }
+
+  if (Array.isArray(config.days_of_week)) {
+    sanitized.days_of_week = config.days_of_week.filter(
+      (day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6
+    );
+  }
+
+  if (Number.isInteger(config.day_of_month)) {
+    sanitized.day_of_month = config.day_of_month;
+  }
+
+  if (Array.isArray(config.by_day)) {
+    sanitized.by_day = config.by_day
+      .filter((day: any) => day && typeof day === 'object' && Number.isInteger(day.weekday))
+      .map((day: any) => ({
+        weekday: day.weekday,
+        ...(Number.isInteger(day.ordinal) && day.ordinal !== 0 && { ordinal: day.ordinal })
+      }));
+  }
+
+  (['by_month', 'by_month_day', 'by_set_pos'] as const).forEach(key => {
+    if (Array.isArray(config[key])) {
+      sanitized[key] = config[key].filter((value: unknown) => Number.isInteger(value));
+    }
+  });
+
+  if (Number.isInteger(config.week_start)) {
+    sanitized.week_start = config.week_start;
+  }
+
+  if (['omit', 'backward', 'forward'].includes(config.skip)) {
+    sanitized.skip = config.skip;
+  }
+
+  if (config.calendar_system === 'solar' || config.calendar_system === 'lunar') {
+    sanitized.calendar_system = config.calendar_system;
+  }
+
+  return sanitized;
+}
+
+/**
+ * Fills in the parts RFC 5545 derives from DTSTART when a rule leaves them out
+ */
+function normalizeRule(config: RecurringEventConfig, start: SolarDate, startJd: number): NormalizedRule {
+  const rule: NormalizedRule = {
+    frequency: config.frequency,
+    interval: Math.max(1, config.interval || 1),
+    byDay: config.by_day?.length
+      ? config.by_day
+      : config.days_of_week?.length ? config.days_of_week.map(weekday => ({ weekday })) : undefined,
+    byMonth: config.by_month?.length ? config.by_month : undefined,
+    byMonthDay: config.by_month_day?.length
+      ? config.by_month_day
+      : config.day_of_month ? [config.day_of_month] : undefined,
+    bySetPos: config.by_set_pos?.length ? config.by_set_pos : undefined,
+    weekStart: config.week_start ?? DEFAULT_WEEK_START,
+    skip: getSkipMode(config)
+  };
+
+  switch (rule.frequency) {
+    case 'weekly':
+      rule.byDay = rule.byDay || [{ weekday: getWeekday(startJd) }];
+      break;
+    case 'monthly':
+      if (!rule.byDay && !rule.byMonthDay) rule.byMonthDay = [start.day];
+      break;
+    case 'yearly':
+      if (!rule.byDay && !rule.byMonthDay) {
+        rule.byMonthDay = [start.day];
+        rule.byMonth = rule.byMonth || [start.month];
+      }
+      break;
+  }
+
+  return rule;
+}
+
+/**
+ * Resolves a BYMONTHDAY value (negative counts from the month end) to a JDN
+ * Days past the month end follow the skip mode
+ */
+function resolveMonthDay(year: number, month: number, monthDay: number, skip: RecurrenceSkip): number | null {
+  const daysInMonth = getDaysInMonth(year, month);
+
+  if (monthDay < 0) {
+    const day = daysInMonth + monthDay + 1;
+    return day >= 1 ? jdFromDate(day, month, year) : null;
+  }
+
+  if (monthDay <= daysInMonth) return jdFromDate(monthDay, month, year);
+  if (skip === 'backward') return jdFromDate(daysInMonth, month, year);
+  if (skip === 'forward') return jdFromDate(daysInMonth, month, year) + 1;
+  return null;
+}
+
+/**
+ * All days in [firstJd, lastJd] matching a BYDAY entry; an ordinal picks the
+ * n-th match (negative from the end)
+ */
+function expandWeekday(firstJd: number, lastJd: number, rule: RecurrenceWeekday): number[] {
+  const matches: number[] = [];
+  for (let jd = firstJd + ((rule.weekday - getWeekday(firstJd) + 7) % 7); jd <= lastJd; jd += 7) {
+    matches.push(jd);
+  }
+
+  if (!rule.ordinal) return matches;
+  const match = rule.ordinal > 0 ? matches[rule.ordinal - 1] : matches[matches.length + rule.ordinal];
+  return match === undefined ? [] : [match];
+}
+
+function matchesWeekday(jd: number, byDay?: RecurrenceWeekday[]): boolean {
+  return !byDay || byDay.some(day => day.weekday === getWeekday(jd));
+}
+
+function matchesMonth(jd: number, byMonth?: number[]): boolean {
+  return !byMonth || byMonth.includes(jdToDate(jd).month);
+}
+
+function expandMonth(rule: NormalizedRule, year: number, month: number): number[] {
+  if (rule.byMonthDay) {
+    // BYDAY only limits the set when BYMONTHDAY is present
+    return rule.byMonthDay
+      .map(monthDay => resolveMonthDay(year, month, monthDay, rule.skip))
+      .filter((jd): jd is number => jd !== null && matchesWeekday(jd, rule.byDay));
+  }
+
+  const firstJd = jdFromDate(1, month, year);
+  const lastJd = firstJd + getDaysInMonth(year, month) - 1;
+  return (rule.byDay || []).flatMap(day => expandWeekday(firstJd, lastJd, day));
+}
+
+/**
+ * Candidate days of the n-th period (day, week, month or year) before BYSETPOS
+ */
+function expandPeriod(rule: NormalizedRule, periodIndex: number, start: SolarDate, startJd: number): {
+  periodStart: number;
+  days: number[];
+} {
+  const step = periodIndex * rule.interval;
+
+  switch (rule.frequency) {
+    case 'daily': {
+      const jd = startJd + step;
+      const matches = matchesMonth(jd, rule.byMonth)
+        && matchesWeekday(jd, rule.byDay)
+        && (!rule.byMonthDay || rule.byMonthDay.some(monthDay => {
+          const { year, month } = jdToDate(jd);
+          return resolveMonthDay(year, month, monthDay, 'omit') === jd;
+        }));
+      return { periodStart: jd, days: matches ? [jd] : [] };
+    }
+
+    case 'weekly': {
+      const weekStartJd = startJd - ((getWeekday(startJd) - rule.weekStart + 7) % 7) + step * 7;
+      const days = Array.from({ length: 7 }, (_, offset) => weekStartJd + offset)
+        .filter(jd => matchesWeekday(jd, rule.byDay) && matchesMonth(jd, rule.byMonth));
+      return { periodStart: weekStartJd, days };
+    }
+
+    case 'monthly': {
+      const monthIndex = start.year * 12 + (start.month - 1) + step;
+      const year = Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      const days = !rule.byMonth || rule.byMonth.includes(month) ? expandMonth(rule, year, month) : [];
+      return { periodStart: jdFromDate(1, month, year), days };
+    }
+
+    case 'yearly': {
+      const year = start.year + step;
+      const periodStart = jdFromDate(1, 1, year);
+
+      if (rule.byMonth || rule.byMonthDay) {
+        const months = rule.byMonth || MONTH_NAMES.map((_, index) => index + 1);
+        return { periodStart, days: months.flatMap(month => expandMonth(rule, year, month)) };
+      }
+
+      // BYDAY alone in a yearly rule counts ordinals within the whole year
+      const lastJd = jdFromDate(31, 12, year);
+      return { periodStart, days: (rule.byDay || []).flatMap(day => expandWeekday(periodStart, lastJd, day)) };
+    }
+
+    default:
+      throw new Error(`Unsupported recurring frequency: ${rule.frequency}`);
+  }
+}
+
+function applySetPos(days: number[], bySetPos?: number[]): number[] {
+  const sorted = Array.from(new Set(days)).sort((a, b) => a - b);
+  if (!bySetPos) return sorted;
+
+  const picked = bySetPos
+    .map(position => (position > 0 ? sorted[position - 1] : sorted[sorted.length + position]))
+    .filter((jd): jd is number => jd !== undefined);
+  return Array.from(new Set(picked)).sort((a, b) => a - b);
+}
+
+/**
+ * Yields occurrence starts in order, beginning with DTSTART itself
+ * COUNT and UNTIL are left to the caller; the sequence stops at year 2100
+ */
+export function* iterateRecurrence(
+  config: RecurringEventConfig,
+  dtstart: Date,
+  timezone: string
+): Generator<Date> {
+  const [year, month, day] = formatInTimeZone(dtstart, timezone, 'yyyy-M-d').split('-').map(Number);
+  const localTime = formatInTimeZone(dtstart, timezone, 'HH:mm:ss.SSS');
+  const start: SolarDate = { year, month, day };
+  const startJd = jdFromDate(day, month, year);
+  const rule = normalizeRule(config, start, startJd);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  yield dtstart;
+
+  for (let periodIndex = 0; ; periodIndex++) {
+    const { periodStart, days } = expandPeriod(rule, periodIndex, start, startJd);
+    if (jdToDate(periodStart).year > MAX_YEAR) return;
+
+    for (const jd of applySetPos(days, rule.bySetPos)) {
+      // Candidates before DTSTART (earlier days of its week/month/year) are not occurrences
+      if (jd <= startJd) continue;
+
+      const date = jdToDate(jd);
+      yield fromZonedTime(`${date.year}-${pad(date.month)}-${pad(date.day)}T${localTime}`, timezone);
+    }
+  }
+}
+
+/**
+ * Whether a monthly/yearly rule can land on a day that some months lack,
+ * i.e. whether its skip mode changes anything
+ */
+export function canHitMissingDay(config: RecurringEventConfig, dtstart: Date, timezone: string): boolean {
+  if (config.frequency !== 'monthly' && config.frequency !== 'yearly') return false;
+
+  const [year, month, day] = formatInTimeZone(dtstart, timezone, 'yyyy-M-d').split('-').map(Number);
+  const rule = normalizeRule(config, { year, month, day }, jdFromDate(day, month, year));
+  return (rule.byMonthDay || []).some(monthDay => monthDay > 28);
+}
+
+function formatOrdinal(ordinal: number): string {
+  if (ordinal === -1) return 'last';
+  if (ordinal < 0) return `${formatOrdinal(-ordinal)} to last`;
+  const names = ['first', 'second', 'third', 'fourth', 'fifth'];
+  if (ordinal <= names.length) return names[ordinal - 1];
+
+  const suffix = ordinal % 10 === 1 && ordinal !== 11 ? 'st'
+    : ordinal % 10 === 2 && ordinal !== 12 ? 'nd'
+    : ordinal % 10 === 3 && ordinal !== 13 ? 'rd'
+    : 'th';
+  return `${ordinal}${suffix}`;
+}
+
+function formatMonthDay(monthDay: number): string {
+  if (monthDay === -1) return 'the last day';
+  if (monthDay < 0) return `the ${formatOrdinal(-monthDay)} to last day`;
+  return `day ${monthDay}`;
+}
+
+/**
+ * Human-readable summary, e.g. "Every month on the second Saturday"
+ */
+export function describeRecurrence(config: RecurringEventConfig): string {
+  const units = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' };
+  const unit = units[config.frequency];
+  const interval = Math.max(1, config.interval || 1);
+  const parts = [interval === 1 ? `Every ${unit}` : interval === 2 ? `Every other ${unit}` : `Every ${interval} ${unit}s`];
+
+  const byDay: RecurrenceWeekday[] | undefined = config.by_day?.length
+    ? config.by_day
+    : config.days_of_week?.map(weekday => ({ weekday }));
+  const byMonthDay = config.by_month_day?.length
+    ? config.by_month_day
+    : config.day_of_month ? [config.day_of_month] : undefined;
+
+  if (byDay?.length) {
+    const days = byDay.map(day => (
+      day.ordinal ? `the ${formatOrdinal(day.ordinal)} ${WEEKDAY_NAMES[day.weekday]}` : WEEKDAY_NAMES[day.weekday]
+    ));
+    parts.push(`on ${days.join(', ')}`);
+  }
+
+  if (byMonthDay?.length) {
+    parts.push(`${byDay?.length ? 'falling on' : 'on'} ${byMonthDay.map(formatMonthDay).join(', ')}`);
+  }
+
+  if (config.by_month?.length) {
+    parts.push(`in ${config.by_month.map(month => MONTH_NAMES[month - 1]).join(', ')}`);
+  }
+
+  if (config.by_set_pos?.length) {
+    parts.push(`(${config.by_set_pos.map(formatOrdinal).join(', ')} match only)`);
+  }
+
+  return parts.join(' ').replace(/\s+/g, ' ');
+}
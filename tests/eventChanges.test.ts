@@ -0,0 +1,61 @@
+// tests/eventChanges.test.ts - Change detection behind event versions (If-Match)
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { EventMergeUtils } from '../src/utils/eventUtils';
+
+// An events row as node-postgres returns it: Date column, JSONB with its own key order
+const storedRow: Record<string, unknown> = {
+  title: 'Anniversary dinner',
+  date: new Date('2026-03-14T19:00:00.000Z'),
+  description: null,
+  location: 'Hanoi',
+  is_recurring: true,
+  recurring_config: { interval: 1, by_day: [{ ordinal: 2, weekday: 6 }], frequency: 'monthly' },
+  category: 'date',
+  priority: 'high',
+  timezone: 'Asia/Ho_Chi_Minh',
+  is_all_day: false,
+  reminder_minutes: 60,
+};
+
+// The same event as the edit form saves it without touching anything
+const unchangedSave: Record<string, unknown> = {
+  title: 'Anniversary dinner',
+  date: '2026-03-14T19:00:00.000Z',
+  description: '',
+  location: 'Hanoi',
+  is_recurring: true,
+  recurring_config: { frequency: 'monthly', interval: 1, by_day: [{ weekday: 6, ordinal: 2 }] },
+  category: 'date',
+  priority: 'high',
+  timezone: 'Asia/Ho_Chi_Minh',
+  is_all_day: false,
+  reminder_minutes: 60,
+};
+
+const changedFields = (stored: Record<string, unknown>, save: Record<string, unknown>) =>
+  Object.keys(save).filter(field => !EventMergeUtils.isSameValue(field, stored[field], save[field]));
+
+test('an unchanged save changes no field, so the version stays and a second If-Match save is not a 409', () => {
+  assert.deepEqual(changedFields(storedRow, unchangedSave), []);
+  // Saving the same form again compares against the same row and version
+  assert.deepEqual(changedFields(storedRow, { ...unchangedSave }), []);
+});
+
+test('real edits still count as changes', () => {
+  assert.deepEqual(
+    changedFields(storedRow, {
+      ...unchangedSave,
+      date: '2026-03-14T20:00:00.000Z',
+      description: 'Table by the window',
+      recurring_config: { frequency: 'monthly', interval: 2, by_day: [{ weekday: 6, ordinal: 2 }] },
+    }),
+    ['date', 'description', 'recurring_config']
+  );
+});
+
+test('clearing a field is a change, an empty field next to NULL is not', () => {
+  assert.equal(EventMergeUtils.isSameValue('location', 'Hanoi', ''), false);
+  assert.equal(EventMergeUtils.isSameValue('location', null, ''), true);
+  assert.equal(EventMergeUtils.isSameValue('recurring_config', null, undefined), true);
+});
@@ -0,0 +1,143 @@
+// tests/exif.test.ts - Reading photo metadata and removing the location from uploads
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { extractPhotoMetadata, removeGpsMetadata } from '../src/lib/exif';
+
+const HANOI = { latitude: 21.0280556, longitude: 105.85 };
+
+const XMP_PACKET = [
+  '<?xpacket begin="" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+  '<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:exif="http://ns.adobe.com/exif/1.0/"',
+  ' xmp:CreateDate="2023-06-14T18:30:05+07:00" exif:GPSLatitude="21,1.68N" exif:GPSLongitude="105,51.0E">',
+  '<exif:GPSAltitude>12/1</exif:GPSAltitude>',
+  '</rdf:Description></rdf:RDF></x:xmpmeta>',
+  '<?xpacket end="w"?>'
+].join('');
+
+// PNG chunk checksum (ISO 3309 CRC-32)
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// A photo straight off a phone: camera, capture time and where it was taken
+const photoWithGps = () => sharp({ create: { width: 8, height: 6, channels: 3, background: '#c33' } })
+  .jpeg()
+  .withExif({
+    IFD0: { Make: 'Canon', Model: 'EOS R6' },
+    IFD2: { DateTimeOriginal: '2023:06:14 18:30:05', OffsetTimeOriginal: '+07:00' },
+    IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '21/1 1/1 41/1', GPSLongitudeRef: 'E', GPSLongitude: '105/1 51/1 0/1' }
+  })
+  .toBuffer();
+
+// Inserts an APP1 segment right after the JPEG start-of-image marker
+function withApp1(jpeg: Buffer, payload: Buffer): Buffer {
+  const header = Buffer.from([0xff, 0xe1, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([jpeg.subarray(0, 2), header, payload, jpeg.subarray(2)]);
+}
+
+test('reads camera, capture time and location from EXIF', async () => {
+  const metadata = await extractPhotoMetadata(await photoWithGps());
+
+  assert.equal(metadata.camera_make, 'Canon');
+  assert.equal(metadata.camera_model, 'EOS R6');
+  assert.equal(metadata.taken_at, '2023-06-14T11:30:05.000Z');
+  assert.equal(metadata.taken_at_offset, '+07:00');
+  assert.equal(metadata.latitude, HANOI.latitude);
+  assert.equal(metadata.longitude, HANOI.longitude);
+});
+
+test('reports the displayed size of rotated photos', async () => {
+  const portrait = await sharp({ create: { width: 8, height: 6, channels: 3, background: '#c33' } })
+    .jpeg()
+    .withMetadata({ orientation: 6 })
+    .toBuffer();
+  const metadata = await extractPhotoMetadata(portrait);
+
+  assert.equal(metadata.orientation, 6);
+  assert.equal(metadata.width, 6);
+  assert.equal(metadata.height, 8);
+});
+
+test('reads a capture time without offset as the camera clock in UTC', async () => {
+  const photo = await sharp({ create: { width: 4, height: 4, channels: 3, background: '#3c3' } })
+    .webp()
+    .withExif({ IFD0: { DateTime: '2024:02:10 00:15:00' } })
+    .toBuffer();
+  const metadata = await extractPhotoMetadata(photo);
+
+  assert.equal(metadata.taken_at, '2024-02-10T00:15:00.000Z');
+  assert.equal(metadata.taken_at_offset, undefined);
+});
+
+test('an image without EXIF only yields its dimensions', async () => {
+  const plain = await sharp({ create: { width: 5, height: 3, channels: 3, background: '#33c' } }).png().toBuffer();
+  assert.deepEqual(await extractPhotoMetadata(plain), { width: 5, height: 3 });
+});
+
+test('removes EXIF GPS in place and keeps every other tag', async () => {
+  const original = await photoWithGps();
+  const stripped = await removeGpsMetadata(original);
+  const metadata = await extractPhotoMetadata(stripped);
+
+  assert.equal(stripped.length, original.length);
+  assert.equal(metadata.latitude, undefined);
+  assert.equal(metadata.longitude, undefined);
+  assert.equal(metadata.camera_make, 'Canon');
+  assert.equal(metadata.taken_at, '2023-06-14T11:30:05.000Z');
+  assert.equal((await sharp(stripped).metadata()).width, 8);
+  // The upload itself is left untouched
+  assert.equal((await extractPhotoMetadata(original)).latitude, HANOI.latitude);
+});
+
+test('removes GPS properties from XMP', async () => {
+  const original = withApp1(await photoWithGps(), Buffer.from(`http://ns.adobe.com/xap/1.0/\0${XMP_PACKET}`, 'latin1'));
+  const stripped = await removeGpsMetadata(original);
+  const xml = stripped.toString('latin1');
+
+  assert.equal(stripped.length, original.length);
+  assert.doesNotMatch(xml, /GPS|21,1\.68N|105,51\.0E/);
+  assert.match(xml, /xmp:CreateDate="2023-06-14T18:30:05\+07:00"/);
+  assert.equal((await sharp(stripped).metadata()).format, 'jpeg');
+});
+
+test('keeps the PNG chunk checksum valid after removing XMP GPS', async () => {
+  const png = await sharp({ create: { width: 4, height: 4, channels: 3, background: '#3c3' } }).png().toBuffer();
+  const text = Buffer.from(`XML:com.adobe.xmp\0\0\0\0\0${XMP_PACKET}`, 'latin1');
+  const chunk = Buffer.alloc(12 + text.length);
+  chunk.writeUInt32BE(text.length, 0);
+  chunk.write('iTXt', 4, 'latin1');
+  text.copy(chunk, 8);
+  chunk.writeUInt32BE(0, 8 + text.length);
+  // Insert after IHDR (8-byte signature + 25-byte chunk)
+  const withXmp = Buffer.concat([png.subarray(0, 33), chunk, png.subarray(33)]);
+
+  const stripped = await removeGpsMetadata(withXmp);
+  assert.doesNotMatch(stripped.toString('latin1'), /GPS/);
+  assert.equal(stripped.readUInt32BE(41 + text.length), crc32(stripped.subarray(37, 41 + text.length)));
+  assert.equal((await sharp(stripped).metadata()).format, 'png');
+});
+
+test('re-encodes without metadata when the EXIF block cannot be parsed', async () => {
+  const plain = await sharp({ create: { width: 8, height: 6, channels: 3, background: '#33c' } }).jpeg().toBuffer();
+  const malformed = withApp1(plain, Buffer.from('Exif\0\0XX\0*garbage that is not a TIFF header', 'latin1'));
+
+  const stripped = await removeGpsMetadata(malformed);
+  const metadata = await sharp(stripped).metadata();
+
+  assert.equal(metadata.format, 'jpeg');
+  assert.equal(metadata.exif, undefined);
+  assert.doesNotMatch(stripped.toString('latin1'), /garbage/);
+});
+
+test('rejects an image it can neither edit nor decode instead of keeping the location', async () => {
+  const broken = withApp1(Buffer.from([0xff, 0xd8, 0xff, 0xd9]), Buffer.from('Exif\0\0MM\0*\0\0\xff\xff', 'latin1'));
+  await assert.rejects(removeGpsMetadata(broken));
+});
@@ -0,0 +1,137 @@
+// tests/icalendar.test.ts - iCalendar export and import (RFC 5545)
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildCalendar, parseIcsEvents } from '../src/utils/icalendar';
+import type { EnhancedEvent } from '../src/types/event';
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+// 19:00 UTC on the 14th is already 02:00 on the 15th in Hanoi
+const monthlyDinner = {
+  id: 7,
+  title: 'Anniversary dinner',
+  date: '2026-03-14T19:00:00.000Z',
+  is_recurring: true,
+  recurring_config: { frequency: 'monthly', interval: 1, day_of_month: 15 },
+  category: 'anniversary',
+  priority: 'high',
+  timezone: 'Asia/Ho_Chi_Minh',
+  is_all_day: false,
+  exceptions: [
+    { occurrence_index: 1, original_date: '2026-04-14T19:00:00.000Z', is_cancelled: true },
+    { occurrence_index: 2, original_date: '2026-05-14T19:00:00.000Z', date: '2026-05-15T12:00:00.000Z', is_cancelled: false }
+  ]
+} as unknown as EnhancedEvent;
+
+test('recurring timed events start in their own zone so BYMONTHDAY expands on local days', () => {
+  const lines = unfold(buildCalendar([monthlyDinner]));
+
+  assert.ok(lines.includes('DTSTART;TZID=Asia/Ho_Chi_Minh:20260315T020000'));
+  assert.ok(lines.includes('DTEND;TZID=Asia/Ho_Chi_Minh:20260315T030000'));
+  assert.ok(lines.includes('RRULE:FREQ=MONTHLY;BYMONTHDAY=15'));
+  assert.ok(lines.includes('EXDATE;TZID=Asia/Ho_Chi_Minh:20260415T020000'));
+  assert.ok(lines.includes('RECURRENCE-ID;TZID=Asia/Ho_Chi_Minh:20260515T020000'));
+  assert.ok(lines.includes('DTSTART;TZID=Asia/Ho_Chi_Minh:20260515T190000'));
+  assert.equal(lines.filter(line => /^(DTSTART|DTEND|EXDATE|RECURRENCE-ID)[:;].*Z$/.test(line)).length, 0);
+
+  const zone = lines.slice(lines.indexOf('BEGIN:VTIMEZONE'), lines.indexOf('END:VTIMEZONE') + 1);
+  assert.deepEqual(zone, [
+    'BEGIN:VTIMEZONE',
+    'TZID:Asia/Ho_Chi_Minh',
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    'TZOFFSETFROM:+0700',
+    'TZOFFSETTO:+0700',
+    'END:STANDARD',
+    'END:VTIMEZONE'
+  ]);
+});
+
+test('the VTIMEZONE of a zone with daylight saving carries its offset changes', () => {
+  const weeklyCall = {
+    ...monthlyDinner,
+    id: 8,
+    date: '2026-03-02T17:30:00.000Z',
+    recurring_config: { frequency: 'weekly', interval: 1, days_of_week: [1] },
+    timezone: 'America/New_York',
+    exceptions: [{ occurrence_index: 2, original_date: '2026-03-16T16:30:00.000Z', is_cancelled: true }]
+  } as unknown as EnhancedEvent;
+  const lines = unfold(buildCalendar([weeklyCall]));
+
+  // Same wall-clock time before and after the March change
+  assert.ok(lines.includes('DTSTART;TZID=America/New_York:20260302T123000'));
+  assert.ok(lines.includes('EXDATE;TZID=America/New_York:20260316T123000'));
+
+  const daylight = lines.slice(lines.indexOf('BEGIN:DAYLIGHT'), lines.indexOf('END:DAYLIGHT'));
+  assert.ok(daylight.includes('RDATE:20260308T020000'));
+  assert.ok(daylight.includes('TZOFFSETFROM:-0500'));
+  assert.ok(daylight.includes('TZOFFSETTO:-0400'));
+
+  const standard = lines.slice(lines.indexOf('BEGIN:STANDARD'), lines.indexOf('END:STANDARD'));
+  assert.ok(standard.includes('RDATE:20261101T020000'));
+  assert.ok(standard.includes('TZOFFSETFROM:-0400'));
+});
+
+test('all-day and UTC events need no VTIMEZONE', () => {
+  const ics = buildCalendar([
+    { ...monthlyDinner, is_all_day: true },
+    { ...monthlyDinner, id: 9, timezone: 'UTC', exceptions: [] }
+  ] as EnhancedEvent[]);
+
+  assert.ok(!ics.includes('BEGIN:VTIMEZONE'));
+  assert.ok(unfold(ics).includes('DTSTART;VALUE=DATE:20260315'));
+  assert.ok(unfold(ics).includes('DTSTART:20260314T190000Z'));
+});
+
+test('an exported series imports back as the same event, exceptions included', () => {
+  const [candidate, ...rest] = parseIcsEvents(buildCalendar([{ ...monthlyDinner, location: 'Hà Nội; Phố cổ' }]));
+
+  assert.equal(rest.length, 0);
+  assert.equal(candidate.uid, 'event-7@couple-love-story');
+  assert.deepEqual(candidate.unsupported, []);
+  assert.equal(candidate.data.date, monthlyDinner.date);
+  assert.equal(candidate.data.timezone, 'Asia/Ho_Chi_Minh');
+  assert.equal(candidate.data.location, 'Hà Nội; Phố cổ');
+  assert.deepEqual(candidate.data.recurring_config, { frequency: 'monthly', interval: 1, by_month_day: [15], skip: 'omit' });
+
+  const [cancelled, moved] = [...candidate.exceptions].sort((a, b) => a.occurrence_index - b.occurrence_index);
+  assert.deepEqual(
+    [cancelled.occurrence_index, cancelled.original_date, cancelled.is_cancelled],
+    [1, '2026-04-14T19:00:00.000Z', true]
+  );
+  assert.deepEqual(
+    [moved.occurrence_index, moved.original_date, moved.is_cancelled, moved.date],
+    [2, '2026-05-14T19:00:00.000Z', false, '2026-05-15T12:00:00.000Z']
+  );
+});
+
+test('imports TZID times from other calendars, including BYSETPOS rules and their EXDATEs', () => {
+  const ics = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Example Corp//Calendar//EN',
+    'BEGIN:VTIMEZONE',
+    'TZID:Europe/Berlin',
+    'END:VTIMEZONE',
+    'BEGIN:VEVENT',
+    'UID:payday@example.com',
+    'DTSTART;TZID=Europe/Berlin:20260930T180000',
+    'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3',
+    'EXDATE;TZID=Europe/Berlin:20261030T180000',
+    'SUMMARY:Payday drinks',
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ].join('\r\n');
+
+  const [candidate] = parseIcsEvents(ics, 'Asia/Ho_Chi_Minh');
+
+  // Summer time in Berlin
+  assert.equal(candidate.data.date, '2026-09-30T16:00:00.000Z');
+  assert.equal(candidate.data.timezone, 'Europe/Berlin');
+  assert.deepEqual(candidate.data.recurring_config?.by_set_pos, [-1]);
+  assert.equal(candidate.data.recurring_config?.max_occurrences, 3);
+  // October 30th is after the change back, so the EXDATE is an hour later in UTC
+  assert.deepEqual(candidate.exceptions, [
+    { occurrence_index: 1, original_date: '2026-10-30T17:00:00.000Z', is_cancelled: true }
+  ]);
+});
@@ -0,0 +1,56 @@
+// tests/lunarCalendar.test.ts - Vietnamese lunar calendar conversion and lunar anniversaries
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { formatLunarDate, lunarToSolar, resolveLunarAnniversary, solarToLunar } from '../src/utils/lunarCalendar';
+import { RecurringEventCalculator } from '../src/utils/eventUtils';
+import type { EnhancedEvent } from '../src/types/event';
+
+test('finds Tết and other fixed lunar dates', () => {
+  assert.deepEqual(solarToLunar(10, 2, 2024), { day: 1, month: 1, year: 2024, leap: false });
+  assert.deepEqual(solarToLunar(17, 9, 2024), { day: 15, month: 8, year: 2024, leap: false });
+  // Vietnam (UTC+7) celebrated Tết 1985 a month before China (UTC+8)
+  assert.deepEqual(solarToLunar(21, 1, 1985), { day: 1, month: 1, year: 1985, leap: false });
+});
+
+test('recognizes leap months', () => {
+  assert.deepEqual(solarToLunar(22, 3, 2023), { day: 1, month: 2, year: 2023, leap: true });
+  assert.deepEqual(solarToLunar(23, 5, 2020), { day: 1, month: 4, year: 2020, leap: true });
+  assert.deepEqual(solarToLunar(25, 7, 2025), { day: 1, month: 6, year: 2025, leap: true });
+});
+
+test('converts lunar dates back, and refuses dates that do not exist', () => {
+  assert.deepEqual(lunarToSolar({ day: 1, month: 4, year: 2020, leap: true }), { day: 23, month: 5, year: 2020 });
+  assert.deepEqual(lunarToSolar({ day: 1, month: 1, year: 2024, leap: false }), { day: 10, month: 2, year: 2024 });
+  // 2021 has no leap 4th month, and the first month of 2024 has 29 days
+  assert.equal(lunarToSolar({ day: 1, month: 4, year: 2021, leap: true }), null);
+  assert.equal(lunarToSolar({ day: 30, month: 1, year: 2024, leap: false }), null);
+});
+
+test('a leap-month anniversary falls back to the regular month in other years', () => {
+  const anchor = { day: 10, month: 4, year: 2020, leap: true };
+  assert.deepEqual(resolveLunarAnniversary(anchor, 2021), { day: 21, month: 5, year: 2021 });
+
+  // The giỗ of someone who died on 10/4 nhuận 2020, observed in Hanoi
+  const event = {
+    id: 1,
+    title: 'Giỗ ông',
+    date: '2020-05-31T17:00:00.000Z',
+    is_recurring: true,
+    recurring_config: { frequency: 'yearly', interval: 1, calendar_system: 'lunar' },
+    category: 'other',
+    priority: 'high',
+    timezone: 'Asia/Ho_Chi_Minh',
+    is_all_day: true
+  } as EnhancedEvent;
+  assert.deepEqual(
+    RecurringEventCalculator
+      .calculateOccurrences(event, new Date('2020-01-01T00:00:00.000Z'), new Date('2024-01-01T00:00:00.000Z'))
+      .map(occurrence => occurrence.date),
+    ['2020-05-31T17:00:00Z', '2021-05-20T17:00:00Z', '2022-05-09T17:00:00Z', '2023-05-27T17:00:00Z']
+  );
+});
+
+test('formats lunar dates the Vietnamese way', () => {
+  assert.equal(formatLunarDate({ day: 1, month: 4, year: 2020, leap: true }), '1/4 nhuận ÂL');
+  assert.equal(formatLunarDate({ day: 15, month: 8, year: 2024, leap: false }, { showYear: true }), '15/8 năm Giáp Thìn (ÂL)');
+});
@@ -0,0 +1,132 @@
+// tests/recurrenceRule.test.ts - RRULE expansion and the occurrence calculator built on it
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { describeRecurrence, iterateRecurrence } from '../src/utils/recurrenceRule';
+import { RecurringEventCalculator } from '../src/utils/eventUtils';
+import type { EnhancedEvent, RecurringEventConfig } from '../src/types/event';
+
+const WEEKDAYS = [1, 2, 3, 4, 5].map(weekday => ({ weekday }));
+
+function firstOccurrences(config: Partial<RecurringEventConfig>, dtstart: string, timezone: string, count: number): string[] {
+  const dates: string[] = [];
+  for (const date of iterateRecurrence({ interval: 1, ...config } as RecurringEventConfig, new Date(dtstart), timezone)) {
+    dates.push(date.toISOString());
+    if (dates.length === count) break;
+  }
+  return dates;
+}
+
+const recurringEvent = (date: string, timezone: string, recurring_config: Partial<RecurringEventConfig>) => ({
+  id: 1,
+  title: 'Date night',
+  date,
+  is_recurring: true,
+  recurring_config: { interval: 1, ...recurring_config },
+  category: 'date',
+  priority: 'medium',
+  timezone,
+  is_all_day: false
+} as EnhancedEvent);
+
+test('BYSETPOS keeps the n-th matching day of each month', () => {
+  // Last weekday of the month, in Hanoi
+  assert.deepEqual(
+    firstOccurrences({ frequency: 'monthly', by_day: WEEKDAYS, by_set_pos: [-1] }, '2026-01-30T02:00:00.000Z', 'Asia/Ho_Chi_Minh', 4),
+    ['2026-01-30T02:00:00.000Z', '2026-02-27T02:00:00.000Z', '2026-03-31T02:00:00.000Z', '2026-04-30T02:00:00.000Z']
+  );
+  // First and last weekday
+  assert.deepEqual(
+    firstOccurrences({ frequency: 'monthly', by_day: WEEKDAYS, by_set_pos: [1, -1] }, '2026-05-01T12:00:00.000Z', 'UTC', 4),
+    ['2026-05-01T12:00:00.000Z', '2026-05-29T12:00:00.000Z', '2026-06-01T12:00:00.000Z', '2026-06-30T12:00:00.000Z']
+  );
+});
+
+test('ordinal weekdays pick the n-th weekday of the month', () => {
+  assert.deepEqual(
+    firstOccurrences({ frequency: 'monthly', by_day: [{ ordinal: 2, weekday: 6 }] }, '2026-01-10T12:00:00.000Z', 'UTC', 4),
+    ['2026-01-10T12:00:00.000Z', '2026-02-14T12:00:00.000Z', '2026-03-14T12:00:00.000Z', '2026-04-11T12:00:00.000Z']
+  );
+});
+
+test('occurrences keep their wall-clock time across daylight saving changes', () => {
+  // 12:30 in New York is 17:30 UTC in winter and 16:30 UTC in summer
+  assert.deepEqual(
+    firstOccurrences({ frequency: 'weekly', days_of_week: [1] }, '2026-03-02T17:30:00.000Z', 'America/New_York', 3),
+    ['2026-03-02T17:30:00.000Z', '2026-03-09T16:30:00.000Z', '2026-03-16T16:30:00.000Z']
+  );
+  assert.deepEqual(
+    firstOccurrences({ frequency: 'weekly', days_of_week: [1] }, '2026-10-26T16:30:00.000Z', 'America/New_York', 3),
+    ['2026-10-26T16:30:00.000Z', '2026-11-02T17:30:00.000Z', '2026-11-09T17:30:00.000Z']
+  );
+});
+
+test('SKIP decides what happens to the 31st in shorter months', () => {
+  const dtstart = '2026-01-31T12:00:00.000Z';
+  const monthly = { frequency: 'monthly' as const, day_of_month: 31 };
+
+  assert.deepEqual(
+    firstOccurrences({ ...monthly, skip: 'omit' }, dtstart, 'UTC', 3),
+    ['2026-01-31T12:00:00.000Z', '2026-03-31T12:00:00.000Z', '2026-05-31T12:00:00.000Z']
+  );
+  assert.deepEqual(
+    firstOccurrences({ ...monthly, skip: 'backward' }, dtstart, 'UTC', 3),
+    ['2026-01-31T12:00:00.000Z', '2026-02-28T12:00:00.000Z', '2026-03-31T12:00:00.000Z']
+  );
+  assert.deepEqual(
+    firstOccurrences({ ...monthly, skip: 'forward' }, dtstart, 'UTC', 3),
+    ['2026-01-31T12:00:00.000Z', '2026-03-01T12:00:00.000Z', '2026-03-31T12:00:00.000Z']
+  );
+});
+
+test('the calculator stops at COUNT and at the inclusive UNTIL date', () => {
+  const range = [new Date('2026-01-01T00:00:00.000Z'), new Date('2027-01-01T00:00:00.000Z')] as const;
+
+  const counted = recurringEvent('2026-03-02T17:30:00.000Z', 'America/New_York', {
+    frequency: 'weekly', days_of_week: [1], max_occurrences: 3
+  });
+  assert.deepEqual(
+    RecurringEventCalculator.calculateOccurrences(counted, ...range).map(occurrence => occurrence.date),
+    ['2026-03-02T17:30:00Z', '2026-03-09T16:30:00Z', '2026-03-16T16:30:00Z']
+  );
+
+  const untilLastWeekday = recurringEvent('2026-01-30T02:00:00.000Z', 'Asia/Ho_Chi_Minh', {
+    frequency: 'monthly', by_day: WEEKDAYS, by_set_pos: [-1], end_date: '2026-03-31'
+  });
+  assert.deepEqual(
+    RecurringEventCalculator.calculateOccurrences(untilLastWeekday, ...range).map(occurrence => occurrence.date),
+    ['2026-01-30T02:00:00Z', '2026-02-27T02:00:00Z', '2026-03-31T02:00:00Z']
+  );
+});
+
+test('occurrence indexes and dates convert both ways, exceptions included', () => {
+  const event = {
+    ...recurringEvent('2026-03-02T17:30:00.000Z', 'America/New_York', { frequency: 'weekly', days_of_week: [1] }),
+    exceptions: [
+      { occurrence_index: 1, original_date: '2026-03-09T16:30:00.000Z', is_cancelled: true },
+      { occurrence_index: 2, original_date: '2026-03-16T16:30:00.000Z', date: '2026-03-17T23:00:00.000Z', is_cancelled: false }
+    ]
+  };
+
+  assert.equal(RecurringEventCalculator.getOccurrenceDate(event, 2)?.toISOString(), '2026-03-16T16:30:00.000Z');
+  assert.equal(RecurringEventCalculator.findOccurrenceIndex(event, new Date('2026-03-16T16:30:00.000Z')), 2);
+  assert.equal(RecurringEventCalculator.findOccurrenceIndex(event, new Date('2026-03-16T17:30:00.000Z')), null);
+
+  const occurrences = RecurringEventCalculator.calculateOccurrences(
+    event, new Date('2026-03-01T00:00:00.000Z'), new Date('2026-03-24T00:00:00.000Z')
+  );
+  assert.deepEqual(
+    occurrences.map(occurrence => [occurrence.occurrence_index, occurrence.date]),
+    [[0, '2026-03-02T17:30:00Z'], [2, '2026-03-17T23:00:00Z'], [3, '2026-03-23T16:30:00Z']]
+  );
+});
+
+test('describes rules in words', () => {
+  assert.equal(
+    describeRecurrence({ frequency: 'monthly', interval: 1, by_day: [{ ordinal: 2, weekday: 6 }] }),
+    'Every month on the second Saturday'
+  );
+  assert.equal(
+    describeRecurrence({ frequency: 'monthly', interval: 1, by_day: WEEKDAYS, by_set_pos: [-1] }),
+    'Every month on Monday, Tuesday, Wednesday, Thursday, Friday (last match only)'
+  );
+});